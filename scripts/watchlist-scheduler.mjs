@@ -0,0 +1,45 @@
+/**
+ * Watchlist Scheduler
+ * Ticks the running app's /api/watchlist/run endpoint so watched niches and channels are re-analyzed on their cadence.
+ *
+ *   npm run scheduler            # tick every WATCHLIST_TICK_MINUTES (default 15)
+ *   npm run scheduler -- --once  # single tick, for cron
+ */
+
+const BASE_URL = process.env.WATCHLIST_BASE_URL || 'http://localhost:3000';
+const TICK_MINUTES = parseFloat(process.env.WATCHLIST_TICK_MINUTES || '15');
+const once = process.argv.includes('--once');
+
+async function tick() {
+    const startedAt = new Date().toISOString();
+    try {
+        const response = await fetch(`${BASE_URL}/api/watchlist/run`, { method: 'POST' });
+        const body = await response.json();
+
+        if (!response.ok) {
+            console.error(`[${startedAt}] run failed: ${body.error || response.status}`);
+            return;
+        }
+
+        for (const run of body.ran) {
+            console.log(`[${startedAt}] ${run.status.padEnd(5)} ${run.tool} "${run.target}" (${run.quotaUnits} units)`);
+        }
+        for (const job of body.deferred) {
+            console.log(`[${startedAt}] defer ${job.tool} "${job.target}": ${job.reason}`);
+        }
+        console.log(`[${startedAt}] ${body.ran.length} ran, ${body.deferred.length} deferred, ${body.remainingDue} still due; quota ${body.quota.dailyUnitsUsed}/${body.quota.dailyBudget}`);
+    } catch (error) {
+        console.error(`[${startedAt}] could not reach ${BASE_URL}: ${error.message}`);
+    }
+}
+
+if (once) {
+    await tick();
+} else {
+    console.log(`Watchlist scheduler: ticking ${BASE_URL} every ${TICK_MINUTES} min (Ctrl+C to stop)`);
+    // Sequential rather than setInterval so a slow tick never overlaps the next one
+    for (;;) {
+        await tick();
+        await new Promise(resolve => setTimeout(resolve, TICK_MINUTES * 60 * 1000));
+    }
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import axios from 'axios';
+import {
+    ArrowLeft,
+    Bell,
+    Check,
+    CheckCheck,
+    AlertCircle
+} from 'lucide-react';
+
+interface Alert {
+    id: string;
+    ruleName: string;
+    target: string;
+    tool: string;
+    message: string;
+    createdAt: string;
+    read: boolean;
+    webhook: 'sent' | 'failed' | 'disabled';
+}
+
+interface AlertRule {
+    id: string;
+    name: string;
+    tool: string;
+    entryId: string | null;
+    enabled: boolean;
+}
+
+function formatTime(iso: string): string {
+    return new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+export default function AlertsPage() {
+    const [alerts, setAlerts] = useState<Alert[]>([]);
+    const [rules, setRules] = useState<AlertRule[]>([]);
+    const [unread, setUnread] = useState(0);
+    const [unreadOnly, setUnreadOnly] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const load = async (onlyUnread: boolean) => {
+        setLoading(true);
+        setError(null);
+        try {
+            const [inbox, ruleList] = await Promise.all([
+                axios.get('/api/alerts', { params: { unread: onlyUnread } }),
+                axios.get('/api/alerts/rules')
+            ]);
+            setAlerts(inbox.data.alerts);
+            setUnread(inbox.data.unread);
+            setRules(ruleList.data.rules);
+        } catch {
+            setError('Could not load alerts');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        load(unreadOnly);
+    }, [unreadOnly]);
+
+    const markRead = async (ids?: string[]) => {
+        try {
+            await axios.patch('/api/alerts', ids ? { ids } : {});
+            await load(unreadOnly);
+        } catch {
+            setError('Could not update alerts');
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-neutral-950 text-white">
+            {/* Navigation */}
+            <nav className="border-b border-neutral-800">
+                <div className="max-w-5xl mx-auto px-6 py-4 flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                        <div className="w-8 h-8 rounded-lg bg-neutral-800 flex items-center justify-center">
+                            <Bell className="w-4 h-4 text-neutral-400" strokeWidth={1.5} />
+                        </div>
+                        <span className="font-medium">Alerts</span>
+                        {unread > 0 && (
+                            <span className="px-2 py-0.5 text-xs rounded-full bg-violet-500/20 text-violet-300">{unread} unread</span>
+                        )}
+                    </div>
+                    <Link href="/" className="flex items-center gap-2 text-sm text-neutral-500 hover:text-white transition-colors">
+                        <ArrowLeft className="w-4 h-4" strokeWidth={1.5} />
+                        Back
+                    </Link>
+                </div>
+            </nav>
+
+            <div className="max-w-3xl mx-auto px-6 py-12 space-y-8">
+                {/* Controls */}
+                <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-2 text-sm text-neutral-400 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={unreadOnly}
+                            onChange={(e) => setUnreadOnly(e.target.checked)}
+                            className="accent-violet-500"
+                        />
+                        Unread only
+                    </label>
+                    <button
+                        onClick={() => markRead()}
+                        disabled={unread === 0}
+                        className="flex items-center gap-2 text-sm text-neutral-400 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                    >
+                        <CheckCheck className="w-4 h-4" strokeWidth={1.5} />
+                        Mark all read
+                    </button>
+                </div>
+
+                {error && (
+                    <div className="flex items-start gap-3 p-4 bg-rose-500/10 rounded-xl border border-rose-500/20">
+                        <AlertCircle className="w-5 h-5 text-rose-400 shrink-0 mt-0.5" strokeWidth={1.5} />
+                        <p className="text-rose-200">{error}</p>
+                    </div>
+                )}
+
+                {/* Inbox */}
+                <div className="bg-neutral-900 rounded-xl border border-neutral-800 divide-y divide-neutral-800">
+                    {loading && <p className="p-6 text-sm text-neutral-500">Loading...</p>}
+                    {!loading && alerts.length === 0 && (
+                        <p className="p-6 text-sm text-neutral-500">
+                            No alerts yet. Rules are checked each time the scheduler runs a watchlist job.
+                        </p>
+                    )}
+                    {!loading && alerts.map(alert => (
+                        <div key={alert.id} className={`p-4 flex items-start justify-between gap-4 ${alert.read ? 'opacity-50' : ''}`}>
+                            <div>
+                                <p className="text-white text-sm">{alert.message}</p>
+                                <p className="text-xs text-neutral-500 mt-1">
+                                    {alert.ruleName} · {formatTime(alert.createdAt)}
+                                    {alert.webhook === 'failed' && <span className="text-amber-400"> · webhook failed</span>}
+                                </p>
+                            </div>
+                            {!alert.read && (
+                                <button onClick={() => markRead([alert.id])} className="shrink-0 p-2 text-neutral-500 hover:text-white" title="Mark read">
+                                    <Check className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                {/* Rules */}
+                <div>
+                    <p className="text-sm text-neutral-500 mb-3">Rules ({rules.length})</p>
+                    {rules.length === 0 ? (
+                        <p className="text-sm text-neutral-600">No rules defined. Add one with POST /api/alerts/rules.</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {rules.map(rule => (
+                                <li key={rule.id} className="text-sm text-neutral-400">
+                                    <span className="text-neutral-200">{rule.name}</span>
+                                    <span className="text-neutral-600"> · {rule.entryId ? `entry ${rule.entryId}` : 'all entries'}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
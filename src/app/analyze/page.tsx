@@ -0,0 +1,405 @@
+'use client';
+
+import { Suspense, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import axios from 'axios';
+import {
+    Search,
+    ArrowLeft,
+    BarChart3,
+    AlertCircle,
+    AlertTriangle,
+    ExternalLink,
+    Copy,
+    Check,
+    Image as ImageIcon,
+    Waves,
+    Info
+} from 'lucide-react';
+
+interface AnalyzedVideo {
+    id: string;
+    title: string;
+    channelTitle: string;
+    thumbnail: string;
+    views: number;
+    lengthCategory: string;
+    outlierMultiplier?: number;
+}
+
+interface LengthBucket {
+    range: string;
+    count: number;
+    avgViews: number;
+    avgViewsCI: { lower: number; upper: number } | null;
+    medianViews: number;
+    medianViewsCI: { lower: number; upper: number } | null;
+    competitionScore: number;
+    demandRatio: number;
+    demandScore: number;
+    opportunityScore: number;
+}
+
+interface MarketHole {
+    range: string;
+    type: 'hot' | 'opportunity' | 'risky';
+    emoji: string;
+    reason: string;
+    opportunityScore: number;
+}
+
+interface AnalyzeResult {
+    query: string;
+    totalVideos: number;
+    overallAvgViews: number;
+    outlierStats: { count: number; rate: number; rateCI: { lower: number; upper: number } | null; topOutliers: AnalyzedVideo[]; avgMultiplier: number };
+    saturation: { score: number; label: string; verdict: string; factors: { competition: number; channelConcentration: number; contentAge: number } };
+    trendingTopics: { keyword: string; growth?: string; source: string }[];
+    blueOceans: { keyword: string; opportunityScore: number; reason: string }[];
+    lengthAnalysis: LengthBucket[];
+    marketHoles: MarketHole[];
+    optimizationWarning: { message: string; suggestion: string } | null;
+    momentum: { message: string; lifecycle: { label: string; description: string } };
+    loyaltyRatio: { avgRatio: number; interpretation: string; emoji: string };
+    titlePatterns: { hasNumber: number; hasQuestion: number; hasEmoji: number; allCaps: number; avgTitleLength: number };
+    thumbnailAnalysis: { detectedLabels: string[]; dominantColors: string[]; geminiInsights?: string } | null;
+    thumbnailPrompt: string;
+}
+
+const regions = ['US', 'GB', 'CA', 'AU', 'IN'];
+
+const holeStyles = {
+    hot: 'border-rose-500/30 bg-rose-500/10 text-rose-300',
+    opportunity: 'border-emerald-500/30 bg-emerald-500/10 text-emerald-300',
+    risky: 'border-amber-500/30 bg-amber-500/10 text-amber-300'
+};
+
+function formatNumber(num: number): string {
+    if (num >= 1000000) return (num / 1000000).toFixed(1) + 'M';
+    if (num >= 1000) return (num / 1000).toFixed(1) + 'K';
+    return num.toString();
+}
+
+function Analyzer() {
+    const searchParams = useSearchParams();
+    const [query, setQuery] = useState(searchParams.get('q') || '');
+    const [region, setRegion] = useState(searchParams.get('region') || 'US');
+    const [loading, setLoading] = useState(false);
+    const [result, setResult] = useState<AnalyzeResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    const runAnalyze = useCallback(async (q: string, region: string) => {
+        if (!q.trim()) return;
+
+        setLoading(true);
+        setResult(null);
+        setError(null);
+
+        try {
+            const response = await axios.get('/api/analyze', { params: { q, region } });
+            if (!response.data.totalVideos) {
+                setError('No videos found for this niche');
+            } else {
+                setResult(response.data);
+            }
+        } catch (err) {
+            if (axios.isAxiosError(err) && err.response?.data?.error) {
+                setError(err.response.data.error);
+            } else {
+                setError('Something went wrong');
+            }
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    const handleAnalyze = (searchQuery?: string) => runAnalyze(searchQuery || query, region);
+
+    // Deep links (/analyze?q=...) run straight away
+    useEffect(() => {
+        const initial = searchParams.get('q');
+        if (initial) runAnalyze(initial, searchParams.get('region') || 'US');
+    }, [searchParams, runAnalyze]);
+
+    const copyPrompt = () => {
+        if (!result) return;
+        navigator.clipboard.writeText(result.thumbnailPrompt);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    const holeFor = (range: string) => result?.marketHoles.find(h => h.range === range);
+    const maxAvgViews = result ? Math.max(1, ...result.lengthAnalysis.map(b => b.avgViews)) : 1;
+
+    return (
+        <div className="min-h-screen bg-neutral-950 text-white">
+            {/* Navigation */}
+            <nav className="border-b border-neutral-800">
+                <div className="max-w-5xl mx-auto px-6 py-4 flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                        <div className="w-8 h-8 rounded-lg bg-neutral-800 flex items-center justify-center">
+                            <BarChart3 className="w-4 h-4 text-neutral-400" strokeWidth={1.5} />
+                        </div>
+                        <span className="font-medium">Market Analyzer</span>
+                    </div>
+                    <Link href="/" className="flex items-center gap-2 text-sm text-neutral-500 hover:text-white transition-colors">
+                        <ArrowLeft className="w-4 h-4" strokeWidth={1.5} />
+                        Back
+                    </Link>
+                </div>
+            </nav>
+
+            {/* Hero */}
+            <div className="max-w-3xl mx-auto px-6 pt-16 pb-12 text-center">
+                <h1 className="text-3xl font-light text-white tracking-tight mb-4">
+                    Find the market holes in a niche
+                </h1>
+                <p className="text-neutral-500 mb-10">
+                    Video lengths, saturation and outliers from up to 100 top results.
+                </p>
+
+                <div className="flex items-center gap-3 p-4 bg-neutral-900 rounded-xl border border-neutral-800 focus-within:border-neutral-700 transition-colors max-w-xl mx-auto">
+                    <Search className="w-5 h-5 text-neutral-500" strokeWidth={1.5} />
+                    <input
+                        type="text"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleAnalyze()}
+                        placeholder="e.g., budget travel"
+                        className="flex-1 bg-transparent text-white placeholder-neutral-600 focus:outline-none"
+                    />
+                    <select
+                        value={region}
+                        onChange={(e) => setRegion(e.target.value)}
+                        className="text-sm text-neutral-400 bg-transparent border-none focus:outline-none cursor-pointer"
+                    >
+                        {regions.map(r => (
+                            <option key={r} value={r} className="bg-neutral-900">{r}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => handleAnalyze()}
+                        disabled={loading || !query.trim()}
+                        className="px-5 py-2 bg-white text-neutral-900 text-sm font-medium rounded-lg hover:bg-neutral-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {loading ? 'Analyzing...' : 'Analyze'}
+                    </button>
+                </div>
+            </div>
+
+            {loading && (
+                <div className="max-w-3xl mx-auto px-6 py-12 flex flex-col items-center">
+                    <div className="w-8 h-8 border-2 border-neutral-800 border-t-white rounded-full animate-spin mb-4" />
+                    <p className="text-neutral-500 text-sm">Analyzing top videos...</p>
+                </div>
+            )}
+
+            {error && (
+                <div className="max-w-3xl mx-auto px-6 py-4">
+                    <div className="flex items-start gap-3 p-4 bg-rose-500/10 rounded-xl border border-rose-500/20">
+                        <AlertCircle className="w-5 h-5 text-rose-400 shrink-0 mt-0.5" strokeWidth={1.5} />
+                        <p className="text-rose-200">{error}</p>
+                    </div>
+                </div>
+            )}
+
+            {result && !loading && (
+                <div className="max-w-5xl mx-auto px-6 pb-16 space-y-8">
+                    {/* Summary */}
+                    <div className="grid md:grid-cols-4 gap-4">
+                        <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-5">
+                            <p className="text-sm text-neutral-500 mb-1">Saturation</p>
+                            <p className="text-2xl font-light text-white">{result.saturation.score} <span className="text-base text-neutral-500">{result.saturation.label}</span></p>
+                            <p className="text-xs text-neutral-600 mt-1">{result.saturation.verdict}</p>
+                        </div>
+                        <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-5">
+                            <p className="text-sm text-neutral-500 mb-1">Lifecycle</p>
+                            <p className="text-2xl font-light text-white">{result.momentum.lifecycle.label}</p>
+                            <p className="text-xs text-neutral-600 mt-1">{result.momentum.message}</p>
+                        </div>
+                        <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-5">
+                            <p className="text-sm text-neutral-500 mb-1">Loyalty ratio</p>
+                            <p className="text-2xl font-light text-white">{result.loyaltyRatio.emoji} {result.loyaltyRatio.avgRatio}</p>
+                            <p className="text-xs text-neutral-600 mt-1">{result.loyaltyRatio.interpretation}</p>
+                        </div>
+                        <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-5">
+                            <p className="text-sm text-neutral-500 mb-1">Outliers (2x+ avg)</p>
+                            <p className="text-2xl font-light text-white">
+                                {result.outlierStats.rate}%
+                                {result.outlierStats.rateCI && (
+                                    <span className="text-sm text-neutral-500"> ({result.outlierStats.rateCI.lower}-{result.outlierStats.rateCI.upper}%)</span>
+                                )}
+                            </p>
+                            <p className="text-xs text-neutral-600 mt-1">{result.outlierStats.count} of {result.totalVideos} videos · avg {formatNumber(result.overallAvgViews)} views</p>
+                        </div>
+                    </div>
+
+                    {/* Over-optimization warning */}
+                    {result.optimizationWarning && (
+                        <div className="flex items-start gap-3 p-4 bg-amber-500/10 rounded-xl border border-amber-500/20">
+                            <AlertTriangle className="w-5 h-5 text-amber-400 shrink-0 mt-0.5" strokeWidth={1.5} />
+                            <div>
+                                <p className="text-amber-200">{result.optimizationWarning.message}</p>
+                                <p className="text-sm text-amber-200/70">{result.optimizationWarning.suggestion}</p>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Duration buckets */}
+                    <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-6">
+                        <div className="flex items-center justify-between mb-6">
+                            <p className="text-sm text-neutral-500">Video length vs. views</p>
+                            <p className="text-xs text-neutral-600">bar = avg views · median with 95% bootstrap CI · count = share of results</p>
+                        </div>
+                        <div className="space-y-4">
+                            {result.lengthAnalysis.map(bucket => {
+                                const hole = holeFor(bucket.range);
+                                return (
+                                    <div key={bucket.range}>
+                                        <div className="flex items-center justify-between text-sm mb-1.5">
+                                            <span className="text-neutral-300">
+                                                {bucket.range} {hole && <span title={hole.type}>{hole.emoji}</span>}
+                                            </span>
+                                            <span
+                                                className="text-neutral-500"
+                                                title={bucket.avgViewsCI ? `95% CI for avg: ${formatNumber(bucket.avgViewsCI.lower)}-${formatNumber(bucket.avgViewsCI.upper)}` : undefined}
+                                            >
+                                                {formatNumber(bucket.avgViews)} avg
+                                                {bucket.medianViewsCI && ` · median ${formatNumber(bucket.medianViews)} (${formatNumber(bucket.medianViewsCI.lower)}-${formatNumber(bucket.medianViewsCI.upper)})`}
+                                                {' '}· {bucket.count} videos ({Math.round((bucket.count / result.totalVideos) * 100)}%)
+                                            </span>
+                                        </div>
+                                        <div className="h-2 bg-neutral-800 rounded-full overflow-hidden">
+                                            <div
+                                                className={`h-full rounded-full ${hole?.type === 'hot' ? 'bg-rose-400' : hole?.type === 'opportunity' ? 'bg-emerald-400' : hole?.type === 'risky' ? 'bg-amber-400' : 'bg-neutral-500'}`}
+                                                style={{ width: `${(bucket.avgViews / maxAvgViews) * 100}%` }}
+                                            />
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    {/* Market holes */}
+                    <div>
+                        <p className="text-sm text-neutral-500 mb-1">Market holes</p>
+                        <p className="text-xs text-neutral-600 mb-3">
+                            Underserved lengths by typical views vs. the niche&apos;s typical video (shrunk): hot above 1.5x with very little competition, opportunity at 1x or more, risky below 0.7x
+                        </p>
+                        {result.marketHoles.length === 0 ? (
+                            <p className="text-sm text-neutral-600">No underserved length stands out. Supply roughly matches demand across lengths.</p>
+                        ) : (
+                            <div className="grid md:grid-cols-3 gap-4">
+                                {result.marketHoles.map(hole => (
+                                    <div key={hole.range} className={`rounded-xl border p-5 ${holeStyles[hole.type]}`}>
+                                        <div className="flex items-center justify-between mb-2">
+                                            <span className="text-xs uppercase tracking-wide">{hole.emoji} {hole.type}</span>
+                                            {hole.type !== 'risky' && <span className="text-xs opacity-70">score {hole.opportunityScore}</span>}
+                                        </div>
+                                        <p className="text-white font-medium">{hole.range}</p>
+                                        <p className="text-sm text-neutral-400 mt-1">{hole.reason}</p>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Outlier gallery */}
+                    {result.outlierStats.topOutliers.length > 0 && (
+                        <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-6">
+                            <p className="text-sm text-neutral-500 mb-4">Outliers to study · avg {result.outlierStats.avgMultiplier}x what their channel usually gets</p>
+                            <div className="grid md:grid-cols-5 gap-4">
+                                {result.outlierStats.topOutliers.map(v => (
+                                    <a key={v.id} href={`https://youtube.com/watch?v=${v.id}`} target="_blank" rel="noopener noreferrer" className="group">
+                                        <div className="relative aspect-video rounded-lg overflow-hidden bg-neutral-800 mb-2">
+                                            <img src={v.thumbnail} alt={v.title} className="w-full h-full object-cover group-hover:scale-105 transition-transform" />
+                                            <span className="absolute top-1.5 right-1.5 px-1.5 py-0.5 text-xs rounded bg-black/70 text-emerald-300">{v.outlierMultiplier}x</span>
+                                        </div>
+                                        <p className="text-sm text-neutral-300 line-clamp-2 group-hover:text-white transition-colors">{v.title}</p>
+                                        <div className="flex items-center gap-1 text-xs text-neutral-500 mt-1">
+                                            <span>{formatNumber(v.views)} views · {v.lengthCategory.split(' (')[0]}</span>
+                                            <ExternalLink className="w-3 h-3" />
+                                        </div>
+                                    </a>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="grid md:grid-cols-2 gap-4">
+                        {/* Blue oceans */}
+                        <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-6">
+                            <div className="flex items-center gap-2 mb-4">
+                                <Waves className="w-4 h-4 text-cyan-400" strokeWidth={1.5} />
+                                <p className="text-sm text-neutral-500">Related niches to try</p>
+                            </div>
+                            <div className="space-y-3">
+                                {result.blueOceans.map(b => (
+                                    <button
+                                        key={b.keyword}
+                                        onClick={() => { setQuery(b.keyword); handleAnalyze(b.keyword); }}
+                                        className="w-full flex items-center justify-between text-left group"
+                                    >
+                                        <div>
+                                            <p className="text-sm text-neutral-200 group-hover:text-white transition-colors">{b.keyword}</p>
+                                            <p className="text-xs text-neutral-600">{b.reason}</p>
+                                        </div>
+                                        <span className="text-sm text-cyan-400">{b.opportunityScore}</span>
+                                    </button>
+                                ))}
+                                {result.blueOceans.length === 0 && <p className="text-sm text-neutral-600">No related niches found.</p>}
+                            </div>
+                            {result.trendingTopics.length > 0 && (
+                                <div className="flex flex-wrap gap-2 mt-5 pt-5 border-t border-neutral-800">
+                                    {result.trendingTopics.map(t => (
+                                        <span key={t.keyword} className="px-2.5 py-1 text-xs rounded-full bg-white/5 text-neutral-400">
+                                            {t.keyword}{t.growth && <span className="text-emerald-400"> {t.growth}</span>}
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Thumbnail brief */}
+                        <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-6">
+                            <div className="flex items-center justify-between mb-4">
+                                <div className="flex items-center gap-2">
+                                    <ImageIcon className="w-4 h-4 text-violet-400" strokeWidth={1.5} />
+                                    <p className="text-sm text-neutral-500">Thumbnail brief</p>
+                                </div>
+                                <button onClick={copyPrompt} className="p-1.5 text-neutral-500 hover:text-white" title="Copy brief">
+                                    {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+                                </button>
+                            </div>
+                            <pre className="text-sm text-neutral-300 whitespace-pre-wrap font-sans">{result.thumbnailPrompt}</pre>
+                            {result.thumbnailAnalysis?.geminiInsights && (
+                                <p className="text-sm text-neutral-400 mt-4 pt-4 border-t border-neutral-800">{result.thumbnailAnalysis.geminiInsights}</p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Title patterns */}
+                    <div className="flex flex-wrap items-center gap-x-6 gap-y-2 p-4 bg-neutral-900/50 rounded-xl text-sm text-neutral-500">
+                        <Info className="w-4 h-4 shrink-0" strokeWidth={1.5} />
+                        <span>Titles: {result.titlePatterns.hasNumber}% numbers</span>
+                        <span>{result.titlePatterns.hasQuestion}% questions</span>
+                        <span>{result.titlePatterns.allCaps}% ALL CAPS</span>
+                        <span>{result.titlePatterns.hasEmoji}% emoji</span>
+                        <span>avg {result.titlePatterns.avgTitleLength} chars</span>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default function AnalyzePage() {
+    return (
+        <Suspense>
+            <Analyzer />
+        </Suspense>
+    );
+}
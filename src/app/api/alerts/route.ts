@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listAlerts, markAlertsRead } from '@/lib/alerts';
+
+// Inbox, newest first. ?unread=true hides alerts already read.
+export async function GET(request: NextRequest) {
+    const searchParams = new URL(request.url).searchParams;
+    const unreadOnly = searchParams.get('unread') === 'true';
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100', 10), 500);
+
+    return NextResponse.json(listAlerts({ unreadOnly, limit }));
+}
+
+// Body: { ids?: string[] } - marks those alerts read, or the whole inbox when ids is omitted
+export async function PATCH(request: NextRequest) {
+    let body: unknown = {};
+    try {
+        body = await request.json();
+    } catch {
+        // An empty body marks everything read
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        return NextResponse.json({ error: 'Request body must be an object' }, { status: 400 });
+    }
+
+    const { ids } = body as { ids?: unknown };
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string'))) {
+        return NextResponse.json({ error: '"ids" must be an array of alert ids' }, { status: 400 });
+    }
+
+    const marked = markAlertsRead(ids as string[] | undefined);
+    return NextResponse.json({ marked });
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addAlertRule, AlertRuleError, listAlertRules, removeAlertRule } from '@/lib/alerts';
+
+export async function GET() {
+    return NextResponse.json({ rules: listAlertRules() });
+}
+
+// Body: { tool, name?, entryId?, condition?: { path, op, value }, each?, key? }
+export async function POST(request: NextRequest) {
+    let body;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        return NextResponse.json({ error: 'Request body must be an object' }, { status: 400 });
+    }
+
+    try {
+        const rule = addAlertRule(body);
+        return NextResponse.json({ rule }, { status: 201 });
+    } catch (error) {
+        if (error instanceof AlertRuleError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error('Failed to add alert rule:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    const id = new URL(request.url).searchParams.get('id');
+
+    if (!id) {
+        return NextResponse.json({ error: 'Missing "id" parameter' }, { status: 400 });
+    }
+
+    if (!removeAlertRule(id)) {
+        return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ removed: id });
+}
@@ -0,0 +1,333 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CacheReport } from '@/lib/cache';
+import { meanDifferenceCI, twoProportionTest } from '@/lib/stats';
+import { channelBaselineCost } from '@/lib/expected-views';
+import { createYouTubeClient, isYouTubeConfigured, QuotaExceededError, QuotaReport, UNIT_COSTS } from '@/lib/youtube';
+import { GET as analyze } from '@/app/api/analyze/route';
+
+const MIN_QUERIES = 2;
+const MAX_QUERIES = 3;
+
+// Gap (in points) between 0-100 scores that have no sampling distribution before it is flagged
+const SCORE_GAP = 15;
+
+// Loyalty ratios this many times apart are flagged
+const LOYALTY_RATIO_GAP = 1.5;
+
+interface LengthBucket {
+    range: string;
+    count: number;
+    avgViews: number;
+    competitionScore: number;
+    demandScore: number;
+    opportunityScore: number;
+}
+
+// The parts of an /api/analyze response that are compared
+interface NicheAnalysis {
+    query: string;
+    snapshotId: string | null;
+    totalVideos: number;
+    overallAvgViews: number;
+    videos: { title: string; views: number; lengthCategory: string }[];
+    lengthAnalysis: (LengthBucket & { videos?: unknown })[];
+    saturation: { score: number; label: string; factors: Record<string, number> };
+    outlierStats: { count: number; rate: number; avgMultiplier: number };
+    loyaltyRatio: { avgRatio: number; interpretation: string };
+    momentum: {
+        status: string;
+        trendChange: number | null;
+        recentPct: number;
+        source: string;
+        lifecycle: { label: string; description: string };
+    };
+    titlePatterns: Record<string, number>;
+    quota: QuotaReport;
+    cache: CacheReport;
+}
+
+interface Difference {
+    metric: string;
+    niches: [string, string];
+    values: [number | string, number | string];
+    difference: number | null;
+    test: 'two-proportion z-test' | 'log-views 95% CI' | 'title-length 95% CI' | 'threshold' | 'category';
+    note: string;
+}
+
+// Share of videos with each title pattern, as reported by /api/analyze
+const TITLE_SHARE_PATTERNS: Record<string, string> = {
+    hasNumber: 'numbers',
+    hasQuestion: 'questions',
+    hasEmoji: 'emoji',
+    allCaps: 'ALL CAPS words'
+};
+
+function pairs<T>(items: T[]): [T, T][] {
+    return items.flatMap((a, i) => items.slice(i + 1).map(b => [a, b] as [T, T]));
+}
+
+function viewsIn(niche: NicheAnalysis, range: string): number[] {
+    return niche.videos.filter(v => v.lengthCategory === range).map(v => Math.log10(v.views + 1));
+}
+
+function compareNiches(a: NicheAnalysis, b: NicheAnalysis): Difference[] {
+    const differences: Difference[] = [];
+    const names: [string, string] = [a.query, b.query];
+
+    // 1. Duration mix: share of results per bucket, and how well each bucket performs
+    for (const bucketA of a.lengthAnalysis) {
+        const bucketB = b.lengthAnalysis.find(x => x.range === bucketA.range);
+        if (!bucketB) continue;
+
+        const share = twoProportionTest(bucketA.count, a.totalVideos, bucketB.count, b.totalVideos);
+        if (share.significant && share.sampleSufficient) {
+            differences.push({
+                metric: `lengthAnalysis.${bucketA.range}.share`,
+                niches: names,
+                values: [Math.round((bucketA.count / a.totalVideos) * 100), Math.round((bucketB.count / b.totalVideos) * 100)],
+                difference: share.difference,
+                test: 'two-proportion z-test',
+                note: `${bucketA.range} makes up ${share.difference > 0 ? 'more' : 'less'} of "${a.query}" results (${share.difference > 0 ? '+' : ''}${share.difference} pts)`
+            });
+        }
+
+        const views = meanDifferenceCI(viewsIn(a, bucketA.range), viewsIn(b, bucketA.range));
+        if (views.significant && views.sampleSufficient) {
+            const ratio = Math.round(Math.pow(10, views.difference) * 10) / 10;
+            differences.push({
+                metric: `lengthAnalysis.${bucketA.range}.avgViews`,
+                niches: names,
+                values: [bucketA.avgViews, bucketB.avgViews],
+                difference: ratio,
+                test: 'log-views 95% CI',
+                note: `${bucketA.range} videos get ~${ratio}x the views in "${a.query}" (geometric mean)`
+            });
+        }
+    }
+
+    // 2. Saturation score and its factors
+    const scores: [string, number, number][] = [
+        ['saturation.score', a.saturation.score, b.saturation.score],
+        ...Object.keys(a.saturation.factors).map(factor =>
+            [`saturation.factors.${factor}`, a.saturation.factors[factor], b.saturation.factors[factor] ?? 0] as [string, number, number]
+        )
+    ];
+    for (const [metric, valueA, valueB] of scores) {
+        if (Math.abs(valueA - valueB) >= SCORE_GAP) {
+            differences.push({
+                metric,
+                niches: names,
+                values: [valueA, valueB],
+                difference: valueA - valueB,
+                test: 'threshold',
+                note: `${metric.split('.').pop()} differs by ${Math.abs(valueA - valueB)} points (flagged at ${SCORE_GAP})`
+            });
+        }
+    }
+
+    // 3. Outlier rate
+    const outliers = twoProportionTest(a.outlierStats.count, a.totalVideos, b.outlierStats.count, b.totalVideos);
+    if (outliers.significant && outliers.sampleSufficient) {
+        differences.push({
+            metric: 'outlierStats.rate',
+            niches: names,
+            values: [a.outlierStats.rate, b.outlierStats.rate],
+            difference: outliers.difference,
+            test: 'two-proportion z-test',
+            note: `"${outliers.difference > 0 ? a.query : b.query}" has more 2x+ outliers to learn from`
+        });
+    }
+
+    // 4. Loyalty ratio
+    const loyaltyA = a.loyaltyRatio.avgRatio;
+    const loyaltyB = b.loyaltyRatio.avgRatio;
+    if (loyaltyA > 0 && loyaltyB > 0 && Math.max(loyaltyA, loyaltyB) / Math.min(loyaltyA, loyaltyB) >= LOYALTY_RATIO_GAP) {
+        differences.push({
+            metric: 'loyaltyRatio.avgRatio',
+            niches: names,
+            values: [loyaltyA, loyaltyB],
+            difference: Math.round((loyaltyA - loyaltyB) * 100) / 100,
+            test: 'threshold',
+            note: `Audiences in "${loyaltyA > loyaltyB ? a.query : b.query}" are more subscriber-loyal (${LOYALTY_RATIO_GAP}x+ apart)`
+        });
+    }
+
+    // 5. Momentum lifecycle
+    if (a.momentum.lifecycle.label !== b.momentum.lifecycle.label) {
+        differences.push({
+            metric: 'momentum.lifecycle',
+            niches: names,
+            values: [a.momentum.lifecycle.label, b.momentum.lifecycle.label],
+            difference: null,
+            test: 'category',
+            note: `Different lifecycle stages: ${a.momentum.lifecycle.label} vs ${b.momentum.lifecycle.label}`
+        });
+    }
+
+    // 6. Title patterns
+    for (const [pattern, label] of Object.entries(TITLE_SHARE_PATTERNS)) {
+        const pctA = a.titlePatterns[pattern] ?? 0;
+        const pctB = b.titlePatterns[pattern] ?? 0;
+        const test = twoProportionTest(
+            Math.round((pctA / 100) * a.totalVideos), a.totalVideos,
+            Math.round((pctB / 100) * b.totalVideos), b.totalVideos
+        );
+        if (test.significant && test.sampleSufficient) {
+            differences.push({
+                metric: `titlePatterns.${pattern}`,
+                niches: names,
+                values: [pctA, pctB],
+                difference: test.difference,
+                test: 'two-proportion z-test',
+                note: `Titles in "${test.difference > 0 ? a.query : b.query}" use ${label} more often`
+            });
+        }
+    }
+
+    const titleLength = meanDifferenceCI(a.videos.map(v => v.title.length), b.videos.map(v => v.title.length));
+    if (titleLength.significant && titleLength.sampleSufficient) {
+        differences.push({
+            metric: 'titlePatterns.avgTitleLength',
+            niches: names,
+            values: [a.titlePatterns.avgTitleLength, b.titlePatterns.avgTitleLength],
+            difference: titleLength.difference,
+            test: 'title-length 95% CI',
+            note: `Titles in "${titleLength.difference > 0 ? a.query : b.query}" run longer`
+        });
+    }
+
+    return differences;
+}
+
+function mergeCacheReports(reports: CacheReport[]): CacheReport {
+    const merged: CacheReport = {};
+    for (const report of reports) {
+        for (const [section, entry] of Object.entries(report)) {
+            const target = merged[section] || (merged[section] = { calls: 0, fromCache: 0, fromFixture: 0, maxAgeSeconds: null });
+            target.calls += entry.calls;
+            target.fromCache += entry.fromCache;
+            target.fromFixture += entry.fromFixture;
+            if (entry.maxAgeSeconds !== null) {
+                target.maxAgeSeconds = Math.max(target.maxAgeSeconds ?? 0, entry.maxAgeSeconds);
+            }
+        }
+    }
+    return merged;
+}
+
+// Runs /api/analyze for 2-3 niches (repeat "q") and lines the results up, flagging differences that are meaningful
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const queries = [...new Set(searchParams.getAll('q').map(q => q.trim()).filter(Boolean))];
+    const maxResults = Math.min(parseInt(searchParams.get('max') || '100'), 100);
+    const regionCode = searchParams.get('region') || 'US';
+
+    if (queries.length < MIN_QUERIES || queries.length > MAX_QUERIES) {
+        return NextResponse.json({ error: `Pass ${MIN_QUERIES}-${MAX_QUERIES} distinct niches as repeated "q" parameters` }, { status: 400 });
+    }
+
+    if (!isYouTubeConfigured()) {
+        return NextResponse.json({ error: 'YOUTUBE_API_KEY not configured' }, { status: 500 });
+    }
+
+    // 1. Refuse up front rather than spend quota on a comparison that cannot finish
+    const pages = maxResults > 50 ? 2 : 1;
+    const youtube = createYouTubeClient('analyze');
+    try {
+        youtube.reserve(queries.length * (pages * (UNIT_COSTS.search + UNIT_COSTS.videos) + channelBaselineCost(pages * 50)));
+    } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            return NextResponse.json({ error: error.message, quota: youtube.quota() }, { status: 429 });
+        }
+        throw error;
+    }
+
+    // 2. Analyze each niche in turn with the regular route
+    const niches: NicheAnalysis[] = [];
+    for (const query of queries) {
+        const url = new URL('/api/analyze', request.url);
+        url.searchParams.set('q', query);
+        url.searchParams.set('max', String(maxResults));
+        url.searchParams.set('region', regionCode);
+
+        const response = await analyze(new NextRequest(url));
+        const body = await response.json().catch(() => ({}));
+
+        if (!response.ok) {
+            return NextResponse.json({ error: `"${query}": ${body.error || `HTTP ${response.status}`}`, query }, { status: response.status });
+        }
+        if (!body.totalVideos) {
+            return NextResponse.json({ error: `No videos found for "${query}"`, query }, { status: 404 });
+        }
+        niches.push(body as NicheAnalysis);
+    }
+
+    // 3. Duration distributions on a shared axis, for overlaying
+    const ranges = niches[0].lengthAnalysis.map(bucket => bucket.range);
+    const durationDistribution = ranges.map(range => ({
+        range,
+        niches: niches.map(niche => {
+            const bucket = niche.lengthAnalysis.find(b => b.range === range);
+            return {
+                query: niche.query,
+                count: bucket?.count ?? 0,
+                share: bucket ? Math.round((bucket.count / niche.totalVideos) * 1000) / 10 : 0,
+                avgViews: bucket?.avgViews ?? 0
+            };
+        })
+    }));
+
+    // 4. Pairwise differences
+    const differences = pairs(niches).flatMap(([a, b]) => compareNiches(a, b));
+
+    // Each run reports its own spend; the ledger totals come from the last one
+    const finalQuota = niches[niches.length - 1].quota;
+    const calls: QuotaReport['calls'] = {};
+    for (const niche of niches) {
+        for (const [endpoint, count] of Object.entries(niche.quota?.calls || {}) as [keyof QuotaReport['calls'], number][]) {
+            calls[endpoint] = (calls[endpoint] || 0) + count;
+        }
+    }
+    return NextResponse.json({
+        queries,
+        region: regionCode,
+        niches: niches.map(niche => ({
+            query: niche.query,
+            snapshotId: niche.snapshotId,
+            totalVideos: niche.totalVideos,
+            overallAvgViews: niche.overallAvgViews,
+            lengthAnalysis: niche.lengthAnalysis.map(bucket => ({
+                range: bucket.range,
+                count: bucket.count,
+                avgViews: bucket.avgViews,
+                competitionScore: bucket.competitionScore,
+                demandScore: bucket.demandScore,
+                opportunityScore: bucket.opportunityScore
+            })),
+            saturation: niche.saturation,
+            outlierStats: {
+                count: niche.outlierStats.count,
+                rate: niche.outlierStats.rate,
+                avgMultiplier: niche.outlierStats.avgMultiplier
+            },
+            loyaltyRatio: niche.loyaltyRatio,
+            momentum: niche.momentum,
+            titlePatterns: niche.titlePatterns
+        })),
+        durationDistribution,
+        differences,
+        methodology: {
+            proportions: 'Bucket shares, outlier rates and title-pattern shares use a pooled two-proportion z-test (|z| > 1.96, at least 5 expected per group)',
+            views: 'Bucket performance compares mean log10 views (95% CI excludes zero, at least 5 videos per bucket)',
+            scores: `Saturation score and factors are flagged when ${SCORE_GAP}+ points apart; loyalty ratios when ${LOYALTY_RATIO_GAP}x apart`,
+            note: 'Differences are computed for every pair of niches.'
+        },
+        quota: {
+            ...finalQuota,
+            requestUnits: niches.reduce((sum, niche) => sum + (niche.quota?.requestUnits ?? 0), 0),
+            calls
+        },
+        cache: mergeCacheReports(niches.map(niche => niche.cache || {}))
+    });
+}
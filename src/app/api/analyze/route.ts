@@ -1,80 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
-import googleTrends from 'google-trends-api';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.YOUTUBE_API_KEY;
-const BASE_URL = 'https://www.googleapis.com/youtube/v3';
-
-function parseDuration(isoDuration: string): number {
-    const match = isoDuration.match(/PT(\d+H)?(\d+M)?(\d+S)?/);
-    if (!match) return 0;
-
-    const hours = parseInt(match[1]) || 0;
-    const minutes = parseInt(match[2]) || 0;
-    const seconds = parseInt(match[3]) || 0;
-
-    return (hours * 3600) + (minutes * 60) + seconds;
-}
-
-function categorizeDuration(seconds: number): string {
-    if (seconds < 60) return 'Shorts (<1 min)';
-    if (seconds < 300) return 'Short (1-5 min)';
-    if (seconds < 600) return 'Medium (5-10 min)';
-    if (seconds < 1200) return 'Long (10-20 min)';
-    return 'Very Long (>20 min)';
-}
-
-interface VideoData {
-    id: string;
-    title: string;
-    channelId: string;
-    channelTitle: string;
-    publishedAt: string;
-    views: number;
-    likes: number;
-    duration: string;
-    durationSec: number;
-    lengthCategory: string;
-    thumbnail: string;
+import { createRequestCache, RequestCache } from '@/lib/cache';
+import { currentTime } from '@/lib/fixtures';
+import { createYouTubeClient, isYouTubeConfigured, QuotaExceededError, UNIT_COSTS, YouTubeClient } from '@/lib/youtube';
+import { fetchAutocomplete, fetchInterestOverTime, fetchRelatedQueries } from '@/lib/trends';
+import { saveSnapshot } from '@/lib/snapshots';
+import { ChannelData, normalizeVideos, VideoData } from '@/lib/video';
+import { listTitlePatterns } from '@/lib/patterns';
+import { bootstrapCI, bootstrapRateCI, median, shrinkGroupMeans } from '@/lib/stats';
+import { ChannelBaseline, channelBaselineCost, describeExpectedViews, fetchChannelBaselines, fitExpectedViews, scoreAgainstChannels } from '@/lib/expected-views';
+import { GEMINI_API_KEY, isGeminiConfigured } from '@/lib/gemini';
+
+// Market-hole cut-offs on the demand ratio: a bucket's shrunk typical views over the niche's typical video
+const HIGH_DEMAND_RATIO = 1.0;
+const VERY_HIGH_DEMAND_RATIO = 1.5;
+const LOW_DEMAND_RATIO = 0.7;
+
+// Per-niche outlier scoring on top of the shared model
+interface AnalyzedVideo extends VideoData {
     isOutlier?: boolean;
-    outlierMultiplier?: number;
+    outlierMultiplier?: number;     // views / what the video's channel typically gets at this age
+    expectedViews?: number;
+    performanceZScore?: number;
 }
 
 // ===== NEW: Loyalty Ratio =====
-interface ChannelStats {
-    id: string;
-    subscribers: number;
-    viewCount: number;
-}
-
-async function getChannelStats(channelIds: string[]): Promise<ChannelStats[]> {
-    if (!YOUTUBE_API_KEY || channelIds.length === 0) return [];
-
+// Channel stats double as the outlier baselines; without them outliers fall back to the age-only curve
+async function getChannelStats(youtube: YouTubeClient, videos: VideoData[]): Promise<{ channels: ChannelData[]; baselines: Map<string, ChannelBaseline> }> {
     try {
-        const response = await axios.get(`${BASE_URL}/channels`, {
-            params: {
-                part: 'statistics',
-                id: channelIds.slice(0, 50).join(','),
-                key: YOUTUBE_API_KEY
-            }
-        });
-
-        return response.data.items.map((item: {
-            id: string;
-            statistics: { subscriberCount?: string; viewCount?: string };
-        }) => ({
-            id: item.id,
-            subscribers: parseInt(item.statistics.subscriberCount || '0', 10),
-            viewCount: parseInt(item.statistics.viewCount || '0', 10)
-        }));
+        return await fetchChannelBaselines(youtube, videos);
     } catch {
-        return [];
+        return { channels: [], baselines: new Map() };
     }
 }
 
-function calculateLoyaltyRatio(channelStats: ChannelStats[], videosByChannel: Map<string, number[]>): {
+function calculateLoyaltyRatio(channelStats: ChannelData[], videosByChannel: Map<string, number[]>): {
     avgRatio: number;
     interpretation: string;
     emoji: string;
@@ -123,23 +84,14 @@ interface DurationBucket {
     count: number;
     totalViews: number;
     avgViews: number;
-    videos: VideoData[];
+    videos: AnalyzedVideo[];
 }
 
 // ===== IMPROVEMENT 1: YouTube Autocomplete API =====
-async function getYouTubeAutocomplete(query: string): Promise<string[]> {
+async function getYouTubeAutocomplete(cache: RequestCache, query: string): Promise<string[]> {
     try {
-        const response = await axios.get('https://suggestqueries.google.com/complete/search', {
-            params: {
-                client: 'youtube',
-                ds: 'yt',
-                q: query
-            },
-            responseType: 'text'
-        });
-
         // Parse JSONP response
-        const text = response.data;
+        const text = await fetchAutocomplete(cache, query);
         const jsonMatch = text.match(/\[[\s\S]*\]/);
         if (!jsonMatch) return [];
 
@@ -154,11 +106,11 @@ async function getYouTubeAutocomplete(query: string): Promise<string[]> {
 }
 
 // ===== IMPROVEMENT 2: Google Trends Integration =====
-async function getTrendData(query: string): Promise<{ direction: string; change: number; emoji: string } | null> {
+async function getTrendData(cache: RequestCache, query: string): Promise<{ direction: string; change: number; emoji: string } | null> {
     try {
-        const result = await googleTrends.interestOverTime({
+        const result = await fetchInterestOverTime(cache, {
             keyword: query,
-            startTime: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000),
+            startTime: new Date(currentTime() - 90 * 24 * 60 * 60 * 1000),
             geo: 'US'
         });
 
@@ -202,34 +154,35 @@ interface GeminiThumbnailAnalysis {
     geminiInsights?: string;
 }
 
-async function analyzeThumbnails(thumbnailUrls: string[], query: string): Promise<GeminiThumbnailAnalysis | null> {
-    if (!GEMINI_API_KEY || thumbnailUrls.length === 0) return null;
+async function analyzeThumbnails(cache: RequestCache, thumbnailUrls: string[], query: string): Promise<GeminiThumbnailAnalysis | null> {
+    if (!isGeminiConfigured() || thumbnailUrls.length === 0) return null;
 
     try {
         const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
         const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
 
-        // Fetch thumbnails as base64
-        const imagePromises = thumbnailUrls.slice(0, 3).map(async (url) => {
-            try {
-                const response = await axios.get(url, { responseType: 'arraybuffer' });
-                const base64 = Buffer.from(response.data).toString('base64');
-                return {
-                    inlineData: {
-                        data: base64,
-                        mimeType: 'image/jpeg'
-                    }
-                };
-            } catch {
-                return null;
-            }
-        });
+        const text = await cache.fetch('gemini.vision', { model: 'gemini-2.0-flash', query, images: thumbnailUrls.slice(0, 3) }, async () => {
+            // Fetch thumbnails as base64
+            const imagePromises = thumbnailUrls.slice(0, 3).map(async (url) => {
+                try {
+                    const response = await axios.get(url, { responseType: 'arraybuffer' });
+                    const base64 = Buffer.from(response.data).toString('base64');
+                    return {
+                        inlineData: {
+                            data: base64,
+                            mimeType: 'image/jpeg'
+                        }
+                    };
+                } catch {
+                    return null;
+                }
+            });
 
-        const allImages = await Promise.all(imagePromises);
-        const images = allImages.filter((img): img is { inlineData: { data: string; mimeType: string } } => img !== null);
-        if (images.length === 0) return null;
+            const allImages = await Promise.all(imagePromises);
+            const images = allImages.filter((img): img is { inlineData: { data: string; mimeType: string } } => img !== null);
+            if (images.length === 0) throw new Error('No thumbnails could be fetched');
 
-        const prompt = `Analyze these ${images.length} YouTube thumbnails for the search query "${query}".
+            const prompt = `Analyze these ${images.length} YouTube thumbnails for the search query "${query}".
 
 Respond in this exact JSON format only, no other text:
 {
@@ -241,8 +194,9 @@ Respond in this exact JSON format only, no other text:
   "insights": "2-3 sentences about what makes these thumbnails effective and what a competitor could do differently"
 }`;
 
-        const result = await model.generateContent([prompt, ...images]);
-        const text = result.response.text();
+            const result = await model.generateContent([prompt, ...images]);
+            return result.response.text();
+        });
 
         // Parse JSON from response
         const jsonMatch = text.match(/\{[\s\S]*\}/);
@@ -274,47 +228,48 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Missing query parameter "q"' }, { status: 400 });
     }
 
-    if (!YOUTUBE_API_KEY) {
+    if (!isYouTubeConfigured()) {
         return NextResponse.json({ error: 'YOUTUBE_API_KEY not configured' }, { status: 500 });
     }
 
+    const cache = createRequestCache();
+    const youtube = createYouTubeClient('analyze', cache);
+
     try {
+        // Search page(s) + one videos call per 50 ids + channel baselines
+        const pages = maxResults > 50 ? 2 : 1;
+        youtube.reserve(pages * (UNIT_COSTS.search + UNIT_COSTS.videos) + channelBaselineCost(pages * 50));
+
         // Run parallel API calls for better performance
         const [searchResponse, autocompleteResults, trendsData] = await Promise.all([
-            axios.get(`${BASE_URL}/search`, {
-                params: {
-                    part: 'snippet',
-                    q: query,
-                    type: 'video',
-                    maxResults: Math.min(maxResults, 50),
-                    regionCode,
-                    key: YOUTUBE_API_KEY
-                }
+            youtube.get('search', {
+                part: 'snippet',
+                q: query,
+                type: 'video',
+                maxResults: Math.min(maxResults, 50),
+                regionCode
             }),
-            getYouTubeAutocomplete(query),
-            getTrendData(query)
+            getYouTubeAutocomplete(cache, query),
+            getTrendData(cache, query)
         ]);
 
         let allItems = searchResponse.data.items || [];
 
         // If user wants more than 50, fetch additional pages
         if (maxResults > 50 && searchResponse.data.nextPageToken) {
-            const secondPageResponse = await axios.get(`${BASE_URL}/search`, {
-                params: {
-                    part: 'snippet',
-                    q: query,
-                    type: 'video',
-                    maxResults: maxResults - 50,
-                    regionCode,
-                    pageToken: searchResponse.data.nextPageToken,
-                    key: YOUTUBE_API_KEY
-                }
+            const secondPageResponse = await youtube.get('search', {
+                part: 'snippet',
+                q: query,
+                type: 'video',
+                maxResults: maxResults - 50,
+                regionCode,
+                pageToken: searchResponse.data.nextPageToken
             });
             allItems = [...allItems, ...(secondPageResponse.data.items || [])];
         }
 
         if (allItems.length === 0) {
-            return NextResponse.json({ videos: [], analysis: null });
+            return NextResponse.json({ videos: [], analysis: null, quota: youtube.quota(), cache: cache.report() });
         }
 
         const allVideoIds = allItems.map((item: { id: { videoId: string } }) => item.id.videoId);
@@ -328,43 +283,19 @@ export async function GET(request: NextRequest) {
         // Get detailed statistics for all videos
         const statsResponses = await Promise.all(
             batchedIds.map(ids =>
-                axios.get(`${BASE_URL}/videos`, {
-                    params: {
-                        part: 'snippet,contentDetails,statistics',
-                        id: ids.join(','),
-                        key: YOUTUBE_API_KEY
-                    }
+                youtube.get('videos', {
+                    part: 'snippet,contentDetails,statistics',
+                    id: ids.join(',')
                 })
             )
         );
 
         const allVideoItems = statsResponses.flatMap(res => res.data.items || []);
 
-        const videos: VideoData[] = allVideoItems.map((item: {
-            id: string;
-            snippet: { title: string; channelId: string; channelTitle: string; publishedAt: string; thumbnails: { high?: { url: string } } };
-            contentDetails: { duration: string };
-            statistics: { viewCount?: string; likeCount?: string };
-        }) => {
-            const durationSec = parseDuration(item.contentDetails.duration);
-            return {
-                id: item.id,
-                title: item.snippet.title,
-                channelId: item.snippet.channelId,
-                channelTitle: item.snippet.channelTitle,
-                publishedAt: item.snippet.publishedAt,
-                views: parseInt(item.statistics.viewCount || '0', 10),
-                likes: parseInt(item.statistics.likeCount || '0', 10),
-                duration: item.contentDetails.duration,
-                durationSec,
-                lengthCategory: categorizeDuration(durationSec),
-                thumbnail: item.snippet.thumbnails.high?.url || ''
-            };
-        });
+        const videos = normalizeVideos(allVideoItems);
 
         // ===== NEW: Calculate Loyalty Ratio =====
-        const uniqueChannelIds = [...new Set(videos.map(v => v.channelId))];
-        const channelStats = await getChannelStats(uniqueChannelIds);
+        const { channels: channelStats, baselines } = await getChannelStats(youtube, videos);
 
         const videosByChannel = new Map<string, number[]>();
         for (const video of videos) {
@@ -379,24 +310,27 @@ export async function GET(request: NextRequest) {
         const totalViews = videos.reduce((sum, v) => sum + v.views, 0);
         const nicheAvgViews = totalViews / videos.length;
 
-        // Calculate outlier multiplier for each video
-        const videosWithOutliers: VideoData[] = videos.map(video => {
-            const multiplier = nicheAvgViews > 0 ? video.views / nicheAvgViews : 0;
-            return {
+        // Outlier multiplier = views vs. what the video's own channel gets at that age,
+        // so a big channel's routine upload isn't an outlier and a small channel's hit is
+        const performanceModel = fitExpectedViews(videos, baselines);
+        const videosWithOutliers: AnalyzedVideo[] = scoreAgainstChannels(videos, baselines, performanceModel)
+            .map(video => ({
                 ...video,
-                outlierMultiplier: Math.round(multiplier * 10) / 10,
-                isOutlier: multiplier >= 2.0
-            };
-        });
+                outlierMultiplier: Math.round(video.performanceRatio * 10) / 10,
+                isOutlier: video.performanceRatio >= 2.0
+            }));
 
         // Get top outliers (sorted by multiplier)
         const outliers = videosWithOutliers
             .filter(v => v.isOutlier)
             .sort((a, b) => (b.outlierMultiplier || 0) - (a.outlierMultiplier || 0));
 
+        const outlierRateCI = bootstrapRateCI(outliers.length, videos.length);
         const outlierStats = {
             count: outliers.length,
             rate: Math.round((outliers.length / videos.length) * 100),
+            // Seeded bootstrap, percent
+            rateCI: outlierRateCI && { lower: Math.round(outlierRateCI.lower * 100), upper: Math.round(outlierRateCI.upper * 100) },
             topOutliers: outliers.slice(0, 5),
             avgMultiplier: outliers.length > 0
                 ? Math.round(outliers.reduce((sum, v) => sum + (v.outlierMultiplier || 0), 0) / outliers.length * 10) / 10
@@ -408,7 +342,7 @@ export async function GET(request: NextRequest) {
         const topThumbnails = sortedByViews.slice(0, 5).map(v => v.thumbnail);
 
         // Analyze thumbnails (runs async, may be null if no Vision API key)
-        const thumbnailAnalysis = await analyzeThumbnails(topThumbnails, query);
+        const thumbnailAnalysis = await analyzeThumbnails(cache, topThumbnails, query);
 
         // Duration bucket analysis
         const durationBuckets: Record<string, DurationBucket> = {};
@@ -429,37 +363,57 @@ export async function GET(request: NextRequest) {
         const overallAvgViews = nicheAvgViews;
         const avgCountPerCategory = videosWithOutliers.length / categories.length;
 
+        // Empirical-Bayes typical views per bucket: small buckets are pulled toward the niche,
+        // so a bucket of 2 lucky videos can't outrank one of 20
+        const shrunkViews = shrinkGroupMeans(
+            categories.map(cat => durationBuckets[cat].videos.map(v => v.views)),
+            videosWithOutliers.map(v => v.views)
+        );
+
         // Calculate averages and scores for each category
-        const analysis = categories.map(cat => {
+        const analysis = categories.map((cat, i) => {
             const bucket = durationBuckets[cat];
             bucket.avgViews = bucket.count > 0 ? Math.round(bucket.totalViews / bucket.count) : 0;
+            const typicalViews = shrunkViews.groups[i];
 
             const competitionScore = bucket.count > 0 ? 1 - (bucket.count / videosWithOutliers.length) : 1;
-            const demandScore = overallAvgViews > 0 ? bucket.avgViews / overallAvgViews : 0;
+            // Demand = shrunk typical views relative to the niche's typical video
+            const demandScore = typicalViews && shrunkViews.baseline > 0 ? typicalViews.estimate / shrunkViews.baseline : 0;
             const opportunityScore = competitionScore * demandScore;
 
+            // Heavy-tailed views in small buckets: seeded bootstrap CIs for the mean and the median
+            const bucketViews = bucket.videos.map(v => v.views);
+            const avgViewsCI = bootstrapCI(bucketViews);
+            const medianViewsCI = bootstrapCI(bucketViews, median);
+
             return {
                 ...bucket,
+                avgViewsCI: avgViewsCI && { lower: Math.round(avgViewsCI.lower), upper: Math.round(avgViewsCI.upper) },
+                medianViews: Math.round(median(bucketViews)),
+                medianViewsCI: medianViewsCI && { lower: Math.round(medianViewsCI.lower), upper: Math.round(medianViewsCI.upper) },
+                typicalViews,
                 competitionScore: Math.round(competitionScore * 100),
+                demandRatio: Math.round(demandScore * 100) / 100,
                 demandScore: Math.round(demandScore * 100),
                 opportunityScore: Math.round(opportunityScore * 100)
             };
         });
 
         // ===== IMPROVED: Find market holes with risky classification =====
+        // Demand checks use the shrunk demand ratio, not the raw bucket average
         const holes = analysis
             .filter(a => {
                 const isLowCompetition = a.count < avgCountPerCategory * 0.8;
-                const isHighDemand = a.avgViews >= overallAvgViews;
-                const isLowDemand = a.avgViews < overallAvgViews * 0.7;
+                const isHighDemand = a.demandRatio >= HIGH_DEMAND_RATIO;
+                const isLowDemand = a.demandRatio < LOW_DEMAND_RATIO;
                 // Include opportunities AND risky (low comp + low demand)
                 return (isLowCompetition && isHighDemand && a.count > 0) ||
                     (isLowCompetition && isLowDemand && a.count > 0);
             })
             .map(a => {
                 const isVeryLowComp = a.count < avgCountPerCategory * 0.5;
-                const isVeryHighDemand = a.avgViews > overallAvgViews * 1.5;
-                const isLowDemand = a.avgViews < overallAvgViews * 0.7;
+                const isVeryHighDemand = a.demandRatio > VERY_HIGH_DEMAND_RATIO;
+                const isLowDemand = a.demandRatio < LOW_DEMAND_RATIO;
 
                 let type: 'hot' | 'opportunity' | 'risky' = 'opportunity';
                 let emoji = '✅';
@@ -472,15 +426,17 @@ export async function GET(request: NextRequest) {
                     emoji = '⚠️';
                 }
 
+                const typical = a.typicalViews?.estimate ?? 0;
                 const reason = type === 'risky'
-                    ? `Low competition but also low views (${a.avgViews.toLocaleString()} avg) — may lack demand`
-                    : `${a.count} videos (${Math.round((a.count / videos.length) * 100)}% of results) with ${a.avgViews.toLocaleString()} avg views`;
+                    ? `Low competition but also low views (${typical.toLocaleString()} typical, ${a.demandRatio}x the niche) — may lack demand`
+                    : `${a.count} videos (${Math.round((a.count / videos.length) * 100)}% of results) with ${typical.toLocaleString()} typical views, ${a.demandRatio}x the niche's ${shrunkViews.baseline.toLocaleString()}`;
 
                 return {
                     range: a.range,
                     type,
                     emoji,
                     reason,
+                    demandRatio: a.demandRatio,
                     opportunityScore: type === 'risky' ? 0 : a.opportunityScore
                 };
             })
@@ -507,10 +463,8 @@ export async function GET(request: NextRequest) {
         } : null;
 
         // ===== IMPROVED: Momentum with Google Trends =====
-        const now = new Date();
-        const daysSince = (dateStr: string) => Math.floor((now.getTime() - new Date(dateStr).getTime()) / (1000 * 60 * 60 * 24));
-        const avgUploadAge = Math.round(videos.reduce((sum, v) => sum + daysSince(v.publishedAt), 0) / videos.length);
-        const recentVideos = videos.filter(v => daysSince(v.publishedAt) < 30);
+        const avgUploadAge = Math.round(videos.reduce((sum, v) => sum + v.daysSinceUpload, 0) / videos.length);
+        const recentVideos = videos.filter(v => v.daysSinceUpload < 30);
         const recentPct = Math.round((recentVideos.length / videos.length) * 100);
 
         // ===== IMPROVED: Lifecycle Labels =====
@@ -550,12 +504,20 @@ export async function GET(request: NextRequest) {
             lifecycle
         };
 
-        // Title patterns
+        // Title patterns (share of videos matching each registry pattern, user-defined included)
+        const patternShares = listTitlePatterns().map(({ id, name, category, custom, test }) => ({
+            id,
+            name,
+            category,
+            custom,
+            share: Math.round((videos.filter(v => test(v.title)).length / videos.length) * 100)
+        }));
+        const shareOf = (id: string) => patternShares.find(p => p.id === id)?.share ?? 0;
         const titlePatterns = {
-            hasNumber: Math.round((videos.filter(v => /\d/.test(v.title)).length / videos.length) * 100),
-            hasQuestion: Math.round((videos.filter(v => /\?/.test(v.title)).length / videos.length) * 100),
-            hasEmoji: Math.round((videos.filter(v => /[\u{1F300}-\u{1F9FF}]/u.test(v.title)).length / videos.length) * 100),
-            allCaps: Math.round((videos.filter(v => /[A-Z]{3,}/.test(v.title)).length / videos.length) * 100),
+            hasNumber: shareOf('hasNumber'),
+            hasQuestion: shareOf('question'),
+            hasEmoji: shareOf('emoji'),
+            allCaps: shareOf('allCapsWord'),
             avgTitleLength: Math.round(videos.reduce((s, v) => s + v.title.length, 0) / videos.length)
         };
 
@@ -587,10 +549,7 @@ export async function GET(request: NextRequest) {
         const uniqueChannels = new Set(videos.map(v => v.channelId)).size;
         const channelConcentration = 1 - (uniqueChannels / videos.length); // Higher = fewer unique channels = more saturated
 
-        const avgDaysOld = videos.reduce((sum, v) => {
-            const days = Math.floor((Date.now() - new Date(v.publishedAt).getTime()) / (1000 * 60 * 60 * 24));
-            return sum + days;
-        }, 0) / videos.length;
+        const avgDaysOld = videos.reduce((sum, v) => sum + v.daysSinceUpload, 0) / videos.length;
         const ageFactor = Math.min(avgDaysOld / 365, 1); // Older content = stale niche
 
         const competitionFactor = Math.min(videos.length / 100, 1); // More videos = more competition
@@ -617,7 +576,7 @@ export async function GET(request: NextRequest) {
         // ===== NEW: Trending Topics (from Google Trends) =====
         let trendingTopics: { keyword: string; growth?: string; source: string }[] = [];
         try {
-            const relatedQueries = await googleTrends.relatedQueries({ keyword: query, geo: regionCode });
+            const relatedQueries = await fetchRelatedQueries(cache, { keyword: query, geo: regionCode });
             const relatedData = JSON.parse(relatedQueries);
             const rising = relatedData?.default?.rankedList?.[1]?.rankedKeyword || [];
 
@@ -676,12 +635,34 @@ export async function GET(request: NextRequest) {
         // Sort by opportunity score
         blueOceans.sort((a, b) => b.opportunityScore - a.opportunityScore);
 
+        // Record the niche's headline metrics for drift tracking
+        const snapshot = saveSnapshot('analyze', query, regionCode, {
+            sampleSize: videosWithOutliers.length,
+            saturationScore: saturation.score,
+            outlierRate: outlierStats.rate,
+            lengthBuckets: analysis.map(a => ({
+                range: a.range,
+                count: a.count,
+                avgViews: a.avgViews,
+                opportunityScore: a.opportunityScore
+            })),
+            momentum: {
+                status: momentum.status,
+                trendChange: momentum.trendChange,
+                recentPct: momentum.recentPct
+            },
+            loyaltyRatio: loyaltyRatio.avgRatio,
+            demandScore: null
+        });
+
         return NextResponse.json({
             query,
+            snapshotId: snapshot?.id ?? null,
             totalVideos: videosWithOutliers.length,
             overallAvgViews: Math.round(overallAvgViews),
             videos: videosWithOutliers,
             outlierStats,
+            performanceModel: describeExpectedViews(performanceModel),
             saturation,
             trendingTopics,
             blueOceans: blueOceans.slice(0, 5),
@@ -692,11 +673,17 @@ export async function GET(request: NextRequest) {
             momentum,
             loyaltyRatio,
             titlePatterns,
+            patternShares,
             thumbnailAnalysis,
-            thumbnailPrompt
+            thumbnailPrompt,
+            quota: youtube.quota(),
+            cache: cache.report()
         });
 
     } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            return NextResponse.json({ error: error.message, quota: youtube.quota() }, { status: 429 });
+        }
         if (axios.isAxiosError(error) && error.response) {
             return NextResponse.json({
                 error: `API Error: ${error.response.status} - ${JSON.stringify(error.response.data)}`
@@ -1,25 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { createRequestCache } from '@/lib/cache';
+import { cosineSimilarity, createEmbedder, RELATED_SIMILARITY } from '@/lib/embeddings';
+import { channelBaselineCost, fetchChannelBaselines, fitExpectedViews, PerformanceScore, scorePerformance } from '@/lib/expected-views';
+import { createYouTubeClient, isYouTubeConfigured, QuotaExceededError, UNIT_COSTS } from '@/lib/youtube';
+import { normalizeChannels, normalizeVideo, normalizeVideos, VideoData } from '@/lib/video';
+import { listTitlePatterns } from '@/lib/patterns';
+import { GEMINI_API_KEY, isGeminiConfigured } from '@/lib/gemini';
 
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.YOUTUBE_API_KEY;
-const BASE_URL = 'https://www.googleapis.com/youtube/v3';
-
-interface VideoData {
-    id: string;
-    title: string;
-    description: string;
-    thumbnail: string;
-    duration: number;
-    views: number;
-    likes: number;
-    comments: number;
-    publishedAt: string;
-    channelId: string;
-    channelTitle: string;
-    isShort: boolean;
-}
+// Below this many similar titles the comparison falls back to every search result
+const MIN_SIMILAR_COMPETITORS = 10;
 
 // Extract video ID from various URL formats
 function extractVideoId(input: string): string | null {
@@ -47,55 +38,6 @@ function extractVideoId(input: string): string | null {
     return null;
 }
 
-function parseDuration(isoDuration: string): number {
-    const match = isoDuration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-    if (!match) return 0;
-    return parseInt(match[1] || '0', 10) * 3600 +
-        parseInt(match[2] || '0', 10) * 60 +
-        parseInt(match[3] || '0', 10);
-}
-
-function daysSinceUpload(publishedAt: string): number {
-    const uploadDate = new Date(publishedAt);
-    const now = new Date();
-    return Math.max(1, Math.floor((now.getTime() - uploadDate.getTime()) / (1000 * 60 * 60 * 24)));
-}
-
-function calculateMean(values: number[]): number {
-    if (values.length === 0) return 0;
-    return values.reduce((sum, v) => sum + v, 0) / values.length;
-}
-
-function calculateStdDev(values: number[], mean: number): number {
-    if (values.length < 2) return 0;
-    const squaredDiffs = values.map(v => Math.pow(v - mean, 2));
-    return Math.sqrt(squaredDiffs.reduce((sum, v) => sum + v, 0) / values.length);
-}
-
-// Extract title features for pattern analysis
-function extractTitleFeatures(title: string): Record<string, boolean | number> {
-    return {
-        hasNumber: /\d/.test(title),
-        hasQuestion: /\?/.test(title),
-        hasExclamation: /!/.test(title),
-        hasPipe: /\|/.test(title),
-        hasColon: /:/.test(title),
-        hasAllCaps: /[A-Z]{3,}/.test(title),
-        startsWithNumber: /^\d/.test(title),
-        startsWithHow: /^how/i.test(title),
-        startsWithWhy: /^why/i.test(title),
-        startsWithWhat: /^what/i.test(title),
-        hasListFormat: /\d+\s+(ways|tips|things|reasons|steps|mistakes)/i.test(title),
-        hasBeginner: /beginner/i.test(title),
-        hasUltimate: /ultimate/i.test(title),
-        hasGuide: /guide/i.test(title),
-        hasSecret: /secret/i.test(title),
-        hasYear: /202\d/i.test(title),
-        wordCount: title.split(/\s+/).length,
-        charCount: title.length,
-    };
-}
-
 export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const videoInput = searchParams.get('video');
@@ -104,11 +46,17 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Missing "video" parameter. Provide a video URL or ID.' }, { status: 400 });
     }
 
-    if (!YOUTUBE_API_KEY) {
+    if (!isYouTubeConfigured()) {
         return NextResponse.json({ error: 'YOUTUBE_API_KEY not configured' }, { status: 500 });
     }
 
+    const cache = createRequestCache();
+    const youtube = createYouTubeClient('audit', cache);
+
     try {
+        // video + channel lookups, a competitor search and its stats, then channel baselines
+        youtube.reserve(UNIT_COSTS.search + 2 * UNIT_COSTS.videos + UNIT_COSTS.channels + channelBaselineCost(50));
+
         // 1. Extract video ID
         const videoId = extractVideoId(videoInput);
         if (!videoId) {
@@ -116,12 +64,9 @@ export async function GET(request: NextRequest) {
         }
 
         // 2. Get video details
-        const videoResponse = await axios.get(`${BASE_URL}/videos`, {
-            params: {
-                part: 'snippet,statistics,contentDetails',
-                id: videoId,
-                key: YOUTUBE_API_KEY
-            }
+        const videoResponse = await youtube.get('videos', {
+            part: 'snippet,statistics,contentDetails',
+            id: videoId
         });
 
         const video = videoResponse.data.items?.[0];
@@ -129,53 +74,31 @@ export async function GET(request: NextRequest) {
             return NextResponse.json({ error: 'Video not found' }, { status: 404 });
         }
 
-        const duration = parseDuration(video.contentDetails.duration);
-        const isShort = duration <= 60;
-        const daysSince = daysSinceUpload(video.snippet.publishedAt);
-
-        const videoData: VideoData = {
-            id: video.id,
-            title: video.snippet.title,
-            description: video.snippet.description,
-            thumbnail: video.snippet.thumbnails.maxres?.url || video.snippet.thumbnails.high?.url || video.snippet.thumbnails.default?.url,
-            duration,
-            views: parseInt(video.statistics.viewCount || '0', 10),
-            likes: parseInt(video.statistics.likeCount || '0', 10),
-            comments: parseInt(video.statistics.commentCount || '0', 10),
-            publishedAt: video.snippet.publishedAt,
-            channelId: video.snippet.channelId,
-            channelTitle: video.snippet.channelTitle,
-            isShort
-        };
-
-        // Calculate velocity
-        const velocity = Math.round(videoData.views / daysSince);
+        // Prefer the full-size frame for the vision audit
+        const normalized = normalizeVideo(video);
+        const videoData: VideoData = { ...normalized, thumbnail: video.snippet.thumbnails.maxres?.url || normalized.thumbnail };
+        const { isShort, daysSinceUpload: daysSince } = videoData;
+        const velocity = Math.round(videoData.velocity);
 
         // 3. Get channel stats for context
-        const channelResponse = await axios.get(`${BASE_URL}/channels`, {
-            params: {
-                part: 'statistics',
-                id: videoData.channelId,
-                key: YOUTUBE_API_KEY
-            }
+        const channelResponse = await youtube.get('channels', {
+            part: 'statistics',
+            id: videoData.channelId
         });
 
-        const channelStats = channelResponse.data.items?.[0]?.statistics || {};
-        const channelSubs = parseInt(channelStats.subscriberCount || '0', 10);
+        const [channel] = normalizeChannels(channelResponse.data.items);
+        const channelSubs = channel?.subscribers || 0;
         const viewToSubRatio = channelSubs > 0 ? Math.round((videoData.views / channelSubs) * 100) : 0;
 
         // 4. Search for competing videos (same topic)
         const searchQuery = videoData.title.split(/[:|—\-]/).slice(0, 2).join(' ').replace(/[^\w\s]/g, '').trim();
 
-        const competitorResponse = await axios.get(`${BASE_URL}/search`, {
-            params: {
-                part: 'snippet',
-                q: searchQuery,
-                type: 'video',
-                maxResults: 50,
-                order: 'relevance',
-                key: YOUTUBE_API_KEY
-            }
+        const competitorResponse = await youtube.get('search', {
+            part: 'snippet',
+            q: searchQuery,
+            type: 'video',
+            maxResults: 50,
+            order: 'relevance'
         });
 
         const competitorIds = competitorResponse.data.items
@@ -184,55 +107,70 @@ export async function GET(request: NextRequest) {
             .join(',');
 
         // 5. Get competitor stats
-        let competitors: { id: string; title: string; views: number; velocity: number; thumbnail?: string; zScore?: number }[] = [];
+        let competitors: {
+            id: string;
+            title: string;
+            channelId: string;
+            views: number;
+            velocity: number;
+            daysSinceUpload: number;
+            thumbnail?: string;
+            similarity: number;
+            performanceRatio?: number;
+            zScore?: number;
+        }[] = [];
+        let comparedAgainst: 'similar' | 'all' = 'all';
         let competitorZScore = 0;
+        let performance: PerformanceScore | null = null;
+        let channelMedianViews: number | null = null;
         let competitionLevel = 'Unknown';
         let percentile = 0;
 
         if (competitorIds) {
-            const competitorStatsResponse = await axios.get(`${BASE_URL}/videos`, {
-                params: {
-                    part: 'snippet,statistics',
-                    id: competitorIds,
-                    key: YOUTUBE_API_KEY
-                }
+            const competitorStatsResponse = await youtube.get('videos', {
+                part: 'snippet,statistics',
+                id: competitorIds
             });
 
-            competitors = competitorStatsResponse.data.items.map((v: {
-                id: string;
-                snippet: { title: string; publishedAt: string; thumbnails: { high?: { url: string }; default?: { url: string } } };
-                statistics: { viewCount?: string };
-            }) => {
-                const compViews = parseInt(v.statistics.viewCount || '0', 10);
-                const compDays = daysSinceUpload(v.snippet.publishedAt);
-                return {
-                    id: v.id,
-                    title: v.snippet.title,
-                    views: compViews,
-                    velocity: compDays > 0 ? Math.round(compViews / compDays) : 0,
-                    thumbnail: v.snippet.thumbnails.high?.url || v.snippet.thumbnails.default?.url
-                };
+            // Search matches on loose keywords; keep the results whose titles are actually similar
+            const competitorVideos = normalizeVideos(competitorStatsResponse.data.items);
+            const embedder = createEmbedder([...competitorVideos.map(v => v.title), videoData.title]);
+            const titleVector = embedder.embed(videoData.title);
+
+            const searchResults = competitorVideos.map(v => ({
+                id: v.id,
+                title: v.title,
+                channelId: v.channelId,
+                views: v.views,
+                velocity: Math.round(v.velocity),
+                daysSinceUpload: v.daysSinceUpload,
+                thumbnail: v.thumbnail,
+                similarity: Math.round(cosineSimilarity(embedder.embed(v.title), titleVector) * 100) / 100
+            }));
+
+            const similar = searchResults.filter(c => c.similarity >= RELATED_SIMILARITY);
+            comparedAgainst = similar.length >= MIN_SIMILAR_COMPETITORS ? 'similar' : 'all';
+            competitors = comparedAgainst === 'similar' ? similar : searchResults;
+
+            // Score this video and its competitors against what their own channels get at that age,
+            // so a big channel's routine upload doesn't set the bar for a small one. The audited
+            // channel goes first so its recent uploads are always sampled.
+            const { baselines } = await fetchChannelBaselines(youtube, [videoData, ...competitorVideos]);
+            const model = fitExpectedViews([videoData, ...competitors], baselines);
+            const videoPerformance = scorePerformance(model, videoData, baselines.get(videoData.channelId));
+            performance = videoPerformance;
+            channelMedianViews = baselines.get(videoData.channelId)?.medianViews ?? null;
+            competitorZScore = videoPerformance.performanceZScore;
+
+            competitors = competitors.map(c => {
+                const scored = scorePerformance(model, c, baselines.get(c.channelId));
+                return { ...c, performanceRatio: scored.performanceRatio, zScore: scored.performanceZScore };
             });
 
-            // Calculate z-score for this video vs competitors
-            const allVelocities = [...competitors.map(c => c.velocity), velocity];
-            const meanVelocity = calculateMean(allVelocities);
-            const stdVelocity = calculateStdDev(allVelocities, meanVelocity);
-
-            if (stdVelocity > 0) {
-                competitorZScore = Math.round(((velocity - meanVelocity) / stdVelocity) * 100) / 100;
-
-                // Add z-scores to competitors
-                competitors = competitors.map(c => ({
-                    ...c,
-                    zScore: Math.round(((c.velocity - meanVelocity) / stdVelocity) * 100) / 100
-                }));
-            }
-
-            // Calculate percentile
-            const sortedVelocities = allVelocities.sort((a, b) => a - b);
-            const rank = sortedVelocities.indexOf(velocity);
-            percentile = Math.round(((rank + 1) / sortedVelocities.length) * 100);
+            // Calculate percentile on channel-relative performance
+            const ratios = [...competitors.map(c => c.performanceRatio || 0), videoPerformance.performanceRatio];
+            const atOrBelow = ratios.filter(r => r <= videoPerformance.performanceRatio).length;
+            percentile = Math.round((atOrBelow / ratios.length) * 100);
 
             // Competition level based on total views in niche
             const totalCompetitorViews = competitors.reduce((sum, c) => sum + c.views, 0);
@@ -243,10 +181,9 @@ export async function GET(request: NextRequest) {
         }
 
         // 6. Analyze title patterns
-        const titleFeatures = extractTitleFeatures(videoData.title);
-        const titlePatterns = Object.entries(titleFeatures)
-            .filter(([key, value]) => typeof value === 'boolean' && value)
-            .map(([key]) => key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase()).replace('Has', '').replace('Starts With', 'Starts with').trim());
+        const matchedPatterns = listTitlePatterns().filter(p => p.test(videoData.title));
+        const titlePatterns = matchedPatterns.map(p => p.name);
+        const matchedIds = new Set(matchedPatterns.map(p => p.id));
 
         // 7. Determine retroactive verdict
         let retroVerdict = {
@@ -289,7 +226,7 @@ export async function GET(request: NextRequest) {
             betterTitles: [] as string[]
         };
 
-        if (GEMINI_API_KEY) {
+        if (isGeminiConfigured()) {
             try {
                 const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
                 const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
@@ -303,6 +240,7 @@ VIDEO BEING AUDITED:
 Title: "${videoData.title}"
 Views: ${videoData.views.toLocaleString()}
 Days since upload: ${daysSince}
+Expected views for this channel at this age: ${performance ? `${performance.expectedViews.toLocaleString()} (${performance.performanceRatio}x)` : 'unknown'}
 Z-score: ${competitorZScore} (${competitorZScore > 0 ? 'above' : 'below'} average)
 ${isShort ? 'This is a Short (under 60 seconds)' : 'This is a long-form video'}
 
@@ -321,8 +259,9 @@ Based on comparing this video to competitors, provide:
 Return ONLY valid JSON:
 {"whatWorked":["..."],"whatCouldImprove":["..."],"followUpIdeas":["..."],"betterTitles":["..."]}`;
 
-                const result = await model.generateContent(prompt);
-                const responseText = result.response.text();
+                const responseText = await cache.fetch('gemini', { model: 'gemini-2.0-flash', prompt }, async () =>
+                    (await model.generateContent(prompt)).response.text()
+                );
                 const jsonMatch = responseText.match(/\{[\s\S]*\}/);
 
                 if (jsonMatch) {
@@ -339,6 +278,8 @@ Return ONLY valid JSON:
                 ...videoData,
                 velocity,
                 daysSince,
+                expectedViews: performance?.expectedViews ?? null,
+                performanceRatio: performance?.performanceRatio ?? null,
                 engagement: {
                     likeRatio: videoData.views > 0 ? Math.round((videoData.likes / videoData.views) * 10000) / 100 : 0,
                     commentRatio: videoData.views > 0 ? Math.round((videoData.comments / videoData.views) * 10000) / 100 : 0
@@ -349,6 +290,7 @@ Return ONLY valid JSON:
                 id: videoData.channelId,
                 title: videoData.channelTitle,
                 subscribers: channelSubs,
+                medianViews: channelMedianViews,
                 viewToSubRatio: `${viewToSubRatio}%`
             },
 
@@ -359,16 +301,17 @@ Return ONLY valid JSON:
                     competitorZScore >= 0.5 ? 'Above Average' :
                         competitorZScore >= -0.5 ? 'Average' : 'Below Average',
                 competitionLevel,
-                sampleSize: competitors.length
+                sampleSize: competitors.length,
+                comparedAgainst
             },
 
             retroVerdict,
 
             titleAnalysis: {
                 patterns: titlePatterns,
-                wordCount: titleFeatures.wordCount,
-                charCount: titleFeatures.charCount,
-                hasHooks: titleFeatures.hasNumber || titleFeatures.hasQuestion || titleFeatures.hasListFormat
+                wordCount: videoData.title.split(/\s+/).length,
+                charCount: videoData.title.length,
+                hasHooks: matchedIds.has('hasNumber') || matchedIds.has('question') || matchedIds.has('numberedList')
             },
 
             aiInsights,
@@ -377,20 +320,27 @@ Return ONLY valid JSON:
                 .filter(c => (c.zScore || 0) > 0)
                 .sort((a, b) => (b.zScore || 0) - (a.zScore || 0))
                 .slice(0, 6)
-                .map(c => ({ id: c.id, title: c.title, views: c.views, thumbnail: c.thumbnail, zScore: c.zScore })),
+                .map(c => ({ id: c.id, title: c.title, views: c.views, thumbnail: c.thumbnail, performanceRatio: c.performanceRatio, zScore: c.zScore, similarity: c.similarity })),
 
             methodology: {
-                approach: 'Compared video velocity (views/day) against similar videos in the same topic',
+                approach: 'Compared views against what each channel normally gets at the same age: a regression of log views on log subscribers, log channel median views and log age, fitted on this video and its competitors',
+                similarity: `Competitors are search results whose titles are similar to this one (local TF-IDF embeddings); with fewer than ${MIN_SIMILAR_COMPETITORS} all results are used`,
                 limitations: [
-                    'Z-score based on velocity, not total views',
-                    'Competitor sample is top 50 by relevance, not comprehensive',
+                    'Z-score based on channel- and age-adjusted views, not total views or views/day',
+                    'Channel median comes from the last 10 uploads for the most-represented channels, lifetime views per video for the rest',
+                    'Competitor sample is drawn from the top 50 by relevance, not comprehensive',
                     'Cannot measure CTR, retention, or algorithm factors',
                     'Retroactive analysis - hindsight is different from prediction'
                 ]
-            }
+            },
+            quota: youtube.quota(),
+            cache: cache.report()
         });
 
     } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            return NextResponse.json({ error: error.message, quota: youtube.quota() }, { status: 429 });
+        }
         if (axios.isAxiosError(error) && error.response) {
             if (error.response.status === 403 && error.response.data?.error?.message?.includes('quota')) {
                 return NextResponse.json({ error: 'YouTube API quota exceeded. Resets at midnight Pacific.' }, { status: 429 });
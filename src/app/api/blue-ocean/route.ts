@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
-import googleTrends from 'google-trends-api';
-
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-const BASE_URL = 'https://www.googleapis.com/youtube/v3';
+import { createRequestCache, RequestCache } from '@/lib/cache';
+import { createYouTubeClient, isYouTubeConfigured, QuotaExceededError, UNIT_COSTS, YouTubeClient } from '@/lib/youtube';
+import { fetchAutocomplete, fetchInterestOverTime } from '@/lib/trends';
+import { normalizeVideos } from '@/lib/video';
 
 // Proven formats based on observable patterns (NO FAKE RETENTION RATES)
 const CONTENT_FORMATS = [
@@ -33,16 +33,13 @@ interface LowCompetitionCombination {
     reasoning: string;
 }
 
-async function checkTopicSupply(topic: string): Promise<{ count: number; avgViews: number }> {
+async function checkTopicSupply(youtube: YouTubeClient, topic: string): Promise<{ count: number; avgViews: number }> {
     try {
-        const searchResponse = await axios.get(`${BASE_URL}/search`, {
-            params: {
-                part: 'snippet',
-                q: topic,
-                type: 'video',
-                maxResults: 10,
-                key: YOUTUBE_API_KEY
-            }
+        const searchResponse = await youtube.get('search', {
+            part: 'snippet',
+            q: topic,
+            type: 'video',
+            maxResults: 10
         });
 
         const items = searchResponse.data.items || [];
@@ -50,17 +47,12 @@ async function checkTopicSupply(topic: string): Promise<{ count: number; avgView
 
         const videoIds = items.map((item: { id: { videoId: string } }) => item.id.videoId).join(',');
 
-        const statsResponse = await axios.get(`${BASE_URL}/videos`, {
-            params: {
-                part: 'statistics',
-                id: videoIds,
-                key: YOUTUBE_API_KEY
-            }
+        const statsResponse = await youtube.get('videos', {
+            part: 'statistics',
+            id: videoIds
         });
 
-        const views = statsResponse.data.items.map((v: { statistics: { viewCount?: string } }) =>
-            parseInt(v.statistics.viewCount || '0', 10)
-        );
+        const views = normalizeVideos(statsResponse.data.items).map(v => v.views);
 
         return {
             count: items.length,
@@ -71,9 +63,9 @@ async function checkTopicSupply(topic: string): Promise<{ count: number; avgView
     }
 }
 
-async function checkBaseDemand(topic: string): Promise<number> {
+async function checkBaseDemand(cache: RequestCache, topic: string): Promise<number> {
     try {
-        const interestData = await googleTrends.interestOverTime({ keyword: topic });
+        const interestData = await fetchInterestOverTime(cache, { keyword: topic });
         const parsed = JSON.parse(interestData);
         const timelineData = parsed?.default?.timelineData || [];
         if (timelineData.length > 0) {
@@ -94,22 +86,26 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Missing "topic" parameter' }, { status: 400 });
     }
 
-    if (!YOUTUBE_API_KEY) {
+    if (!isYouTubeConfigured()) {
         return NextResponse.json({ error: 'YOUTUBE_API_KEY not configured' }, { status: 500 });
     }
 
+    const cache = createRequestCache();
+    const youtube = createYouTubeClient('blue-ocean', cache);
+
     try {
+        // Every topic × format combination costs a search plus a videos call
+        youtube.reserve(4 * 8 * (UNIT_COSTS.search + UNIT_COSTS.videos));
+
         // 1. Check base demand for the seed topic first
-        const baseDemand = await checkBaseDemand(seedTopic);
+        const baseDemand = await checkBaseDemand(cache, seedTopic);
 
         // 2. Get related topics from autocomplete
         const relatedTopics: string[] = [seedTopic];
 
         try {
-            const autocompleteResponse = await axios.get(
-                `https://suggestqueries.google.com/complete/search?client=youtube&ds=yt&q=${encodeURIComponent(seedTopic)}`
-            );
-            const matches = autocompleteResponse.data.toString().match(/\["([^"]+)"/g);
+            const autocompleteText = await fetchAutocomplete(cache, seedTopic);
+            const matches = autocompleteText.match(/\["([^"]+)"/g);
             if (matches) {
                 const suggestions = matches.slice(1, 6).map((m: string) => m.replace(/\["|"/g, ''));
                 relatedTopics.push(...suggestions);
@@ -124,12 +120,12 @@ export async function GET(request: NextRequest) {
 
         for (const topic of topicsToCheck) {
             // Check demand for this specific topic
-            const topicDemand = topic === seedTopic ? baseDemand : await checkBaseDemand(topic);
+            const topicDemand = topic === seedTopic ? baseDemand : await checkBaseDemand(cache, topic);
 
             for (const formatInfo of CONTENT_FORMATS.slice(0, 8)) {
                 const combo = `${formatInfo.format} ${topic}`;
 
-                const supply = await checkTopicSupply(combo);
+                const supply = await checkTopicSupply(youtube, combo);
 
                 // Determine opportunity type and risk
                 let opportunityType: 'untested' | 'underserved' | 'emerging';
@@ -227,10 +223,15 @@ export async function GET(request: NextRequest) {
                     ? `Found ${mediumRisk.length} medium-risk experiments worth testing. Validate demand before investing heavily.`
                     : 'No low-competition combinations found with proven demand. Consider a more specific topic angle.',
 
-            formatsUsed: CONTENT_FORMATS.slice(0, 8).map(f => f.format)
+            formatsUsed: CONTENT_FORMATS.slice(0, 8).map(f => f.format),
+            quota: youtube.quota(),
+            cache: cache.report()
         });
 
     } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            return NextResponse.json({ error: error.message, quota: youtube.quota() }, { status: 429 });
+        }
         if (axios.isAxiosError(error) && error.response) {
             return NextResponse.json({
                 error: `API Error: ${error.response.status}`
@@ -1,14 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
-import { logMean, logStdDev, nicheNormalizedVelocity, logTransform, expTransform } from '@/lib/stats';
-
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-const BASE_URL = 'https://www.googleapis.com/youtube/v3';
+import { calculateMean, calculateStdDev, logMean, expTransform } from '@/lib/stats';
+import { ageAdjust, describeViewDecay, fitViewDecay, logResidual } from '@/lib/decay';
+import { createRequestCache } from '@/lib/cache';
+import { currentTime } from '@/lib/fixtures';
+import { createYouTubeClient, isYouTubeConfigured, QuotaExceededError, UNIT_COSTS } from '@/lib/youtube';
+import { normalizeChannel, normalizeVideos } from '@/lib/video';
 
 interface VideoMetrics {
     views: number;
     publishedAt: string;
     velocity: number;
+    daysSinceUpload: number;
+    performanceRatio: number; // views / what a niche video this age gets
 }
 
 interface ChannelGrowth {
@@ -19,8 +23,9 @@ interface ChannelGrowth {
     videoCount: number;
     recentVideos: VideoMetrics[];
     metrics: {
-        avgVelocity: number;
-        velocityTrend: number; // Positive = accelerating, Negative = decelerating
+        avgVelocity: number; // views/day (geometric mean)
+        avgPerformanceRatio: number; // views vs. the niche view-decay curve (geometric mean)
+        performanceTrend: number; // % change in age-adjusted performance, newer vs older half; positive = accelerating
         consistencyScore: number;
         breakoutPotential: number;
     };
@@ -31,23 +36,6 @@ interface ChannelGrowth {
     };
 }
 
-function daysSinceUpload(publishedAt: string): number {
-    const uploadDate = new Date(publishedAt);
-    const now = new Date();
-    return Math.max(1, Math.floor((now.getTime() - uploadDate.getTime()) / (1000 * 60 * 60 * 24)));
-}
-
-function calculateMean(values: number[]): number {
-    if (values.length === 0) return 0;
-    return values.reduce((sum, v) => sum + v, 0) / values.length;
-}
-
-function calculateStdDev(values: number[], mean: number): number {
-    if (values.length < 2) return 0;
-    const squaredDiffs = values.map(v => Math.pow(v - mean, 2));
-    return Math.sqrt(squaredDiffs.reduce((sum, v) => sum + v, 0) / values.length);
-}
-
 export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const niche = searchParams.get('niche');
@@ -56,41 +44,37 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Missing "niche" parameter' }, { status: 400 });
     }
 
-    if (!YOUTUBE_API_KEY) {
+    if (!isYouTubeConfigured()) {
         return NextResponse.json({ error: 'YOUTUBE_API_KEY not configured' }, { status: 500 });
     }
 
+    const cache = createRequestCache();
+    const youtube = createYouTubeClient('breakout', cache);
+
     try {
+        // Niche search + baseline stats, then channel/uploads/stats for up to 15 channels
+        youtube.reserve(UNIT_COSTS.search + UNIT_COSTS.videos + 15 * (UNIT_COSTS.channels + UNIT_COSTS.playlistItems + UNIT_COSTS.videos));
+
         // 1. Search for videos in the niche and get baseline stats
-        const searchResponse = await axios.get(`${BASE_URL}/search`, {
-            params: {
-                part: 'snippet',
-                q: niche,
-                type: 'video',
-                maxResults: 50,
-                order: 'date',
-                publishedAfter: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString(),
-                key: YOUTUBE_API_KEY
-            }
+        const searchResponse = await youtube.get('search', {
+            part: 'snippet',
+            q: niche,
+            type: 'video',
+            maxResults: 50,
+            order: 'date',
+            publishedAfter: new Date(currentTime() - 90 * 24 * 60 * 60 * 1000).toISOString()
         });
 
         const videoIds = searchResponse.data.items.map((item: { id: { videoId: string } }) => item.id.videoId).join(',');
 
         // Get stats for baseline calculation
-        const baselineResponse = await axios.get(`${BASE_URL}/videos`, {
-            params: {
-                part: 'snippet,statistics',
-                id: videoIds,
-                key: YOUTUBE_API_KEY
-            }
+        const baselineResponse = await youtube.get('videos', {
+            part: 'snippet,statistics',
+            id: videoIds
         });
 
-        // Calculate niche baseline velocities
-        const nicheVelocities: number[] = baselineResponse.data.items.map((v: { snippet: { publishedAt: string }, statistics: { viewCount?: string } }) => {
-            const views = parseInt(v.statistics.viewCount || '0', 10);
-            const days = daysSinceUpload(v.snippet.publishedAt);
-            return days > 0 ? views / days : 0;
-        }).filter((v: number) => v > 0);
+        // Fit the niche's view-decay curve so channels are judged on age-adjusted views
+        const nicheDecay = fitViewDecay(normalizeVideos(baselineResponse.data.items));
 
         // 2. Extract unique channels from baseline videos
         const channelMap = new Map<string, { id: string; title: string }>();
@@ -111,32 +95,28 @@ export async function GET(request: NextRequest) {
         for (const channel of channels) {
             try {
                 // Get channel info
-                const channelResponse = await axios.get(`${BASE_URL}/channels`, {
-                    params: {
-                        part: 'snippet,statistics,contentDetails',
-                        id: channel.id,
-                        key: YOUTUBE_API_KEY
-                    }
+                const channelResponse = await youtube.get('channels', {
+                    part: 'snippet,statistics,contentDetails',
+                    id: channel.id
                 });
 
-                const channelData = channelResponse.data.items?.[0];
-                if (!channelData) continue;
+                const channelItem = channelResponse.data.items?.[0];
+                if (!channelItem) continue;
 
-                const subscribers = parseInt(channelData.statistics.subscriberCount || '0', 10);
+                const channelData = normalizeChannel(channelItem);
+                const { subscribers } = channelData;
 
                 // Skip very large channels (already "broken out")
                 if (subscribers > 1000000) continue;
 
                 // Get recent uploads
-                const uploadsPlaylistId = channelData.contentDetails.relatedPlaylists.uploads;
-
-                const videosResponse = await axios.get(`${BASE_URL}/playlistItems`, {
-                    params: {
-                        part: 'snippet,contentDetails',
-                        playlistId: uploadsPlaylistId,
-                        maxResults: 10,
-                        key: YOUTUBE_API_KEY
-                    }
+                const uploadsPlaylistId = channelData.uploadsPlaylistId;
+                if (!uploadsPlaylistId) continue;
+
+                const videosResponse = await youtube.get('playlistItems', {
+                    part: 'snippet,contentDetails',
+                    playlistId: uploadsPlaylistId,
+                    maxResults: 10
                 });
 
                 const videoIds = videosResponse.data.items
@@ -145,53 +125,46 @@ export async function GET(request: NextRequest) {
 
                 if (!videoIds) continue;
 
-                const statsResponse = await axios.get(`${BASE_URL}/videos`, {
-                    params: {
-                        part: 'statistics,snippet',
-                        id: videoIds,
-                        key: YOUTUBE_API_KEY
-                    }
+                const statsResponse = await youtube.get('videos', {
+                    part: 'statistics,snippet',
+                    id: videoIds
                 });
 
-                const recentVideos: VideoMetrics[] = statsResponse.data.items.map((v: {
-                    statistics: { viewCount?: string };
-                    snippet: { publishedAt: string };
-                }) => {
-                    const views = parseInt(v.statistics.viewCount || '0', 10);
-                    const days = daysSinceUpload(v.snippet.publishedAt);
-                    return {
-                        views,
-                        publishedAt: v.snippet.publishedAt,
-                        velocity: days > 0 ? views / days : 0
-                    };
-                });
+                const recentVideos: VideoMetrics[] = normalizeVideos(statsResponse.data.items).map(v => ({
+                    views: v.views,
+                    publishedAt: v.publishedAt,
+                    velocity: v.velocity,
+                    daysSinceUpload: v.daysSinceUpload,
+                    performanceRatio: ageAdjust(nicheDecay, v).performanceRatio
+                }));
 
                 if (recentVideos.length < 3) continue;
 
-                // 4. Calculate growth metrics (Log-normalized)
-                const velocities = recentVideos.map(v => v.velocity);
-                const avgVelocity = logMean(velocities); // Log-mean
+                // 4. Calculate growth metrics (log residuals from the niche view-decay curve)
+                const avgVelocity = logMean(recentVideos.map(v => v.velocity)); // Log-mean, for display and sub ratio
+                const residuals = recentVideos.map(v => logResidual(nicheDecay, v));
+                const avgResidual = calculateMean(residuals);
 
-                // Velocity trend: compare first half vs second half
-                const midPoint = Math.floor(velocities.length / 2);
-                const firstHalf = velocities.slice(midPoint);
-                const secondHalf = velocities.slice(0, midPoint);
-                const velocityTrend = logMean(secondHalf) - logMean(firstHalf); // Log-trend
+                // Performance trend: newer half vs older half, both already age-adjusted
+                const midPoint = Math.floor(residuals.length / 2);
+                const olderHalf = residuals.slice(midPoint);
+                const newerHalf = residuals.slice(0, midPoint);
+                const performanceTrend = calculateMean(newerHalf) - calculateMean(olderHalf); // Log-trend
 
-                // Consistency score using Log-StdDev (lower is better)
-                const stdVelocity = logStdDev(velocities);
+                // Consistency score using the spread of residuals (lower is better)
+                const residualSpread = calculateStdDev(residuals);
                 // Normalized consistency: 0-1 scale where 0 std = 100 score
-                const consistencyScore = Math.max(0, Math.round(100 - (stdVelocity * 20)));
+                const consistencyScore = Math.max(0, Math.round(100 - (residualSpread * 20)));
 
-                // Breakout potential formula (Log-normalized & Niche-adjusted)
-                // 1. Niche Performance Score (0-40 pts): How high is velocity compared to niche baseline?
-                const nicheScore = nicheNormalizedVelocity(expTransform(avgVelocity), nicheVelocities);
+                // Breakout potential formula (age-adjusted & niche-relative)
+                // 1. Niche Performance Score (0-40 pts): How far above the niche curve are recent videos?
+                const nicheZ = nicheDecay.residualStdDev > 0 ? avgResidual / nicheDecay.residualStdDev : 0;
                 // Normalized z-score mapped to 0-40 scale (z=0 -> 20pts, z=2 -> 40pts)
-                const relativePerformanceScore = Math.min(40, Math.max(0, 20 + (nicheScore.normalized * 10)));
+                const relativePerformanceScore = Math.min(40, Math.max(0, 20 + (nicheZ * 10)));
 
                 // 2. Trend Score (0-30 pts): Is it accelerating?
                 // Trend > 0.5 (significant log growth) gets max points
-                const trendScore = velocityTrend > 0 ? Math.min(30, velocityTrend * 40) : 0;
+                const trendScore = performanceTrend > 0 ? Math.min(30, performanceTrend * 40) : 0;
 
                 // 3. Punch Above Weight (0-10 pts): Views vs Subs
                 const subVelocityRatio = subscribers > 0 ? expTransform(avgVelocity) / subscribers : 0;
@@ -207,15 +180,15 @@ export async function GET(request: NextRequest) {
                 let reasoning: string;
                 let confidence: 'low' | 'medium' | 'high';
 
-                if (breakoutPotential >= 70 && velocityTrend > 0) {
+                if (breakoutPotential >= 70 && performanceTrend > 0) {
                     outlook = 'High Potential';
-                    reasoning = 'Strong velocity with positive trend. Watch this channel.';
+                    reasoning = 'Beating the niche curve with a positive trend. Watch this channel.';
                     confidence = recentVideos.length >= 5 ? 'medium' : 'low';
                 } else if (breakoutPotential >= 50) {
                     outlook = 'Moderate';
                     reasoning = 'Decent performance with room to grow.';
                     confidence = 'medium';
-                } else if (velocityTrend >= 0) {
+                } else if (performanceTrend >= 0) {
                     outlook = 'Steady';
                     reasoning = 'Consistent but not accelerating.';
                     confidence = 'medium';
@@ -227,14 +200,16 @@ export async function GET(request: NextRequest) {
 
                 channelGrowthData.push({
                     channelId: channel.id,
-                    channelTitle: channelData.snippet.title,
-                    thumbnail: channelData.snippet.thumbnails.medium?.url || channelData.snippet.thumbnails.default?.url,
+                    channelTitle: channelData.title,
+                    thumbnail: channelData.thumbnail,
                     subscribers,
-                    videoCount: parseInt(channelData.statistics.videoCount || '0', 10),
+                    videoCount: channelData.videoCount,
                     recentVideos,
                     metrics: {
-                        avgVelocity: Math.round(avgVelocity),
-                        velocityTrend: Math.round(velocityTrend),
+                        // Reported in views/day and % change; the scoring above works in log space
+                        avgVelocity: Math.round(expTransform(avgVelocity)),
+                        avgPerformanceRatio: Math.round(Math.exp(avgResidual) * 100) / 100,
+                        performanceTrend: Math.round((Math.exp(performanceTrend) - 1) * 100),
                         consistencyScore,
                         breakoutPotential
                     },
@@ -255,6 +230,7 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({
             niche,
             channelsAnalyzed: sortedChannels.length,
+            viewDecay: describeViewDecay(nicheDecay),
 
             highPotential: sortedChannels
                 .filter(c => c.prediction.outlook === 'High Potential')
@@ -266,10 +242,27 @@ export async function GET(request: NextRequest) {
                     subscribers: c.subscribers,
                     breakoutScore: c.metrics.breakoutPotential,
                     avgVelocity: c.metrics.avgVelocity,
-                    trend: c.metrics.velocityTrend > 0 ? 'Accelerating' : 'Stable',
+                    avgPerformanceRatio: c.metrics.avgPerformanceRatio,
+                    trend: c.metrics.performanceTrend > 0 ? 'Accelerating' : 'Stable',
                     reasoning: c.prediction.reasoning
                 })),
 
+            // Every channel that was scored, with its recent-video performance (oldest first) for sparklines
+            candidates: sortedChannels.map(c => ({
+                channel: c.channelTitle,
+                channelId: c.channelId,
+                thumbnail: c.thumbnail,
+                subscribers: c.subscribers,
+                videoCount: c.videoCount,
+                outlook: c.prediction.outlook,
+                confidence: c.prediction.confidence,
+                reasoning: c.prediction.reasoning,
+                metrics: c.metrics,
+                performanceSeries: [...c.recentVideos]
+                    .sort((a, b) => a.publishedAt.localeCompare(b.publishedAt))
+                    .map(v => ({ publishedAt: v.publishedAt, velocity: Math.round(v.velocity), performanceRatio: v.performanceRatio }))
+            })),
+
             watchList: sortedChannels
                 .filter(c => c.prediction.outlook === 'Moderate')
                 .slice(0, 5)
@@ -282,18 +275,24 @@ export async function GET(request: NextRequest) {
                 })),
 
             methodology: {
-                approach: 'Velocity-based growth prediction using recent video performance',
-                formula: 'breakoutPotential = velocityScore + trendScore + consistencyBonus + punchAboveWeightBonus',
+                approach: 'Growth prediction from recent videos scored against the niche view-decay curve (log views vs. log age), so new and old uploads compare fairly',
+                formula: 'breakoutPotential = nichePerformanceScore + trendScore + consistencyBonus + punchAboveWeightBonus',
                 limitations: [
                     'Based on public view counts only',
                     'Cannot predict viral events or algorithm changes',
                     'Channels over 1M subs excluded (already "broken out")',
-                    'Trend calculated from last 10 videos only'
+                    'Trend calculated from last 10 videos only',
+                    'View-decay curve fitted on the last 90 days of niche uploads; older channel videos are extrapolated'
                 ]
-            }
+            },
+            quota: youtube.quota(),
+            cache: cache.report()
         });
 
     } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            return NextResponse.json({ error: error.message, quota: youtube.quota() }, { status: 429 });
+        }
         if (axios.isAxiosError(error) && error.response) {
             if (error.response.status === 403 && error.response.data?.error?.message?.includes('quota')) {
                 return NextResponse.json({ error: 'YouTube API quota exceeded. Resets at midnight Pacific.' }, { status: 429 });
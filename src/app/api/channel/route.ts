@@ -1,19 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.YOUTUBE_API_KEY;
-const BASE_URL = 'https://www.googleapis.com/youtube/v3';
-
-interface VideoData {
-    id: string;
-    title: string;
-    views: number;
-    publishedAt: string;
-    thumbnail: string;
-    duration: number;
-}
+import { createRequestCache } from '@/lib/cache';
+import { createYouTubeClient, isYouTubeConfigured, QuotaExceededError, UNIT_COSTS, YouTubeClient } from '@/lib/youtube';
+import { calculateMean, calculateStdDev } from '@/lib/stats';
+import { normalizeChannel, normalizeVideos } from '@/lib/video';
+import { GEMINI_API_KEY, isGeminiConfigured } from '@/lib/gemini';
 
 interface ContentGap {
     topic: string;
@@ -70,20 +62,17 @@ function extractChannelIdentifier(input: string): { type: 'id' | 'handle' | 'use
 }
 
 // Resolve channel ID from various identifiers
-async function resolveChannelId(identifier: { type: string; value: string }): Promise<string | null> {
+async function resolveChannelId(youtube: YouTubeClient, identifier: { type: string; value: string }): Promise<string | null> {
     if (identifier.type === 'id') {
         return identifier.value;
     }
 
     // For handles, search YouTube
-    const searchResponse = await axios.get(`${BASE_URL}/search`, {
-        params: {
-            part: 'snippet',
-            q: identifier.type === 'handle' ? `@${identifier.value}` : identifier.value,
-            type: 'channel',
-            maxResults: 1,
-            key: YOUTUBE_API_KEY
-        }
+    const searchResponse = await youtube.get('search', {
+        part: 'snippet',
+        q: identifier.type === 'handle' ? `@${identifier.value}` : identifier.value,
+        type: 'channel',
+        maxResults: 1
     });
 
     if (searchResponse.data.items?.[0]) {
@@ -93,26 +82,6 @@ async function resolveChannelId(identifier: { type: string; value: string }): Pr
     return null;
 }
 
-function parseDuration(isoDuration: string): number {
-    const match = isoDuration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-    if (!match) return 0;
-    const hours = parseInt(match[1] || '0', 10);
-    const minutes = parseInt(match[2] || '0', 10);
-    const seconds = parseInt(match[3] || '0', 10);
-    return hours * 3600 + minutes * 60 + seconds;
-}
-
-function calculateMean(values: number[]): number {
-    if (values.length === 0) return 0;
-    return values.reduce((sum, v) => sum + v, 0) / values.length;
-}
-
-function calculateStdDev(values: number[], mean: number): number {
-    if (values.length < 2) return 0;
-    const squaredDiffs = values.map(v => Math.pow(v - mean, 2));
-    return Math.sqrt(squaredDiffs.reduce((sum, v) => sum + v, 0) / values.length);
-}
-
 export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const channelInput = searchParams.get('channel');
@@ -121,29 +90,32 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Missing "channel" parameter. Provide a channel URL, handle, or ID.' }, { status: 400 });
     }
 
-    if (!YOUTUBE_API_KEY) {
+    if (!isYouTubeConfigured()) {
         return NextResponse.json({ error: 'YOUTUBE_API_KEY not configured' }, { status: 500 });
     }
 
+    const cache = createRequestCache();
+    const youtube = createYouTubeClient('channel', cache);
+
     try {
+        // Worst case includes a handle lookup via search
+        youtube.reserve(UNIT_COSTS.search + UNIT_COSTS.channels + UNIT_COSTS.playlistItems + UNIT_COSTS.videos);
+
         // 1. Parse and resolve channel identifier
         const identifier = extractChannelIdentifier(channelInput);
         if (!identifier) {
             return NextResponse.json({ error: 'Could not parse channel URL or handle' }, { status: 400 });
         }
 
-        const channelId = await resolveChannelId(identifier);
+        const channelId = await resolveChannelId(youtube, identifier);
         if (!channelId) {
             return NextResponse.json({ error: 'Channel not found' }, { status: 404 });
         }
 
         // 2. Get channel info
-        const channelResponse = await axios.get(`${BASE_URL}/channels`, {
-            params: {
-                part: 'snippet,statistics,contentDetails',
-                id: channelId,
-                key: YOUTUBE_API_KEY
-            }
+        const channelResponse = await youtube.get('channels', {
+            part: 'snippet,statistics,contentDetails',
+            id: channelId
         });
 
         const channel = channelResponse.data.items?.[0];
@@ -151,26 +123,18 @@ export async function GET(request: NextRequest) {
             return NextResponse.json({ error: 'Channel not found' }, { status: 404 });
         }
 
-        const channelInfo = {
-            id: channel.id,
-            title: channel.snippet.title,
-            description: channel.snippet.description,
-            thumbnail: channel.snippet.thumbnails.medium?.url || channel.snippet.thumbnails.default?.url,
-            subscribers: parseInt(channel.statistics.subscriberCount || '0', 10),
-            videoCount: parseInt(channel.statistics.videoCount || '0', 10),
-            viewCount: parseInt(channel.statistics.viewCount || '0', 10)
-        };
+        const channelInfo = normalizeChannel(channel);
 
         // 3. Get channel's recent videos
-        const uploadsPlaylistId = channel.contentDetails.relatedPlaylists.uploads;
-
-        const videosResponse = await axios.get(`${BASE_URL}/playlistItems`, {
-            params: {
-                part: 'snippet,contentDetails',
-                playlistId: uploadsPlaylistId,
-                maxResults: 50,
-                key: YOUTUBE_API_KEY
-            }
+        const uploadsPlaylistId = channelInfo.uploadsPlaylistId;
+        if (!uploadsPlaylistId) {
+            return NextResponse.json({ error: 'Channel has no public uploads' }, { status: 404 });
+        }
+
+        const videosResponse = await youtube.get('playlistItems', {
+            part: 'snippet,contentDetails',
+            playlistId: uploadsPlaylistId,
+            maxResults: 50
         });
 
         const videoIds = videosResponse.data.items
@@ -178,27 +142,12 @@ export async function GET(request: NextRequest) {
             .join(',');
 
         // 4. Get video statistics and durations
-        const statsResponse = await axios.get(`${BASE_URL}/videos`, {
-            params: {
-                part: 'statistics,contentDetails,snippet',
-                id: videoIds,
-                key: YOUTUBE_API_KEY
-            }
+        const statsResponse = await youtube.get('videos', {
+            part: 'statistics,contentDetails,snippet',
+            id: videoIds
         });
 
-        const videos: VideoData[] = statsResponse.data.items.map((v: {
-            id: string;
-            snippet: { title: string; publishedAt: string; thumbnails: { medium?: { url: string }; default?: { url: string } } };
-            statistics: { viewCount?: string };
-            contentDetails: { duration: string };
-        }) => ({
-            id: v.id,
-            title: v.snippet.title,
-            views: parseInt(v.statistics.viewCount || '0', 10),
-            publishedAt: v.snippet.publishedAt,
-            thumbnail: v.snippet.thumbnails.medium?.url || v.snippet.thumbnails.default?.url,
-            duration: parseDuration(v.contentDetails.duration)
-        }));
+        const videos = normalizeVideos(statsResponse.data.items);
 
         // 5. Analyze performance patterns
         const viewCounts = videos.map(v => v.views);
@@ -215,8 +164,8 @@ export async function GET(request: NextRequest) {
         const underperformers = videosWithZScore.filter(v => v.zScore < -0.5).sort((a, b) => a.zScore - b.zScore).slice(0, 5);
 
         // Content breakdown by duration
-        const shorts = videos.filter(v => v.duration <= 60);
-        const longForm = videos.filter(v => v.duration > 60);
+        const shorts = videos.filter(v => v.isShort);
+        const longForm = videos.filter(v => !v.isShort);
 
         // 6. Extract topics/keywords from titles
         const titleWords = videos.flatMap(v =>
@@ -242,7 +191,7 @@ export async function GET(request: NextRequest) {
         // 7. Generate AI suggestions for gaps
         let contentGaps: ContentGap[] = [];
 
-        if (GEMINI_API_KEY) {
+        if (isGeminiConfigured()) {
             try {
                 const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
                 const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
@@ -273,8 +222,9 @@ Based on this analysis, suggest 5 specific video ideas that:
 Return ONLY valid JSON:
 {"gaps":[{"topic":"specific video idea","opportunity":"why this could work","reasoning":"based on channel data","urgency":"high/medium/low"}]}`;
 
-                const result = await model.generateContent(prompt);
-                const responseText = result.response.text();
+                const responseText = await cache.fetch('gemini', { model: 'gemini-2.0-flash', prompt }, async () =>
+                    (await model.generateContent(prompt)).response.text()
+                );
                 const jsonMatch = responseText.match(/\{[\s\S]*\}/);
 
                 if (jsonMatch) {
@@ -346,10 +296,15 @@ Return ONLY valid JSON:
                     'Outlier detection uses z-score > 1.0 threshold',
                     'Content gaps are AI suggestions, not guarantees'
                 ]
-            }
+            },
+            quota: youtube.quota(),
+            cache: cache.report()
         });
 
     } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            return NextResponse.json({ error: error.message, quota: youtube.quota() }, { status: 429 });
+        }
         if (axios.isAxiosError(error) && error.response) {
             if (error.response.status === 403 && error.response.data?.error?.message?.includes('quota')) {
                 return NextResponse.json({ error: 'YouTube API quota exceeded. Resets at midnight Pacific.' }, { status: 429 });
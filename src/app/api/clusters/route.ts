@@ -1,26 +1,81 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import googleTrends from 'google-trends-api';
-
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.YOUTUBE_API_KEY;
-const BASE_URL = 'https://www.googleapis.com/youtube/v3';
-
-interface VideoData {
-    id: string;
-    title: string;
-    views: number;
-    publishedAt: string;
-    channelTitle: string;
-}
+import { createRequestCache } from '@/lib/cache';
+import { currentTime } from '@/lib/fixtures';
+import { createYouTubeClient, isYouTubeConfigured, QuotaExceededError, UNIT_COSTS } from '@/lib/youtube';
+import { fetchInterestOverTime } from '@/lib/trends';
+import { centroid, cosineSimilarity, createEmbedder } from '@/lib/embeddings';
+import { calculateMean, median } from '@/lib/stats';
+import { normalizeVideos, VideoData } from '@/lib/video';
+import { GEMINI_API_KEY, isGeminiConfigured } from '@/lib/gemini';
 
 interface TopicCluster {
     topic: string;
     videos: number;
+    share: number;              // % of the fetched videos in this cluster
+    channels: number;           // distinct channels among the members
     avgViews: number;
+    medianVelocity: number;     // views/day
     topVideo: { title: string; views: number; id: string };
     saturation: 'low' | 'medium' | 'high';
+    videoIds: string[];
+}
+
+interface ClusterAssignment {
+    cluster: number;
+    method: 'ai' | 'similarity';
+}
+
+// Every video lands in exactly one cluster. The first cluster Gemini lists an index under wins;
+// videos it skipped go to the cluster whose centroid (its name plus AI-assigned titles) is most
+// similar to their title, ties going to the larger cluster and then the earlier one.
+function assignVideos(videos: VideoData[], clusters: { topic: string; videoIndices?: unknown }[]): ClusterAssignment[] {
+    const assignments: (ClusterAssignment | null)[] = videos.map(() => null);
+
+    // The model's reply is untrusted: anything but a list of in-range integers is ignored
+    clusters.forEach((cluster, c) => {
+        if (!Array.isArray(cluster.videoIndices)) return;
+        cluster.videoIndices.forEach((index: unknown) => {
+            if (typeof index !== 'number' || !Number.isInteger(index)) return;
+            const i = index - 1; // the prompt numbers titles from 1
+            if (i >= 0 && i < videos.length && !assignments[i]) {
+                assignments[i] = { cluster: c, method: 'ai' };
+            }
+        });
+    });
+
+    const embedder = createEmbedder([...videos.map(v => v.title), ...clusters.map(c => c.topic)]);
+    const titleVectors = videos.map(v => embedder.embed(v.title));
+    const centroids = clusters.map((cluster, c) => centroid([
+        embedder.embed(cluster.topic),
+        ...titleVectors.filter((_, i) => assignments[i]?.cluster === c)
+    ]));
+    const aiSizes = clusters.map((_, c) => assignments.filter(a => a?.cluster === c).length);
+
+    return videos.map((_, i) => {
+        const existing = assignments[i];
+        if (existing) return existing;
+        let best = 0;
+        let bestScore = cosineSimilarity(titleVectors[i], centroids[0]);
+        for (let c = 1; c < clusters.length; c++) {
+            const score = cosineSimilarity(titleVectors[i], centroids[c]);
+            if (score > bestScore || (score === bestScore && aiSizes[c] > aiSizes[best])) {
+                best = c;
+                bestScore = score;
+            }
+        }
+        return { cluster: best, method: 'similarity' };
+    });
+}
+
+// Saturation from supply: a cluster's video count against an even split across clusters,
+// raised a level when few channels produce most of it (established players)
+function clusterSaturation(count: number, channels: number, total: number, clusterCount: number): 'low' | 'medium' | 'high' {
+    const relativeSupply = count / (total / clusterCount);
+    let level = relativeSupply >= 1.5 ? 2 : relativeSupply >= 0.75 ? 1 : 0;
+    if (count >= 5 && channels / count <= 0.5) level = Math.min(2, level + 1);
+    return (['low', 'medium', 'high'] as const)[level];
 }
 
 interface ContentGap {
@@ -32,12 +87,6 @@ interface ContentGap {
     searchInterest?: number;
 }
 
-function daysSinceUpload(publishedAt: string): number {
-    const uploadDate = new Date(publishedAt);
-    const now = new Date();
-    return Math.max(1, Math.floor((now.getTime() - uploadDate.getTime()) / (1000 * 60 * 60 * 24)));
-}
-
 export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const niche = searchParams.get('niche');
@@ -46,25 +95,27 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Missing "niche" parameter' }, { status: 400 });
     }
 
-    if (!YOUTUBE_API_KEY) {
+    if (!isYouTubeConfigured()) {
         return NextResponse.json({ error: 'YOUTUBE_API_KEY not configured' }, { status: 500 });
     }
 
-    if (!GEMINI_API_KEY) {
+    if (!isGeminiConfigured()) {
         return NextResponse.json({ error: 'GEMINI_API_KEY not configured for clustering' }, { status: 500 });
     }
 
+    const cache = createRequestCache();
+    const youtube = createYouTubeClient('clusters', cache);
+
     try {
+        youtube.reserve(UNIT_COSTS.search + UNIT_COSTS.videos);
+
         // 1. Fetch videos in the niche
-        const searchResponse = await axios.get(`${BASE_URL}/search`, {
-            params: {
-                part: 'snippet',
-                q: niche,
-                type: 'video',
-                maxResults: 50,
-                order: 'relevance',
-                key: YOUTUBE_API_KEY
-            }
+        const searchResponse = await youtube.get('search', {
+            part: 'snippet',
+            q: niche,
+            type: 'video',
+            maxResults: 50,
+            order: 'relevance'
         });
 
         const items = searchResponse.data.items || [];
@@ -75,31 +126,18 @@ export async function GET(request: NextRequest) {
         const videoIds = items.map((item: { id: { videoId: string } }) => item.id.videoId).join(',');
 
         // 2. Get video statistics
-        const statsResponse = await axios.get(`${BASE_URL}/videos`, {
-            params: {
-                part: 'snippet,statistics',
-                id: videoIds,
-                key: YOUTUBE_API_KEY
-            }
+        const statsResponse = await youtube.get('videos', {
+            part: 'snippet,statistics',
+            id: videoIds
         });
 
-        const videos: VideoData[] = statsResponse.data.items.map((v: {
-            id: string;
-            snippet: { title: string; publishedAt: string; channelTitle: string };
-            statistics: { viewCount?: string };
-        }) => ({
-            id: v.id,
-            title: v.snippet.title,
-            views: parseInt(v.statistics.viewCount || '0', 10),
-            publishedAt: v.snippet.publishedAt,
-            channelTitle: v.snippet.channelTitle
-        }));
+        const videos = normalizeVideos(statsResponse.data.items);
 
         // 3. Use Gemini to cluster videos by semantic topic and find gaps
         const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
         const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
 
-        const titlesWithViews = videos.map(v => `"${v.title}" (${v.views.toLocaleString()} views)`).join('\n');
+        const titlesWithViews = videos.map((v, i) => `${i + 1}. "${v.title}" (${v.views.toLocaleString()} views)`).join('\n');
 
         const clusterPrompt = `Analyze these YouTube video titles from the "${niche}" niche and perform semantic clustering.
 
@@ -108,8 +146,7 @@ ${titlesWithViews}
 
 TASK 1: Identify 5-8 distinct topic clusters within these videos. For each cluster:
 - Name the topic clearly
-- Count how many videos belong to it
-- Assess saturation (low/medium/high based on video count and view distribution)
+- List the numbers of the videos that belong to it; every video belongs to exactly one cluster
 
 TASK 2: Identify 3-5 content GAPS - topics that SHOULD exist in this niche but have few or no videos. These are opportunities.
 - Look for obvious sub-topics that aren't covered
@@ -119,7 +156,7 @@ TASK 2: Identify 3-5 content GAPS - topics that SHOULD exist in this niche but h
 Return ONLY valid JSON:
 {
   "clusters": [
-    {"topic": "specific topic name", "videoCount": 5, "saturation": "high/medium/low", "topVideoTitle": "best performing title in cluster"}
+    {"topic": "specific topic name", "videoIndices": [1, 4, 9]}
   ],
   "gaps": [
     {"topic": "untapped topic", "opportunity": "why this is valuable", "reasoning": "based on cluster analysis", "urgency": "high/medium/low", "relatedCluster": "which existing cluster it relates to"}
@@ -127,8 +164,9 @@ Return ONLY valid JSON:
   "nicheInsight": "one sentence summary of the niche's content landscape"
 }`;
 
-        const result = await model.generateContent(clusterPrompt);
-        const responseText = result.response.text();
+        const responseText = await cache.fetch('gemini', { model: 'gemini-2.0-flash', prompt: clusterPrompt }, async () =>
+            (await model.generateContent(clusterPrompt)).response.text()
+        );
         const jsonMatch = responseText.match(/\{[\s\S]*\}/);
 
         if (!jsonMatch) {
@@ -137,27 +175,36 @@ Return ONLY valid JSON:
 
         const parsed = JSON.parse(jsonMatch[0]);
 
-        // 4. Enrich clusters with actual video data
-        const enrichedClusters: TopicCluster[] = (parsed.clusters || []).map((cluster: {
-            topic: string;
-            videoCount: number;
-            saturation: string;
-            topVideoTitle: string;
-        }) => {
-            // Find the top video mentioned
-            const topVideo = videos.find(v => v.title.toLowerCase().includes(cluster.topVideoTitle?.toLowerCase()?.slice(0, 30) || ''));
-
-            // Estimate avg views for this cluster (simplified - would need actual matching in production)
-            const avgViews = topVideo ? topVideo.views * 0.6 : 0;
-
-            return {
-                topic: cluster.topic,
-                videos: cluster.videoCount,
-                avgViews: Math.round(avgViews),
-                topVideo: topVideo ? { title: topVideo.title, views: topVideo.views, id: topVideo.id } : { title: cluster.topVideoTitle || 'Unknown', views: 0, id: '' },
-                saturation: cluster.saturation as 'low' | 'medium' | 'high'
-            };
-        });
+        // 4. Assign every video to one cluster and compute cluster stats from the members
+        const rawClusters: { topic: string; videoIndices?: unknown }[] = (Array.isArray(parsed.clusters) ? parsed.clusters : [])
+            .filter((c: { topic?: unknown } | null) => typeof c?.topic === 'string' && c.topic);
+        if (rawClusters.length === 0) {
+            return NextResponse.json({ error: 'AI clustering failed - no clusters returned' }, { status: 500 });
+        }
+
+        const assignments = assignVideos(videos, rawClusters);
+        const aiAssigned = assignments.filter(a => a.method === 'ai').length;
+
+        const enrichedClusters: TopicCluster[] = rawClusters
+            .map((cluster, c) => {
+                const members = videos.filter((_, i) => assignments[i].cluster === c);
+                if (members.length === 0) return null;
+                const topVideo = members.reduce((top, v) => v.views > top.views ? v : top);
+                const channels = new Set(members.map(v => v.channelId)).size;
+
+                return {
+                    topic: cluster.topic,
+                    videos: members.length,
+                    share: Math.round((members.length / videos.length) * 100),
+                    channels,
+                    avgViews: Math.round(calculateMean(members.map(v => v.views))),
+                    medianVelocity: Math.round(median(members.map(v => v.velocity))),
+                    topVideo: { title: topVideo.title, views: topVideo.views, id: topVideo.id },
+                    saturation: clusterSaturation(members.length, channels, videos.length, rawClusters.length),
+                    videoIds: members.map(v => v.id)
+                };
+            })
+            .filter((c): c is TopicCluster => c !== null);
 
         // 5. Process gaps with Google Trends validation (robust/optional)
         const contentGaps: ContentGap[] = (parsed.gaps || []).map((gap: {
@@ -179,9 +226,9 @@ Return ONLY valid JSON:
         try {
             await Promise.all(contentGaps.slice(0, 3).map(async (gap) => {
                 try {
-                    const trendData = await googleTrends.interestOverTime({
+                    const trendData = await fetchInterestOverTime(cache, {
                         keyword: gap.topic,
-                        startTime: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000), // Last year
+                        startTime: new Date(currentTime() - 365 * 24 * 60 * 60 * 1000), // Last year
                     });
                     const parsedTrend = JSON.parse(trendData);
                     const timeline = parsedTrend.default?.timelineData || [];
@@ -203,7 +250,7 @@ Return ONLY valid JSON:
         // 6. Calculate niche statistics
         const totalViews = videos.reduce((sum, v) => sum + v.views, 0);
         const avgViews = Math.round(totalViews / videos.length);
-        const recentVideos = videos.filter(v => daysSinceUpload(v.publishedAt) <= 30);
+        const recentVideos = videos.filter(v => v.daysSinceUpload <= 30);
         const freshContent = Math.round((recentVideos.length / videos.length) * 100);
 
         return NextResponse.json({
@@ -220,6 +267,11 @@ Return ONLY valid JSON:
 
             clusters: enrichedClusters.sort((a, b) => b.avgViews - a.avgViews),
 
+            assignment: {
+                byAI: aiAssigned,
+                bySimilarity: videos.length - aiAssigned
+            },
+
             gaps: contentGaps.sort((a, b) => {
                 const urgencyOrder = { high: 0, medium: 1, low: 2 };
                 return urgencyOrder[a.urgency] - urgencyOrder[b.urgency];
@@ -232,16 +284,23 @@ Return ONLY valid JSON:
 
             methodology: {
                 approach: 'Semantic clustering of video titles using AI, with gap detection based on missing sub-topics',
+                assignment: 'Each video belongs to exactly one cluster: the first cluster the AI lists it under, otherwise the cluster whose centroid is most similar to its title (local TF-IDF embeddings)',
+                saturation: 'Cluster size vs. an even split (>=1.5x high, >=0.75x medium), one level higher when at most half as many channels as videos',
                 limitations: [
                     'Clustering is based on title semantics, not actual video content',
                     'Gaps are AI-inferred, not guaranteed to have demand',
                     'Sample limited to 50 videos by relevance',
                     'View counts are snapshots, not velocity-adjusted'
                 ]
-            }
+            },
+            quota: youtube.quota(),
+            cache: cache.report()
         });
 
     } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            return NextResponse.json({ error: error.message, quota: youtube.quota() }, { status: 429 });
+        }
         if (axios.isAxiosError(error) && error.response) {
             if (error.response.status === 403 && error.response.data?.error?.message?.includes('quota')) {
                 return NextResponse.json({ error: 'YouTube API quota exceeded. Resets at midnight Pacific.' }, { status: 429 });
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
-import googleTrends from 'google-trends-api';
-
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-const BASE_URL = 'https://www.googleapis.com/youtube/v3';
+import { createRequestCache, RequestCache } from '@/lib/cache';
+import { createYouTubeClient, isYouTubeConfigured, QuotaExceededError, UNIT_COSTS } from '@/lib/youtube';
+import { createEmbedder, mostSimilar, RELATED_SIMILARITY } from '@/lib/embeddings';
+import { fetchInterestOverTime, fetchRelatedQueries } from '@/lib/trends';
+import { daysSinceUpload, normalizeChannel } from '@/lib/video';
 
 interface ContentGap {
     topic: string;
@@ -24,10 +25,6 @@ interface ChannelAnalysis {
     recommendation: string;
 }
 
-function daysSince(date: string): number {
-    return Math.floor((Date.now() - new Date(date).getTime()) / (1000 * 60 * 60 * 24));
-}
-
 function extractTopics(title: string): string[] {
     // Extract meaningful keywords (simplified topic extraction)
     const stopWords = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'is', 'it', 'i', 'you', 'my', 'your', 'how', 'what', 'why', 'this', 'that', 'be', 'are', 'was', 'were', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might', 'must', 'shall', 'can', 'need', 'dare', 'ought', 'used', 'get', 'got', 'getting', 'make', 'made', 'making']);
@@ -38,9 +35,9 @@ function extractTopics(title: string): string[] {
         .filter(word => word.length > 3 && !stopWords.has(word));
 }
 
-async function checkSearchDemand(topic: string): Promise<number> {
+async function checkSearchDemand(cache: RequestCache, topic: string): Promise<number> {
     try {
-        const interestData = await googleTrends.interestOverTime({ keyword: topic });
+        const interestData = await fetchInterestOverTime(cache, { keyword: topic });
         const parsed = JSON.parse(interestData);
         const timelineData = parsed?.default?.timelineData || [];
         if (timelineData.length > 0) {
@@ -62,26 +59,28 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Missing "channel" or "niche" parameter' }, { status: 400 });
     }
 
-    if (!YOUTUBE_API_KEY) {
+    if (!isYouTubeConfigured()) {
         return NextResponse.json({ error: 'YOUTUBE_API_KEY not configured' }, { status: 500 });
     }
 
+    const cache = createRequestCache();
+    const youtube = createYouTubeClient('competitor-gaps', cache);
+
     try {
+        // Niche mode needs a search to find the dominant channel
+        youtube.reserve((niche ? UNIT_COSTS.search : 0) + UNIT_COSTS.channels + UNIT_COSTS.playlistItems);
+
         let channelId = channelIdentifier;
-        let channelData;
 
         // If analyzing by niche, find top channels
         if (niche) {
             // Search for videos in niche and get top channels
-            const searchResponse = await axios.get(`${BASE_URL}/search`, {
-                params: {
-                    part: 'snippet',
-                    q: niche,
-                    type: 'video',
-                    maxResults: 50,
-                    order: 'viewCount',
-                    key: YOUTUBE_API_KEY
-                }
+            const searchResponse = await youtube.get('search', {
+                part: 'snippet',
+                q: niche,
+                type: 'video',
+                maxResults: 50,
+                order: 'viewCount'
             });
 
             // Count videos per channel to find dominant channels
@@ -108,33 +107,27 @@ export async function GET(request: NextRequest) {
         }
 
         // Get channel details
-        const channelResponse = await axios.get(`${BASE_URL}/channels`, {
-            params: {
-                part: 'snippet,statistics,contentDetails',
-                id: channelId,
-                key: YOUTUBE_API_KEY
-            }
+        const channelResponse = await youtube.get('channels', {
+            part: 'snippet,statistics,contentDetails',
+            id: channelId
         });
 
         if (!channelResponse.data.items || channelResponse.data.items.length === 0) {
             return NextResponse.json({ error: 'Channel not found' }, { status: 404 });
         }
 
-        channelData = channelResponse.data.items[0];
-        const uploadsPlaylistId = channelData.contentDetails?.relatedPlaylists?.uploads;
+        const channelData = normalizeChannel(channelResponse.data.items[0]);
+        const uploadsPlaylistId = channelData.uploadsPlaylistId;
 
         if (!uploadsPlaylistId) {
             return NextResponse.json({ error: 'Cannot access channel videos' }, { status: 400 });
         }
 
         // Get recent videos from channel
-        const playlistResponse = await axios.get(`${BASE_URL}/playlistItems`, {
-            params: {
-                part: 'snippet',
-                playlistId: uploadsPlaylistId,
-                maxResults: 50,
-                key: YOUTUBE_API_KEY
-            }
+        const playlistResponse = await youtube.get('playlistItems', {
+            part: 'snippet',
+            playlistId: uploadsPlaylistId,
+            maxResults: 50
         });
 
         const videos = playlistResponse.data.items || [];
@@ -160,20 +153,19 @@ export async function GET(request: NextRequest) {
         const staleTopics: string[] = [];
 
         Object.entries(topicLastCovered).forEach(([topic, lastDate]) => {
-            const daysSinceLast = daysSince(lastDate);
+            const daysSinceLast = daysSinceUpload(lastDate);
             if (daysSinceLast > staleThreshold && topicCounts[topic] >= 2) {
                 staleTopics.push(topic);
             }
         });
 
         // Get niche-related topics that this channel DOESN'T cover
-        const allChannelTopics = new Set(Object.keys(topicCounts));
         const nicheSearchTerms: string[] = [];
 
         if (niche) {
             // Get related searches in niche
             try {
-                const relatedQueries = await googleTrends.relatedQueries({ keyword: niche });
+                const relatedQueries = await fetchRelatedQueries(cache, { keyword: niche });
                 const relatedData = JSON.parse(relatedQueries);
                 const rising = relatedData?.default?.rankedList?.[1]?.rankedKeyword || [];
                 rising.slice(0, 10).forEach((item: { query: string }) => {
@@ -188,8 +180,8 @@ export async function GET(request: NextRequest) {
         const contentGaps: ContentGap[] = [];
 
         for (const topic of staleTopics.slice(0, 5)) {
-            const demand = await checkSearchDemand(topic);
-            const daysSinceLast = daysSince(topicLastCovered[topic]);
+            const demand = await checkSearchDemand(cache, topic);
+            const daysSinceLast = daysSinceUpload(topicLastCovered[topic]);
             const gapScore = Math.round(demand * 0.5 + Math.min(daysSinceLast / 3, 50));
 
             contentGaps.push({
@@ -201,13 +193,16 @@ export async function GET(request: NextRequest) {
             });
         }
 
-        // Check niche topics not covered
+        // Check niche topics not covered: no upload title is similar to the search term
+        const channelTitles: string[] = videos.map((video: { snippet: { title: string } }) => video.snippet.title);
+        const embedder = createEmbedder([...channelTitles, ...nicheSearchTerms]);
+        const titleVectors = channelTitles.map(title => embedder.embed(title));
+
         for (const term of nicheSearchTerms.slice(0, 5)) {
-            const termWords = term.split(/\s+/);
-            const covered = termWords.some(word => allChannelTopics.has(word));
+            const covered = mostSimilar(embedder.embed(term), titleVectors).score >= RELATED_SIMILARITY;
 
             if (!covered) {
-                const demand = await checkSearchDemand(term);
+                const demand = await checkSearchDemand(cache, term);
                 if (demand >= 30) {
                     contentGaps.push({
                         topic: term,
@@ -225,9 +220,9 @@ export async function GET(request: NextRequest) {
 
         const analysis: ChannelAnalysis = {
             channelId,
-            channelTitle: channelData.snippet.title,
-            subscriberCount: parseInt(channelData.statistics.subscriberCount || '0', 10),
-            totalVideos: parseInt(channelData.statistics.videoCount || '0', 10),
+            channelTitle: channelData.title,
+            subscriberCount: channelData.subscribers,
+            totalVideos: channelData.videoCount,
             analyzedVideos: videos.length,
             contentGaps: contentGaps.slice(0, 8),
             staleTopics: staleTopics.slice(0, 10),
@@ -239,10 +234,15 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({
             niche: niche || 'N/A',
             analysis,
-            insight: `Analyzed ${videos.length} videos from "${analysis.channelTitle}". ${contentGaps.filter(g => g.gapScore >= 60).length} high-priority gaps identified.`
+            insight: `Analyzed ${videos.length} videos from "${analysis.channelTitle}". ${contentGaps.filter(g => g.gapScore >= 60).length} high-priority gaps identified.`,
+            quota: youtube.quota(),
+            cache: cache.report()
         });
 
     } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            return NextResponse.json({ error: error.message, quota: youtube.quota() }, { status: 429 });
+        }
         if (axios.isAxiosError(error) && error.response) {
             return NextResponse.json({
                 error: `API Error: ${error.response.status}`
@@ -0,0 +1,239 @@
+import { NextRequest, NextResponse } from 'next/server';
+import axios from 'axios';
+import { createRequestCache } from '@/lib/cache';
+import { createYouTubeClient, isYouTubeConfigured, QuotaExceededError, UNIT_COSTS } from '@/lib/youtube';
+import { evaluateMarket, fetchDemand, snapshotMetrics } from '@/lib/evaluation';
+import { saveSnapshot } from '@/lib/snapshots';
+import { normalizeVideos, YouTubeVideoItem } from '@/lib/video';
+import { ChannelBaseline, channelBaselineCost, describeExpectedViews, fetchChannelBaselines } from '@/lib/expected-views';
+
+const MAX_IDEAS = 50;
+const VIDEOS_PER_CALL = 50;
+
+interface RankedIdea {
+    rank: number;
+    idea: string;
+    verdict: string;
+    opportunityScore: number;
+    competition: number;
+    interest: number;
+    interestMeasured: boolean;
+    patternClarity: number;
+    confidence: number;
+    outliers: number;
+    sampleSize: number;
+    recommendedLength: string;
+}
+
+// Accepts an array or pasted text (one idea per line); blank lines and repeats are dropped
+function parseIdeas(input: unknown): string[] {
+    const lines = Array.isArray(input) ? input : typeof input === 'string' ? input.split('\n') : [];
+    const seen = new Set<string>();
+    const ideas: string[] = [];
+    for (const line of lines) {
+        if (typeof line !== 'string') continue;
+        const idea = line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim().replace(/\s+/g, ' ');
+        const key = idea.toLowerCase();
+        if (!idea || seen.has(key)) continue;
+        seen.add(key);
+        ideas.push(idea);
+    }
+    return ideas;
+}
+
+function csvCell(value: string | number | boolean): string {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: RankedIdea[]): string {
+    const header = ['rank', 'idea', 'verdict', 'opportunity_score', 'competition', 'interest', 'interest_measured', 'pattern_clarity', 'confidence', 'outliers', 'sample_size', 'recommended_length'];
+    const lines = rows.map(r => [
+        r.rank, r.idea, r.verdict, r.opportunityScore, r.competition, r.interest, r.interestMeasured,
+        r.patternClarity, r.confidence, r.outliers, r.sampleSize, r.recommendedLength
+    ].map(csvCell).join(','));
+    return [header.join(','), ...lines].join('\n') + '\n';
+}
+
+// Body: { ideas: string[] | "one idea per line", region? }. ?format=csv returns the ranking as a CSV file.
+export async function POST(request: NextRequest) {
+    const format = new URL(request.url).searchParams.get('format');
+
+    let body;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+
+    const ideas = parseIdeas(body?.ideas);
+    const regionCode = typeof body?.region === 'string' ? body.region : 'US';
+
+    if (ideas.length === 0) {
+        return NextResponse.json({ error: 'Missing "ideas": send an array or one idea per line' }, { status: 400 });
+    }
+    if (ideas.length > MAX_IDEAS) {
+        return NextResponse.json({ error: `Too many ideas (${ideas.length}). The limit is ${MAX_IDEAS} per batch.` }, { status: 400 });
+    }
+
+    if (!isYouTubeConfigured()) {
+        return NextResponse.json({ error: 'YOUTUBE_API_KEY not configured' }, { status: 500 });
+    }
+
+    const cache = createRequestCache();
+    const youtube = createYouTubeClient('evaluate-batch', cache);
+
+    try {
+        // One search per idea; video stats are looked up together, so ideas with overlapping results share calls
+        youtube.reserve(ideas.length * (UNIT_COSTS.search + UNIT_COSTS.videos));
+
+        // 1. Search every idea
+        const searchIds = new Map<string, string[]>();
+        for (const idea of ideas) {
+            const searchResponse = await youtube.get('search', {
+                part: 'snippet',
+                q: idea,
+                type: 'video',
+                maxResults: 50,
+                regionCode
+            });
+            const items: { id: { videoId: string } }[] = searchResponse.data.items || [];
+            searchIds.set(idea, items.map(item => item.id.videoId));
+        }
+
+        // 2. Fetch stats for the union of results, 50 ids per call
+        const uniqueIds = [...new Set([...searchIds.values()].flat())];
+        const videoItems = new Map<string, YouTubeVideoItem>();
+        for (let i = 0; i < uniqueIds.length; i += VIDEOS_PER_CALL) {
+            const statsResponse = await youtube.get('videos', {
+                part: 'snippet,contentDetails,statistics',
+                id: uniqueIds.slice(i, i + VIDEOS_PER_CALL).join(',')
+            });
+            for (const item of (statsResponse.data.items || []) as YouTubeVideoItem[]) {
+                videoItems.set(item.id, item);
+            }
+        }
+
+        // 3. Channel baselines for the union too, so a channel seen under several ideas is looked up once
+        const allVideos = normalizeVideos([...videoItems.values()]);
+        let baselines = new Map<string, ChannelBaseline>();
+        try {
+            youtube.reserve(channelBaselineCost(new Set(allVideos.map(v => v.channelId)).size));
+            ({ baselines } = await fetchChannelBaselines(youtube, allVideos));
+        } catch (error) {
+            // The searches are already paid for: out of quota or failed lookups score against each niche instead
+            console.error('Channel baselines unavailable for batch:', error);
+        }
+
+        // 4. Score each idea with the same signals as /api/evaluate
+        const results = [];
+        const failed: { idea: string; error: string }[] = [];
+
+        for (const idea of ideas) {
+            const items = (searchIds.get(idea) || [])
+                .map(id => videoItems.get(id))
+                .filter((item): item is YouTubeVideoItem => Boolean(item));
+            if (items.length === 0) {
+                failed.push({ idea, error: 'No videos found for this idea' });
+                continue;
+            }
+
+            const demand = await fetchDemand(cache, idea, regionCode);
+            const evaluation = evaluateMarket(normalizeVideos(items), demand, baselines);
+            const snapshot = saveSnapshot('evaluate', idea, regionCode, snapshotMetrics(evaluation, demand));
+            const { market, verdict, confidence, outliers, topOutliers, videos, recommendedLength } = evaluation;
+
+            results.push({
+                idea,
+                snapshotId: snapshot?.id ?? null,
+                market,
+                verdict,
+                confidence,
+                recommendedLength,
+                outliers: {
+                    count: outliers.length,
+                    rate: Math.round((outliers.length / videos.length) * 100),
+                    top: topOutliers.slice(0, 3).map(v => ({
+                        title: v.title,
+                        views: v.views,
+                        thumbnail: v.thumbnail,
+                        id: v.id,
+                        velocity: Math.round(v.velocity),
+                        expectedViews: v.expectedViews,
+                        performanceRatio: v.performanceRatio,
+                        zScore: v.zScore
+                    }))
+                },
+                dataQuality: {
+                    sampleSize: videos.length,
+                    outliersDetected: outliers.length,
+                    trendsAvailable: demand.dataAvailable,
+                    performanceModel: describeExpectedViews(evaluation.performanceModel)
+                },
+                // Low competition counts in favor, so it is inverted before averaging
+                opportunityScore: Math.round(((100 - market.competition.score) + market.interest.score + market.learnable.score) / 3)
+            });
+        }
+
+        // 5. Rank: more positive signals first, then the averaged signals, then confidence
+        results.sort((a, b) =>
+            b.verdict.positiveSignals - a.verdict.positiveSignals ||
+            b.opportunityScore - a.opportunityScore ||
+            b.confidence.score - a.confidence.score
+        );
+
+        const ranking: RankedIdea[] = results.map((r, i) => ({
+            rank: i + 1,
+            idea: r.idea,
+            verdict: r.verdict.assessment,
+            opportunityScore: r.opportunityScore,
+            competition: r.market.competition.score,
+            interest: r.market.interest.score,
+            interestMeasured: r.market.interest.dataAvailable,
+            patternClarity: r.market.learnable.score,
+            confidence: r.confidence.score,
+            outliers: r.outliers.count,
+            sampleSize: r.dataQuality.sampleSize,
+            recommendedLength: r.recommendedLength.bucket
+        }));
+        const csv = toCsv(ranking);
+
+        if (format === 'csv') {
+            return new NextResponse(csv, {
+                headers: {
+                    'Content-Type': 'text/csv; charset=utf-8',
+                    'Content-Disposition': 'attachment; filename="idea-ranking.csv"'
+                }
+            });
+        }
+
+        return NextResponse.json({
+            region: regionCode,
+            evaluated: results.length,
+            ranking,
+            results: results.map((r, i) => ({ rank: i + 1, ...r })),
+            failed,
+            csv,
+            methodology: {
+                opportunityScore: 'Average of (100 - competition), interest and pattern clarity',
+                outliers: 'z-score of log views against a per-niche regression on channel subscribers, channel median views and video age (z > 1.5)',
+                ranking: 'Positive signals (as in the single-idea verdict), then opportunity score, then confidence',
+                note: 'Title suggestions are not generated in batch mode; evaluate a single idea for those.'
+            },
+            quota: youtube.quota(),
+            cache: cache.report()
+        });
+
+    } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            return NextResponse.json({ error: error.message, quota: youtube.quota() }, { status: 429 });
+        }
+        if (axios.isAxiosError(error) && error.response) {
+            return NextResponse.json({
+                error: `API Error: ${error.response.status} - ${JSON.stringify(error.response.data)}`
+            }, { status: error.response.status });
+        }
+        console.error('Batch evaluation failed:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
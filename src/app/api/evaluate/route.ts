@@ -1,45 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
-import googleTrends from 'google-trends-api';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { logModifiedZScore, characterReadability, meanDifferenceCI } from '@/lib/stats';
-
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.YOUTUBE_API_KEY;
-const BASE_URL = 'https://www.googleapis.com/youtube/v3';
-
-function parseDuration(isoDuration: string): number {
-    const match = isoDuration.match(/PT(\d+H)?(\d+M)?(\d+S)?/);
-    if (!match) return 0;
-    const hours = parseInt(match[1]) || 0;
-    const minutes = parseInt(match[2]) || 0;
-    const seconds = parseInt(match[3]) || 0;
-    return (hours * 3600) + (minutes * 60) + seconds;
-}
-
-function categorizeDuration(seconds: number): string {
-    if (seconds < 60) return 'Shorts (<1 min)';
-    if (seconds < 300) return 'Short (1-5 min)';
-    if (seconds < 600) return 'Medium (5-10 min)';
-    if (seconds < 1200) return 'Long (10-20 min)';
-    return 'Very Long (>20 min)';
-}
-
-function daysSinceUpload(publishedAt: string): number {
-    const uploadDate = new Date(publishedAt);
-    const now = new Date();
-    const diffMs = now.getTime() - uploadDate.getTime();
-    return Math.max(1, Math.floor(diffMs / (1000 * 60 * 60 * 24)));
-}
-
-function calculateMean(values: number[]): number {
-    return values.reduce((sum, v) => sum + v, 0) / values.length;
-}
-
-function calculateStdDev(values: number[], mean: number): number {
-    const squaredDiffs = values.map(v => Math.pow(v - mean, 2));
-    return Math.sqrt(squaredDiffs.reduce((sum, v) => sum + v, 0) / values.length);
-}
+import { characterReadability, meanDifferenceCI } from '@/lib/stats';
+import { createRequestCache } from '@/lib/cache';
+import { createYouTubeClient, isYouTubeConfigured, QuotaExceededError, UNIT_COSTS } from '@/lib/youtube';
+import { fetchRelatedQueries } from '@/lib/trends';
+import { evaluateMarket, fetchDemand, snapshotMetrics } from '@/lib/evaluation';
+import { saveSnapshot } from '@/lib/snapshots';
+import { normalizeVideos } from '@/lib/video';
+import { channelBaselineCost, describeExpectedViews, fetchChannelBaselines } from '@/lib/expected-views';
+import { GEMINI_API_KEY, isGeminiConfigured } from '@/lib/gemini';
 
 // Flesch-Kincaid Readability Analysis
 function countSyllables(word: string): number {
@@ -104,66 +74,6 @@ function calculateReadability(text: string): {
     return { gradeLevel, readingEase, label, interpretation };
 }
 
-// Calculate confidence based on sample size and data quality
-function calculateConfidence(sampleSize: number, outlierCount: number, trendsAvailable: boolean): {
-    level: 'low' | 'medium' | 'high';
-    score: number;
-    factors: string[];
-} {
-    const factors: string[] = [];
-    let score = 50; // Base
-
-    // Sample size factor
-    if (sampleSize >= 40) {
-        score += 20;
-        factors.push('Good sample size');
-    } else if (sampleSize >= 20) {
-        score += 10;
-        factors.push('Moderate sample size');
-    } else {
-        factors.push('Limited sample size');
-    }
-
-    // Outlier clarity factor
-    if (outlierCount >= 3) {
-        score += 15;
-        factors.push('Clear performance patterns');
-    } else if (outlierCount >= 1) {
-        score += 5;
-        factors.push('Some performance patterns');
-    } else {
-        factors.push('No clear winners to learn from');
-    }
-
-    // Trends data factor
-    if (trendsAvailable) {
-        score += 15;
-        factors.push('Trends data available');
-    } else {
-        factors.push('Trends data unavailable');
-    }
-
-    score = Math.min(100, score);
-    const level = score >= 70 ? 'high' : score >= 45 ? 'medium' : 'low';
-
-    return { level, score, factors };
-}
-
-interface VideoData {
-    id: string;
-    title: string;
-    channelId: string;
-    channelTitle: string;
-    publishedAt: string;
-    views: number;
-    thumbnail: string;
-    durationSec: number;
-    lengthCategory: string;
-    velocity: number;
-    zScore?: number;
-    isOutlier?: boolean;
-}
-
 export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const idea = searchParams.get('idea');
@@ -173,21 +83,24 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Missing "idea" parameter' }, { status: 400 });
     }
 
-    if (!YOUTUBE_API_KEY) {
+    if (!isYouTubeConfigured()) {
         return NextResponse.json({ error: 'YOUTUBE_API_KEY not configured' }, { status: 500 });
     }
 
+    const cache = createRequestCache();
+    const youtube = createYouTubeClient('evaluate', cache);
+
     try {
+        // Search + stats, then channel baselines for up to 50 channels
+        youtube.reserve(UNIT_COSTS.search + UNIT_COSTS.videos + channelBaselineCost(50));
+
         // ===== 1. FETCH DATA =====
-        const searchResponse = await axios.get(`${BASE_URL}/search`, {
-            params: {
-                part: 'snippet',
-                q: idea,
-                type: 'video',
-                maxResults: 50,
-                regionCode,
-                key: YOUTUBE_API_KEY
-            }
+        const searchResponse = await youtube.get('search', {
+            part: 'snippet',
+            q: idea,
+            type: 'video',
+            maxResults: 50,
+            regionCode
         });
 
         const items = searchResponse.data.items || [];
@@ -197,85 +110,37 @@ export async function GET(request: NextRequest) {
 
         const videoIds = items.map((item: { id: { videoId: string } }) => item.id.videoId).join(',');
 
-        const statsResponse = await axios.get(`${BASE_URL}/videos`, {
-            params: {
-                part: 'snippet,contentDetails,statistics',
-                id: videoIds,
-                key: YOUTUBE_API_KEY
-            }
-        });
-
-        // Parse videos with velocity
-        const rawVideos: VideoData[] = statsResponse.data.items.map((item: {
-            id: string;
-            snippet: { title: string; channelId: string; channelTitle: string; publishedAt: string; thumbnails: { high?: { url: string } } };
-            contentDetails: { duration: string };
-            statistics: { viewCount?: string };
-        }) => {
-            const durationSec = parseDuration(item.contentDetails.duration);
-            const views = parseInt(item.statistics.viewCount || '0', 10);
-            const days = daysSinceUpload(item.snippet.publishedAt);
-            return {
-                id: item.id,
-                title: item.snippet.title,
-                channelId: item.snippet.channelId,
-                channelTitle: item.snippet.channelTitle,
-                publishedAt: item.snippet.publishedAt,
-                views,
-                thumbnail: item.snippet.thumbnails.high?.url || '',
-                durationSec,
-                lengthCategory: categorizeDuration(durationSec),
-                velocity: Math.round(views / days)
-            };
-        });
-
-        // Calculate z-scores using log-modified method (robust to outliers)
-        const velocities = rawVideos.map(v => v.velocity);
-
-        const videos: VideoData[] = rawVideos.map(v => {
-            // Use log-modified z-score (MAD-based, handles right-skewed data)
-            const zScore = logModifiedZScore(v.velocity, velocities);
-            return {
-                ...v,
-                zScore: Math.round(zScore * 100) / 100,
-                isOutlier: zScore > 1.5 // More conservative threshold (z > 1.5)
-            };
+        const statsResponse = await youtube.get('videos', {
+            part: 'snippet,contentDetails,statistics',
+            id: videoIds
         });
 
-        const outliers = videos.filter(v => v.isOutlier);
-        const topOutliers = [...videos].sort((a, b) => (b.zScore || 0) - (a.zScore || 0)).slice(0, 5);
-        const overallAvg = videos.reduce((sum, v) => sum + v.views, 0) / videos.length;
-
-        // ===== 2. CALCULATE SATURATION (Signal 1) =====
-        const uniqueChannels = new Set(videos.map(v => v.channelId)).size;
-        const channelConcentration = 1 - (uniqueChannels / videos.length);
-        const avgDaysOld = videos.reduce((sum, v) => {
-            return sum + daysSinceUpload(v.publishedAt);
-        }, 0) / videos.length;
-        const ageFactor = Math.min(avgDaysOld / 365, 1);
-        const competitionFactor = Math.min(videos.length / 50, 1);
-        const saturationRaw = (competitionFactor * 0.4) + (channelConcentration * 0.3) + (ageFactor * 0.3);
-        const saturationScore = Math.round(saturationRaw * 100);
-        const saturationLabel = saturationScore <= 30 ? 'Low' : saturationScore <= 60 ? 'Medium' : 'High';
-
-        // ===== 3. CALCULATE DEMAND (Signal 2) =====
-        let demandScore = 50; // Default when Trends unavailable
+        // Parse videos (channel and age adjustment happen in evaluateMarket)
+        const rawVideos = normalizeVideos(statsResponse.data.items);
+        const { baselines } = await fetchChannelBaselines(youtube, rawVideos);
+
+        // ===== 2. MARKET SIGNALS (competition, interest, pattern clarity) =====
+        const demand = await fetchDemand(cache, idea, regionCode);
+        const evaluation = evaluateMarket(rawVideos, demand, baselines);
+        const {
+            videos,
+            outliers,
+            topOutliers,
+            saturation,
+            market: marketAssessment,
+            verdict,
+            confidence,
+            recommendedLength: bestLength
+        } = evaluation;
+        const saturationScore = saturation.score;
+        const saturationLabel = saturation.label;
+        const demandScore = demand.score;
+        const trendsAvailable = demand.dataAvailable;
+
+        // ===== 3. TRENDING RELATED QUERIES =====
         let trendingTopics: { keyword: string; growth?: string }[] = [];
-        let trendsAvailable = false;
-
         try {
-            const interestData = await googleTrends.interestOverTime({ keyword: idea, geo: regionCode });
-            const parsed = JSON.parse(interestData);
-            const timelineData = parsed?.default?.timelineData || [];
-            if (timelineData.length >= 2) {
-                trendsAvailable = true;
-                const recent = timelineData.slice(-4).reduce((s: number, d: { value: number[] }) => s + d.value[0], 0) / 4;
-                const older = timelineData.slice(0, 4).reduce((s: number, d: { value: number[] }) => s + d.value[0], 0) / 4;
-                // More conservative scoring - normalize to 0-100 range
-                demandScore = older > 0 ? Math.round(Math.min(100, (recent / Math.max(older, 1)) * 50)) : 50;
-            }
-
-            const relatedQueries = await googleTrends.relatedQueries({ keyword: idea, geo: regionCode });
+            const relatedQueries = await fetchRelatedQueries(cache, { keyword: idea, geo: regionCode });
             const relatedData = JSON.parse(relatedQueries);
             const rising = relatedData?.default?.rankedList?.[1]?.rankedKeyword || [];
             trendingTopics = rising.slice(0, 5).map((item: { query: string; formattedValue: string }) => ({
@@ -286,90 +151,7 @@ export async function GET(request: NextRequest) {
             // Trends API may fail, continue with defaults
         }
 
-        // ===== 4. CALCULATE PERFORMANCE CLARITY (Signal 3) =====
-        // How clearly can we identify what works?
-        const outlierRate = outliers.length / videos.length;
-        const performanceClarity = Math.round(Math.min(100, outlierRate * 500 + (outliers.length >= 3 ? 30 : 0)));
-
-        // ===== 5. CALCULATE CONFIDENCE =====
-        const confidence = calculateConfidence(videos.length, outliers.length, trendsAvailable);
-
-        // ===== 6. MARKET ASSESSMENT (replacing single viability score) =====
-        // Show 3 separate signals instead of combining into one arbitrary score
-        const marketAssessment = {
-            competition: {
-                score: saturationScore,
-                label: saturationLabel,
-                interpretation: saturationScore <= 30
-                    ? 'Room to compete'
-                    : saturationScore <= 60
-                        ? 'Differentiation needed'
-                        : 'Crowded - find unique angle'
-            },
-            interest: {
-                score: demandScore,
-                label: demandScore >= 60 ? 'Growing' : demandScore >= 40 ? 'Stable' : 'Declining',
-                interpretation: demandScore >= 60
-                    ? 'Rising search interest'
-                    : demandScore >= 40
-                        ? 'Steady interest'
-                        : 'Low or declining interest',
-                dataAvailable: trendsAvailable
-            },
-            learnable: {
-                score: performanceClarity,
-                label: performanceClarity >= 60 ? 'Clear' : performanceClarity >= 30 ? 'Some' : 'Unclear',
-                interpretation: performanceClarity >= 60
-                    ? 'Clear patterns to learn from'
-                    : performanceClarity >= 30
-                        ? 'Some patterns visible'
-                        : 'Hard to identify what works',
-                outliersFound: outliers.length
-            }
-        };
-
-        // Generate a summary verdict based on the signals
-        const signals = [
-            saturationScore <= 50, // Low-medium competition
-            demandScore >= 40, // Stable or growing interest
-            performanceClarity >= 30 // Some patterns to learn from
-        ];
-        const positiveSignals = signals.filter(Boolean).length;
-
-        const verdict = positiveSignals >= 3
-            ? { assessment: 'Favorable', message: 'Multiple positive signals' }
-            : positiveSignals >= 2
-                ? { assessment: 'Mixed', message: 'Some positive signals, proceed with strategy' }
-                : { assessment: 'Challenging', message: 'Consider a different angle or niche' };
-
-        // ===== 7. FIND BEST LENGTH =====
-        const lengthStats: Record<string, { count: number; totalViews: number }> = {};
-        videos.forEach(v => {
-            if (!lengthStats[v.lengthCategory]) {
-                lengthStats[v.lengthCategory] = { count: 0, totalViews: 0 };
-            }
-            lengthStats[v.lengthCategory].count++;
-            lengthStats[v.lengthCategory].totalViews += v.views;
-        });
-
-        let bestLength = { bucket: 'Medium (5-10 min)', avgViews: overallAvg, multiplier: 1, sampleSize: 0 };
-        Object.entries(lengthStats).forEach(([bucket, stats]) => {
-            // Require minimum 5 samples instead of 3 for reliability
-            if (stats.count >= 5) {
-                const avgViews = stats.totalViews / stats.count;
-                const multiplier = avgViews / overallAvg;
-                if (multiplier > bestLength.multiplier) {
-                    bestLength = {
-                        bucket,
-                        avgViews: Math.round(avgViews),
-                        multiplier: Math.round(multiplier * 10) / 10,
-                        sampleSize: stats.count
-                    };
-                }
-            }
-        });
-
-        // ===== 8. ANALYZE TITLE PATTERNS =====
+        // ===== 4. ANALYZE TITLE PATTERNS =====
         const analysisVideos = topOutliers.length >= 3 ? topOutliers : videos.slice(0, 10);
         const patternInsights = {
             usesNumbers: Math.round((analysisVideos.filter(v => /\d/.test(v.title)).length / analysisVideos.length) * 100),
@@ -407,7 +189,7 @@ export async function GET(request: NextRequest) {
             .filter(([_, count]) => count >= 3)
             .forEach(([pattern]) => saturatedPatterns.push(pattern));
 
-        // ===== 8.5. READABILITY ANALYSIS (Character-level, better for titles) =====
+        // ===== 4.5. READABILITY ANALYSIS (Character-level, better for titles) =====
         const underperformers = videos.filter(v => (v.zScore || 0) < -0.5);
 
         // Use character-level readability (not Flesch-Kincaid - titles aren't sentences)
@@ -448,10 +230,10 @@ export async function GET(request: NextRequest) {
             sampleSufficient: readabilityCI.sampleSufficient
         };
 
-        // ===== 9. GENERATE TITLE SUGGESTIONS =====
+        // ===== 5. GENERATE TITLE SUGGESTIONS =====
         let titleSuggestions: { title: string; reasoning: string }[] = [];
 
-        if (GEMINI_API_KEY) {
+        if (isGeminiConfigured()) {
             try {
                 const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
                 const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
@@ -486,8 +268,9 @@ Generate 5 title variations (40-60 chars each) that:
 
 Return ONLY JSON: {"titles":[{"title":"...","reasoning":"..."}]}`;
 
-                const result = await model.generateContent(prompt);
-                const responseText = result.response.text();
+                const responseText = await cache.fetch('gemini', { model: 'gemini-2.0-flash', prompt }, async () =>
+                    (await model.generateContent(prompt)).response.text()
+                );
                 const jsonMatch = responseText.match(/\{[\s\S]*\}/);
                 if (jsonMatch) {
                     const parsed = JSON.parse(jsonMatch[0]);
@@ -507,9 +290,13 @@ Return ONLY JSON: {"titles":[{"title":"...","reasoning":"..."}]}`;
             ];
         }
 
-        // ===== 10. BUILD RESPONSE =====
+        // Record the niche's headline metrics for drift tracking
+        const snapshot = saveSnapshot('evaluate', idea, regionCode, snapshotMetrics(evaluation, demand));
+
+        // ===== 6. BUILD RESPONSE =====
         return NextResponse.json({
             idea,
+            snapshotId: snapshot?.id ?? null,
 
             // Market signals (decomposed, not combined)
             market: marketAssessment,
@@ -525,15 +312,7 @@ Return ONLY JSON: {"titles":[{"title":"...","reasoning":"..."}]}`;
             recommendedLength: bestLength,
 
             // Supporting data
-            saturation: {
-                score: saturationScore,
-                label: saturationLabel,
-                factors: {
-                    competition: Math.round(competitionFactor * 100),
-                    channelConcentration: Math.round(channelConcentration * 100),
-                    contentAge: Math.round(ageFactor * 100)
-                }
-            },
+            saturation,
 
             demand: {
                 score: demandScore,
@@ -549,7 +328,9 @@ Return ONLY JSON: {"titles":[{"title":"...","reasoning":"..."}]}`;
                     views: v.views,
                     thumbnail: v.thumbnail,
                     id: v.id,
-                    velocity: v.velocity,
+                    velocity: Math.round(v.velocity),
+                    expectedViews: v.expectedViews,
+                    performanceRatio: v.performanceRatio,
                     zScore: v.zScore
                 }))
             },
@@ -568,11 +349,18 @@ Return ONLY JSON: {"titles":[{"title":"...","reasoning":"..."}]}`;
                 sampleSize: videos.length,
                 outliersDetected: outliers.length,
                 trendsAvailable,
+                // Outlier z-scores compare each video with its channel's expected views at its age
+                performanceModel: describeExpectedViews(evaluation.performanceModel),
                 disclaimer: 'Based on available public data. Not a guarantee of performance.'
-            }
+            },
+            quota: youtube.quota(),
+            cache: cache.report()
         });
 
     } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            return NextResponse.json({ error: error.message, quota: youtube.quota() }, { status: 429 });
+        }
         if (axios.isAxiosError(error) && error.response) {
             return NextResponse.json({
                 error: `API Error: ${error.response.status} - ${JSON.stringify(error.response.data)}`
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
-import googleTrends from 'google-trends-api';
-
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-const BASE_URL = 'https://www.googleapis.com/youtube/v3';
+import { createRequestCache, RequestCache } from '@/lib/cache';
+import { createYouTubeClient, isYouTubeConfigured, QuotaExceededError, UNIT_COSTS, YouTubeClient } from '@/lib/youtube';
+import { cosineSimilarity, createEmbedder, RELATED_SIMILARITY } from '@/lib/embeddings';
+import { fetchAutocomplete, fetchInterestOverTime, fetchRelatedQueries } from '@/lib/trends';
+import { normalizeChannels, normalizeVideos } from '@/lib/video';
 
 interface TopicAnalysis {
     topic: string;
@@ -15,6 +16,7 @@ interface TopicAnalysis {
     };
     supply: {
         videoCount: number;
+        onTopicCount: number;       // results whose titles are actually about the topic
         qualityVideoCount: number;
         dominantChannelSize: string;
         avgAge: number;
@@ -32,12 +34,6 @@ interface TopicAnalysis {
     }[];
 }
 
-function daysSince(publishedAt: string): number {
-    const uploadDate = new Date(publishedAt);
-    const now = new Date();
-    return Math.max(1, Math.floor((now.getTime() - uploadDate.getTime()) / (1000 * 60 * 60 * 24)));
-}
-
 function categorizeChannelSize(subs: number): string {
     if (subs >= 1000000) return 'large';
     if (subs >= 100000) return 'medium';
@@ -45,19 +41,16 @@ function categorizeChannelSize(subs: number): string {
     return 'micro';
 }
 
-async function analyzeTopicDepth(topic: string, regionCode: string): Promise<TopicAnalysis | null> {
+async function analyzeTopicDepth(youtube: YouTubeClient, cache: RequestCache, topic: string, regionCode: string): Promise<TopicAnalysis | null> {
     try {
         // Get videos for this topic
-        const searchResponse = await axios.get(`${BASE_URL}/search`, {
-            params: {
-                part: 'snippet',
-                q: topic,
-                type: 'video',
-                maxResults: 15,
-                regionCode,
-                order: 'relevance',
-                key: YOUTUBE_API_KEY
-            }
+        const searchResponse = await youtube.get('search', {
+            part: 'snippet',
+            q: topic,
+            type: 'video',
+            maxResults: 15,
+            regionCode,
+            order: 'relevance'
         });
 
         const items = searchResponse.data.items || [];
@@ -66,28 +59,28 @@ async function analyzeTopicDepth(topic: string, regionCode: string): Promise<Top
         const videoIds = items.map((item: { id: { videoId: string } }) => item.id.videoId).join(',');
 
         // Get video stats
-        const statsResponse = await axios.get(`${BASE_URL}/videos`, {
-            params: {
-                part: 'snippet,statistics',
-                id: videoIds,
-                key: YOUTUBE_API_KEY
-            }
+        const statsResponse = await youtube.get('videos', {
+            part: 'snippet,statistics',
+            id: videoIds
         });
 
         // Get channel stats
-        const channelIds = [...new Set(statsResponse.data.items.map((v: { snippet: { channelId: string } }) => v.snippet.channelId))];
+        const videos = normalizeVideos(statsResponse.data.items);
+        const channelIds = [...new Set(videos.map(v => v.channelId))];
 
-        const channelResponse = await axios.get(`${BASE_URL}/channels`, {
-            params: {
-                part: 'statistics',
-                id: (channelIds as string[]).join(','),
-                key: YOUTUBE_API_KEY
-            }
+        // Search pads thin topics with loosely related results; only titles similar to the topic count as supply
+        const embedder = createEmbedder([...videos.map(v => v.title), topic]);
+        const topicVector = embedder.embed(topic);
+        const onTopicCount = videos.filter(v => cosineSimilarity(embedder.embed(v.title), topicVector) >= RELATED_SIMILARITY).length;
+
+        const channelResponse = await youtube.get('channels', {
+            part: 'statistics',
+            id: channelIds.join(',')
         });
 
         const channelSubs: Record<string, number> = {};
-        channelResponse.data.items.forEach((ch: { id: string; statistics: { subscriberCount?: string } }) => {
-            channelSubs[ch.id] = parseInt(ch.statistics.subscriberCount || '0', 10);
+        normalizeChannels(channelResponse.data.items).forEach(ch => {
+            channelSubs[ch.id] = ch.subscribers;
         });
 
         // Calculate metrics
@@ -98,15 +91,9 @@ async function analyzeTopicDepth(topic: string, regionCode: string): Promise<Top
         const channelSizes: string[] = [];
         const sampleVideos: TopicAnalysis['sampleVideos'] = [];
 
-        statsResponse.data.items.forEach((video: {
-            id: string;
-            snippet: { title: string; channelId: string; publishedAt: string; thumbnails: { high?: { url: string } } };
-            statistics: { viewCount?: string };
-        }) => {
-            const views = parseInt(video.statistics.viewCount || '0', 10);
-            const days = daysSince(video.snippet.publishedAt);
-            const velocity = views / days;
-            const subs = channelSubs[video.snippet.channelId] || 0;
+        videos.forEach(video => {
+            const { views, velocity, daysSinceUpload: days } = video;
+            const subs = channelSubs[video.channelId] || 0;
 
             totalViews += views;
             totalVelocity += velocity;
@@ -121,17 +108,17 @@ async function analyzeTopicDepth(topic: string, regionCode: string): Promise<Top
 
             if (sampleVideos.length < 3) {
                 sampleVideos.push({
-                    title: video.snippet.title,
+                    title: video.title,
                     views,
                     velocity: Math.round(velocity),
-                    thumbnail: video.snippet.thumbnails.high?.url || '',
+                    thumbnail: video.thumbnail,
                     id: video.id,
                     channelSubs: subs
                 });
             }
         });
 
-        const videoCount = statsResponse.data.items.length;
+        const videoCount = videos.length;
         const avgViews = totalViews / videoCount;
         const avgVelocity = totalVelocity / videoCount;
         const avgAge = totalAge / videoCount;
@@ -144,7 +131,7 @@ async function analyzeTopicDepth(topic: string, regionCode: string): Promise<Top
         // Get search interest
         let searchInterest = 50;
         try {
-            const interestData = await googleTrends.interestOverTime({ keyword: topic });
+            const interestData = await fetchInterestOverTime(cache, { keyword: topic });
             const parsed = JSON.parse(interestData);
             const timelineData = parsed?.default?.timelineData || [];
             if (timelineData.length > 0) {
@@ -160,7 +147,7 @@ async function analyzeTopicDepth(topic: string, regionCode: string): Promise<Top
         // Formula: (demand proxy) / (supply proxy + floor)
         const demandProxy = Math.log10(avgViews + 1) * 20 + searchInterest * 0.3 + Math.log10(avgVelocity + 1) * 15;
         const supplyFloor = 5; // Minimum supply to prevent instability
-        const supplyProxy = Math.max(videoCount, supplyFloor) + qualityCount * 2;
+        const supplyProxy = Math.max(onTopicCount, supplyFloor) + qualityCount * 2;
 
         const gapIndicator = Math.round((demandProxy / supplyProxy) * 10);
         const clampedGap = Math.min(100, Math.max(0, gapIndicator));
@@ -190,6 +177,7 @@ async function analyzeTopicDepth(topic: string, regionCode: string): Promise<Top
             },
             supply: {
                 videoCount,
+                onTopicCount,
                 qualityVideoCount: qualityCount,
                 dominantChannelSize: dominantSize,
                 avgAge: Math.round(avgAge)
@@ -213,25 +201,29 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Missing "seed" parameter' }, { status: 400 });
     }
 
-    if (!YOUTUBE_API_KEY) {
+    if (!isYouTubeConfigured()) {
         return NextResponse.json({ error: 'YOUTUBE_API_KEY not configured' }, { status: 500 });
     }
 
+    const cache = createRequestCache();
+    const youtube = createYouTubeClient('gaps', cache);
+
     try {
+        // Up to 8 related topics, each with search + videos + channels
+        youtube.reserve(8 * (UNIT_COSTS.search + UNIT_COSTS.videos + UNIT_COSTS.channels));
+
         // Get related topics
         const relatedTopics: string[] = [seed];
 
         try {
-            const autocompleteResponse = await axios.get(
-                `https://suggestqueries.google.com/complete/search?client=youtube&ds=yt&q=${encodeURIComponent(seed)}`
-            );
-            const matches = autocompleteResponse.data.toString().match(/\["([^"]+)"/g);
+            const autocompleteText = await fetchAutocomplete(cache, seed);
+            const matches = autocompleteText.match(/\["([^"]+)"/g);
             if (matches) {
                 const suggestions = matches.slice(1, 6).map((m: string) => m.replace(/\["|"/g, ''));
                 relatedTopics.push(...suggestions);
             }
 
-            const relatedQueries = await googleTrends.relatedQueries({ keyword: seed, geo: regionCode });
+            const relatedQueries = await fetchRelatedQueries(cache, { keyword: seed, geo: regionCode });
             const relatedData = JSON.parse(relatedQueries);
             const topQueries = relatedData?.default?.rankedList?.[0]?.rankedKeyword || [];
             topQueries.slice(0, 3).forEach((item: { query: string }) => {
@@ -246,7 +238,7 @@ export async function GET(request: NextRequest) {
         // Analyze each topic
         const analyses: TopicAnalysis[] = [];
         for (const topic of relatedTopics.slice(0, 8)) {
-            const analysis = await analyzeTopicDepth(topic, regionCode);
+            const analysis = await analyzeTopicDepth(youtube, cache, topic, regionCode);
             if (analysis) {
                 analyses.push(analysis);
             }
@@ -286,7 +278,8 @@ export async function GET(request: NextRequest) {
             topPicks: strongSignals.slice(0, 3),
 
             methodology: {
-                gapIndicator: 'Ratio of demand signals (views, search interest, velocity) to supply signals (video count, quality videos)',
+                gapIndicator: 'Ratio of demand signals (views, search interest, velocity) to supply signals (on-topic video count, quality videos)',
+                onTopic: 'A search result counts as supply when its title is similar to the topic (local TF-IDF embeddings)',
                 supplyFloor: 'Minimum supply of 5 used to prevent inflated scores from low-data topics',
                 signalStrength: {
                     strong: 'Good view averages, smaller channels dominating, measurable search interest',
@@ -305,10 +298,15 @@ export async function GET(request: NextRequest) {
                 ? `Found ${strongSignals.length} topics with strong opportunity signals. Best: "${strongSignals[0].topic}" (mostly ${strongSignals[0].supply.dominantChannelSize} channels)`
                 : moderateSignals.length > 0
                     ? `Found ${moderateSignals.length} moderate opportunities. Validate before heavy investment.`
-                    : 'No strong gap signals detected. Try more specific topic angles.'
+                    : 'No strong gap signals detected. Try more specific topic angles.',
+            quota: youtube.quota(),
+            cache: cache.report()
         });
 
     } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            return NextResponse.json({ error: error.message, quota: youtube.quota() }, { status: 429 });
+        }
         if (axios.isAxiosError(error) && error.response) {
             return NextResponse.json({
                 error: `API Error: ${error.response.status}`
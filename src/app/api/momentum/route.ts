@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
-import googleTrends from 'google-trends-api';
-
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-const BASE_URL = 'https://www.googleapis.com/youtube/v3';
+import { createRequestCache } from '@/lib/cache';
+import { createYouTubeClient, isYouTubeConfigured, QuotaExceededError, UNIT_COSTS, YouTubeClient } from '@/lib/youtube';
+import { fetchAutocomplete, fetchRelatedQueries } from '@/lib/trends';
+import { normalizeVideos } from '@/lib/video';
 
 interface TrendingOpportunity {
     topic: string;
@@ -17,21 +17,14 @@ interface TrendingOpportunity {
     dataAge: string;
 }
 
-function daysSince(date: string): number {
-    return Math.floor((Date.now() - new Date(date).getTime()) / (1000 * 60 * 60 * 24));
-}
-
-async function checkVideoFreshness(topic: string): Promise<{ count: number; avgAge: number; highViewCount: number }> {
+async function checkVideoFreshness(youtube: YouTubeClient, topic: string): Promise<{ count: number; avgAge: number; highViewCount: number }> {
     try {
-        const searchResponse = await axios.get(`${BASE_URL}/search`, {
-            params: {
-                part: 'snippet',
-                q: topic,
-                type: 'video',
-                maxResults: 15,
-                order: 'date',
-                key: YOUTUBE_API_KEY
-            }
+        const searchResponse = await youtube.get('search', {
+            part: 'snippet',
+            q: topic,
+            type: 'video',
+            maxResults: 15,
+            order: 'date'
         });
 
         const items = searchResponse.data.items || [];
@@ -39,29 +32,21 @@ async function checkVideoFreshness(topic: string): Promise<{ count: number; avgA
 
         const videoIds = items.map((item: { id: { videoId: string } }) => item.id.videoId).join(',');
 
-        const statsResponse = await axios.get(`${BASE_URL}/videos`, {
-            params: {
-                part: 'snippet,statistics',
-                id: videoIds,
-                key: YOUTUBE_API_KEY
-            }
+        const statsResponse = await youtube.get('videos', {
+            part: 'snippet,statistics',
+            id: videoIds
         });
 
         let totalAge = 0;
         let highViewCount = 0;
 
-        statsResponse.data.items.forEach((v: {
-            snippet: { publishedAt: string };
-            statistics: { viewCount?: string }
-        }) => {
-            totalAge += daysSince(v.snippet.publishedAt);
-            const views = parseInt(v.statistics.viewCount || '0', 10);
-            if (views > 50000) highViewCount++;
+        const videos = normalizeVideos(statsResponse.data.items);
+        videos.forEach(v => {
+            totalAge += v.daysSinceUpload;
+            if (v.views > 50000) highViewCount++;
         });
 
-        const recentVideos = statsResponse.data.items.filter((v: { snippet: { publishedAt: string } }) =>
-            daysSince(v.snippet.publishedAt) <= 7
-        );
+        const recentVideos = videos.filter(v => v.daysSinceUpload <= 7);
 
         return {
             count: recentVideos.length,
@@ -82,16 +67,22 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Missing "topic" parameter' }, { status: 400 });
     }
 
-    if (!YOUTUBE_API_KEY) {
+    if (!isYouTubeConfigured()) {
         return NextResponse.json({ error: 'YOUTUBE_API_KEY not configured' }, { status: 500 });
     }
 
+    const cache = createRequestCache();
+    const youtube = createYouTubeClient('momentum', cache);
+
     try {
+        // Up to 12 topics get a freshness check (search + videos)
+        youtube.reserve(12 * (UNIT_COSTS.search + UNIT_COSTS.videos));
+
         // 1. Get rising topics from Google Trends
         const risingTopics: { query: string; growth: string; isBreakout: boolean }[] = [];
 
         try {
-            const relatedQueries = await googleTrends.relatedQueries({
+            const relatedQueries = await fetchRelatedQueries(cache, {
                 keyword: seedTopic,
                 geo: regionCode
             });
@@ -113,10 +104,8 @@ export async function GET(request: NextRequest) {
         const autocompleteSuggestions: string[] = [];
 
         try {
-            const autocompleteResponse = await axios.get(
-                `https://suggestqueries.google.com/complete/search?client=youtube&ds=yt&q=${encodeURIComponent(seedTopic)}`
-            );
-            const matches = autocompleteResponse.data.toString().match(/\["([^"]+)"/g);
+            const autocompleteText = await fetchAutocomplete(cache, seedTopic);
+            const matches = autocompleteText.match(/\["([^"]+)"/g);
             if (matches) {
                 const suggestions = matches.slice(1, 8).map((m: string) => m.replace(/\["|"/g, ''));
                 autocompleteSuggestions.push(...suggestions);
@@ -135,7 +124,7 @@ export async function GET(request: NextRequest) {
         const topicsArray = Array.from(topicsToCheck).slice(0, 12);
 
         for (const topic of topicsArray) {
-            const freshness = await checkVideoFreshness(topic);
+            const freshness = await checkVideoFreshness(youtube, topic);
             const risingInfo = risingTopics.find(r => r.query === topic);
 
             // Parse growth
@@ -241,10 +230,15 @@ export async function GET(request: NextRequest) {
                 ? `Found ${strong.length} strong opportunities with proven signals. Top pick: "${strong[0].topic}"`
                 : moderate.length > 0
                     ? `Found ${moderate.length} moderate opportunities. Validate demand before heavy investment.`
-                    : 'No strong momentum signals detected. Try a different or broader topic.'
+                    : 'No strong momentum signals detected. Try a different or broader topic.',
+            quota: youtube.quota(),
+            cache: cache.report()
         });
 
     } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            return NextResponse.json({ error: error.message, quota: youtube.quota() }, { status: 429 });
+        }
         if (axios.isAxiosError(error) && error.response) {
             return NextResponse.json({
                 error: `API Error: ${error.response.status}`
@@ -1,62 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.YOUTUBE_API_KEY;
-const BASE_URL = 'https://www.googleapis.com/youtube/v3';
-
-function parseDuration(isoDuration: string): number {
-    const match = isoDuration.match(/PT(\d+H)?(\d+M)?(\d+S)?/);
-    if (!match) return 0;
-    const hours = parseInt(match[1]) || 0;
-    const minutes = parseInt(match[2]) || 0;
-    const seconds = parseInt(match[3]) || 0;
-    return (hours * 3600) + (minutes * 60) + seconds;
-}
-
-function categorizeDuration(seconds: number): string {
-    if (seconds < 60) return 'Shorts (<1 min)';
-    if (seconds < 300) return 'Short (1-5 min)';
-    if (seconds < 600) return 'Medium (5-10 min)';
-    if (seconds < 1200) return 'Long (10-20 min)';
-    return 'Very Long (>20 min)';
-}
-
-// Statistical helper functions
-function calculateMean(values: number[]): number {
-    return values.reduce((sum, v) => sum + v, 0) / values.length;
-}
-
-function calculateStdDev(values: number[], mean: number): number {
-    const squaredDiffs = values.map(v => Math.pow(v - mean, 2));
-    return Math.sqrt(squaredDiffs.reduce((sum, v) => sum + v, 0) / values.length);
-}
-
-function calculateZScore(value: number, mean: number, stdDev: number): number {
-    if (stdDev === 0) return 0;
-    return (value - mean) / stdDev;
-}
-
-function daysSinceUpload(publishedAt: string): number {
-    const uploadDate = new Date(publishedAt);
-    const now = new Date();
-    const diffMs = now.getTime() - uploadDate.getTime();
-    return Math.max(1, Math.floor(diffMs / (1000 * 60 * 60 * 24)));
-}
-
-interface VideoData {
-    id: string;
-    title: string;
-    channelId: string;
-    channelTitle: string;
-    publishedAt: string;
-    views: number;
-    thumbnail: string;
-    durationSec: number;
-    lengthCategory: string;
-    // Statistical scores (added after processing)
-    velocity?: number;      // views per day
+import { createRequestCache } from '@/lib/cache';
+import { channelBaselineCost, describeExpectedViews, fetchChannelBaselines, fitExpectedViews, scoreAgainstChannels } from '@/lib/expected-views';
+import { createYouTubeClient, isYouTubeConfigured, QuotaExceededError, UNIT_COSTS } from '@/lib/youtube';
+import { normalizeVideos, VideoData } from '@/lib/video';
+import { GEMINI_API_KEY, isGeminiConfigured } from '@/lib/gemini';
+
+interface ScoredVideo extends VideoData {
+    expectedViews?: number;    // what the video's channel typically gets at this age
+    performanceRatio?: number; // views / expectedViews
     zScore?: number;        // statistical outlier score
     isStatOutlier?: boolean; // z-score > 2
 }
@@ -70,21 +23,23 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Missing "idea" parameter' }, { status: 400 });
     }
 
-    if (!YOUTUBE_API_KEY) {
+    if (!isYouTubeConfigured()) {
         return NextResponse.json({ error: 'YOUTUBE_API_KEY not configured' }, { status: 500 });
     }
 
+    const cache = createRequestCache();
+    const youtube = createYouTubeClient('optimize', cache);
+
     try {
+        youtube.reserve(UNIT_COSTS.search + UNIT_COSTS.videos + channelBaselineCost(50));
+
         // Search YouTube for similar content
-        const searchResponse = await axios.get(`${BASE_URL}/search`, {
-            params: {
-                part: 'snippet',
-                q: idea,
-                type: 'video',
-                maxResults: 50,
-                regionCode,
-                key: YOUTUBE_API_KEY
-            }
+        const searchResponse = await youtube.get('search', {
+            part: 'snippet',
+            q: idea,
+            type: 'video',
+            maxResults: 50,
+            regionCode
         });
 
         const items = searchResponse.data.items || [];
@@ -95,55 +50,28 @@ export async function GET(request: NextRequest) {
         const videoIds = items.map((item: { id: { videoId: string } }) => item.id.videoId).join(',');
 
         // Get video statistics
-        const statsResponse = await axios.get(`${BASE_URL}/videos`, {
-            params: {
-                part: 'snippet,contentDetails,statistics',
-                id: videoIds,
-                key: YOUTUBE_API_KEY
-            }
+        const statsResponse = await youtube.get('videos', {
+            part: 'snippet,contentDetails,statistics',
+            id: videoIds
         });
 
         // Parse videos with statistical data
-        const rawVideos: VideoData[] = statsResponse.data.items.map((item: {
-            id: string;
-            snippet: { title: string; channelId: string; channelTitle: string; publishedAt: string; thumbnails: { high?: { url: string } } };
-            contentDetails: { duration: string };
-            statistics: { viewCount?: string };
-        }) => {
-            const durationSec = parseDuration(item.contentDetails.duration);
-            const views = parseInt(item.statistics.viewCount || '0', 10);
-            const days = daysSinceUpload(item.snippet.publishedAt);
-            return {
-                id: item.id,
-                title: item.snippet.title,
-                channelId: item.snippet.channelId,
-                channelTitle: item.snippet.channelTitle,
-                publishedAt: item.snippet.publishedAt,
-                views,
-                thumbnail: item.snippet.thumbnails.high?.url || '',
-                durationSec,
-                lengthCategory: categorizeDuration(durationSec),
-                velocity: Math.round(views / days) // views per day
-            };
-        });
+        const rawVideos = normalizeVideos(statsResponse.data.items);
 
         // === STATISTICAL OUTLIER DETECTION ===
-        // Calculate z-scores based on velocity (views/day) for fair comparison
-        const velocities = rawVideos.map(v => v.velocity || 0);
-        const velocityMean = calculateMean(velocities);
-        const velocityStdDev = calculateStdDev(velocities, velocityMean);
+        // Score against what each channel normally gets at that age, so a big channel's routine
+        // upload isn't an outlier and a small channel's breakout is
+        const { baselines } = await fetchChannelBaselines(youtube, rawVideos);
+        const performanceModel = fitExpectedViews(rawVideos, baselines);
 
         // Add z-scores and mark statistical outliers (z > 2)
-        const videos: VideoData[] = rawVideos.map(v => {
-            const zScore = calculateZScore(v.velocity || 0, velocityMean, velocityStdDev);
-            return {
-                ...v,
-                zScore: Math.round(zScore * 100) / 100,
-                isStatOutlier: zScore > 2 // True statistical outlier
-            };
-        });
+        const videos: ScoredVideo[] = scoreAgainstChannels(rawVideos, baselines, performanceModel).map(({ performanceZScore, ...v }) => ({
+            ...v,
+            zScore: performanceZScore,
+            isStatOutlier: performanceZScore > 2 // True statistical outlier
+        }));
 
-        // Sort by z-score (velocity-normalized) for true outliers
+        // Sort by z-score (channel- and age-adjusted) for true outliers
         const sortedByZScore = [...videos].sort((a, b) => (b.zScore || 0) - (a.zScore || 0));
         const statisticalOutliers = videos.filter(v => v.isStatOutlier);
         const topOutliers = sortedByZScore.slice(0, 5);
@@ -223,10 +151,7 @@ export async function GET(request: NextRequest) {
         // ===== Calculate Saturation Score for Title Optimization =====
         const uniqueChannels = new Set(videos.map(v => v.channelId)).size;
         const channelConcentration = 1 - (uniqueChannels / videos.length);
-        const avgDaysOld = videos.reduce((sum, v) => {
-            const days = Math.floor((Date.now() - new Date(v.publishedAt).getTime()) / (1000 * 60 * 60 * 24));
-            return sum + days;
-        }, 0) / videos.length;
+        const avgDaysOld = videos.reduce((sum, v) => sum + v.daysSinceUpload, 0) / videos.length;
         const ageFactor = Math.min(avgDaysOld / 365, 1);
         const competitionFactor = Math.min(videos.length / 50, 1);
         const saturationRaw = (competitionFactor * 0.4) + (channelConcentration * 0.3) + (ageFactor * 0.3);
@@ -236,14 +161,14 @@ export async function GET(request: NextRequest) {
         // Generate AI title suggestions using Gemini
         let titleSuggestions: { title: string; reasoning: string }[] = [];
 
-        if (GEMINI_API_KEY) {
+        if (isGeminiConfigured()) {
             try {
                 const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
                 const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
 
                 const outlierInfo = topOutliers.length >= 3
                     ? `OUTLIER TITLES (2x+ above average views - these are the WINNERS to learn from):\n${topOutliers.map((v, i) => `${i + 1}. "${v.title}" (${v.views.toLocaleString()} views, ${Math.round(v.views / overallAvg)}x avg)`).join('\n')}`
-                    : `TOP PERFORMERS:\n${sortedByZScore.slice(0, 5).map((v, i) => `${i + 1}. "${v.title}" (${v.views.toLocaleString()} views, ${v.velocity}/day)`).join('\n')}`;
+                    : `TOP PERFORMERS:\n${sortedByZScore.slice(0, 5).map((v, i) => `${i + 1}. "${v.title}" (${v.views.toLocaleString()} views, ${v.performanceRatio}x what its channel usually gets)`).join('\n')}`;
 
                 const prompt = `You are a YouTube title strategist who finds UNSATURATED angles.
 
@@ -283,8 +208,9 @@ Generate 5 title variations that:
 Return ONLY valid JSON in this exact format:
 {"titles":[{"title":"...","reasoning":"Why this angle is unsaturated + how it uses outlier packaging"}]}`;
 
-                const result = await model.generateContent(prompt);
-                const responseText = result.response.text();
+                const responseText = await cache.fetch('gemini', { model: 'gemini-2.0-flash', prompt }, async () =>
+                    (await model.generateContent(prompt)).response.text()
+                );
 
                 // Parse JSON from response
                 const jsonMatch = responseText.match(/\{[\s\S]*\}/);
@@ -326,7 +252,9 @@ Return ONLY valid JSON in this exact format:
                 thumbnail: v.thumbnail,
                 id: v.id,
                 lengthCategory: v.lengthCategory,
-                velocity: v.velocity,
+                velocity: Math.round(v.velocity),
+                expectedViews: v.expectedViews,
+                performanceRatio: v.performanceRatio,
                 zScore: v.zScore,
                 isStatOutlier: v.isStatOutlier
             })),
@@ -344,13 +272,14 @@ Return ONLY valid JSON in this exact format:
             statistics: {
                 outlierCount: statisticalOutliers.length,
                 outlierRate: Math.round((statisticalOutliers.length / videos.length) * 100),
-                avgVelocity: Math.round(velocityMean),
-                velocityStdDev: Math.round(velocityStdDev),
+                performanceModel: describeExpectedViews(performanceModel),
                 sampleSize: videos.length,
                 // Confidence score: based on sample size, outlier consistency, pattern clarity
                 confidence: calculateConfidence(videos.length, statisticalOutliers.length, patternInsights)
             },
-            totalAnalyzed: videos.length
+            totalAnalyzed: videos.length,
+            quota: youtube.quota(),
+            cache: cache.report()
         });
 
         function calculateConfidence(
@@ -384,6 +313,9 @@ Return ONLY valid JSON in this exact format:
         }
 
     } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            return NextResponse.json({ error: error.message, quota: youtube.quota() }, { status: 429 });
+        }
         if (axios.isAxiosError(error) && error.response) {
             return NextResponse.json({
                 error: `API Error: ${error.response.status} - ${JSON.stringify(error.response.data)}`
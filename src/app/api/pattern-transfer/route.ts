@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { calculatePatternLift } from '@/lib/stats';
+import { adjustPatternLifts, BootstrapInterval, calculatePatternLift, resamplePatternLift, shrinkPatternLifts, ShrunkEstimate } from '@/lib/stats';
+import { createRequestCache } from '@/lib/cache';
+import { createYouTubeClient, isYouTubeConfigured, QuotaExceededError, UNIT_COSTS, YouTubeClient } from '@/lib/youtube';
+import { normalizeVideos } from '@/lib/video';
+import { listTitlePatterns, TitlePattern } from '@/lib/patterns';
+import { GEMINI_API_KEY, isGeminiConfigured } from '@/lib/gemini';
 
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.YOUTUBE_API_KEY;
-const BASE_URL = 'https://www.googleapis.com/youtube/v3';
+const MAX_TARGETS = 4;
 
 interface VideoWithViews {
     title: string;
@@ -19,7 +22,11 @@ interface PatternWithLift {
     lift: number;
     avgViewsWithPattern: number;
     avgViewsWithoutPattern: number;
+    liftCI: BootstrapInterval | null;
+    shrunkLift: ShrunkEstimate | null;
     pValue: number;
+    adjustedPValue: number;
+    permutationPValue: number;
     significant: boolean;
 }
 
@@ -29,38 +36,66 @@ interface TransferResult {
     targetNiche: string;
     applicability: 'high' | 'medium' | 'low';
     adaptedExample: string;
+    adaptedExamples: string[];
     reasoning: string;
     liftInSource: number;
+    shrunkLiftInSource: number;
     significant: boolean;
 }
 
-// Pattern tests for extraction
-const patternTests = [
-    { name: 'Numbered List', test: (t: string) => /^\d+\s/.test(t) || /\d+\s+(ways|tips|things|reasons|steps|mistakes)/i.test(t) },
-    { name: 'How To', test: (t: string) => /^how\s+to/i.test(t) },
-    { name: 'Why Question', test: (t: string) => /^why\s/i.test(t) },
-    { name: 'What Question', test: (t: string) => /^what\s/i.test(t) },
-    { name: 'Ultimate Guide', test: (t: string) => /ultimate|complete|definitive/i.test(t) },
-    { name: 'Year Reference', test: (t: string) => /202\d/i.test(t) },
-    { name: 'Beginner Focus', test: (t: string) => /beginner|newbie|starter|first time/i.test(t) },
-    { name: 'Negative Hook', test: (t: string) => /don't|stop|never|avoid|worst|mistake/i.test(t) },
-    { name: 'Comparison', test: (t: string) => /\bvs\.?\b|\bversus\b|compared|better than/i.test(t) },
-    { name: 'Secret/Hidden', test: (t: string) => /secret|hidden|unknown|no one knows/i.test(t) },
-    { name: 'Challenge Hook', test: (t: string) => /challenge|impossible|can't|couldn't/i.test(t) },
-    { name: 'Emotional Trigger', test: (t: string) => /amazing|shocking|insane|crazy|mind-blowing/i.test(t) },
-];
-
-function extractPatternsWithLift(videos: VideoWithViews[]): PatternWithLift[] {
-    const allViews = videos.map(v => v.views);
-
-    return patternTests.map(({ name, test }) => {
-        const withPattern = videos.filter(v => test(v.title));
-        const withoutPattern = videos.filter(v => !test(v.title));
+// One pattern measured in one niche, unfiltered by prevalence
+interface LiftCell {
+    niche: string;
+    prevalence: number;
+    lift: number;
+    liftCI: BootstrapInterval | null;
+    shrunkLift: ShrunkEstimate | null;
+    pValue: number;
+    adjustedPValue: number;
+    permutationPValue: number;
+    significant: boolean;
+    sampleSize: { with: number; without: number };
+}
+
+type PatternLift = ReturnType<typeof patternLifts>[number];
+
+// Lift of every pattern in one niche; p-values are BH-adjusted across the patterns tested there,
+// with a bootstrap CI, a permutation p-value and an empirical-Bayes shrunk lift alongside
+function patternLifts(videos: VideoWithViews[], patterns: TitlePattern[]) {
+    const splits = patterns.map(({ test }) => ({
+        withPattern: videos.filter(v => test(v.title)).map(v => v.views),
+        withoutPattern: videos.filter(v => !test(v.title)).map(v => v.views)
+    }));
 
-        const liftResult = calculatePatternLift(
-            withPattern.map(v => v.views),
-            withoutPattern.map(v => v.views)
-        );
+    const shrunkLifts = shrinkPatternLifts(splits);
+
+    return adjustPatternLifts(splits.map(({ withPattern, withoutPattern }) => calculatePatternLift(withPattern, withoutPattern)))
+        .map((lift, i) => ({
+            ...lift,
+            ...resamplePatternLift(splits[i].withPattern, splits[i].withoutPattern),
+            shrunkLift: shrunkLifts[i]
+        }));
+}
+
+function liftCells(niche: string, videos: VideoWithViews[], lifts: PatternLift[]): LiftCell[] {
+    return lifts.map(result => ({
+        niche,
+        prevalence: videos.length > 0 ? Math.round((result.sampleSize.with / videos.length) * 100) : 0,
+        lift: result.lift,
+        liftCI: result.liftCI,
+        shrunkLift: result.shrunkLift,
+        pValue: result.pValue,
+        adjustedPValue: result.adjustedPValue,
+        permutationPValue: result.permutationPValue,
+        significant: result.significant,
+        sampleSize: result.sampleSize
+    }));
+}
+
+function extractPatternsWithLift(videos: VideoWithViews[], patterns: TitlePattern[], lifts: PatternLift[]): PatternWithLift[] {
+    return patterns.map(({ name, test }, i) => {
+        const withPattern = videos.filter(v => test(v.title));
+        const liftResult = lifts[i];
 
         return {
             pattern: name,
@@ -69,84 +104,116 @@ function extractPatternsWithLift(videos: VideoWithViews[]): PatternWithLift[] {
             lift: liftResult.lift,
             avgViewsWithPattern: liftResult.avgWith,
             avgViewsWithoutPattern: liftResult.avgWithout,
+            liftCI: liftResult.liftCI,
+            shrunkLift: liftResult.shrunkLift,
             pValue: liftResult.pValue,
+            adjustedPValue: liftResult.adjustedPValue,
+            permutationPValue: liftResult.permutationPValue,
             significant: liftResult.significant
         };
     })
         .filter(p => p.prevalence >= 10) // At least 10% prevalence
-        .sort((a, b) => b.lift - a.lift); // Sort by lift, not just prevalence
+        // Sort by shrunk lift, so a pattern in 3 lucky videos doesn't outrank a consistent one
+        .sort((a, b) => shrunkLiftOf(b) - shrunkLiftOf(a));
 }
 
-async function fetchNicheVideos(niche: string): Promise<VideoWithViews[]> {
-    const searchResponse = await axios.get(`${BASE_URL}/search`, {
-        params: {
-            part: 'snippet',
-            q: niche,
-            type: 'video',
-            maxResults: 50, // Increased for better statistics
-            order: 'relevance',
-            key: YOUTUBE_API_KEY
-        }
+function shrunkLiftOf(pattern: { shrunkLift: ShrunkEstimate | null }): number {
+    return pattern.shrunkLift?.estimate ?? 1;
+}
+
+async function fetchNicheVideos(youtube: YouTubeClient, niche: string): Promise<VideoWithViews[]> {
+    const searchResponse = await youtube.get('search', {
+        part: 'snippet',
+        q: niche,
+        type: 'video',
+        maxResults: 50, // Increased for better statistics
+        order: 'relevance'
     });
 
     const videoIds = searchResponse.data.items
         .map((item: { id: { videoId: string } }) => item.id.videoId)
         .join(',');
 
-    const statsResponse = await axios.get(`${BASE_URL}/videos`, {
-        params: {
-            part: 'snippet,statistics',
-            id: videoIds,
-            key: YOUTUBE_API_KEY
-        }
+    const statsResponse = await youtube.get('videos', {
+        part: 'snippet,statistics',
+        id: videoIds
     });
 
-    return statsResponse.data.items.map((v: {
-        snippet: { title: string };
-        statistics: { viewCount?: string };
-    }) => ({
-        title: v.snippet.title,
-        views: parseInt(v.statistics.viewCount || '0', 10)
-    }));
+    return normalizeVideos(statsResponse.data.items).map(v => ({ title: v.title, views: v.views }));
 }
 
 export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const sourceNiche = searchParams.get('source');
-    const targetNiche = searchParams.get('target');
+    // target may repeat to measure one source against several niches
+    const targetNiches = [...new Set(searchParams.getAll('target').map(t => t.trim()).filter(Boolean))];
 
-    if (!sourceNiche || !targetNiche) {
+    if (!sourceNiche || targetNiches.length === 0) {
         return NextResponse.json({ error: 'Missing "source" or "target" niche parameters' }, { status: 400 });
     }
 
-    if (!YOUTUBE_API_KEY || !GEMINI_API_KEY) {
+    if (targetNiches.length > MAX_TARGETS) {
+        return NextResponse.json({ error: `At most ${MAX_TARGETS} target niches` }, { status: 400 });
+    }
+
+    if (!isYouTubeConfigured() || !isGeminiConfigured()) {
         return NextResponse.json({ error: 'API keys not configured' }, { status: 500 });
     }
 
-    try {
-        // 1. Fetch videos with view counts from both niches
-        const sourceVideos = await fetchNicheVideos(sourceNiche);
-        const targetVideos = await fetchNicheVideos(targetNiche);
+    const cache = createRequestCache();
+    const youtube = createYouTubeClient('pattern-transfer', cache);
 
-        // 2. Extract patterns with lift calculation
-        const sourcePatterns = extractPatternsWithLift(sourceVideos);
-        const targetPatterns = extractPatternsWithLift(targetVideos);
+    try {
+        // Source and every target niche each need search + videos
+        youtube.reserve((1 + targetNiches.length) * (UNIT_COSTS.search + UNIT_COSTS.videos));
+
+        // 1. Fetch videos with view counts from all niches
+        const sourceVideos = await fetchNicheVideos(youtube, sourceNiche);
+        const targetVideos: VideoWithViews[][] = [];
+        for (const target of targetNiches) {
+            targetVideos.push(await fetchNicheVideos(youtube, target));
+        }
 
-        // 3. Find transferable patterns (in source with significant lift, but underused in target)
-        const targetPatternNames = new Set(targetPatterns.filter(p => p.prevalence >= 20).map(p => p.pattern));
-        const transferablePatterns = sourcePatterns
-            .filter(p => !targetPatternNames.has(p.pattern) && p.lift >= 1.2) // Only patterns with 20%+ lift
-            .slice(0, 5);
+        // 2. Extract patterns (built-in and user-defined) with lift calculation
+        const patterns = listTitlePatterns();
+        const sourceLifts = patternLifts(sourceVideos, patterns);
+        const targetLifts = targetVideos.map(videos => patternLifts(videos, patterns));
+        const sourcePatterns = extractPatternsWithLift(sourceVideos, patterns, sourceLifts);
+        const targetPatternSets = targetVideos.map((videos, i) => extractPatternsWithLift(videos, patterns, targetLifts[i]));
+
+        // 3. Pattern x niche lift matrix (source first), skipping patterns no niche uses
+        const nicheCells = [liftCells(sourceNiche, sourceVideos, sourceLifts), ...targetNiches.map((t, i) => liftCells(t, targetVideos[i], targetLifts[i]))];
+        const matrix = {
+            niches: [sourceNiche, ...targetNiches],
+            rows: patterns
+                .map(({ id, name, category, custom }, p) => ({
+                    id,
+                    pattern: name,
+                    category,
+                    custom,
+                    cells: nicheCells.map(cells => cells[p])
+                }))
+                .filter(row => row.cells.some(cell => cell.prevalence > 0))
+        };
 
-        // 4. Use AI to generate adapted examples
+        // 4. Per target: patterns with 20%+ lift in source that the target underuses, adapted by AI
         const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
         const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
 
         const transferResults: TransferResult[] = [];
+        let transferablePatternCount = 0;
+
+        for (const [t, targetNiche] of targetNiches.entries()) {
+            const targetPatternNames = new Set(targetPatternSets[t].filter(p => p.prevalence >= 20).map(p => p.pattern));
+            const transferablePatterns = sourcePatterns
+                .filter(p => !targetPatternNames.has(p.pattern) && p.lift >= 1.2) // Only patterns with 20%+ lift
+                .slice(0, 5);
+            transferablePatternCount += transferablePatterns.length;
+
+            if (transferablePatterns.length === 0) continue;
 
-        if (transferablePatterns.length > 0) {
-            const patternsWithExamples = transferablePatterns.slice(0, 5).map(p =>
-                `Pattern: "${p.pattern}" (${p.prevalence}% prevalence, ${Math.round((p.lift - 1) * 100)}% lift, p=${p.pValue})\nExamples: ${p.examples.join('; ')}`
+            const patternsWithExamples = transferablePatterns.map(p =>
+                `Pattern: "${p.pattern}" (${p.prevalence}% prevalence, ${Math.round((p.lift - 1) * 100)}% lift, adjusted p=${p.adjustedPValue})\nExamples: ${p.examples.join('; ')}`
             ).join('\n\n');
 
             const prompt = `You are analyzing YouTube title patterns from "${sourceNiche}" to adapt them for "${targetNiche}".
@@ -157,71 +224,87 @@ ${patternsWithExamples}
 
 ("Lift" means videos with this pattern get X% more views than videos without it)
 
-For each pattern, create an adapted title for ${targetNiche} and explain why it could work.
+For each pattern, create three adapted titles for ${targetNiche} and explain why it could work.
 
 Return ONLY valid JSON:
 {
   "transfers": [
     {
       "pattern": "pattern name",
-      "adaptedExample": "specific title for ${targetNiche}",
+      "adaptedExamples": ["specific title for ${targetNiche}", "another", "another"],
       "applicability": "high/medium/low",
       "reasoning": "why this could work in ${targetNiche}"
     }
   ]
 }`;
 
-            const result = await model.generateContent(prompt);
-            const responseText = result.response.text();
+            const responseText = await cache.fetch('gemini', { model: 'gemini-2.0-flash', prompt }, async () =>
+                (await model.generateContent(prompt)).response.text()
+            );
             const jsonMatch = responseText.match(/\{[\s\S]*\}/);
 
             if (jsonMatch) {
                 const parsed = JSON.parse(jsonMatch[0]);
-                (parsed.transfers || []).forEach((t: {
+                (parsed.transfers || []).forEach((transfer: {
                     pattern: string;
-                    adaptedExample: string;
+                    adaptedExamples?: string[];
+                    adaptedExample?: string;
                     applicability: string;
                     reasoning: string;
                 }) => {
                     // Find the matching source pattern for lift data
-                    const sourcePattern = transferablePatterns.find(p => p.pattern === t.pattern);
+                    const sourcePattern = transferablePatterns.find(p => p.pattern === transfer.pattern);
+                    const examples = transfer.adaptedExamples?.length
+                        ? transfer.adaptedExamples
+                        : transfer.adaptedExample ? [transfer.adaptedExample] : [];
                     transferResults.push({
-                        pattern: t.pattern,
+                        pattern: transfer.pattern,
                         sourceNiche,
                         targetNiche,
-                        applicability: t.applicability as 'high' | 'medium' | 'low',
-                        adaptedExample: t.adaptedExample,
-                        reasoning: t.reasoning,
+                        applicability: transfer.applicability as 'high' | 'medium' | 'low',
+                        adaptedExample: examples[0] || '',
+                        adaptedExamples: examples,
+                        reasoning: transfer.reasoning,
                         liftInSource: sourcePattern?.lift || 1,
+                        shrunkLiftInSource: sourcePattern ? shrunkLiftOf(sourcePattern) : 1,
                         significant: sourcePattern?.significant || false
                     });
                 });
             }
         }
 
-        // 6. Also find common patterns (validated across both)
+        // 5. Also find common patterns (validated across source and the first target)
+        const targetNiche = targetNiches[0];
+        const targetPatterns = targetPatternSets[0];
         const sourcePatternNames = new Set(sourcePatterns.map(p => p.pattern));
         const commonPatterns = targetPatterns.filter(p => sourcePatternNames.has(p.pattern));
 
         return NextResponse.json({
             sourceNiche,
             targetNiche,
+            targetNiches,
 
             overview: {
                 sourcePatternsFound: sourcePatterns.length,
                 targetPatternsFound: targetPatterns.length,
-                transferOpportunities: transferablePatterns.length,
+                transferOpportunities: transferablePatternCount,
                 commonPatterns: commonPatterns.length,
-                note: 'Only patterns with 20%+ lift and p < 0.1 are recommended for transfer'
+                note: 'Only patterns with 20%+ lift are recommended for transfer; significance uses BH-adjusted p < 0.1'
             },
 
-            transferOpportunities: transferResults.sort((a, b) => b.liftInSource - a.liftInSource),
+            matrix,
+
+            transferOpportunities: transferResults.sort((a, b) => b.shrunkLiftInSource - a.shrunkLiftInSource),
 
             sourcePatterns: sourcePatterns.slice(0, 6).map(p => ({
                 pattern: p.pattern,
                 prevalence: `${p.prevalence}%`,
                 lift: p.lift,
+                liftCI: p.liftCI,
+                shrunkLift: p.shrunkLift,
                 pValue: p.pValue,
+                adjustedPValue: p.adjustedPValue,
+                permutationPValue: p.permutationPValue,
                 significant: p.significant,
                 example: p.examples[0]
             })),
@@ -242,8 +325,12 @@ Return ONLY valid JSON:
 
             methodology: {
                 approach: 'Pattern extraction with lift calculation (t-test for significance)',
+                matrix: 'Lift = avg views with pattern / without, per niche; Welch t-test on log views (Student-t, Welch-Satterthwaite df); cells need 3+ videos on each side',
+                multipleComparisons: 'Every pattern is tested at once, so p-values are Benjamini-Hochberg adjusted across the patterns tested in each niche; significant = adjusted p < 0.1',
+                shrinkage: 'shrunkLift pulls each log lift toward 1x (empirical Bayes, DerSimonian-Laird between-pattern variance) with a 95% posterior interval; patterns and transfers rank by it',
+                resampling: 'liftCI is a seeded 95% percentile bootstrap of the lift (1,000 resamples); permutationPValue shuffles pattern labels 1,000 times on log views, with no normality assumption',
                 improvements: [
-                    'Patterns now sorted by lift, not just prevalence',
+                    'Patterns now sorted by shrunk lift, not just prevalence',
                     'Only recommends patterns with statistically significant lift',
                     'View data used to calculate actual performance difference'
                 ],
@@ -252,10 +339,15 @@ Return ONLY valid JSON:
                     'Transfer success not guaranteed - audience may differ',
                     '50 videos per niche analyzed'
                 ]
-            }
+            },
+            quota: youtube.quota(),
+            cache: cache.report()
         });
 
     } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            return NextResponse.json({ error: error.message, quota: youtube.quota() }, { status: 429 });
+        }
         if (axios.isAxiosError(error) && error.response) {
             if (error.response.status === 403 && error.response.data?.error?.message?.includes('quota')) {
                 return NextResponse.json({ error: 'YouTube API quota exceeded. Resets at midnight Pacific.' }, { status: 429 });
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addTitlePattern, BUILTIN_PATTERNS, listCustomPatterns, removeTitlePattern, TitlePatternError } from '@/lib/patterns';
+
+export async function GET() {
+    return NextResponse.json({
+        builtin: BUILTIN_PATTERNS.map(({ id, name, category }) => ({ id, name, category })),
+        custom: listCustomPatterns()
+    });
+}
+
+// Body: { name, category: "hook" | "format" | "length" | "case", regex, flags?, id? }
+export async function POST(request: NextRequest) {
+    let body;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+
+    try {
+        const pattern = addTitlePattern(body);
+        return NextResponse.json({ pattern }, { status: 201 });
+    } catch (error) {
+        if (error instanceof TitlePatternError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error('Failed to add title pattern:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    const id = new URL(request.url).searchParams.get('id');
+
+    if (!id) {
+        return NextResponse.json({ error: 'Missing "id" parameter' }, { status: 400 });
+    }
+
+    if (!removeTitlePattern(id)) {
+        return NextResponse.json({ error: 'Custom pattern not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ removed: id });
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getQuotaUsage, UNIT_COSTS } from '@/lib/youtube';
+
+// Today's YouTube Data API spend, broken down by route
+export async function GET() {
+    const usage = getQuotaUsage();
+
+    return NextResponse.json({
+        date: usage.date,
+        dailyBudget: usage.dailyBudget,
+        dailyUnitsUsed: usage.total,
+        remaining: usage.remaining,
+        byRoute: Object.entries(usage.routes)
+            .map(([route, units]) => ({ route, units }))
+            .sort((a, b) => b.units - a.units),
+        unitCosts: UNIT_COSTS,
+        resetsAt: 'Midnight Pacific'
+    });
+}
@@ -1,17 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.YOUTUBE_API_KEY;
-const BASE_URL = 'https://www.googleapis.com/youtube/v3';
+import { CacheReport, createRequestCache } from '@/lib/cache';
+import { FIXTURE_MODE } from '@/lib/fixtures';
+import { adjustPatternLifts, calculateLogLift, calculateMean, hashSeed, seededRandom } from '@/lib/stats';
+import { createYouTubeClient, isYouTubeConfigured, QuotaExceededError, QuotaReport, UNIT_COSTS } from '@/lib/youtube';
+import { normalizeVideos } from '@/lib/video';
+import { fitViewDecay, logResidual, scoreAgeAdjusted } from '@/lib/decay';
+import { listTitlePatterns, TitlePattern as TitleDetector } from '@/lib/patterns';
+import { GEMINI_API_KEY, isGeminiConfigured } from '@/lib/gemini';
 
 interface TitlePattern {
     pattern: string;
+    name: string;
     prevalence: number;
     avgZScore: number;
     sampleSize: number;
     weight: number;
+    pValue: number;
+    adjustedPValue: number;
+    significant: boolean;
 }
 
 interface TitleCandidate {
@@ -37,6 +45,7 @@ interface WalkResult {
         fitnessFunction: string;
         iterations: number;
         acceptanceCriteria: string;
+        significance: string;
         limitations: string[];
     };
     patterns: {
@@ -48,62 +57,21 @@ interface WalkResult {
         outliersAnalyzed: number;
         patternConfidence: string;
     };
+    quota: QuotaReport;
+    cache: CacheReport;
 }
 
-function daysSinceUpload(publishedAt: string): number {
-    const uploadDate = new Date(publishedAt);
-    const now = new Date();
-    return Math.max(1, Math.floor((now.getTime() - uploadDate.getTime()) / (1000 * 60 * 60 * 24)));
-}
-
-function calculateMean(values: number[]): number {
-    if (values.length === 0) return 0;
-    return values.reduce((sum, v) => sum + v, 0) / values.length;
-}
-
-function calculateStdDev(values: number[], mean: number): number {
-    if (values.length < 2) return 0;
-    const squaredDiffs = values.map(v => Math.pow(v - mean, 2));
-    return Math.sqrt(squaredDiffs.reduce((sum, v) => sum + v, 0) / values.length);
-}
-
-// Extract features from a title
-function extractTitleFeatures(title: string): Record<string, boolean | number> {
-    return {
-        hasNumber: /\d/.test(title),
-        hasQuestion: /\?/.test(title),
-        hasExclamation: /!/.test(title),
-        hasPipe: /\|/.test(title),
-        hasDash: /-/.test(title),
-        hasColon: /:/.test(title),
-        hasParens: /\(|\)/.test(title),
-        hasQuotes: /"/.test(title),
-        hasAllCaps: /[A-Z]{3,}/.test(title),
-        startsWithNumber: /^\d/.test(title),
-        startsWithHow: /^how/i.test(title),
-        startsWithWhy: /^why/i.test(title),
-        startsWithWhat: /^what/i.test(title),
-        hasListFormat: /\d+\s+(ways|tips|things|reasons|steps|mistakes)/i.test(title),
-        hasBeginner: /beginner/i.test(title),
-        hasUltimate: /ultimate/i.test(title),
-        hasComplete: /complete/i.test(title),
-        hasGuide: /guide/i.test(title),
-        hasSecret: /secret/i.test(title),
-        hasTruth: /truth/i.test(title),
-        hasNever: /never/i.test(title),
-        hasAlways: /always/i.test(title),
-        hasMistake: /mistake/i.test(title),
-        hasEasy: /easy/i.test(title),
-        hasSimple: /simple/i.test(title),
-        hasFast: /fast/i.test(title),
-        hasYear: /202\d/i.test(title),
-        wordCount: title.split(/\s+/).length,
-        charCount: title.length,
-    };
+// Extract features from a title: one flag per registry pattern, plus length counts
+function extractTitleFeatures(title: string, detectors: TitleDetector[]): Record<string, boolean | number> {
+    const features: Record<string, boolean | number> = {};
+    detectors.forEach(d => { features[d.id] = d.test(title); });
+    features.wordCount = title.split(/\s+/).length;
+    features.charCount = title.length;
+    return features;
 }
 
 // Generate title mutations
-function generateMutations(title: string, topWords: string[], hookWords: string[]): string[] {
+function generateMutations(title: string, topWords: string[], hookWords: string[], random: () => number): string[] {
     const mutations: string[] = [];
     const words = title.split(/\s+/);
 
@@ -151,7 +119,7 @@ function generateMutations(title: string, topWords: string[], hookWords: string[
 
     // Mutation 6: Reorder words
     if (words.length >= 3) {
-        const shuffled = [...words].sort(() => Math.random() - 0.5);
+        const shuffled = [...words].sort(() => random() - 0.5);
         mutations.push(shuffled.join(' '));
     }
 
@@ -174,12 +142,13 @@ function generateMutations(title: string, topWords: string[], hookWords: string[
 // Score a title based on learned patterns
 function scoreTitleAgainstPatterns(
     title: string,
+    detectors: TitleDetector[],
     positivePatterns: TitlePattern[],
     negativePatterns: TitlePattern[],
     optimalLength: { min: number; max: number },
     avgZScore: number
 ): { score: number; breakdown: { patternMatch: number; saturationPenalty: number; lengthScore: number; hookBonus: number }; confidence: number } {
-    const features = extractTitleFeatures(title);
+    const features = extractTitleFeatures(title, detectors);
 
     // Pattern match score (0-40)
     let patternMatch = 0;
@@ -216,10 +185,10 @@ function scoreTitleAgainstPatterns(
     // Hook bonus (0-20)
     let hookBonus = 0;
     if (features.hasNumber) hookBonus += 5;
-    if (features.hasQuestion) hookBonus += 5;
+    if (features.question) hookBonus += 5;
     if (features.startsWithNumber) hookBonus += 5;
-    if (features.hasYear) hookBonus += 3;
-    if (features.hasListFormat) hookBonus += 2;
+    if (features.yearReference) hookBonus += 3;
+    if (features.numberedList) hookBonus += 2;
     hookBonus = Math.min(20, hookBonus);
 
     const score = patternMatch - saturationPenalty + lengthScore + hookBonus;
@@ -243,22 +212,24 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Missing "title" and "niche" parameters' }, { status: 400 });
     }
 
-    if (!YOUTUBE_API_KEY) {
+    if (!isYouTubeConfigured()) {
         return NextResponse.json({ error: 'YOUTUBE_API_KEY not configured' }, { status: 500 });
     }
 
+    const cache = createRequestCache();
+    const youtube = createYouTubeClient('random-walk', cache);
+
     try {
+        youtube.reserve(UNIT_COSTS.search + UNIT_COSTS.videos);
+
         // 1. Get videos in this niche
-        const searchResponse = await axios.get(`${BASE_URL}/search`, {
-            params: {
-                part: 'snippet',
-                q: niche,
-                type: 'video',
-                maxResults: 50,
-                regionCode,
-                order: 'relevance',
-                key: YOUTUBE_API_KEY
-            }
+        const searchResponse = await youtube.get('search', {
+            part: 'snippet',
+            q: niche,
+            type: 'video',
+            maxResults: 50,
+            regionCode,
+            order: 'relevance'
         });
 
         const items = searchResponse.data.items || [];
@@ -269,53 +240,44 @@ export async function GET(request: NextRequest) {
         const videoIds = items.map((item: { id: { videoId: string } }) => item.id.videoId).join(',');
 
         // 2. Get video stats
-        const statsResponse = await axios.get(`${BASE_URL}/videos`, {
-            params: {
-                part: 'snippet,statistics',
-                id: videoIds,
-                key: YOUTUBE_API_KEY
-            }
-        });
-
-        // 3. Calculate performance metrics
-        const videos = statsResponse.data.items.map((v: {
-            id: string;
-            snippet: { title: string; publishedAt: string };
-            statistics: { viewCount?: string };
-        }) => {
-            const views = parseInt(v.statistics.viewCount || '0', 10);
-            const days = daysSinceUpload(v.snippet.publishedAt);
-            const velocity = views / days;
-            return {
-                id: v.id,
-                title: v.snippet.title,
-                views,
-                velocity,
-                features: extractTitleFeatures(v.snippet.title)
-            };
+        const statsResponse = await youtube.get('videos', {
+            part: 'snippet,statistics',
+            id: videoIds
         });
 
-        // 4. Calculate z-scores
-        const velocities = videos.map((v: { velocity: number }) => v.velocity);
-        const meanVelocity = calculateMean(velocities);
-        const stdVelocity = calculateStdDev(velocities, meanVelocity);
+        // 3. Calculate performance metrics (built-in and user-defined title patterns)
+        const detectors = listTitlePatterns();
+        const videos = normalizeVideos(statsResponse.data.items).map(v => ({
+            id: v.id,
+            title: v.title,
+            views: v.views,
+            velocity: v.velocity,
+            daysSinceUpload: v.daysSinceUpload,
+            features: extractTitleFeatures(v.title, detectors)
+        }));
 
-        const videosWithZScore = videos.map((v: { velocity: number; title: string; features: Record<string, boolean | number> }) => ({
+        // 4. Calculate z-scores against the niche's view-decay curve
+        const decay = fitViewDecay(videos);
+        const videosWithZScore = scoreAgeAdjusted(videos, decay).map(({ ageAdjustedZScore, ...v }) => ({
             ...v,
-            zScore: stdVelocity > 0 ? (v.velocity - meanVelocity) / stdVelocity : 0
+            zScore: ageAdjustedZScore
         }));
 
         // 5. Identify outliers (z-score > 1.5)
         const outliers = videosWithZScore.filter((v: { zScore: number }) => v.zScore > 1.5);
         const underperformers = videosWithZScore.filter((v: { zScore: number }) => v.zScore < -1);
 
-        // 6. Extract positive patterns from outliers
-        const positivePatterns: TitlePattern[] = [];
-        const featureKeys = Object.keys(extractTitleFeatures('test'));
+        // 6. Test each pattern's age-adjusted performance against titles without it (Welch t-test
+        // on the unrounded log residuals, i.e. log performance ratio), BH-adjusted across every pattern tested at once
+        const performanceTests = adjustPatternLifts(detectors.map(({ id: key }) => calculateLogLift(
+            videosWithZScore.filter(v => v.features[key] === true).map(v => logResidual(decay, v)),
+            videosWithZScore.filter(v => v.features[key] !== true).map(v => logResidual(decay, v))
+        )));
 
-        featureKeys.forEach(key => {
-            if (key === 'wordCount' || key === 'charCount') return;
+        // 7. Extract positive patterns from outliers
+        const positivePatterns: TitlePattern[] = [];
 
+        detectors.forEach(({ id: key, name }, d) => {
             const outliersWithFeature = outliers.filter((v: { features: Record<string, boolean | number> }) => v.features[key] === true);
             const allWithFeature = videosWithZScore.filter((v: { features: Record<string, boolean | number> }) => v.features[key] === true);
 
@@ -326,21 +288,23 @@ export async function GET(request: NextRequest) {
                 if (prevalence >= 0.2) {
                     positivePatterns.push({
                         pattern: key,
+                        name,
                         prevalence: Math.round(prevalence * 100),
                         avgZScore: Math.round(avgZScore * 100) / 100,
                         sampleSize: outliersWithFeature.length,
-                        weight: Math.round(prevalence * avgZScore * 10)
+                        weight: Math.round(prevalence * avgZScore * 10),
+                        pValue: performanceTests[d].pValue,
+                        adjustedPValue: performanceTests[d].adjustedPValue,
+                        significant: performanceTests[d].significant && performanceTests[d].lift > 1
                     });
                 }
             }
         });
 
-        // 7. Extract negative patterns from underperformers
+        // 8. Extract negative patterns from underperformers
         const negativePatterns: TitlePattern[] = [];
 
-        featureKeys.forEach(key => {
-            if (key === 'wordCount' || key === 'charCount') return;
-
+        detectors.forEach(({ id: key, name }, d) => {
             const underWithFeature = underperformers.filter((v: { features: Record<string, boolean | number> }) => v.features[key] === true);
             const allWithFeature = videosWithZScore.filter((v: { features: Record<string, boolean | number> }) => v.features[key] === true);
 
@@ -350,16 +314,20 @@ export async function GET(request: NextRequest) {
                 if (prevalence >= 0.3) {
                     negativePatterns.push({
                         pattern: key,
+                        name,
                         prevalence: Math.round(prevalence * 100),
                         avgZScore: Math.round(calculateMean(underWithFeature.map((v: { zScore: number }) => v.zScore)) * 100) / 100,
                         sampleSize: underWithFeature.length,
-                        weight: Math.round(prevalence * 5)
+                        weight: Math.round(prevalence * 5),
+                        pValue: performanceTests[d].pValue,
+                        adjustedPValue: performanceTests[d].adjustedPValue,
+                        significant: performanceTests[d].significant && performanceTests[d].lift < 1
                     });
                 }
             }
         });
 
-        // 8. Calculate optimal word count from outliers
+        // 9. Calculate optimal word count from outliers
         const outlierWordCounts = outliers.map((v: { features: Record<string, boolean | number> }) => v.features.wordCount as number);
         const avgWordCount = calculateMean(outlierWordCounts);
         const optimalLength = {
@@ -367,7 +335,7 @@ export async function GET(request: NextRequest) {
             max: Math.ceil(avgWordCount + 2)
         };
 
-        // 9. Extract top words from outliers
+        // 10. Extract top words from outliers
         const wordCounts: Record<string, number> = {};
         const stopWords = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'is', 'it', 'this', 'that', 'i', 'you', 'my', 'your', 'how', 'what', 'why']);
 
@@ -387,10 +355,10 @@ export async function GET(request: NextRequest) {
 
         const hookWords = ['Ultimate', 'Complete', 'Best', 'Top', 'Essential', 'Must-Know', 'Proven', 'Simple'];
 
-        // 10. Random Walk Optimization
+        // 11. Random Walk Optimization
         const avgZScoreOutliers = calculateMean(outliers.map((v: { zScore: number }) => v.zScore));
 
-        const startScore = scoreTitleAgainstPatterns(title, positivePatterns, negativePatterns, optimalLength, avgZScoreOutliers);
+        const startScore = scoreTitleAgainstPatterns(title, detectors, positivePatterns, negativePatterns, optimalLength, avgZScoreOutliers);
 
         let currentTitle = title;
         let currentScore = startScore;
@@ -404,22 +372,24 @@ export async function GET(request: NextRequest) {
 
         const walkPath: TitleCandidate[] = [bestTitle];
         const temperature = 0.3; // Exploration parameter
+        // Replay runs must produce the same walk every time
+        const random = FIXTURE_MODE === 'replay' ? seededRandom(hashSeed(`${title}|${niche}`)) : Math.random;
 
         for (let i = 0; i < iterations; i++) {
             // Generate mutations
-            const mutations = generateMutations(currentTitle, topWords, hookWords);
+            const mutations = generateMutations(currentTitle, topWords, hookWords, random);
 
             if (mutations.length === 0) continue;
 
             // Pick a random mutation
-            const candidateTitle = mutations[Math.floor(Math.random() * mutations.length)];
-            const candidateScore = scoreTitleAgainstPatterns(candidateTitle, positivePatterns, negativePatterns, optimalLength, avgZScoreOutliers);
+            const candidateTitle = mutations[Math.floor(random() * mutations.length)];
+            const candidateScore = scoreTitleAgainstPatterns(candidateTitle, detectors, positivePatterns, negativePatterns, optimalLength, avgZScoreOutliers);
 
             // Accept/reject based on Metropolis criterion
             const delta = candidateScore.score - currentScore.score;
             const acceptProbability = delta > 0 ? 1 : Math.exp(delta / temperature);
 
-            if (Math.random() < acceptProbability) {
+            if (random() < acceptProbability) {
                 currentTitle = candidateTitle;
                 currentScore = candidateScore;
 
@@ -439,7 +409,7 @@ export async function GET(request: NextRequest) {
             }
         }
 
-        // 11. Get top alternatives from walk
+        // 12. Get top alternatives from walk
         const uniqueTitles = new Map<string, TitleCandidate>();
         walkPath.forEach(c => {
             if (!uniqueTitles.has(c.title) || uniqueTitles.get(c.title)!.score < c.score) {
@@ -451,10 +421,10 @@ export async function GET(request: NextRequest) {
             .sort((a, b) => b.score - a.score)
             .slice(0, 8);
 
-        // 12. Generate semantic titles with Gemini
+        // 13. Generate semantic titles with Gemini
         let geminiTitles: { title: string; approach: string }[] = [];
 
-        if (GEMINI_API_KEY) {
+        if (isGeminiConfigured()) {
             try {
                 const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
                 const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
@@ -480,8 +450,9 @@ IMPORTANT:
 Return ONLY valid JSON:
 {"titles":[{"title":"...","approach":"one-word approach like curiosity/benefit/story/question/contrast"}]}`;
 
-                const result = await model.generateContent(prompt);
-                const responseText = result.response.text();
+                const responseText = await cache.fetch('gemini', { model: 'gemini-2.0-flash', prompt }, async () =>
+                    (await model.generateContent(prompt)).response.text()
+                );
                 const jsonMatch = responseText.match(/\{[\s\S]*\}/);
 
                 if (jsonMatch) {
@@ -496,7 +467,7 @@ Return ONLY valid JSON:
             }
         }
 
-        // 13. Calculate confidence based on data quality
+        // 14. Calculate confidence based on data quality
         const patternConfidence = outliers.length >= 10 ? 'high' : outliers.length >= 5 ? 'medium' : 'low';
 
         const result: WalkResult = {
@@ -509,6 +480,7 @@ Return ONLY valid JSON:
                 fitnessFunction: 'Pattern match (40%) - Saturation penalty (20%) + Length optimization (20%) + Hook bonus (20%)',
                 iterations,
                 acceptanceCriteria: 'Accept improvements always; accept downgrades with probability exp(delta/temperature)',
+                significance: 'Welch t-test (Student-t) on log age-adjusted performance (views vs. the niche view-decay curve) with vs. without each pattern; p-values Benjamini-Hochberg adjusted across all patterns tested; significant = adjusted p < 0.1',
                 limitations: [
                     'Patterns learned from correlation, not causation',
                     `Based on ${outliers.length} outliers from ${videos.length} videos`,
@@ -524,12 +496,17 @@ Return ONLY valid JSON:
                 sampleSize: videos.length,
                 outliersAnalyzed: outliers.length,
                 patternConfidence
-            }
+            },
+            quota: youtube.quota(),
+            cache: cache.report()
         };
 
         return NextResponse.json(result);
 
     } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            return NextResponse.json({ error: error.message, quota: youtube.quota() }, { status: 429 });
+        }
         if (axios.isAxiosError(error) && error.response) {
             return NextResponse.json({
                 error: `API Error: ${error.response.status}`
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { diffSnapshots, isSnapshotTool, listSnapshots } from '@/lib/snapshots';
+
+// Compare two snapshots of a niche; defaults to the previous run vs the latest
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q');
+    const tool = searchParams.get('tool') || 'analyze';
+    const region = searchParams.get('region') || 'US';
+    const fromId = searchParams.get('from');
+    const toId = searchParams.get('to');
+
+    if (!query) {
+        return NextResponse.json({ error: 'Missing query parameter "q"' }, { status: 400 });
+    }
+
+    if (!isSnapshotTool(tool)) {
+        return NextResponse.json({ error: 'Invalid "tool" parameter. Use "analyze" or "evaluate".' }, { status: 400 });
+    }
+
+    const snapshots = listSnapshots(tool, query, region);
+    if (snapshots.length < 2) {
+        return NextResponse.json({
+            error: `Need at least 2 snapshots to diff, found ${snapshots.length}`
+        }, { status: 404 });
+    }
+
+    const to = toId ? snapshots.find(s => s.id === toId) : snapshots[snapshots.length - 1];
+    const from = fromId
+        ? snapshots.find(s => s.id === fromId)
+        : to && snapshots[snapshots.indexOf(to) - 1];
+
+    if (!from || !to) {
+        return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+        tool,
+        query,
+        region,
+        diff: diffSnapshots(from, to)
+    });
+}
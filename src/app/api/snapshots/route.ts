@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSnapshotTool, listSnapshots, listTrackedNiches, SnapshotTool } from '@/lib/snapshots';
+
+// Without "q": every tracked niche with its latest metrics. With "q": that niche's full history, oldest first.
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q');
+    const toolParam = searchParams.get('tool');
+    const region = searchParams.get('region') || 'US';
+
+    if (toolParam && !isSnapshotTool(toolParam)) {
+        return NextResponse.json({ error: 'Invalid "tool" parameter. Use "analyze" or "evaluate".' }, { status: 400 });
+    }
+    const tool = toolParam as SnapshotTool | null;
+
+    if (!query) {
+        return NextResponse.json({ niches: listTrackedNiches(tool || undefined) });
+    }
+
+    const snapshots = listSnapshots(tool || 'analyze', query, region);
+
+    return NextResponse.json({
+        tool: tool || 'analyze',
+        query,
+        region,
+        count: snapshots.length,
+        snapshots
+    });
+}
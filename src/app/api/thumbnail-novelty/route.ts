@@ -1,56 +1,94 @@
 import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
 import axios from 'axios';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { createRequestCache, RequestCache } from '@/lib/cache';
+import { createYouTubeClient, isYouTubeConfigured, QuotaExceededError, UNIT_COSTS, YouTubeClient } from '@/lib/youtube';
+import { normalizeVideos } from '@/lib/video';
+import { analyzeImage, analyzeImageUrl, ImageFeatures, nearestVisualNeighbors } from '@/lib/images';
+import { median } from '@/lib/stats';
+import { GEMINI_API_KEY, isGeminiConfigured } from '@/lib/gemini';
+
+// Uploaded drafts: how many variants per request and how large each may be
+const MAX_VARIANTS = 4;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Semantic fields come from Gemini; colors, contrast and the rest are measured from the pixels
+interface VisionFeatures {
+    hasFace: boolean;
+    hasText: boolean;
+    style: string;
+    emotionalTone: string;
+    visualDescription: string;
+}
 
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.YOUTUBE_API_KEY;
-const BASE_URL = 'https://www.googleapis.com/youtube/v3';
+interface ThumbnailFeatures extends VisionFeatures {
+    dominantColors: string[];
+    contrast: string;
+    pixels: ImageFeatures | null;
+}
+
+type PixelMetric = 'brightness' | 'contrast' | 'saturation' | 'edgeDensity';
+
+const PIXEL_METRICS: PixelMetric[] = ['brightness', 'contrast', 'saturation', 'edgeDensity'];
 
 interface ThumbnailAnalysis {
     videoId: string;
     title: string;
     views: number;
     thumbnailUrl: string;
-    features: {
-        hasFace: boolean;
-        hasText: boolean;
-        dominantColors: string[];
-        style: string;
-        emotionalTone: string;
-        visualDescription: string;
-    };
+    features: ThumbnailFeatures;
 }
 
-async function analyzeThumbnailWithVision(thumbnailUrl: string, genAI: GoogleGenerativeAI): Promise<{
-    hasFace: boolean;
-    hasText: boolean;
-    dominantColors: string[];
-    style: string;
-    emotionalTone: string;
-    visualDescription: string;
-}> {
+// A hosted thumbnail, or the bytes of an uploaded one
+type ThumbnailImage = { url: string } | { data: Buffer; mimeType: string };
+
+// What the niche's top performers look like; shares are 0-1
+interface NicheProfile {
+    competitors: ThumbnailAnalysis[];
+    faceRate: number;
+    textRate: number;
+    dominantStyle: string;
+    dominantTone: string;
+    styleDistribution: { value: string; share: number }[];
+    toneDistribution: { value: string; share: number }[];
+    pixelMedians: Record<PixelMetric, number> | null;
+}
+
+async function analyzeThumbnailWithVision(cache: RequestCache, image: ThumbnailImage, genAI: GoogleGenerativeAI): Promise<VisionFeatures> {
     try {
         const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
 
-        const imageResponse = await axios.get(thumbnailUrl, { responseType: 'arraybuffer' });
-        const imageBase64 = Buffer.from(imageResponse.data, 'binary').toString('base64');
-
         const prompt = `Analyze this YouTube thumbnail. Return ONLY valid JSON:
 {
     "hasFace": true/false,
     "hasText": true/false,
-    "dominantColors": ["color1", "color2"],
     "style": "minimalist/busy/professional/casual/dramatic/informative",
     "emotionalTone": "excited/calm/urgent/curious/serious/playful",
     "visualDescription": "brief 10-word description of the thumbnail"
 }`;
 
-        const result = await model.generateContent([
-            prompt,
-            { inlineData: { mimeType: 'image/jpeg', data: imageBase64 } }
-        ]);
+        // Uploads are keyed by content, so re-checking the same draft is served from cache
+        const imageKey = 'url' in image ? image.url : `sha256:${crypto.createHash('sha256').update(image.data).digest('hex')}`;
+
+        const responseText = await cache.fetch('gemini.vision', { model: 'gemini-2.0-flash', prompt, image: imageKey }, async () => {
+            let imageBase64: string;
+            let mimeType = 'image/jpeg';
+            if ('url' in image) {
+                const imageResponse = await axios.get(image.url, { responseType: 'arraybuffer' });
+                imageBase64 = Buffer.from(imageResponse.data, 'binary').toString('base64');
+            } else {
+                imageBase64 = image.data.toString('base64');
+                mimeType = image.mimeType;
+            }
 
-        const responseText = result.response.text();
+            const result = await model.generateContent([
+                prompt,
+                { inlineData: { mimeType, data: imageBase64 } }
+            ]);
+            return result.response.text();
+        });
         const jsonMatch = responseText.match(/\{[\s\S]*\}/);
 
         if (jsonMatch) {
@@ -63,13 +101,240 @@ async function analyzeThumbnailWithVision(thumbnailUrl: string, genAI: GoogleGen
     return {
         hasFace: false,
         hasText: false,
-        dominantColors: [],
         style: 'unknown',
         emotionalTone: 'unknown',
         visualDescription: 'Analysis failed'
     };
 }
 
+async function analyzeThumbnail(cache: RequestCache, image: ThumbnailImage, genAI: GoogleGenerativeAI): Promise<ThumbnailFeatures> {
+    const vision = await analyzeThumbnailWithVision(cache, image, genAI);
+
+    let pixels: ImageFeatures | null = null;
+    if ('url' in image) {
+        pixels = await analyzeImageUrl(cache, image.url);
+    } else {
+        try {
+            pixels = await analyzeImage(image.data);
+        } catch (error) {
+            console.error('Image analysis failed:', error);
+        }
+    }
+
+    return {
+        ...vision,
+        dominantColors: pixels?.dominantColors ?? [],
+        contrast: pixels?.contrastLevel ?? 'unknown',
+        pixels
+    };
+}
+
+function distribution(values: string[]): { value: string; share: number }[] {
+    const counts: Record<string, number> = {};
+    values.forEach(v => { counts[v] = (counts[v] || 0) + 1; });
+    return Object.entries(counts)
+        .sort((a, b) => b[1] - a[1])
+        .map(([value, count]) => ({ value, share: Math.round((count / values.length) * 100) / 100 }));
+}
+
+// Top performers in the niche and the distribution of their thumbnail features
+async function profileNiche(youtube: YouTubeClient, cache: RequestCache, genAI: GoogleGenerativeAI, niche: string): Promise<NicheProfile> {
+    const searchResponse = await youtube.get('search', {
+        part: 'snippet',
+        q: niche,
+        type: 'video',
+        maxResults: 20,
+        order: 'viewCount'
+    });
+
+    const videoIds = searchResponse.data.items
+        .map((item: { id: { videoId: string } }) => item.id.videoId)
+        .join(',');
+
+    const statsResponse = await youtube.get('videos', {
+        part: 'snippet,statistics',
+        id: videoIds
+    });
+
+    // Top 12 competitor thumbnails (increased from 8 for better statistics)
+    const competitors: ThumbnailAnalysis[] = [];
+    const topVideos = normalizeVideos(statsResponse.data.items).slice(0, 12);
+
+    for (const video of topVideos) {
+        const features = await analyzeThumbnail(cache, { url: video.thumbnail }, genAI);
+
+        competitors.push({
+            videoId: video.id,
+            title: video.title,
+            views: video.views,
+            thumbnailUrl: video.thumbnail,
+            features
+        });
+
+        // Small delay to avoid rate limits
+        await new Promise(resolve => setTimeout(resolve, 300));
+    }
+
+    const styleDistribution = distribution(competitors.map(c => c.features.style));
+    const toneDistribution = distribution(competitors.map(c => c.features.emotionalTone));
+    const measured = competitors.map(c => c.features.pixels).filter((p): p is ImageFeatures => p !== null);
+
+    return {
+        competitors,
+        faceRate: competitors.filter(c => c.features.hasFace).length / competitors.length,
+        textRate: competitors.filter(c => c.features.hasText).length / competitors.length,
+        dominantStyle: styleDistribution[0]?.value || 'unknown',
+        dominantTone: toneDistribution[0]?.value || 'unknown',
+        styleDistribution,
+        toneDistribution,
+        pixelMedians: measured.length > 0
+            ? Object.fromEntries(PIXEL_METRICS.map(m => [m, Math.round(median(measured.map(p => p[m])) * 1000) / 1000])) as Record<PixelMetric, number>
+            : null
+    };
+}
+
+// Closest competitor thumbnails by perceptual hash and color histogram; null when the input couldn't be decoded
+function visualSimilarity(input: ThumbnailFeatures, profile: NicheProfile) {
+    if (!input.pixels) return null;
+
+    const candidates = profile.competitors
+        .filter(c => c.features.pixels !== null)
+        .map(competitor => ({ competitor, features: competitor.features.pixels! }));
+    const ranked = nearestVisualNeighbors(input.pixels, candidates, candidates.length);
+    const nearCopies = ranked.filter(r => r.distance.match === 'near-copy').length;
+    const similar = ranked.filter(r => r.distance.match === 'similar').length;
+
+    return {
+        assessment: nearCopies > 0 ? 'Near-copy' : similar > 0 ? 'Blends in' : 'Visually distinct',
+        nearCopies,
+        similar,
+        compared: ranked.length,
+        neighbors: ranked.slice(0, 5).map(({ competitor, distance }) => ({
+            videoId: competitor.videoId,
+            title: competitor.title,
+            views: competitor.views,
+            thumbnailUrl: competitor.thumbnailUrl,
+            url: `https://www.youtube.com/watch?v=${competitor.videoId}`,
+            distance
+        }))
+    };
+}
+
+// Compare one thumbnail to the niche's patterns
+function scoreNovelty(input: ThumbnailFeatures, profile: NicheProfile) {
+    const { faceRate, textRate, dominantStyle, dominantTone } = profile;
+
+    const factors = {
+        faceNovelty: input.hasFace !== (faceRate >= 0.5) ? 1 : 0,
+        textNovelty: input.hasText !== (textRate >= 0.5) ? 1 : 0,
+        styleNovelty: input.style !== dominantStyle ? 1 : 0,
+        toneNovelty: input.emotionalTone !== dominantTone ? 1 : 0
+    };
+
+    const rawNovelty = (factors.faceNovelty + factors.textNovelty +
+        factors.styleNovelty + factors.toneNovelty) / 4;
+
+    // Optimal novelty is around 40-60% (different but not alien)
+    const score = Math.round(rawNovelty * 100);
+
+    let assessment: string;
+    let recommendation: string;
+
+    if (score >= 75) {
+        assessment = 'Very Different';
+        recommendation = 'May stand out too much. Consider adding some familiar elements.';
+    } else if (score >= 50) {
+        assessment = 'Optimally Novel';
+        recommendation = 'Good balance of differentiation and genre recognition.';
+    } else if (score >= 25) {
+        assessment = 'Somewhat Familiar';
+        recommendation = 'Consider adding unique elements to stand out more.';
+    } else {
+        assessment = 'Very Similar';
+        recommendation = 'May blend in with competitors. Add distinctive visual elements.';
+    }
+
+    const suggestions: string[] = [];
+
+    if (faceRate >= 0.7 && !input.hasFace) {
+        suggestions.push('Consider adding a face - 70%+ of top performers use faces');
+    } else if (faceRate <= 0.3 && input.hasFace) {
+        suggestions.push('Face-free thumbnails dominate this niche - consider removing');
+    }
+
+    if (textRate >= 0.7 && !input.hasText) {
+        suggestions.push('Add text overlay - common in top performers');
+    } else if (textRate <= 0.3 && input.hasText) {
+        suggestions.push('This niche favors visual-only thumbnails');
+    }
+
+    if (input.style !== dominantStyle) {
+        suggestions.push(`Your ${input.style} style differs from the dominant ${dominantStyle} style`);
+    }
+
+    const visual = visualSimilarity(input, profile);
+    const closest = visual?.neighbors[0];
+    if (closest?.distance.match === 'near-copy') {
+        suggestions.push(`Nearly identical to "${closest.title}" - change the layout or colors`);
+    } else if (closest?.distance.match === 'similar') {
+        suggestions.push(`Looks a lot like "${closest.title}" - it may blend in`);
+    }
+
+    return {
+        novelty: { score, assessment, recommendation, factors },
+        visualSimilarity: visual,
+        suggestions
+    };
+}
+
+function nichePatterns(profile: NicheProfile) {
+    return {
+        faceUsage: `${Math.round(profile.faceRate * 100)}%`,
+        textUsage: `${Math.round(profile.textRate * 100)}%`,
+        faceRate: Math.round(profile.faceRate * 100) / 100,
+        textRate: Math.round(profile.textRate * 100) / 100,
+        dominantStyle: profile.dominantStyle,
+        dominantTone: profile.dominantTone,
+        styleDistribution: profile.styleDistribution,
+        toneDistribution: profile.toneDistribution,
+        pixelMedians: profile.pixelMedians,
+        competitorsAnalyzed: profile.competitors.length
+    };
+}
+
+function topCompetitors(profile: NicheProfile) {
+    return profile.competitors.slice(0, 4).map(c => ({
+        title: c.title,
+        views: c.views,
+        thumbnailUrl: c.thumbnailUrl,
+        style: c.features.style,
+        description: c.features.visualDescription
+    }));
+}
+
+const methodology = {
+    approach: 'Visual analysis using AI to compare thumbnail features against top performers',
+    features: 'Face, text, style and tone from Gemini; colors, contrast, saturation and clutter measured from the pixels (reproducible)',
+    visualSimilarity: 'Nearest competitor thumbnails by pHash/dHash Hamming distance and color-histogram intersection; both hashes within 10 of 64 bits is a near-copy, a combined distance of 0.35 or less is similar',
+    limitations: [
+        'Novelty is not the same as effectiveness',
+        'Analysis based on visual features, not actual CTR',
+        'Optimal novelty varies by niche',
+        'AI interpretation may vary'
+    ]
+};
+
+function errorResponse(error: unknown, youtube: YouTubeClient) {
+    if (error instanceof QuotaExceededError) {
+        return NextResponse.json({ error: error.message, quota: youtube.quota() }, { status: 429 });
+    }
+    if (axios.isAxiosError(error) && error.response) {
+        return NextResponse.json({ error: `API Error: ${error.response.status}` }, { status: error.response.status });
+    }
+    console.error('Novelty analysis error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
 export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const thumbnailUrl = searchParams.get('thumbnail');
@@ -79,177 +344,113 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Missing "thumbnail" or "niche" parameter' }, { status: 400 });
     }
 
-    if (!YOUTUBE_API_KEY || !GEMINI_API_KEY) {
+    if (!isYouTubeConfigured() || !isGeminiConfigured()) {
         return NextResponse.json({ error: 'API keys not configured' }, { status: 500 });
     }
 
+    const cache = createRequestCache();
+    const youtube = createYouTubeClient('thumbnail-novelty', cache);
+
     try {
+        youtube.reserve(UNIT_COSTS.search + UNIT_COSTS.videos);
+
         const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
 
         // 1. Analyze the input thumbnail
-        const inputAnalysis = await analyzeThumbnailWithVision(thumbnailUrl, genAI);
-
-        // 2. Get top-performing videos in the niche
-        const searchResponse = await axios.get(`${BASE_URL}/search`, {
-            params: {
-                part: 'snippet',
-                q: niche,
-                type: 'video',
-                maxResults: 20,
-                order: 'viewCount',
-                key: YOUTUBE_API_KEY
-            }
-        });
+        const inputAnalysis = await analyzeThumbnail(cache, { url: thumbnailUrl }, genAI);
 
-        const videoIds = searchResponse.data.items
-            .map((item: { id: { videoId: string } }) => item.id.videoId)
-            .join(',');
+        // 2. Analyze top-performing thumbnails in the niche
+        const profile = await profileNiche(youtube, cache, genAI, niche);
 
-        // 3. Get video stats
-        const statsResponse = await axios.get(`${BASE_URL}/videos`, {
-            params: {
-                part: 'snippet,statistics',
-                id: videoIds,
-                key: YOUTUBE_API_KEY
-            }
-        });
+        // 3. Calculate novelty score and suggestions
+        const { novelty, visualSimilarity: visual, suggestions } = scoreNovelty(inputAnalysis, profile);
 
-        // 4. Analyze top 12 competitor thumbnails (increased from 8 for better statistics)
-        const competitors: ThumbnailAnalysis[] = [];
-        const topVideos = statsResponse.data.items.slice(0, 12);
+        return NextResponse.json({
+            input: {
+                thumbnailUrl,
+                analysis: inputAnalysis
+            },
 
-        for (const video of topVideos) {
-            const thumbUrl = video.snippet.thumbnails.high?.url || video.snippet.thumbnails.default?.url;
-            const features = await analyzeThumbnailWithVision(thumbUrl, genAI);
+            novelty,
 
-            competitors.push({
-                videoId: video.id,
-                title: video.snippet.title,
-                views: parseInt(video.statistics.viewCount || '0', 10),
-                thumbnailUrl: thumbUrl,
-                features
-            });
+            visualSimilarity: visual,
 
-            // Small delay to avoid rate limits
-            await new Promise(resolve => setTimeout(resolve, 300));
-        }
+            nichePatterns: nichePatterns(profile),
 
-        // 5. Calculate novelty score
-        // Compare input thumbnail to competitor patterns
-        const faceRate = competitors.filter(c => c.features.hasFace).length / competitors.length;
-        const textRate = competitors.filter(c => c.features.hasText).length / competitors.length;
+            suggestions,
 
-        // Style distribution
-        const styleCounts: Record<string, number> = {};
-        competitors.forEach(c => {
-            styleCounts[c.features.style] = (styleCounts[c.features.style] || 0) + 1;
-        });
-        const dominantStyle = Object.entries(styleCounts).sort((a, b) => b[1] - a[1])[0]?.[0] || 'unknown';
+            topCompetitors: topCompetitors(profile),
 
-        // Emotional tone distribution
-        const toneCounts: Record<string, number> = {};
-        competitors.forEach(c => {
-            toneCounts[c.features.emotionalTone] = (toneCounts[c.features.emotionalTone] || 0) + 1;
+            methodology,
+            quota: youtube.quota(),
+            cache: cache.report()
         });
-        const dominantTone = Object.entries(toneCounts).sort((a, b) => b[1] - a[1])[0]?.[0] || 'unknown';
-
-        // Calculate novelty dimensions
-        const noveltyFactors = {
-            faceNovelty: inputAnalysis.hasFace !== (faceRate >= 0.5) ? 1 : 0,
-            textNovelty: inputAnalysis.hasText !== (textRate >= 0.5) ? 1 : 0,
-            styleNovelty: inputAnalysis.style !== dominantStyle ? 1 : 0,
-            toneNovelty: inputAnalysis.emotionalTone !== dominantTone ? 1 : 0
-        };
-
-        const rawNovelty = (noveltyFactors.faceNovelty + noveltyFactors.textNovelty +
-            noveltyFactors.styleNovelty + noveltyFactors.toneNovelty) / 4;
-
-        // Optimal novelty is around 40-60% (different but not alien)
-        const noveltyScore = Math.round(rawNovelty * 100);
-
-        let noveltyAssessment: string;
-        let recommendation: string;
-
-        if (noveltyScore >= 75) {
-            noveltyAssessment = 'Very Different';
-            recommendation = 'May stand out too much. Consider adding some familiar elements.';
-        } else if (noveltyScore >= 50) {
-            noveltyAssessment = 'Optimally Novel';
-            recommendation = 'Good balance of differentiation and genre recognition.';
-        } else if (noveltyScore >= 25) {
-            noveltyAssessment = 'Somewhat Familiar';
-            recommendation = 'Consider adding unique elements to stand out more.';
-        } else {
-            noveltyAssessment = 'Very Similar';
-            recommendation = 'May blend in with competitors. Add distinctive visual elements.';
-        }
 
-        // 6. Generate specific suggestions
-        const suggestions: string[] = [];
+    } catch (error) {
+        return errorResponse(error, youtube);
+    }
+}
 
-        if (faceRate >= 0.7 && !inputAnalysis.hasFace) {
-            suggestions.push('Consider adding a face - 70%+ of top performers use faces');
-        } else if (faceRate <= 0.3 && inputAnalysis.hasFace) {
-            suggestions.push('Face-free thumbnails dominate this niche - consider removing');
-        }
+// Multipart form: "niche" plus one or more "thumbnail" image files (draft variants)
+export async function POST(request: NextRequest) {
+    let form: FormData;
+    try {
+        form = await request.formData();
+    } catch {
+        return NextResponse.json({ error: 'Request body must be multipart/form-data' }, { status: 400 });
+    }
 
-        if (textRate >= 0.7 && !inputAnalysis.hasText) {
-            suggestions.push('Add text overlay - common in top performers');
-        } else if (textRate <= 0.3 && inputAnalysis.hasText) {
-            suggestions.push('This niche favors visual-only thumbnails');
-        }
+    const niche = form.get('niche');
+    const files = form.getAll('thumbnail').filter((f): f is File => typeof f !== 'string');
 
-        if (inputAnalysis.style !== dominantStyle) {
-            suggestions.push(`Your ${inputAnalysis.style} style differs from the dominant ${dominantStyle} style`);
+    if (typeof niche !== 'string' || !niche.trim() || files.length === 0) {
+        return NextResponse.json({ error: 'Missing "niche" or "thumbnail" file' }, { status: 400 });
+    }
+    if (files.length > MAX_VARIANTS) {
+        return NextResponse.json({ error: `At most ${MAX_VARIANTS} thumbnails per request` }, { status: 400 });
+    }
+    for (const file of files) {
+        if (!IMAGE_TYPES.includes(file.type)) {
+            return NextResponse.json({ error: `"${file.name}" is not a JPEG, PNG or WebP image` }, { status: 400 });
+        }
+        if (file.size > MAX_IMAGE_BYTES) {
+            return NextResponse.json({ error: `"${file.name}" is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB` }, { status: 400 });
         }
+    }
 
-        return NextResponse.json({
-            input: {
-                thumbnailUrl,
-                analysis: inputAnalysis
-            },
+    if (!isYouTubeConfigured() || !isGeminiConfigured()) {
+        return NextResponse.json({ error: 'API keys not configured' }, { status: 500 });
+    }
 
-            novelty: {
-                score: noveltyScore,
-                assessment: noveltyAssessment,
-                recommendation,
-                factors: noveltyFactors
-            },
+    const cache = createRequestCache();
+    const youtube = createYouTubeClient('thumbnail-novelty', cache);
 
-            nichePatterns: {
-                faceUsage: `${Math.round(faceRate * 100)}%`,
-                textUsage: `${Math.round(textRate * 100)}%`,
-                dominantStyle,
-                dominantTone,
-                competitorsAnalyzed: competitors.length
-            },
+    try {
+        youtube.reserve(UNIT_COSTS.search + UNIT_COSTS.videos);
 
-            suggestions,
+        const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
 
-            topCompetitors: competitors.slice(0, 4).map(c => ({
-                title: c.title,
-                views: c.views,
-                thumbnailUrl: c.thumbnailUrl,
-                style: c.features.style,
-                description: c.features.visualDescription
-            })),
-
-            methodology: {
-                approach: 'Visual analysis using AI to compare thumbnail features against top performers',
-                limitations: [
-                    'Novelty is not the same as effectiveness',
-                    'Analysis based on visual features, not actual CTR',
-                    'Optimal novelty varies by niche',
-                    'AI interpretation may vary'
-                ]
-            }
+        // 1. Analyze top-performing thumbnails in the niche once for all variants
+        const profile = await profileNiche(youtube, cache, genAI, niche.trim());
+
+        // 2. Analyze and score each uploaded variant
+        const variants = [];
+        for (const file of files) {
+            const analysis = await analyzeThumbnail(cache, { data: Buffer.from(await file.arrayBuffer()), mimeType: file.type }, genAI);
+            variants.push({ name: file.name, analysis, ...scoreNovelty(analysis, profile) });
+        }
+
+        return NextResponse.json({
+            niche: niche.trim(),
+            variants,
+            nichePatterns: nichePatterns(profile),
+            topCompetitors: topCompetitors(profile),
+            methodology,
+            quota: youtube.quota(),
+            cache: cache.report()
         });
 
     } catch (error) {
-        if (axios.isAxiosError(error) && error.response) {
-            return NextResponse.json({ error: `API Error: ${error.response.status}` }, { status: error.response.status });
-        }
-        console.error('Novelty analysis error:', error);
-        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+        return errorResponse(error, youtube);
     }
 }
@@ -1,25 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.YOUTUBE_API_KEY;
-const BASE_URL = 'https://www.googleapis.com/youtube/v3';
+import { createRequestCache, RequestCache } from '@/lib/cache';
+import { createYouTubeClient, isYouTubeConfigured, QuotaExceededError, UNIT_COSTS } from '@/lib/youtube';
+import { normalizeVideos } from '@/lib/video';
+import { analyzeImageUrl, ImageFeatures } from '@/lib/images';
+import { GEMINI_API_KEY, isGeminiConfigured } from '@/lib/gemini';
+
+// Semantic fields come from Gemini; colors and contrast are measured from the pixels
+interface VisionAnalysis {
+    hasFace: boolean;
+    hasText: boolean;
+    textAmount: string;
+    emotionIfFace: string;
+    compositionNotes: string;
+}
 
 interface ThumbnailAnalysis {
     videoId: string;
     title: string;
     views: number;
     thumbnailUrl: string;
-    analysis: {
-        hasFace: boolean;
-        hasText: boolean;
-        textAmount: string;
+    analysis: VisionAnalysis & {
         dominantColors: string[];
         contrast: string;
-        emotionIfFace: string;
-        compositionNotes: string;
     };
+    pixels: ImageFeatures | null;
 }
 
 interface NicheConvention {
@@ -30,22 +36,12 @@ interface NicheConvention {
     observation: string;
 }
 
-async function analyzeThumbnail(thumbnailUrl: string, title: string): Promise<{
-    hasFace: boolean;
-    hasText: boolean;
-    textAmount: string;
-    dominantColors: string[];
-    contrast: string;
-    emotionIfFace: string;
-    compositionNotes: string;
-}> {
-    if (!GEMINI_API_KEY) {
+async function analyzeThumbnail(cache: RequestCache, thumbnailUrl: string, title: string): Promise<VisionAnalysis> {
+    if (!isGeminiConfigured()) {
         return {
             hasFace: false,
             hasText: false,
             textAmount: 'unknown',
-            dominantColors: [],
-            contrast: 'unknown',
             emotionIfFace: 'n/a',
             compositionNotes: 'AI analysis unavailable'
         };
@@ -55,33 +51,32 @@ async function analyzeThumbnail(thumbnailUrl: string, title: string): Promise<{
         const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
         const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
 
-        const imageResponse = await axios.get(thumbnailUrl, { responseType: 'arraybuffer' });
-        const imageBase64 = Buffer.from(imageResponse.data, 'binary').toString('base64');
-
         const prompt = `Analyze this YouTube thumbnail image. Return ONLY valid JSON:
 {
   "hasFace": true/false,
   "hasText": true/false,
   "textAmount": "none"/"minimal"/"moderate"/"heavy",
-  "dominantColors": ["color1", "color2"],
-  "contrast": "low"/"medium"/"high",
   "emotionIfFace": "excited"/"surprised"/"serious"/"happy"/"neutral"/"n/a",
   "compositionNotes": "brief observation about layout/design"
 }
 
 Video title for context: "${title}"`;
 
-        const result = await model.generateContent([
-            prompt,
-            {
-                inlineData: {
-                    mimeType: 'image/jpeg',
-                    data: imageBase64
+        const responseText = await cache.fetch('gemini.vision', { model: 'gemini-2.0-flash', prompt, image: thumbnailUrl }, async () => {
+            const imageResponse = await axios.get(thumbnailUrl, { responseType: 'arraybuffer' });
+            const imageBase64 = Buffer.from(imageResponse.data, 'binary').toString('base64');
+
+            const result = await model.generateContent([
+                prompt,
+                {
+                    inlineData: {
+                        mimeType: 'image/jpeg',
+                        data: imageBase64
+                    }
                 }
-            }
-        ]);
-
-        const responseText = result.response.text();
+            ]);
+            return result.response.text();
+        });
         const jsonMatch = responseText.match(/\{[\s\S]*\}/);
 
         if (jsonMatch) {
@@ -95,8 +90,6 @@ Video title for context: "${title}"`;
         hasFace: false,
         hasText: false,
         textAmount: 'unknown',
-        dominantColors: [],
-        contrast: 'unknown',
         emotionIfFace: 'n/a',
         compositionNotes: 'Analysis failed'
     };
@@ -110,21 +103,23 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Missing "niche" parameter' }, { status: 400 });
     }
 
-    if (!YOUTUBE_API_KEY) {
+    if (!isYouTubeConfigured()) {
         return NextResponse.json({ error: 'YOUTUBE_API_KEY not configured' }, { status: 500 });
     }
 
+    const cache = createRequestCache();
+    const youtube = createYouTubeClient('thumbnails', cache);
+
     try {
+        youtube.reserve(UNIT_COSTS.search + UNIT_COSTS.videos);
+
         // 1. Get top-performing videos in niche
-        const searchResponse = await axios.get(`${BASE_URL}/search`, {
-            params: {
-                part: 'snippet',
-                q: niche,
-                type: 'video',
-                maxResults: 40,
-                order: 'viewCount',
-                key: YOUTUBE_API_KEY
-            }
+        const searchResponse = await youtube.get('search', {
+            part: 'snippet',
+            q: niche,
+            type: 'video',
+            maxResults: 40,
+            order: 'viewCount'
         });
 
         const items = searchResponse.data.items || [];
@@ -135,40 +130,16 @@ export async function GET(request: NextRequest) {
         const videoIds = items.map((item: { id: { videoId: string } }) => item.id.videoId);
 
         // 2. Get video stats AND contentDetails for duration
-        const statsResponse = await axios.get(`${BASE_URL}/videos`, {
-            params: {
-                part: 'snippet,statistics,contentDetails',
-                id: videoIds.join(','),
-                key: YOUTUBE_API_KEY
-            }
+        const statsResponse = await youtube.get('videos', {
+            part: 'snippet,statistics,contentDetails',
+            id: videoIds.join(',')
         });
 
-        // 3. Parse duration and separate Shorts from Long-form
-        const parseDuration = (isoDuration: string): number => {
-            const match = isoDuration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-            if (!match) return 0;
-            const hours = parseInt(match[1] || '0', 10);
-            const minutes = parseInt(match[2] || '0', 10);
-            const seconds = parseInt(match[3] || '0', 10);
-            return hours * 3600 + minutes * 60 + seconds;
-        };
+        // 3. Separate Shorts from Long-form
+        const allVideos = normalizeVideos(statsResponse.data.items);
 
-        const allVideos = statsResponse.data.items.map((v: {
-            id: string;
-            snippet: { title: string; thumbnails: { high?: { url: string }; default?: { url: string } } };
-            statistics: { viewCount?: string };
-            contentDetails: { duration: string };
-        }) => ({
-            id: v.id,
-            title: v.snippet.title,
-            views: parseInt(v.statistics.viewCount || '0', 10),
-            thumbnailUrl: v.snippet.thumbnails.high?.url || v.snippet.thumbnails.default?.url,
-            duration: parseDuration(v.contentDetails.duration),
-            isShort: parseDuration(v.contentDetails.duration) <= 60
-        }));
-
-        const shorts = allVideos.filter((v: { isShort: boolean }) => v.isShort);
-        const longForm = allVideos.filter((v: { isShort: boolean }) => !v.isShort);
+        const shorts = allVideos.filter(v => v.isShort);
+        const longForm = allVideos.filter(v => !v.isShort);
 
         // 4. Analyze thumbnails for each format (max 8 each)
         const analyzeFormat = async (videos: typeof allVideos, formatName: string) => {
@@ -176,13 +147,19 @@ export async function GET(request: NextRequest) {
             const analyses: ThumbnailAnalysis[] = [];
 
             for (const video of toAnalyze) {
-                const analysis = await analyzeThumbnail(video.thumbnailUrl, video.title);
+                const analysis = await analyzeThumbnail(cache, video.thumbnail, video.title);
+                const pixels = await analyzeImageUrl(cache, video.thumbnail);
                 analyses.push({
                     videoId: video.id,
                     title: video.title,
                     views: video.views,
-                    thumbnailUrl: video.thumbnailUrl,
-                    analysis
+                    thumbnailUrl: video.thumbnail,
+                    analysis: {
+                        ...analysis,
+                        dominantColors: pixels?.dominantColors ?? [],
+                        contrast: pixels?.contrastLevel ?? 'unknown'
+                    },
+                    pixels
                 });
                 await new Promise(resolve => setTimeout(resolve, 200));
             }
@@ -232,15 +209,24 @@ export async function GET(request: NextRequest) {
                     : `Text is ${textCount >= total * 0.4 ? 'mixed' : 'uncommon'} for ${formatName}.`
             });
 
-            // Contrast
-            const highContrastCount = analyses.filter(a => a.analysis.contrast === 'high').length;
-            conventions.push({
-                convention: 'High contrast',
-                prevalence: Math.round((highContrastCount / total) * 100),
-                sampleSize: total,
-                confidence: getConfidence(highContrastCount),
-                observation: `${highContrastCount >= total * 0.5 ? 'Common' : 'Less common'} in ${formatName}.`
-            });
+            // Pixel-level conventions, over the thumbnails that could be downloaded and decoded
+            const measured = analyses.filter(a => a.pixels !== null);
+            const pixelConvention = (convention: string, matches: (pixels: ImageFeatures) => boolean) => {
+                const count = measured.filter(a => matches(a.pixels!)).length;
+                conventions.push({
+                    convention,
+                    prevalence: Math.round((count / measured.length) * 100),
+                    sampleSize: measured.length,
+                    confidence: getConfidence(count),
+                    observation: `${count >= measured.length * 0.5 ? 'Common' : 'Less common'} in ${formatName}.`
+                });
+            };
+
+            if (measured.length >= 3) {
+                pixelConvention('High contrast', p => p.contrastLevel === 'high');
+                pixelConvention('Busy composition', p => p.clutter === 'busy');
+                pixelConvention('Subject on a rule-of-thirds point', p => p.composition.layout === 'thirds');
+            }
 
             return {
                 format: formatName,
@@ -254,7 +240,8 @@ export async function GET(request: NextRequest) {
                         a.analysis.hasFace ? 'Face' : null,
                         a.analysis.hasText ? 'Text' : null,
                         a.analysis.contrast === 'high' ? 'High contrast' : null
-                    ].filter(Boolean)
+                    ].filter(Boolean),
+                    palette: a.pixels?.palette.map(c => c.hex) ?? []
                 }))
             };
         };
@@ -276,6 +263,7 @@ export async function GET(request: NextRequest) {
             // HONEST methodology
             methodology: {
                 approach: 'Analyzes thumbnails separately for Shorts (≤60s) and Long-form videos',
+                features: 'Faces, text and emotion from Gemini; colors, contrast, clutter and composition measured from the pixels (reproducible)',
                 limitations: [
                     'We observe CORRELATION, not CAUSATION',
                     'High views may be due to topic, title, algorithm - not thumbnail',
@@ -285,10 +273,15 @@ export async function GET(request: NextRequest) {
                 interpretation: 'Patterns OBSERVED in successful videos, not PROVEN to cause success'
             },
 
-            insight: `Found ${shorts.length} Shorts and ${longForm.length} Long-form videos. Analyzed conventions separately since thumbnail strategies differ by format.`
+            insight: `Found ${shorts.length} Shorts and ${longForm.length} Long-form videos. Analyzed conventions separately since thumbnail strategies differ by format.`,
+            quota: youtube.quota(),
+            cache: cache.report()
         });
 
     } catch (error) {
+        if (error instanceof QuotaExceededError) {
+            return NextResponse.json({ error: error.message, quota: youtube.quota() }, { status: 429 });
+        }
         if (axios.isAxiosError(error) && error.response) {
             return NextResponse.json({
                 error: `API Error: ${error.response.status}`
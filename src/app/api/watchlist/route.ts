@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addWatchEntry, listWatchlist, removeWatchEntry, WatchlistError } from '@/lib/watchlist';
+
+export async function GET() {
+    return NextResponse.json({ entries: listWatchlist() });
+}
+
+// Body: { kind: "niche" | "channel", target, region?, cadence?: "daily" | "weekly" | hours, tools? }
+export async function POST(request: NextRequest) {
+    let body;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+
+    try {
+        const entry = addWatchEntry(body);
+        return NextResponse.json({ entry }, { status: 201 });
+    } catch (error) {
+        if (error instanceof WatchlistError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error('Failed to add watchlist entry:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    const id = new URL(request.url).searchParams.get('id');
+
+    if (!id) {
+        return NextResponse.json({ error: 'Missing "id" parameter' }, { status: 400 });
+    }
+
+    if (!removeWatchEntry(id)) {
+        return NextResponse.json({ error: 'Watchlist entry not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ removed: id });
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuotaUsage } from '@/lib/youtube';
+import { trendsBackoffUntil } from '@/lib/trends';
+import { evaluateAlerts } from '@/lib/alerts';
+import {
+    deferJob,
+    dueJobs,
+    recordRun,
+    TOOL_COST_ESTIMATES,
+    TOOL_PARAMS,
+    TRENDS_TOOLS,
+    WatchTool
+} from '@/lib/watchlist';
+import { GET as analyze } from '@/app/api/analyze/route';
+import { GET as momentum } from '@/app/api/momentum/route';
+import { GET as gaps } from '@/app/api/gaps/route';
+import { GET as breakout } from '@/app/api/breakout/route';
+import { GET as channel } from '@/app/api/channel/route';
+
+const HANDLERS: Record<WatchTool, (request: NextRequest) => Promise<NextResponse>> = {
+    analyze,
+    momentum,
+    gaps,
+    breakout,
+    channel
+};
+
+// Share of the daily budget the scheduler leaves untouched for interactive use
+const QUOTA_RESERVE_SHARE = parseFloat(process.env.WATCHLIST_QUOTA_RESERVE || '0.2');
+
+// Runs every due watchlist job (up to "max" per call). Called by the scheduler on each tick.
+export async function POST(request: NextRequest) {
+    const max = Math.min(parseInt(new URL(request.url).searchParams.get('max') || '5', 10), 20);
+
+    const ran: { id: string; target: string; tool: WatchTool; status: string; quotaUnits: number }[] = [];
+    const deferred: { id: string; target: string; tool: WatchTool; reason: string }[] = [];
+    let alerts = 0;
+
+    for (const { entry, job } of dueJobs()) {
+        if (ran.length >= max) break;
+
+        // 1. Trends is backing off: wait it out rather than store a degraded result
+        const backoffUntil = trendsBackoffUntil();
+        if (backoffUntil && TRENDS_TOOLS.includes(job.tool)) {
+            const reason = `Google Trends backoff until ${new Date(backoffUntil).toISOString()}`;
+            deferJob(entry.id, job.tool, reason, backoffUntil);
+            deferred.push({ id: entry.id, target: entry.target, tool: job.tool, reason });
+            continue;
+        }
+
+        // 2. Keep a share of the daily budget free; cheaper jobs later in the list may still fit
+        const usage = getQuotaUsage();
+        const headroom = usage.remaining - usage.dailyBudget * QUOTA_RESERVE_SHARE;
+        if (TOOL_COST_ESTIMATES[job.tool] > headroom) {
+            const reason = `Needs ~${TOOL_COST_ESTIMATES[job.tool]} units, ${Math.max(0, Math.floor(headroom))} available to the scheduler today`;
+            deferJob(entry.id, job.tool, reason);
+            deferred.push({ id: entry.id, target: entry.target, tool: job.tool, reason });
+            continue;
+        }
+
+        // 3. Run the route in-process with the same query string a user would send
+        const url = new URL(`/api/${job.tool}`, request.url);
+        url.searchParams.set(TOOL_PARAMS[job.tool], entry.target);
+        url.searchParams.set('region', entry.region);
+
+        const ranAt = new Date().toISOString();
+        const response = await HANDLERS[job.tool](new NextRequest(url));
+        const body = await response.json().catch(() => ({}));
+
+        // The route itself refused on quota: leave the job due for a later tick
+        if (response.status === 429) {
+            deferJob(entry.id, job.tool, body.error || 'Quota exceeded');
+            deferred.push({ id: entry.id, target: entry.target, tool: job.tool, reason: body.error || 'Quota exceeded' });
+            continue;
+        }
+
+        // 4. Store the result; a run that tripped the Trends backoff is retried once it lifts
+        const retryAt = TRENDS_TOOLS.includes(job.tool) ? trendsBackoffUntil() : null;
+        const quotaUnits = body.quota?.requestUnits ?? 0;
+        recordRun(entry.id, job.tool, {
+            ranAt,
+            status: response.ok ? 'ok' : 'error',
+            httpStatus: response.status,
+            quotaUnits,
+            trendsLimited: retryAt !== null,
+            error: response.ok ? null : body.error || `HTTP ${response.status}`,
+            result: response.ok ? body : null
+        }, retryAt ?? undefined);
+
+        // 5. Check alert rules against the fresh result
+        if (response.ok) {
+            alerts += (await evaluateAlerts(entry, job.tool, body)).length;
+        }
+
+        ran.push({ id: entry.id, target: entry.target, tool: job.tool, status: response.ok ? 'ok' : 'error', quotaUnits });
+    }
+
+    const usage = getQuotaUsage();
+    return NextResponse.json({
+        ran,
+        deferred,
+        alerts,
+        remainingDue: dueJobs().length,
+        quota: { dailyUnitsUsed: usage.total, dailyBudget: usage.dailyBudget, remaining: usage.remaining }
+    });
+}
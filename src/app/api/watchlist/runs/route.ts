@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listRuns, listWatchlist } from '@/lib/watchlist';
+
+// Stored results for one watchlist entry, most recent first
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '10', 10), 100);
+
+    if (!id) {
+        return NextResponse.json({ error: 'Missing "id" parameter' }, { status: 400 });
+    }
+
+    const entry = listWatchlist().find(e => e.id === id);
+    if (!entry) {
+        return NextResponse.json({ error: 'Watchlist entry not found' }, { status: 404 });
+    }
+
+    const tool = searchParams.get('tool');
+    const jobs = tool ? entry.jobs.filter(j => j.tool === tool) : entry.jobs;
+
+    return NextResponse.json({
+        entry,
+        runs: Object.fromEntries(jobs.map(job => [job.tool, listRuns(entry.id, job.tool, limit)]))
+    });
+}
@@ -29,7 +29,7 @@ interface VideoData {
     id: string;
     title: string;
     thumbnail: string;
-    duration: number;
+    durationSec: number;
     views: number;
     likes: number;
     comments: number;
@@ -38,6 +38,8 @@ interface VideoData {
     isShort: boolean;
     velocity: number;
     daysSince: number;
+    expectedViews: number | null;
+    performanceRatio: number | null;
     engagement: {
         likeRatio: number;
         commentRatio: number;
@@ -262,7 +264,7 @@ export default function AuditPage() {
                                     className="w-full h-full object-cover"
                                 />
                                 <span className="absolute bottom-2 right-2 px-1.5 py-0.5 bg-black/80 rounded text-xs">
-                                    {formatDuration(result.video.duration)}
+                                    {formatDuration(result.video.durationSec)}
                                 </span>
                             </div>
                         </div>
@@ -296,6 +298,11 @@ export default function AuditPage() {
                                     <TrendingUp className="w-4 h-4" strokeWidth={1.5} />
                                     {formatNumber(result.video.velocity)}/day
                                 </span>
+                                {result.video.performanceRatio !== null && (
+                                    <span className="text-neutral-400" title={`${formatNumber(result.video.expectedViews || 0)} views expected for this channel at ${result.video.daysSince} days`}>
+                                        {result.video.performanceRatio}x what this channel usually gets
+                                    </span>
+                                )}
                                 {result.video.isShort && (
                                     <span className="px-2 py-0.5 bg-violet-500/20 text-violet-400 rounded text-xs">Short</span>
                                 )}
@@ -0,0 +1,370 @@
+'use client';
+
+import { Suspense, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import axios from 'axios';
+import {
+    Search,
+    ArrowLeft,
+    Rocket,
+    AlertCircle,
+    ExternalLink,
+    Eye,
+    EyeOff,
+    ChevronDown,
+    ChevronRight,
+    Users,
+    Info
+} from 'lucide-react';
+
+type Outlook = 'High Potential' | 'Moderate' | 'Steady' | 'Declining';
+
+interface Candidate {
+    channel: string;
+    channelId: string;
+    thumbnail: string;
+    subscribers: number;
+    videoCount: number;
+    outlook: Outlook;
+    confidence: 'low' | 'medium' | 'high';
+    reasoning: string;
+    metrics: {
+        avgVelocity: number;
+        avgPerformanceRatio: number;
+        performanceTrend: number;
+        consistencyScore: number;
+        breakoutPotential: number;
+    };
+    performanceSeries: { publishedAt: string; velocity: number; performanceRatio: number }[];
+}
+
+interface BreakoutResult {
+    niche: string;
+    channelsAnalyzed: number;
+    candidates: Candidate[];
+    methodology: { formula: string; limitations: string[] };
+}
+
+interface ChannelDetail {
+    performance: { avgViews: number; viewsToSubRatio: string; postingFrequency: string; outlierRate: string };
+    contentMix: { shorts: { count: number; avgViews: number }; longForm: { count: number; avgViews: number }; topFormat: string };
+    topPerformers: { id: string; title: string; views: number; thumbnail?: string }[];
+    topTopics: { word: string; count: number }[];
+    contentGaps: { topic: string; opportunity: string }[];
+}
+
+interface WatchEntry {
+    id: string;
+    kind: 'niche' | 'channel';
+    target: string;
+}
+
+const outlookStyles: Record<Outlook, string> = {
+    'High Potential': 'text-emerald-300 bg-emerald-500/10 border-emerald-500/30',
+    'Moderate': 'text-sky-300 bg-sky-500/10 border-sky-500/30',
+    'Steady': 'text-neutral-300 bg-white/5 border-white/10',
+    'Declining': 'text-rose-300 bg-rose-500/10 border-rose-500/30'
+};
+
+function formatNumber(num: number): string {
+    if (num >= 1000000) return (num / 1000000).toFixed(1) + 'M';
+    if (num >= 1000) return (num / 1000).toFixed(1) + 'K';
+    return num.toString();
+}
+
+// Views/day of each recent upload, oldest to newest
+function Sparkline({ series, rising }: { series: { performanceRatio: number }[]; rising: boolean }) {
+    const width = 120;
+    const height = 32;
+    if (series.length < 2) return <div style={{ width, height }} />;
+
+    // Log scale so one viral upload doesn't flatten the rest
+    const values = series.map(s => Math.log10(Math.max(0.01, s.performanceRatio)));
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const points = values.map((v, i) => {
+        const x = (i / (values.length - 1)) * (width - 4) + 2;
+        const y = max === min ? height / 2 : height - 2 - ((v - min) / (max - min)) * (height - 4);
+        return `${x},${y}`;
+    });
+
+    return (
+        <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
+            <polyline points={points.join(' ')} fill="none" stroke={rising ? '#34d399' : '#a3a3a3'} strokeWidth={1.5} />
+        </svg>
+    );
+}
+
+function BreakoutScout() {
+    const searchParams = useSearchParams();
+    const [niche, setNiche] = useState(searchParams.get('niche') || '');
+    const [loading, setLoading] = useState(false);
+    const [result, setResult] = useState<BreakoutResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const [details, setDetails] = useState<Record<string, ChannelDetail | 'loading' | 'error'>>({});
+    const [watched, setWatched] = useState<WatchEntry[]>([]);
+
+    const loadWatchlist = useCallback(async () => {
+        try {
+            const response = await axios.get('/api/watchlist');
+            setWatched((response.data.entries as WatchEntry[]).filter(e => e.kind === 'channel'));
+        } catch {
+            // The scout still works without the watchlist
+        }
+    }, []);
+
+    const runScout = useCallback(async (n: string) => {
+        if (!n.trim()) return;
+
+        setLoading(true);
+        setResult(null);
+        setError(null);
+        setExpanded(null);
+
+        try {
+            const response = await axios.get('/api/breakout', { params: { niche: n } });
+            setResult(response.data);
+        } catch (err) {
+            if (axios.isAxiosError(err) && err.response?.data?.error) {
+                setError(err.response.data.error);
+            } else {
+                setError('Something went wrong');
+            }
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    const handleScout = (searchNiche?: string) => runScout(searchNiche || niche);
+
+    useEffect(() => {
+        loadWatchlist();
+        const initial = searchParams.get('niche');
+        if (initial) runScout(initial);
+    }, [searchParams, loadWatchlist, runScout]);
+
+    // Drill-down: the full channel analysis, fetched once per channel
+    const toggleDetail = async (channelId: string) => {
+        if (expanded === channelId) {
+            setExpanded(null);
+            return;
+        }
+        setExpanded(channelId);
+        if (details[channelId] && details[channelId] !== 'error') return;
+
+        setDetails(d => ({ ...d, [channelId]: 'loading' }));
+        try {
+            const response = await axios.get('/api/channel', { params: { channel: channelId } });
+            setDetails(d => ({ ...d, [channelId]: response.data }));
+        } catch {
+            setDetails(d => ({ ...d, [channelId]: 'error' }));
+        }
+    };
+
+    const watchEntry = (channelId: string) => watched.find(e => e.target === channelId);
+
+    const toggleWatch = async (candidate: Candidate) => {
+        const entry = watchEntry(candidate.channelId);
+        try {
+            if (entry) {
+                await axios.delete('/api/watchlist', { params: { id: entry.id } });
+            } else {
+                await axios.post('/api/watchlist', { kind: 'channel', target: candidate.channelId, cadence: 'weekly' });
+            }
+            await loadWatchlist();
+        } catch (err) {
+            setError(axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : 'Could not update the watchlist');
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-neutral-950 text-white">
+            {/* Navigation */}
+            <nav className="border-b border-neutral-800">
+                <div className="max-w-5xl mx-auto px-6 py-4 flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                        <div className="w-8 h-8 rounded-lg bg-neutral-800 flex items-center justify-center">
+                            <Rocket className="w-4 h-4 text-neutral-400" strokeWidth={1.5} />
+                        </div>
+                        <span className="font-medium">Breakout Scout</span>
+                        {watched.length > 0 && <span className="text-xs text-neutral-500">{watched.length} channels watched</span>}
+                    </div>
+                    <Link href="/" className="flex items-center gap-2 text-sm text-neutral-500 hover:text-white transition-colors">
+                        <ArrowLeft className="w-4 h-4" strokeWidth={1.5} />
+                        Back
+                    </Link>
+                </div>
+            </nav>
+
+            {/* Hero */}
+            <div className="max-w-3xl mx-auto px-6 pt-16 pb-12 text-center">
+                <h1 className="text-3xl font-light text-white tracking-tight mb-4">
+                    Spot channels before they break out
+                </h1>
+                <p className="text-neutral-500 mb-10">
+                    Channels under 1M subs posting in a niche, scored on recent videos against what the niche&apos;s videos get at the same age.
+                </p>
+
+                <div className="flex items-center gap-3 p-4 bg-neutral-900 rounded-xl border border-neutral-800 focus-within:border-neutral-700 transition-colors max-w-xl mx-auto">
+                    <Search className="w-5 h-5 text-neutral-500" strokeWidth={1.5} />
+                    <input
+                        type="text"
+                        value={niche}
+                        onChange={(e) => setNiche(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleScout()}
+                        placeholder="e.g., home espresso"
+                        className="flex-1 bg-transparent text-white placeholder-neutral-600 focus:outline-none"
+                    />
+                    <button
+                        onClick={() => handleScout()}
+                        disabled={loading || !niche.trim()}
+                        className="px-5 py-2 bg-white text-neutral-900 text-sm font-medium rounded-lg hover:bg-neutral-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {loading ? 'Scouting...' : 'Scout'}
+                    </button>
+                </div>
+            </div>
+
+            {loading && (
+                <div className="max-w-3xl mx-auto px-6 py-12 flex flex-col items-center">
+                    <div className="w-8 h-8 border-2 border-neutral-800 border-t-white rounded-full animate-spin mb-4" />
+                    <p className="text-neutral-500 text-sm">Scoring up to 15 channels...</p>
+                </div>
+            )}
+
+            {error && (
+                <div className="max-w-3xl mx-auto px-6 py-4">
+                    <div className="flex items-start gap-3 p-4 bg-rose-500/10 rounded-xl border border-rose-500/20">
+                        <AlertCircle className="w-5 h-5 text-rose-400 shrink-0 mt-0.5" strokeWidth={1.5} />
+                        <p className="text-rose-200">{error}</p>
+                    </div>
+                </div>
+            )}
+
+            {result && !loading && (
+                <div className="max-w-5xl mx-auto px-6 pb-16 space-y-6">
+                    <p className="text-sm text-neutral-500">{result.channelsAnalyzed} channels scored for &ldquo;{result.niche}&rdquo;</p>
+
+                    <div className="bg-neutral-900 rounded-xl border border-neutral-800 divide-y divide-neutral-800">
+                        {result.candidates.length === 0 && (
+                            <p className="p-6 text-sm text-neutral-500">No channels under 1M subscribers with enough recent uploads.</p>
+                        )}
+                        {result.candidates.map(c => {
+                            const detail = details[c.channelId];
+                            const isWatched = Boolean(watchEntry(c.channelId));
+                            return (
+                                <div key={c.channelId}>
+                                    <div className="p-4 flex items-center gap-4">
+                                        <button onClick={() => toggleDetail(c.channelId)} className="text-neutral-500 hover:text-white">
+                                            {expanded === c.channelId ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                                        </button>
+                                        <img src={c.thumbnail} alt={c.channel} className="w-10 h-10 rounded-full object-cover bg-neutral-800" />
+                                        <div className="flex-1 min-w-0">
+                                            <div className="flex items-center gap-2">
+                                                <button onClick={() => toggleDetail(c.channelId)} className="text-white font-medium truncate hover:text-neutral-300 text-left">
+                                                    {c.channel}
+                                                </button>
+                                                <span className={`text-xs px-2 py-0.5 rounded-full border shrink-0 ${outlookStyles[c.outlook]}`}>{c.outlook}</span>
+                                            </div>
+                                            <p className="text-xs text-neutral-500 mt-0.5">
+                                                {formatNumber(c.subscribers)} subs · {formatNumber(c.metrics.avgVelocity)} views/day · {c.metrics.avgPerformanceRatio}x niche curve · {c.metrics.performanceTrend > 0 ? '+' : ''}{c.metrics.performanceTrend}% trend · consistency {c.metrics.consistencyScore}
+                                            </p>
+                                        </div>
+                                        <Sparkline series={c.performanceSeries} rising={c.metrics.performanceTrend > 0} />
+                                        <div className="w-14 text-right">
+                                            <p className="text-xl font-light text-white">{c.metrics.breakoutPotential}</p>
+                                            <p className="text-[10px] text-neutral-600 uppercase">score</p>
+                                        </div>
+                                        <button
+                                            onClick={() => toggleWatch(c)}
+                                            title={isWatched ? 'Stop watching' : 'Add to watchlist (weekly)'}
+                                            className={`p-2 rounded-lg transition-colors ${isWatched ? 'text-emerald-400 hover:text-rose-400' : 'text-neutral-500 hover:text-white'}`}
+                                        >
+                                            {isWatched ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                                        </button>
+                                    </div>
+
+                                    {/* Drill-down */}
+                                    {expanded === c.channelId && (
+                                        <div className="px-4 pb-5 pl-14">
+                                            <p className="text-sm text-neutral-400 mb-4">{c.reasoning} <span className="text-neutral-600">({c.confidence} confidence)</span></p>
+                                            {detail === 'loading' && <p className="text-sm text-neutral-500">Loading channel analysis...</p>}
+                                            {detail === 'error' && <p className="text-sm text-rose-300">Could not load the channel analysis.</p>}
+                                            {detail && typeof detail === 'object' && (
+                                                <div className="space-y-4">
+                                                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                                                        {[
+                                                            ['Avg views', formatNumber(detail.performance.avgViews)],
+                                                            ['Views/subs', detail.performance.viewsToSubRatio],
+                                                            ['Posting', detail.performance.postingFrequency],
+                                                            ['Top format', detail.contentMix.topFormat]
+                                                        ].map(([label, value]) => (
+                                                            <div key={label} className="p-3 bg-neutral-950 rounded-lg border border-neutral-800">
+                                                                <p className="text-xs text-neutral-500">{label}</p>
+                                                                <p className="text-sm text-white mt-0.5">{value}</p>
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                    {detail.topPerformers.length > 0 && (
+                                                        <div>
+                                                            <p className="text-xs text-neutral-500 mb-2">Top performers</p>
+                                                            <ul className="space-y-1">
+                                                                {detail.topPerformers.map(v => (
+                                                                    <li key={v.id}>
+                                                                        <a href={`https://youtube.com/watch?v=${v.id}`} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-sm text-neutral-300 hover:text-white">
+                                                                            <span className="truncate">{v.title}</span>
+                                                                            <span className="text-neutral-600 shrink-0">{formatNumber(v.views)}</span>
+                                                                            <ExternalLink className="w-3 h-3 shrink-0" />
+                                                                        </a>
+                                                                    </li>
+                                                                ))}
+                                                            </ul>
+                                                        </div>
+                                                    )}
+                                                    {detail.topTopics.length > 0 && (
+                                                        <div className="flex flex-wrap gap-2">
+                                                            {detail.topTopics.slice(0, 8).map(t => (
+                                                                <span key={t.word} className="px-2.5 py-1 text-xs rounded-full bg-white/5 text-neutral-400">{t.word}</span>
+                                                            ))}
+                                                        </div>
+                                                    )}
+                                                    <a
+                                                        href={`https://youtube.com/channel/${c.channelId}`}
+                                                        target="_blank"
+                                                        rel="noopener noreferrer"
+                                                        className="inline-flex items-center gap-1.5 text-sm text-neutral-500 hover:text-white"
+                                                    >
+                                                        <Users className="w-4 h-4" strokeWidth={1.5} />
+                                                        Open on YouTube
+                                                    </a>
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    <div className="flex items-start gap-3 p-4 bg-neutral-900/50 rounded-xl text-sm text-neutral-500">
+                        <Info className="w-4 h-4 shrink-0 mt-0.5" strokeWidth={1.5} />
+                        <div>
+                            <p>{result.methodology.formula}. Sparklines show each of the last 10 uploads against the niche view-decay curve, oldest to newest (log scale).</p>
+                            <p className="mt-1">Watched channels are re-analyzed weekly by the scheduler; see <code>/api/watchlist</code>.</p>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default function BreakoutPage() {
+    return (
+        <Suspense>
+            <BreakoutScout />
+        </Suspense>
+    );
+}
@@ -0,0 +1,446 @@
+'use client';
+
+import { Suspense, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import axios from 'axios';
+import {
+    Search,
+    ArrowLeft,
+    Network,
+    AlertCircle,
+    ExternalLink,
+    Info,
+    X
+} from 'lucide-react';
+
+type Level = 'low' | 'medium' | 'high';
+
+interface TopicCluster {
+    topic: string;
+    videos: number;
+    share: number;
+    channels: number;
+    avgViews: number;
+    medianVelocity: number;
+    topVideo: { title: string; views: number; id: string };
+    saturation: Level;
+}
+
+interface ContentGap {
+    topic: string;
+    opportunity: string;
+    reasoning: string;
+    urgency: Level;
+    relatedCluster: string;
+    searchInterest?: number;
+}
+
+interface ClusterResult {
+    niche: string;
+    overview: {
+        videosAnalyzed: number;
+        clustersFound: number;
+        gapsIdentified: number;
+        avgViews: number;
+        freshContentRate: string;
+        nicheInsight: string;
+    };
+    clusters: TopicCluster[];
+    gaps: ContentGap[];
+    methodology: { approach: string; limitations: string[] };
+}
+
+interface Signal {
+    score: number;
+    label: string;
+    interpretation: string;
+}
+
+interface GapEvaluation {
+    idea: string;
+    verdict: { assessment: 'Favorable' | 'Mixed' | 'Challenging'; message: string; positiveSignals: number };
+    market: { competition: Signal; interest: Signal & { dataAvailable: boolean }; learnable: Signal };
+    confidence: { level: string; score: number };
+    recommendedLength: { bucket: string; multiplier: number; sampleSize: number };
+    titleSuggestions?: { title: string }[];
+}
+
+interface Bubble {
+    x: number;
+    y: number;
+    r: number;
+}
+
+const WIDTH = 760;
+const HEIGHT = 560;
+const CENTER = { x: WIDTH / 2, y: HEIGHT / 2 };
+const RING = 150;
+const GAP_RADIUS = 18;
+
+const saturationColors: Record<Level, { fill: string; stroke: string }> = {
+    low: { fill: 'rgba(16, 185, 129, 0.25)', stroke: '#10b981' },
+    medium: { fill: 'rgba(245, 158, 11, 0.25)', stroke: '#f59e0b' },
+    high: { fill: 'rgba(244, 63, 94, 0.25)', stroke: '#f43f5e' }
+};
+
+const verdictStyles: Record<GapEvaluation['verdict']['assessment'], string> = {
+    Favorable: 'text-emerald-400',
+    Mixed: 'text-amber-400',
+    Challenging: 'text-rose-400'
+};
+
+function formatNumber(num: number): string {
+    if (num >= 1000000) return (num / 1000000).toFixed(1) + 'M';
+    if (num >= 1000) return (num / 1000).toFixed(1) + 'K';
+    return num.toString();
+}
+
+function truncate(text: string, max: number): string {
+    return text.length > max ? text.slice(0, max - 1) + '…' : text;
+}
+
+// Gemini names the related cluster loosely, so fall back to substring matches
+function findCluster(clusters: TopicCluster[], name: string): number {
+    const target = (name || '').toLowerCase().trim();
+    if (!target) return -1;
+    const exact = clusters.findIndex(c => c.topic.toLowerCase() === target);
+    if (exact !== -1) return exact;
+    return clusters.findIndex(c => {
+        const topic = c.topic.toLowerCase();
+        return topic.includes(target) || target.includes(topic);
+    });
+}
+
+// Clusters on a ring around the niche, each cluster's gaps fanned out beyond it
+function layout(clusters: TopicCluster[], gaps: ContentGap[]) {
+    const maxVideos = Math.max(1, ...clusters.map(c => c.videos));
+    const clusterBubbles: Bubble[] = clusters.map((c, i) => {
+        const angle = (i / clusters.length) * Math.PI * 2 - Math.PI / 2;
+        return {
+            x: CENTER.x + Math.cos(angle) * RING,
+            y: CENTER.y + Math.sin(angle) * RING,
+            r: 20 + Math.sqrt(c.videos / maxVideos) * 38
+        };
+    });
+
+    const perCluster: Record<number, number> = {};
+    const attached = gaps.map(g => findCluster(clusters, g.relatedCluster));
+    const orphans = attached.filter(i => i === -1).length;
+    let orphanIndex = 0;
+
+    const gapBubbles: (Bubble & { parent: number })[] = gaps.map((_, g) => {
+        const parent = attached[g];
+        if (parent === -1) {
+            // No matching cluster: park it in the middle row
+            const spread = (orphanIndex++ - (orphans - 1) / 2) * (GAP_RADIUS * 2 + 12);
+            return { x: CENTER.x + spread, y: CENTER.y, r: GAP_RADIUS, parent };
+        }
+        const slot = perCluster[parent] = (perCluster[parent] ?? -1) + 1;
+        const siblings = attached.filter(p => p === parent).length;
+        const base = (parent / clusters.length) * Math.PI * 2 - Math.PI / 2;
+        const angle = base + (slot - (siblings - 1) / 2) * 0.3;
+        const distance = RING + clusterBubbles[parent].r + GAP_RADIUS + 28;
+        return {
+            x: CENTER.x + Math.cos(angle) * distance,
+            y: CENTER.y + Math.sin(angle) * distance,
+            r: GAP_RADIUS,
+            parent
+        };
+    });
+
+    return { clusterBubbles, gapBubbles };
+}
+
+function ClusterMap() {
+    const searchParams = useSearchParams();
+    const [niche, setNiche] = useState(searchParams.get('niche') || '');
+    const [loading, setLoading] = useState(false);
+    const [result, setResult] = useState<ClusterResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [hoveredCluster, setHoveredCluster] = useState<number | null>(null);
+    const [selectedGap, setSelectedGap] = useState<number | null>(null);
+    const [evaluating, setEvaluating] = useState(false);
+    const [evaluation, setEvaluation] = useState<GapEvaluation | null>(null);
+    const [evaluationError, setEvaluationError] = useState<string | null>(null);
+
+    const runMap = useCallback(async (n: string) => {
+        if (!n.trim()) return;
+
+        setLoading(true);
+        setResult(null);
+        setError(null);
+        setSelectedGap(null);
+        setEvaluation(null);
+
+        try {
+            const response = await axios.get('/api/clusters', { params: { niche: n } });
+            setResult(response.data);
+        } catch (err) {
+            if (axios.isAxiosError(err) && err.response?.data?.error) {
+                setError(err.response.data.error);
+            } else {
+                setError('Something went wrong');
+            }
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    const handleMap = (searchNiche?: string) => runMap(searchNiche || niche);
+
+    useEffect(() => {
+        const initial = searchParams.get('niche');
+        if (initial) runMap(initial);
+    }, [searchParams, runMap]);
+
+    // Clicking a gap bubble runs the full idea evaluation on that topic
+    const evaluateGap = async (index: number) => {
+        if (!result) return;
+        setSelectedGap(index);
+        setEvaluation(null);
+        setEvaluationError(null);
+        setEvaluating(true);
+
+        try {
+            const response = await axios.get('/api/evaluate', { params: { idea: result.gaps[index].topic } });
+            setEvaluation(response.data);
+        } catch (err) {
+            if (axios.isAxiosError(err) && err.response?.data?.error) {
+                setEvaluationError(err.response.data.error);
+            } else {
+                setEvaluationError('Evaluation failed');
+            }
+        } finally {
+            setEvaluating(false);
+        }
+    };
+
+    const map = result ? layout(result.clusters, result.gaps) : null;
+    const gap = result && selectedGap !== null ? result.gaps[selectedGap] : null;
+
+    return (
+        <div className="min-h-screen bg-neutral-950 text-white">
+            {/* Navigation */}
+            <nav className="border-b border-neutral-800">
+                <div className="max-w-5xl mx-auto px-6 py-4 flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                        <div className="w-8 h-8 rounded-lg bg-neutral-800 flex items-center justify-center">
+                            <Network className="w-4 h-4 text-neutral-400" strokeWidth={1.5} />
+                        </div>
+                        <span className="font-medium">Topic Clusters</span>
+                    </div>
+                    <Link href="/" className="flex items-center gap-2 text-sm text-neutral-500 hover:text-white transition-colors">
+                        <ArrowLeft className="w-4 h-4" strokeWidth={1.5} />
+                        Back
+                    </Link>
+                </div>
+            </nav>
+
+            {/* Hero */}
+            <div className="max-w-3xl mx-auto px-6 pt-16 pb-12 text-center">
+                <h1 className="text-3xl font-light text-white tracking-tight mb-4">
+                    Map the topics inside a niche
+                </h1>
+                <p className="text-neutral-500 mb-10">
+                    What&apos;s already covered, how crowded it is, and the gaps next to it.
+                </p>
+
+                <div className="flex items-center gap-3 p-4 bg-neutral-900 rounded-xl border border-neutral-800 focus-within:border-neutral-700 transition-colors max-w-xl mx-auto">
+                    <Search className="w-5 h-5 text-neutral-500" strokeWidth={1.5} />
+                    <input
+                        type="text"
+                        value={niche}
+                        onChange={(e) => setNiche(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleMap()}
+                        placeholder="e.g., sourdough baking"
+                        className="flex-1 bg-transparent text-white placeholder-neutral-600 focus:outline-none"
+                    />
+                    <button
+                        onClick={() => handleMap()}
+                        disabled={loading || !niche.trim()}
+                        className="px-5 py-2 bg-white text-neutral-900 text-sm font-medium rounded-lg hover:bg-neutral-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {loading ? 'Mapping...' : 'Map'}
+                    </button>
+                </div>
+            </div>
+
+            {loading && (
+                <div className="max-w-3xl mx-auto px-6 py-12 flex flex-col items-center">
+                    <div className="w-8 h-8 border-2 border-neutral-800 border-t-white rounded-full animate-spin mb-4" />
+                    <p className="text-neutral-500 text-sm">Clustering titles...</p>
+                </div>
+            )}
+
+            {error && (
+                <div className="max-w-3xl mx-auto px-6 py-4">
+                    <div className="flex items-start gap-3 p-4 bg-rose-500/10 rounded-xl border border-rose-500/20">
+                        <AlertCircle className="w-5 h-5 text-rose-400 shrink-0 mt-0.5" strokeWidth={1.5} />
+                        <p className="text-rose-200">{error}</p>
+                    </div>
+                </div>
+            )}
+
+            {result && map && !loading && (
+                <div className="max-w-5xl mx-auto px-6 pb-16 space-y-6">
+                    {/* Overview */}
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {[
+                            ['Videos', result.overview.videosAnalyzed.toString()],
+                            ['Clusters', result.overview.clustersFound.toString()],
+                            ['Gaps', result.overview.gapsIdentified.toString()],
+                            ['Fresh (30d)', result.overview.freshContentRate]
+                        ].map(([label, value]) => (
+                            <div key={label} className="p-4 bg-neutral-900 rounded-xl border border-neutral-800">
+                                <p className="text-xs text-neutral-500">{label}</p>
+                                <p className="text-2xl font-light text-white mt-1">{value}</p>
+                            </div>
+                        ))}
+                    </div>
+                    <p className="text-sm text-neutral-400">{result.overview.nicheInsight}</p>
+
+                    {/* Map */}
+                    <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-4">
+                        <div className="flex items-center justify-between mb-2 text-xs text-neutral-500">
+                            <span>Bubble size = videos in cluster · dashed = gap (click to evaluate)</span>
+                            <div className="flex items-center gap-3">
+                                {(['low', 'medium', 'high'] as Level[]).map(level => (
+                                    <span key={level} className="flex items-center gap-1.5">
+                                        <span className="w-2.5 h-2.5 rounded-full" style={{ background: saturationColors[level].stroke }} />
+                                        {level} saturation
+                                    </span>
+                                ))}
+                            </div>
+                        </div>
+                        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+                            {/* Spokes from the niche to its clusters, and from clusters to their gaps */}
+                            {map.clusterBubbles.map((b, i) => (
+                                <line key={`spoke-${i}`} x1={CENTER.x} y1={CENTER.y} x2={b.x} y2={b.y} stroke="#262626" />
+                            ))}
+                            {map.gapBubbles.map((g, i) => g.parent !== -1 && (
+                                <line key={`link-${i}`} x1={map.clusterBubbles[g.parent].x} y1={map.clusterBubbles[g.parent].y} x2={g.x} y2={g.y} stroke="#404040" strokeDasharray="3 3" />
+                            ))}
+
+                            {result.clusters.map((c, i) => {
+                                const b = map.clusterBubbles[i];
+                                const colors = saturationColors[c.saturation] || saturationColors.medium;
+                                return (
+                                    <g
+                                        key={`${i}-${c.topic}`}
+                                        onMouseEnter={() => setHoveredCluster(i)}
+                                        onMouseLeave={() => setHoveredCluster(null)}
+                                    >
+                                        <circle cx={b.x} cy={b.y} r={b.r} fill={colors.fill} stroke={colors.stroke} strokeWidth={hoveredCluster === i ? 2 : 1} />
+                                        <text x={b.x} y={b.y - 2} textAnchor="middle" fontSize={11} fill="#e5e5e5">{truncate(c.topic, Math.max(10, Math.floor(b.r / 3)))}</text>
+                                        <text x={b.x} y={b.y + 12} textAnchor="middle" fontSize={10} fill="#a3a3a3">{c.videos} videos</text>
+                                    </g>
+                                );
+                            })}
+
+                            {result.gaps.map((g, i) => {
+                                const b = map.gapBubbles[i];
+                                const selected = selectedGap === i;
+                                return (
+                                    <g key={`${i}-${g.topic}`} onClick={() => evaluateGap(i)} className="cursor-pointer">
+                                        <circle cx={b.x} cy={b.y} r={b.r} fill={selected ? 'rgba(255,255,255,0.08)' : 'transparent'} stroke={selected ? '#ffffff' : '#a3a3a3'} strokeDasharray="4 3" />
+                                        <text x={b.x} y={b.y + b.r + 13} textAnchor="middle" fontSize={10} fill={selected ? '#ffffff' : '#d4d4d4'}>{truncate(g.topic, 24)}</text>
+                                    </g>
+                                );
+                            })}
+                        </svg>
+
+                        {hoveredCluster !== null && (
+                            <div className="mt-2 text-sm text-neutral-400">
+                                <span className="text-white">{result.clusters[hoveredCluster].topic}</span>
+                                {' · '}{result.clusters[hoveredCluster].saturation} saturation
+                                {' · '}{result.clusters[hoveredCluster].share}% of videos from {result.clusters[hoveredCluster].channels} channels
+                                {' · '}{formatNumber(result.clusters[hoveredCluster].avgViews)} avg views, {formatNumber(result.clusters[hoveredCluster].medianVelocity)}/day median
+                                {result.clusters[hoveredCluster].topVideo.views > 0 && (
+                                    <> · top: &ldquo;{result.clusters[hoveredCluster].topVideo.title}&rdquo; ({formatNumber(result.clusters[hoveredCluster].topVideo.views)} views)</>
+                                )}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Selected gap */}
+                    {gap && (
+                        <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-6">
+                            <div className="flex items-start justify-between gap-4 mb-4">
+                                <div>
+                                    <p className="text-xs text-neutral-500 mb-1">Gap next to {gap.relatedCluster || 'no matching cluster'} · {gap.urgency} urgency{gap.searchInterest !== undefined && ` · search interest ${gap.searchInterest}/100`}</p>
+                                    <h3 className="text-lg text-white">{gap.topic}</h3>
+                                    <p className="text-sm text-neutral-400 mt-1">{gap.opportunity}</p>
+                                </div>
+                                <button onClick={() => { setSelectedGap(null); setEvaluation(null); }} className="text-neutral-500 hover:text-white">
+                                    <X className="w-4 h-4" />
+                                </button>
+                            </div>
+
+                            {evaluating && <p className="text-sm text-neutral-500">Evaluating &ldquo;{gap.topic}&rdquo;...</p>}
+                            {evaluationError && <p className="text-sm text-rose-300">{evaluationError}</p>}
+                            {evaluation && (
+                                <div className="space-y-4">
+                                    <p className={`text-xl font-light ${verdictStyles[evaluation.verdict.assessment]}`}>
+                                        {evaluation.verdict.assessment}
+                                        <span className="text-sm text-neutral-500 ml-2">{evaluation.verdict.message} · {evaluation.confidence.level} confidence</span>
+                                    </p>
+                                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                                        {([
+                                            ['Competition', evaluation.market.competition],
+                                            ['Interest', evaluation.market.interest],
+                                            ['Learnable', evaluation.market.learnable]
+                                        ] as [string, Signal][]).map(([label, signal]) => (
+                                            <div key={label} className="p-3 bg-neutral-950 rounded-lg border border-neutral-800">
+                                                <p className="text-xs text-neutral-500">{label}</p>
+                                                <p className="text-white mt-0.5">{signal.label} <span className="text-neutral-600 text-sm">{signal.score}</span></p>
+                                                <p className="text-xs text-neutral-500 mt-1">{signal.interpretation}</p>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    {evaluation.recommendedLength.sampleSize > 0 && (
+                                        <p className="text-sm text-neutral-400">
+                                            Best length: {evaluation.recommendedLength.bucket} ({evaluation.recommendedLength.multiplier}x avg, n={evaluation.recommendedLength.sampleSize})
+                                        </p>
+                                    )}
+                                    {evaluation.titleSuggestions && evaluation.titleSuggestions.length > 0 && (
+                                        <ul className="space-y-1 text-sm text-neutral-300">
+                                            {evaluation.titleSuggestions.slice(0, 3).map(t => <li key={t.title}>&ldquo;{t.title}&rdquo;</li>)}
+                                        </ul>
+                                    )}
+                                    <a
+                                        href={`https://youtube.com/results?search_query=${encodeURIComponent(gap.topic)}`}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="inline-flex items-center gap-1.5 text-sm text-neutral-500 hover:text-white"
+                                    >
+                                        <ExternalLink className="w-4 h-4" strokeWidth={1.5} />
+                                        Search YouTube
+                                    </a>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    <div className="flex items-start gap-3 p-4 bg-neutral-900/50 rounded-xl text-sm text-neutral-500">
+                        <Info className="w-4 h-4 shrink-0 mt-0.5" strokeWidth={1.5} />
+                        <div>
+                            <p>{result.methodology.approach}.</p>
+                            <ul className="mt-1 list-disc list-inside">
+                                {result.methodology.limitations.map(l => <li key={l}>{l}</li>)}
+                            </ul>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default function ClustersPage() {
+    return (
+        <Suspense>
+            <ClusterMap />
+        </Suspense>
+    );
+}
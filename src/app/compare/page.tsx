@@ -0,0 +1,305 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import axios from 'axios';
+import {
+    ArrowLeft,
+    Scale,
+    Plus,
+    X,
+    AlertCircle,
+    Info
+} from 'lucide-react';
+
+interface NicheSummary {
+    query: string;
+    totalVideos: number;
+    overallAvgViews: number;
+    saturation: { score: number; label: string; factors: { competition: number; channelConcentration: number; contentAge: number } };
+    outlierStats: { count: number; rate: number; avgMultiplier: number };
+    loyaltyRatio: { avgRatio: number; interpretation: string };
+    momentum: { status: string; lifecycle: { label: string; description: string } };
+    titlePatterns: { hasNumber: number; hasQuestion: number; hasEmoji: number; allCaps: number; avgTitleLength: number };
+}
+
+interface Difference {
+    metric: string;
+    niches: [string, string];
+    values: [number | string, number | string];
+    note: string;
+    test: string;
+}
+
+interface CompareResult {
+    queries: string[];
+    niches: NicheSummary[];
+    durationDistribution: { range: string; niches: { query: string; count: number; share: number; avgViews: number }[] }[];
+    differences: Difference[];
+}
+
+const regions = ['US', 'GB', 'CA', 'AU', 'IN'];
+
+// One color per niche, reused by the chart legend and the table headers
+const NICHE_COLORS = ['#8b5cf6', '#f59e0b', '#10b981'];
+
+function formatNumber(num: number): string {
+    if (num >= 1000000) return (num / 1000000).toFixed(1) + 'M';
+    if (num >= 1000) return (num / 1000).toFixed(1) + 'K';
+    return num.toString();
+}
+
+// Share of results per duration bucket, one translucent area per niche so the shapes overlay
+function DurationOverlay({ result }: { result: CompareResult }) {
+    const width = 600;
+    const height = 220;
+    const padX = 40;
+    const padY = 20;
+    const buckets = result.durationDistribution;
+    const maxShare = Math.max(10, ...buckets.flatMap(b => b.niches.map(n => n.share)));
+    const x = (i: number) => padX + (i * (width - 2 * padX)) / Math.max(1, buckets.length - 1);
+    const y = (share: number) => height - padY - (share / maxShare) * (height - 2 * padY);
+
+    return (
+        <div>
+            <svg viewBox={`0 0 ${width} ${height + 30}`} className="w-full">
+                {[0, 0.5, 1].map(t => (
+                    <g key={t}>
+                        <line x1={padX} x2={width - padX} y1={y(maxShare * t)} y2={y(maxShare * t)} stroke="#262626" />
+                        <text x={padX - 8} y={y(maxShare * t) + 4} textAnchor="end" className="fill-neutral-600 text-[10px]">
+                            {Math.round(maxShare * t)}%
+                        </text>
+                    </g>
+                ))}
+                {result.queries.map((query, q) => {
+                    const points = buckets.map((b, i) => `${x(i)},${y(b.niches[q]?.share ?? 0)}`);
+                    const area = `${x(0)},${y(0)} ${points.join(' ')} ${x(buckets.length - 1)},${y(0)}`;
+                    return (
+                        <g key={query}>
+                            <polygon points={area} fill={NICHE_COLORS[q]} fillOpacity={0.15} />
+                            <polyline points={points.join(' ')} fill="none" stroke={NICHE_COLORS[q]} strokeWidth={2} />
+                            {buckets.map((b, i) => (
+                                <circle key={b.range} cx={x(i)} cy={y(b.niches[q]?.share ?? 0)} r={3} fill={NICHE_COLORS[q]}>
+                                    <title>{`${query} · ${b.range}: ${b.niches[q]?.share ?? 0}% (${formatNumber(b.niches[q]?.avgViews ?? 0)} avg views)`}</title>
+                                </circle>
+                            ))}
+                        </g>
+                    );
+                })}
+                {buckets.map((b, i) => (
+                    <text key={b.range} x={x(i)} y={height + 10} textAnchor="middle" className="fill-neutral-500 text-[10px]">
+                        {b.range.split(' (')[0]}
+                    </text>
+                ))}
+            </svg>
+            <div className="flex items-center justify-center gap-6 mt-2">
+                {result.queries.map((query, q) => (
+                    <span key={query} className="flex items-center gap-2 text-sm text-neutral-400">
+                        <span className="w-3 h-3 rounded-full" style={{ backgroundColor: NICHE_COLORS[q] }} />
+                        {query}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+export default function ComparePage() {
+    const [queries, setQueries] = useState(['', '']);
+    const [region, setRegion] = useState('US');
+    const [loading, setLoading] = useState(false);
+    const [result, setResult] = useState<CompareResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const filled = queries.map(q => q.trim()).filter(Boolean);
+
+    const handleCompare = async () => {
+        if (filled.length < 2) return;
+
+        setLoading(true);
+        setResult(null);
+        setError(null);
+
+        try {
+            const params = new URLSearchParams();
+            filled.forEach(q => params.append('q', q));
+            params.set('region', region);
+            const response = await axios.get(`/api/analyze/compare?${params.toString()}`);
+            setResult(response.data);
+        } catch (err) {
+            if (axios.isAxiosError(err) && err.response?.data?.error) {
+                setError(err.response.data.error);
+            } else {
+                setError('Something went wrong');
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const rows: { label: string; value: (n: NicheSummary) => string }[] = [
+        { label: 'Videos analyzed', value: n => String(n.totalVideos) },
+        { label: 'Avg views', value: n => formatNumber(n.overallAvgViews) },
+        { label: 'Saturation', value: n => `${n.saturation.score} (${n.saturation.label})` },
+        { label: '· Competition', value: n => String(n.saturation.factors.competition) },
+        { label: '· Channel concentration', value: n => String(n.saturation.factors.channelConcentration) },
+        { label: '· Content age', value: n => String(n.saturation.factors.contentAge) },
+        { label: 'Outlier rate', value: n => `${n.outlierStats.rate}% (${n.outlierStats.count})` },
+        { label: 'Loyalty ratio', value: n => String(n.loyaltyRatio.avgRatio) },
+        { label: 'Lifecycle', value: n => n.momentum.lifecycle.label },
+        { label: 'Titles with numbers', value: n => `${n.titlePatterns.hasNumber}%` },
+        { label: 'Question titles', value: n => `${n.titlePatterns.hasQuestion}%` },
+        { label: 'Avg title length', value: n => String(n.titlePatterns.avgTitleLength) }
+    ];
+
+    return (
+        <div className="min-h-screen bg-neutral-950 text-white">
+            {/* Navigation */}
+            <nav className="border-b border-neutral-800">
+                <div className="max-w-5xl mx-auto px-6 py-4 flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                        <div className="w-8 h-8 rounded-lg bg-neutral-800 flex items-center justify-center">
+                            <Scale className="w-4 h-4 text-neutral-400" strokeWidth={1.5} />
+                        </div>
+                        <span className="font-medium">Compare Niches</span>
+                    </div>
+                    <Link href="/" className="flex items-center gap-2 text-sm text-neutral-500 hover:text-white transition-colors">
+                        <ArrowLeft className="w-4 h-4" strokeWidth={1.5} />
+                        Back
+                    </Link>
+                </div>
+            </nav>
+
+            {/* Hero */}
+            <div className="max-w-3xl mx-auto px-6 pt-16 pb-12 text-center">
+                <h1 className="text-3xl font-light text-white tracking-tight mb-4">
+                    Compare niches side by side
+                </h1>
+                <p className="text-neutral-500 mb-10">
+                    Two or three niches, same metrics. Only differences that clear a significance test are flagged.
+                </p>
+
+                <div className="max-w-xl mx-auto space-y-3">
+                    {queries.map((q, i) => (
+                        <div key={i} className="flex items-center gap-3 p-3 bg-neutral-900 rounded-xl border border-neutral-800 focus-within:border-neutral-700 transition-colors">
+                            <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: NICHE_COLORS[i] }} />
+                            <input
+                                type="text"
+                                value={q}
+                                onChange={(e) => setQueries(queries.map((old, j) => (j === i ? e.target.value : old)))}
+                                onKeyDown={(e) => e.key === 'Enter' && handleCompare()}
+                                placeholder={i === 0 ? 'e.g., budget travel' : i === 1 ? 'e.g., van life' : 'optional third niche'}
+                                className="flex-1 bg-transparent text-white placeholder-neutral-600 focus:outline-none"
+                            />
+                            {i === 2 && (
+                                <button onClick={() => setQueries(queries.slice(0, 2))} className="text-neutral-500 hover:text-white">
+                                    <X className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                    <div className="flex items-center justify-between pt-2">
+                        {queries.length < 3 ? (
+                            <button onClick={() => setQueries([...queries, ''])} className="flex items-center gap-2 text-sm text-neutral-500 hover:text-white transition-colors">
+                                <Plus className="w-4 h-4" strokeWidth={1.5} />
+                                Add a third niche
+                            </button>
+                        ) : <span />}
+                        <div className="flex items-center gap-3">
+                            <select
+                                value={region}
+                                onChange={(e) => setRegion(e.target.value)}
+                                className="text-sm text-neutral-400 bg-transparent border-none focus:outline-none cursor-pointer"
+                            >
+                                {regions.map(r => (
+                                    <option key={r} value={r} className="bg-neutral-900">{r}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={handleCompare}
+                                disabled={loading || filled.length < 2}
+                                className="px-5 py-2 bg-white text-neutral-900 text-sm font-medium rounded-lg hover:bg-neutral-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                            >
+                                {loading ? 'Comparing...' : 'Compare'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {loading && (
+                <div className="max-w-3xl mx-auto px-6 py-12 flex flex-col items-center">
+                    <div className="w-8 h-8 border-2 border-neutral-800 border-t-white rounded-full animate-spin mb-4" />
+                    <p className="text-neutral-500 text-sm">Analyzing each niche...</p>
+                </div>
+            )}
+
+            {error && (
+                <div className="max-w-3xl mx-auto px-6 py-4">
+                    <div className="flex items-start gap-3 p-4 bg-rose-500/10 rounded-xl border border-rose-500/20">
+                        <AlertCircle className="w-5 h-5 text-rose-400 shrink-0 mt-0.5" strokeWidth={1.5} />
+                        <p className="text-rose-200">{error}</p>
+                    </div>
+                </div>
+            )}
+
+            {result && !loading && (
+                <div className="max-w-4xl mx-auto px-6 pb-16 space-y-8">
+                    {/* Duration overlay */}
+                    <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-6">
+                        <p className="text-sm text-neutral-500 mb-4">Duration mix (% of results)</p>
+                        <DurationOverlay result={result} />
+                    </div>
+
+                    {/* Flagged differences */}
+                    <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-6">
+                        <p className="text-sm text-neutral-500 mb-4">Meaningful differences ({result.differences.length})</p>
+                        {result.differences.length === 0 ? (
+                            <p className="text-sm text-neutral-400">No difference clears the significance checks. These niches look alike on the measured metrics.</p>
+                        ) : (
+                            <ul className="space-y-3">
+                                {result.differences.map((d, i) => (
+                                    <li key={i} className="text-sm">
+                                        <p className="text-neutral-200">{d.note}</p>
+                                        <p className="text-xs text-neutral-600">
+                                            {d.niches[0]}: {d.values[0]} · {d.niches[1]}: {d.values[1]} · {d.test}
+                                        </p>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    {/* Side by side */}
+                    <div className="bg-neutral-900 rounded-xl border border-neutral-800 overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="border-b border-neutral-800">
+                                    <th className="p-3" />
+                                    {result.niches.map((n, i) => (
+                                        <th key={n.query} className="p-3 text-right font-medium" style={{ color: NICHE_COLORS[i] }}>{n.query}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-neutral-800">
+                                {rows.map(row => (
+                                    <tr key={row.label}>
+                                        <td className="p-3 text-neutral-500">{row.label}</td>
+                                        {result.niches.map(n => (
+                                            <td key={n.query} className="p-3 text-right text-neutral-200">{row.value(n)}</td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="flex items-start gap-3 p-4 bg-neutral-900/50 rounded-xl text-sm text-neutral-500">
+                        <Info className="w-4 h-4 shrink-0 mt-0.5" strokeWidth={1.5} />
+                        <p>Shares and rates use a two-proportion z-test; bucket performance compares log views. Scores without a sampling distribution are flagged past a fixed gap.</p>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -20,6 +20,7 @@ interface TopicAnalysis {
     };
     supply: {
         videoCount: number;
+        onTopicCount: number;
         qualityVideoCount: number;
         dominantChannelSize: string;
         avgAge: number;
@@ -271,8 +272,12 @@ export default function GapsPage() {
                                                 <p className="text-xs text-neutral-500">avg views</p>
                                             </div>
                                             <div>
-                                                <p className="text-white">{opp.supply.qualityVideoCount}/{opp.supply.videoCount}</p>
-                                                <p className="text-xs text-neutral-500">quality/supply</p>
+                                                <p className="text-white">{opp.supply.onTopicCount}/{opp.supply.videoCount}</p>
+                                                <p className="text-xs text-neutral-500">on-topic</p>
+                                            </div>
+                                            <div>
+                                                <p className="text-white">{opp.supply.qualityVideoCount}</p>
+                                                <p className="text-xs text-neutral-500">quality</p>
                                             </div>
                                             <div>
                                                 <p className="text-white">{opp.supply.dominantChannelSize}</p>
@@ -0,0 +1,289 @@
+'use client';
+
+import { Suspense, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import axios from 'axios';
+import {
+    ArrowLeft,
+    WandSparkles,
+    AlertCircle,
+    Copy,
+    Check,
+    Shuffle,
+    Ban,
+    Clock,
+    Zap
+} from 'lucide-react';
+
+interface OptimizeResult {
+    idea: string;
+    recommendedLength: { bucket: string; multiplier: number; avgViews: number; reason: string };
+    titleSuggestions: { title: string; reasoning: string }[];
+    patternInsights: {
+        usesNumbers: number;
+        usesQuestions: number;
+        usesEmoji: number;
+        usesAllCaps: number;
+        avgTitleLength: number;
+        topWords: string[];
+        saturatedPatterns: string[];
+    };
+    topOutliers: {
+        title: string;
+        views: number;
+        thumbnail: string;
+        id: string;
+        lengthCategory: string;
+        velocity: number;
+        expectedViews: number;
+        performanceRatio: number;
+        zScore: number;
+        isStatOutlier: boolean;
+    }[];
+    saturation: { score: number; label: string; factors: { competition: number; channelConcentration: number; contentAge: number } };
+    statistics: { outlierCount: number; outlierRate: number; sampleSize: number; confidence: { score: number; level: string; factors: string[] } };
+}
+
+function formatNumber(num: number): string {
+    if (num >= 1000000) return (num / 1000000).toFixed(1) + 'M';
+    if (num >= 1000) return (num / 1000).toFixed(1) + 'K';
+    return num.toString();
+}
+
+const saturationStyles: Record<string, string> = {
+    Low: 'text-emerald-400',
+    Medium: 'text-amber-400',
+    High: 'text-rose-400'
+};
+
+function Optimizer() {
+    const searchParams = useSearchParams();
+    const [idea, setIdea] = useState(searchParams.get('idea') || '');
+    const [loading, setLoading] = useState(false);
+    const [result, setResult] = useState<OptimizeResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [copied, setCopied] = useState<string | null>(null);
+
+    const runOptimize = useCallback(async (nextIdea: string) => {
+        if (!nextIdea.trim()) return;
+
+        setLoading(true);
+        setResult(null);
+        setError(null);
+
+        try {
+            const response = await axios.get('/api/optimize', { params: { idea: nextIdea.trim() } });
+            setResult(response.data);
+        } catch (err) {
+            if (axios.isAxiosError(err) && err.response?.data?.error) {
+                setError(err.response.data.error);
+            } else {
+                setError('Something went wrong');
+            }
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    const handleOptimize = () => runOptimize(idea);
+
+    // Deep links (/optimize?idea=...) run straight away
+    useEffect(() => {
+        const initial = searchParams.get('idea');
+        if (initial) runOptimize(initial);
+    }, [searchParams, runOptimize]);
+
+    const copyTitle = (title: string) => {
+        navigator.clipboard.writeText(title);
+        setCopied(title);
+        setTimeout(() => setCopied(null), 1500);
+    };
+
+    // The random walk scores mutations against the same niche the idea was searched in
+    const randomWalkHref = (title: string) =>
+        `/random-walk?${new URLSearchParams({ title, niche: result?.idea || idea }).toString()}`;
+
+    return (
+        <div className="min-h-screen bg-neutral-950 text-white">
+            {/* Navigation */}
+            <nav className="border-b border-neutral-800">
+                <div className="max-w-5xl mx-auto px-6 py-4 flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                        <div className="w-8 h-8 rounded-lg bg-neutral-800 flex items-center justify-center">
+                            <WandSparkles className="w-4 h-4 text-neutral-400" strokeWidth={1.5} />
+                        </div>
+                        <span className="font-medium">Title Optimizer</span>
+                    </div>
+                    <Link href="/" className="flex items-center gap-2 text-sm text-neutral-500 hover:text-white transition-colors">
+                        <ArrowLeft className="w-4 h-4" strokeWidth={1.5} />
+                        Back
+                    </Link>
+                </div>
+            </nav>
+
+            {/* Hero */}
+            <div className="max-w-3xl mx-auto px-6 pt-16 pb-12 text-center">
+                <h1 className="text-3xl font-light text-white tracking-tight mb-4">
+                    Package an idea like the outliers
+                </h1>
+                <p className="text-neutral-500 mb-10">
+                    Title suggestions learned from the niche&apos;s fastest-growing videos, steering clear of its overused openings.
+                </p>
+
+                <div className="max-w-xl mx-auto flex items-center gap-3 p-3 bg-neutral-900 rounded-xl border border-neutral-800 focus-within:border-neutral-700 transition-colors">
+                    <input
+                        type="text"
+                        value={idea}
+                        onChange={(e) => setIdea(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleOptimize()}
+                        placeholder="e.g., meal prep for night shift nurses"
+                        className="flex-1 bg-transparent text-white placeholder-neutral-600 focus:outline-none px-1"
+                    />
+                    <button
+                        onClick={() => handleOptimize()}
+                        disabled={loading || !idea.trim()}
+                        className="px-5 py-2 bg-white text-neutral-900 text-sm font-medium rounded-lg hover:bg-neutral-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {loading ? 'Optimizing...' : 'Optimize'}
+                    </button>
+                </div>
+            </div>
+
+            {loading && (
+                <div className="max-w-3xl mx-auto px-6 py-12 flex flex-col items-center">
+                    <div className="w-8 h-8 border-2 border-neutral-800 border-t-white rounded-full animate-spin mb-4" />
+                    <p className="text-neutral-500 text-sm">Finding outliers and drafting titles...</p>
+                </div>
+            )}
+
+            {error && (
+                <div className="max-w-3xl mx-auto px-6 py-4">
+                    <div className="flex items-start gap-3 p-4 bg-rose-500/10 rounded-xl border border-rose-500/20">
+                        <AlertCircle className="w-5 h-5 text-rose-400 shrink-0 mt-0.5" strokeWidth={1.5} />
+                        <p className="text-rose-200">{error}</p>
+                    </div>
+                </div>
+            )}
+
+            {result && !loading && (
+                <div className="max-w-5xl mx-auto px-6 pb-16 space-y-6">
+                    {/* Summary */}
+                    <div className="grid md:grid-cols-3 gap-4">
+                        <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-5">
+                            <p className="text-xs text-neutral-500 uppercase tracking-wide mb-2">Saturation</p>
+                            <p className={`text-2xl font-light ${saturationStyles[result.saturation.label] || 'text-white'}`}>
+                                {result.saturation.score}<span className="text-sm text-neutral-500"> / 100 · {result.saturation.label}</span>
+                            </p>
+                        </div>
+                        <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-5">
+                            <p className="text-xs text-neutral-500 uppercase tracking-wide mb-2 flex items-center gap-1.5">
+                                <Clock className="w-3 h-3" strokeWidth={1.5} /> Underserved length
+                            </p>
+                            <p className="text-2xl font-light">{result.recommendedLength.bucket || '—'}</p>
+                            {result.recommendedLength.bucket && (
+                                <p className="text-xs text-neutral-500 mt-1">{result.recommendedLength.reason}</p>
+                            )}
+                        </div>
+                        <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-5">
+                            <p className="text-xs text-neutral-500 uppercase tracking-wide mb-2">Confidence</p>
+                            <p className="text-2xl font-light">
+                                {result.statistics.confidence.score}<span className="text-sm text-neutral-500"> · {result.statistics.confidence.level}</span>
+                            </p>
+                            <p className="text-xs text-neutral-500 mt-1">
+                                {result.statistics.outlierCount} outliers (z &gt; 2) in {result.statistics.sampleSize} videos
+                            </p>
+                        </div>
+                    </div>
+
+                    <div className="grid md:grid-cols-3 gap-6">
+                        {/* Suggested titles */}
+                        <div className="md:col-span-2 space-y-3">
+                            <p className="text-sm text-neutral-500">Suggested titles</p>
+                            {result.titleSuggestions.map(s => (
+                                <div key={s.title} className="p-4 bg-neutral-900 rounded-xl border border-neutral-800">
+                                    <div className="flex items-start justify-between gap-3">
+                                        <p className="text-white">{s.title}</p>
+                                        <div className="flex items-center gap-3 shrink-0">
+                                            <button onClick={() => copyTitle(s.title)} className="text-neutral-500 hover:text-white" title="Copy">
+                                                {copied === s.title ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+                                            </button>
+                                            <Link href={randomWalkHref(s.title)} className="flex items-center gap-1.5 text-xs text-neutral-500 hover:text-white transition-colors">
+                                                <Shuffle className="w-4 h-4" strokeWidth={1.5} />
+                                                Random walk
+                                            </Link>
+                                        </div>
+                                    </div>
+                                    <p className="text-xs text-neutral-500 mt-2">{s.reasoning}</p>
+                                    <p className="text-[10px] text-neutral-600 mt-1">{s.title.length} characters</p>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="space-y-4">
+                            {/* Avoid list */}
+                            <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-5">
+                                <p className="text-xs text-neutral-500 uppercase tracking-wide mb-3 flex items-center gap-1.5">
+                                    <Ban className="w-3 h-3 text-rose-400" strokeWidth={1.5} /> Avoid these openings
+                                </p>
+                                {result.patternInsights.saturatedPatterns.length > 0 ? (
+                                    <ul className="space-y-1.5">
+                                        {result.patternInsights.saturatedPatterns.map(p => (
+                                            <li key={p} className="text-sm text-neutral-300">&ldquo;{p}&hellip;&rdquo;</li>
+                                        ))}
+                                    </ul>
+                                ) : (
+                                    <p className="text-sm text-neutral-500">No opening is used by 3+ videos.</p>
+                                )}
+                            </div>
+
+                            {/* Outlier packaging */}
+                            <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-5">
+                                <p className="text-xs text-neutral-500 uppercase tracking-wide mb-3 flex items-center gap-1.5">
+                                    <Zap className="w-3 h-3 text-amber-400" strokeWidth={1.5} /> Outlier packaging
+                                </p>
+                                <div className="flex flex-wrap gap-1.5 mb-3">
+                                    {result.patternInsights.topWords.map(w => (
+                                        <span key={w} className="text-xs px-2 py-0.5 rounded-full bg-white/5 text-neutral-300">{w}</span>
+                                    ))}
+                                </div>
+                                <div className="space-y-1 text-xs text-neutral-400">
+                                    <p>{result.patternInsights.usesNumbers}% use numbers</p>
+                                    <p>{result.patternInsights.usesQuestions}% are questions</p>
+                                    <p>{result.patternInsights.usesAllCaps}% use ALL CAPS words</p>
+                                    <p>{result.patternInsights.avgTitleLength} characters on average</p>
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Outliers */}
+                    {result.topOutliers.length > 0 && (
+                        <div>
+                            <p className="text-sm text-neutral-500 mb-3">Learned from</p>
+                            <div className="grid md:grid-cols-3 gap-4">
+                                {result.topOutliers.map(v => (
+                                    <a key={v.id} href={`https://youtube.com/watch?v=${v.id}`} target="_blank" rel="noopener noreferrer" className="group">
+                                        <img src={v.thumbnail} alt={v.title} className="w-full aspect-video object-cover rounded-lg mb-2" />
+                                        <p className="text-sm text-neutral-300 group-hover:text-white line-clamp-2">{v.title}</p>
+                                        <p className="text-xs text-neutral-500">
+                                            {formatNumber(v.views)} views · {v.performanceRatio}x its channel&apos;s usual · z = {v.zScore}
+                                        </p>
+                                    </a>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default function OptimizePage() {
+    return (
+        <Suspense>
+            <Optimizer />
+        </Suspense>
+    );
+}
@@ -18,7 +18,15 @@ import {
   ChevronRight,
   ExternalLink,
   Info,
-  Zap
+  Zap,
+  List,
+  Download,
+  Scale,
+  Rocket,
+  Network,
+  ArrowRightLeft,
+  ImagePlus,
+  WandSparkles
 } from 'lucide-react';
 
 interface TitleSuggestion {
@@ -41,6 +49,28 @@ interface EvaluationResult {
   dataQuality: { sampleSize: number; outliersDetected: number; trendsAvailable: boolean; disclaimer: string };
 }
 
+interface RankedIdea {
+  rank: number;
+  idea: string;
+  verdict: string;
+  opportunityScore: number;
+  competition: number;
+  interest: number;
+  interestMeasured: boolean;
+  patternClarity: number;
+  confidence: number;
+  outliers: number;
+  sampleSize: number;
+  recommendedLength: string;
+}
+
+interface BatchResult {
+  evaluated: number;
+  ranking: RankedIdea[];
+  failed: { idea: string; error: string }[];
+  csv: string;
+}
+
 interface ToolCard {
   id: string;
   icon: React.ReactNode;
@@ -52,6 +82,15 @@ interface ToolCard {
 }
 
 const TOOLS: ToolCard[] = [
+  {
+    id: 'analyze',
+    icon: <BarChart3 className="w-5 h-5" strokeWidth={1.5} />,
+    name: 'Market Analyzer',
+    description: 'Video lengths, market holes, outliers',
+    href: '/analyze',
+    gradient: 'from-sky-500/10 to-indigo-500/10',
+    iconBg: 'bg-sky-500/20 text-sky-400'
+  },
   {
     id: 'optimize',
     icon: <Shuffle className="w-5 h-5" strokeWidth={1.5} />,
@@ -97,6 +136,60 @@ const TOOLS: ToolCard[] = [
     gradient: 'from-amber-500/10 to-orange-500/10',
     iconBg: 'bg-amber-500/20 text-amber-400'
   },
+  {
+    id: 'compare',
+    icon: <Scale className="w-5 h-5" strokeWidth={1.5} />,
+    name: 'Compare Niches',
+    description: 'Two or three niches side by side',
+    href: '/compare',
+    gradient: 'from-emerald-500/10 to-teal-500/10',
+    iconBg: 'bg-emerald-500/20 text-emerald-400'
+  },
+  {
+    id: 'breakout',
+    icon: <Rocket className="w-5 h-5" strokeWidth={1.5} />,
+    name: 'Breakout Scout',
+    description: 'Small channels gaining velocity',
+    href: '/breakout',
+    gradient: 'from-orange-500/10 to-rose-500/10',
+    iconBg: 'bg-orange-500/20 text-orange-400'
+  },
+  {
+    id: 'clusters',
+    icon: <Network className="w-5 h-5" strokeWidth={1.5} />,
+    name: 'Topic Clusters',
+    description: 'Map covered topics and the gaps between',
+    href: '/clusters',
+    gradient: 'from-fuchsia-500/10 to-purple-500/10',
+    iconBg: 'bg-fuchsia-500/20 text-fuchsia-400'
+  },
+  {
+    id: 'pattern-transfer',
+    icon: <ArrowRightLeft className="w-5 h-5" strokeWidth={1.5} />,
+    name: 'Pattern Transfer',
+    description: 'Title patterns that carry across niches',
+    href: '/pattern-transfer',
+    gradient: 'from-lime-500/10 to-green-500/10',
+    iconBg: 'bg-lime-500/20 text-lime-400'
+  },
+  {
+    id: 'thumbnail-novelty',
+    icon: <ImagePlus className="w-5 h-5" strokeWidth={1.5} />,
+    name: 'Thumbnail Novelty',
+    description: 'Check draft thumbnails against top performers',
+    href: '/thumbnail-novelty',
+    gradient: 'from-indigo-500/10 to-blue-500/10',
+    iconBg: 'bg-indigo-500/20 text-indigo-400'
+  },
+  {
+    id: 'optimize',
+    icon: <WandSparkles className="w-5 h-5" strokeWidth={1.5} />,
+    name: 'Title Optimizer',
+    description: 'Outlier-style titles that avoid saturated openings',
+    href: '/optimize',
+    gradient: 'from-teal-500/10 to-cyan-500/10',
+    iconBg: 'bg-teal-500/20 text-teal-400'
+  },
 ];
 
 const regions = [
@@ -121,6 +214,11 @@ export default function Home() {
   const [error, setError] = useState<string | null>(null);
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
   const [showDetails, setShowDetails] = useState(false);
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchText, setBatchText] = useState('');
+  const [batchResult, setBatchResult] = useState<BatchResult | null>(null);
+
+  const batchIdeas = batchText.split('\n').filter(line => line.trim());
 
   const handleEvaluate = async (searchQuery?: string) => {
     const q = searchQuery || query;
@@ -151,6 +249,38 @@ export default function Home() {
     }
   };
 
+  const handleBatchEvaluate = async () => {
+    if (batchIdeas.length === 0) return;
+
+    setLoading(true);
+    setBatchResult(null);
+    setError(null);
+
+    try {
+      const response = await axios.post('/api/evaluate/batch', { ideas: batchText, region });
+      setBatchResult(response.data);
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        const errMsg = err.response.data.error;
+        setError(errMsg.includes('quota') ? 'quota' : errMsg);
+      } else {
+        setError('Something went wrong');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const downloadCsv = () => {
+    if (!batchResult) return;
+    const url = URL.createObjectURL(new Blob([batchResult.csv], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'idea-ranking.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const copyTitle = (title: string, index: number) => {
     navigator.clipboard.writeText(title);
     setCopiedIndex(index);
@@ -221,39 +351,84 @@ export default function Home() {
         </div>
 
         {/* Search */}
-        <div className="relative max-w-xl mx-auto">
-          <div className="absolute inset-0 bg-gradient-to-r from-violet-500/20 to-purple-500/20 rounded-2xl blur-xl opacity-50" />
-          <div className="relative flex items-center gap-3 p-4 bg-neutral-900/80 backdrop-blur-sm rounded-2xl border border-white/10 focus-within:border-violet-500/50 transition-all shadow-2xl shadow-black/20">
-            <Target className="w-5 h-5 text-neutral-500" strokeWidth={1.5} />
-            <input
-              type="text"
-              value={query}
-              onChange={(e) => setQuery(e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && handleEvaluate()}
-              placeholder="e.g., how to make sourdough"
-              className="flex-1 bg-transparent text-lg text-white placeholder-neutral-500 focus:outline-none"
-            />
-            <select
-              value={region}
-              onChange={(e) => setRegion(e.target.value)}
-              className="text-sm text-neutral-400 bg-transparent border-none focus:outline-none cursor-pointer"
-            >
-              {regions.map(r => (
-                <option key={r.code} value={r.code} className="bg-neutral-900">{r.code}</option>
-              ))}
-            </select>
-            <button
-              onClick={() => handleEvaluate()}
-              disabled={loading || !query.trim()}
-              className="px-5 py-2.5 bg-gradient-to-r from-violet-500 to-purple-500 text-white text-sm font-medium rounded-xl hover:from-violet-400 hover:to-purple-400 disabled:opacity-40 disabled:cursor-not-allowed transition-all shadow-lg shadow-violet-500/25"
-            >
-              {loading ? 'Checking...' : 'Evaluate'}
-            </button>
+        {!batchMode ? (
+          <div className="relative max-w-xl mx-auto">
+            <div className="absolute inset-0 bg-gradient-to-r from-violet-500/20 to-purple-500/20 rounded-2xl blur-xl opacity-50" />
+            <div className="relative flex items-center gap-3 p-4 bg-neutral-900/80 backdrop-blur-sm rounded-2xl border border-white/10 focus-within:border-violet-500/50 transition-all shadow-2xl shadow-black/20">
+              <Target className="w-5 h-5 text-neutral-500" strokeWidth={1.5} />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleEvaluate()}
+                placeholder="e.g., how to make sourdough"
+                className="flex-1 bg-transparent text-lg text-white placeholder-neutral-500 focus:outline-none"
+              />
+              <select
+                value={region}
+                onChange={(e) => setRegion(e.target.value)}
+                className="text-sm text-neutral-400 bg-transparent border-none focus:outline-none cursor-pointer"
+              >
+                {regions.map(r => (
+                  <option key={r.code} value={r.code} className="bg-neutral-900">{r.code}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => handleEvaluate()}
+                disabled={loading || !query.trim()}
+                className="px-5 py-2.5 bg-gradient-to-r from-violet-500 to-purple-500 text-white text-sm font-medium rounded-xl hover:from-violet-400 hover:to-purple-400 disabled:opacity-40 disabled:cursor-not-allowed transition-all shadow-lg shadow-violet-500/25"
+              >
+                {loading ? 'Checking...' : 'Evaluate'}
+              </button>
+            </div>
           </div>
+        ) : (
+          <div className="relative max-w-xl mx-auto">
+            <div className="relative p-4 bg-neutral-900/80 backdrop-blur-sm rounded-2xl border border-white/10 focus-within:border-violet-500/50 transition-all shadow-2xl shadow-black/20">
+              <textarea
+                value={batchText}
+                onChange={(e) => setBatchText(e.target.value)}
+                rows={8}
+                placeholder={'One idea per line, e.g.\nhow to make sourdough\nbudget meal prep\nair fryer recipes'}
+                className="w-full bg-transparent text-white placeholder-neutral-500 focus:outline-none resize-y"
+              />
+              <div className="flex items-center justify-between gap-3 pt-3 border-t border-white/5">
+                <span className="text-sm text-neutral-500">{batchIdeas.length} ideas · up to 50</span>
+                <div className="flex items-center gap-3">
+                  <select
+                    value={region}
+                    onChange={(e) => setRegion(e.target.value)}
+                    className="text-sm text-neutral-400 bg-transparent border-none focus:outline-none cursor-pointer"
+                  >
+                    {regions.map(r => (
+                      <option key={r.code} value={r.code} className="bg-neutral-900">{r.code}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleBatchEvaluate}
+                    disabled={loading || batchIdeas.length === 0 || batchIdeas.length > 50}
+                    className="px-5 py-2.5 bg-gradient-to-r from-violet-500 to-purple-500 text-white text-sm font-medium rounded-xl hover:from-violet-400 hover:to-purple-400 disabled:opacity-40 disabled:cursor-not-allowed transition-all shadow-lg shadow-violet-500/25"
+                  >
+                    {loading ? 'Checking...' : 'Evaluate all'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="text-center mt-4">
+          <button
+            onClick={() => { setBatchMode(!batchMode); setResult(null); setBatchResult(null); setError(null); }}
+            className="inline-flex items-center gap-2 text-sm text-neutral-500 hover:text-white transition-colors"
+          >
+            <List className="w-4 h-4" strokeWidth={1.5} />
+            {batchMode ? 'Evaluate a single idea' : 'Paste a list of ideas'}
+          </button>
         </div>
 
         {/* Quick examples */}
-        {!result && !loading && (
+        {!batchMode && !result && !loading && (
           <div className="flex items-center justify-center gap-2 mt-6 flex-wrap">
             <span className="text-neutral-600 text-sm">Try:</span>
             {['productivity tips', 'cooking basics', 'home workout'].map(example => (
@@ -403,8 +578,68 @@ export default function Home() {
         </div>
       )}
 
+      {/* Batch Ranking */}
+      {batchResult && !loading && (
+        <div className="relative z-10 max-w-4xl mx-auto px-6 pb-16 space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-neutral-500">{batchResult.evaluated} ideas ranked</p>
+            <button onClick={downloadCsv} className="inline-flex items-center gap-2 text-sm text-neutral-400 hover:text-white transition-colors">
+              <Download className="w-4 h-4" strokeWidth={1.5} />
+              Export CSV
+            </button>
+          </div>
+          <div className="bg-neutral-900/50 backdrop-blur-sm rounded-2xl border border-white/5 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-neutral-500 border-b border-white/5">
+                  <th className="p-3 font-normal">#</th>
+                  <th className="p-3 font-normal">Idea</th>
+                  <th className="p-3 font-normal">Verdict</th>
+                  <th className="p-3 font-normal text-right">Competition</th>
+                  <th className="p-3 font-normal text-right">Interest</th>
+                  <th className="p-3 font-normal text-right">Clarity</th>
+                  <th className="p-3 font-normal text-right">Confidence</th>
+                  <th className="p-3 font-normal">Best length</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {batchResult.ranking.map(row => (
+                  <tr key={row.idea} className="hover:bg-white/5 transition-colors">
+                    <td className="p-3 text-neutral-500">{row.rank}</td>
+                    <td className="p-3">
+                      <button
+                        onClick={() => { setBatchMode(false); setBatchResult(null); setQuery(row.idea); handleEvaluate(row.idea); }}
+                        className="text-left text-white hover:text-violet-300 transition-colors"
+                      >
+                        {row.idea}
+                      </button>
+                    </td>
+                    <td className="p-3 text-neutral-300">{row.verdict}</td>
+                    <td className={`p-3 text-right ${getSignalColor(row.competition, true)}`}>{row.competition}</td>
+                    <td className={`p-3 text-right ${getSignalColor(row.interest)}`}>
+                      {row.interest}{!row.interestMeasured && <span className="text-amber-500"> *</span>}
+                    </td>
+                    <td className={`p-3 text-right ${getSignalColor(row.patternClarity)}`}>{row.patternClarity}</td>
+                    <td className="p-3 text-right text-neutral-300">{row.confidence}</td>
+                    <td className="p-3 text-neutral-400">{row.recommendedLength}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {batchResult.ranking.some(row => !row.interestMeasured) && (
+            <p className="text-xs text-neutral-600">* Trends data unavailable; interest is estimated.</p>
+          )}
+          {batchResult.failed.length > 0 && (
+            <p className="text-xs text-neutral-600">
+              Skipped: {batchResult.failed.map(f => `${f.idea} (${f.error})`).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Other Tools (when no result) */}
-      {!result && !loading && (
+      {!result && !batchResult && !loading && (
         <div className="relative z-10 max-w-3xl mx-auto px-6 py-16">
           <p className="text-sm text-neutral-600 uppercase tracking-wide text-center mb-8">More tools</p>
           <div className="grid md:grid-cols-3 gap-4">
@@ -0,0 +1,329 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import axios from 'axios';
+import {
+    ArrowLeft,
+    ArrowRightLeft,
+    AlertCircle,
+    Plus,
+    X,
+    Copy,
+    Check,
+    Info
+} from 'lucide-react';
+
+const MAX_TARGETS = 4;
+
+interface LiftCell {
+    niche: string;
+    prevalence: number;
+    lift: number;
+    liftCI: { lower: number; upper: number } | null;
+    shrunkLift: { estimate: number; lower: number; upper: number } | null;
+    pValue: number;
+    adjustedPValue: number;
+    significant: boolean;
+    sampleSize: { with: number; without: number };
+}
+
+interface Transfer {
+    pattern: string;
+    targetNiche: string;
+    applicability: 'high' | 'medium' | 'low';
+    adaptedExamples: string[];
+    reasoning: string;
+    liftInSource: number;
+    significant: boolean;
+}
+
+interface TransferResult {
+    sourceNiche: string;
+    targetNiches: string[];
+    matrix: {
+        niches: string[];
+        rows: { id: string; pattern: string; category: string; custom: boolean; cells: LiftCell[] }[];
+    };
+    transferOpportunities: Transfer[];
+    methodology: { matrix: string; limitations: string[] };
+}
+
+const applicabilityStyles: Record<Transfer['applicability'], string> = {
+    high: 'text-emerald-300 bg-emerald-500/10',
+    medium: 'text-amber-300 bg-amber-500/10',
+    low: 'text-neutral-400 bg-white/5'
+};
+
+// Green above 1x, red below; stronger color the further from 1x
+function cellStyle(cell: LiftCell): React.CSSProperties {
+    if (cell.sampleSize.with < 3 || cell.sampleSize.without < 3) return {};
+    const strength = Math.min(1, Math.abs(Math.log2(cell.lift)) / 1.5);
+    const rgb = cell.lift >= 1 ? '16, 185, 129' : '244, 63, 94';
+    return { backgroundColor: `rgba(${rgb}, ${0.08 + strength * 0.4})` };
+}
+
+export default function PatternTransferPage() {
+    const [source, setSource] = useState('');
+    const [targets, setTargets] = useState(['', '']);
+    const [loading, setLoading] = useState(false);
+    const [result, setResult] = useState<TransferResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [selected, setSelected] = useState<{ id: string; niche: number } | null>(null);
+    const [copied, setCopied] = useState<string | null>(null);
+
+    const filledTargets = targets.map(t => t.trim()).filter(Boolean);
+
+    const handleRun = async () => {
+        if (!source.trim() || filledTargets.length === 0) return;
+
+        setLoading(true);
+        setResult(null);
+        setError(null);
+        setSelected(null);
+
+        try {
+            const params = new URLSearchParams();
+            params.set('source', source.trim());
+            filledTargets.forEach(t => params.append('target', t));
+            const response = await axios.get(`/api/pattern-transfer?${params.toString()}`);
+            setResult(response.data);
+        } catch (err) {
+            if (axios.isAxiosError(err) && err.response?.data?.error) {
+                setError(err.response.data.error);
+            } else {
+                setError('Something went wrong');
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const copyTitle = (title: string) => {
+        navigator.clipboard.writeText(title);
+        setCopied(title);
+        setTimeout(() => setCopied(null), 1500);
+    };
+
+    const row = result && selected ? result.matrix.rows.find(r => r.id === selected.id) : null;
+    const cell = row && selected ? row.cells[selected.niche] : null;
+    const sourceCell = row ? row.cells[0] : null;
+    const transfer = result && row && selected && selected.niche > 0
+        ? result.transferOpportunities.find(t => t.pattern === row.pattern && t.targetNiche === result.matrix.niches[selected.niche])
+        : null;
+
+    // Why a target cell has no adapted titles (mirrors the route's transfer filter)
+    const noTransferReason = (): string => {
+        if (!cell || !sourceCell) return '';
+        if (sourceCell.prevalence < 10) return `Too rare in ${result?.sourceNiche} (${sourceCell.prevalence}% of titles) to measure.`;
+        if (sourceCell.lift < 1.2) return `Only ${sourceCell.lift}x lift in ${result?.sourceNiche}; transfers need 1.2x or more.`;
+        if (cell.prevalence >= 20) return `Already common in ${cell.niche} (${cell.prevalence}% of titles).`;
+        return 'Not among the top transfer candidates for this niche.';
+    };
+
+    return (
+        <div className="min-h-screen bg-neutral-950 text-white">
+            {/* Navigation */}
+            <nav className="border-b border-neutral-800">
+                <div className="max-w-5xl mx-auto px-6 py-4 flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                        <div className="w-8 h-8 rounded-lg bg-neutral-800 flex items-center justify-center">
+                            <ArrowRightLeft className="w-4 h-4 text-neutral-400" strokeWidth={1.5} />
+                        </div>
+                        <span className="font-medium">Pattern Transfer</span>
+                    </div>
+                    <Link href="/" className="flex items-center gap-2 text-sm text-neutral-500 hover:text-white transition-colors">
+                        <ArrowLeft className="w-4 h-4" strokeWidth={1.5} />
+                        Back
+                    </Link>
+                </div>
+            </nav>
+
+            {/* Hero */}
+            <div className="max-w-3xl mx-auto px-6 pt-16 pb-12 text-center">
+                <h1 className="text-3xl font-light text-white tracking-tight mb-4">
+                    Borrow title patterns from another niche
+                </h1>
+                <p className="text-neutral-500 mb-10">
+                    How much each title pattern lifts views in a source niche, and whether it carries over.
+                </p>
+
+                <div className="max-w-xl mx-auto space-y-3 text-left">
+                    <div className="flex items-center gap-3 p-3 bg-neutral-900 rounded-xl border border-neutral-800 focus-within:border-neutral-700 transition-colors">
+                        <span className="text-xs text-neutral-500 w-14 shrink-0">Source</span>
+                        <input
+                            type="text"
+                            value={source}
+                            onChange={(e) => setSource(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleRun()}
+                            placeholder="e.g., personal finance"
+                            className="flex-1 bg-transparent text-white placeholder-neutral-600 focus:outline-none"
+                        />
+                    </div>
+                    {targets.map((t, i) => (
+                        <div key={i} className="flex items-center gap-3 p-3 bg-neutral-900 rounded-xl border border-neutral-800 focus-within:border-neutral-700 transition-colors">
+                            <span className="text-xs text-neutral-500 w-14 shrink-0">Target</span>
+                            <input
+                                type="text"
+                                value={t}
+                                onChange={(e) => setTargets(targets.map((old, j) => (j === i ? e.target.value : old)))}
+                                onKeyDown={(e) => e.key === 'Enter' && handleRun()}
+                                placeholder={i === 0 ? 'e.g., home cooking' : 'another target niche'}
+                                className="flex-1 bg-transparent text-white placeholder-neutral-600 focus:outline-none"
+                            />
+                            {targets.length > 1 && (
+                                <button onClick={() => setTargets(targets.filter((_, j) => j !== i))} className="text-neutral-500 hover:text-white">
+                                    <X className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                    <div className="flex items-center justify-between pt-2">
+                        {targets.length < MAX_TARGETS ? (
+                            <button onClick={() => setTargets([...targets, ''])} className="flex items-center gap-2 text-sm text-neutral-500 hover:text-white transition-colors">
+                                <Plus className="w-4 h-4" strokeWidth={1.5} />
+                                Add a target niche
+                            </button>
+                        ) : <span />}
+                        <button
+                            onClick={handleRun}
+                            disabled={loading || !source.trim() || filledTargets.length === 0}
+                            className="px-5 py-2 bg-white text-neutral-900 text-sm font-medium rounded-lg hover:bg-neutral-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                        >
+                            {loading ? 'Measuring...' : 'Measure lift'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {loading && (
+                <div className="max-w-3xl mx-auto px-6 py-12 flex flex-col items-center">
+                    <div className="w-8 h-8 border-2 border-neutral-800 border-t-white rounded-full animate-spin mb-4" />
+                    <p className="text-neutral-500 text-sm">Fetching {1 + filledTargets.length} niches and adapting titles...</p>
+                </div>
+            )}
+
+            {error && (
+                <div className="max-w-3xl mx-auto px-6 py-4">
+                    <div className="flex items-start gap-3 p-4 bg-rose-500/10 rounded-xl border border-rose-500/20">
+                        <AlertCircle className="w-5 h-5 text-rose-400 shrink-0 mt-0.5" strokeWidth={1.5} />
+                        <p className="text-rose-200">{error}</p>
+                    </div>
+                </div>
+            )}
+
+            {result && !loading && (
+                <div className="max-w-5xl mx-auto px-6 pb-16 space-y-6">
+                    {/* Lift matrix */}
+                    <div className="bg-neutral-900 rounded-xl border border-neutral-800 overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="border-b border-neutral-800">
+                                    <th className="text-left font-normal text-neutral-500 px-4 py-3">Pattern</th>
+                                    {result.matrix.niches.map((niche, n) => (
+                                        <th key={niche} className="font-normal text-neutral-400 px-3 py-3 text-center">
+                                            {niche}
+                                            {n === 0 && <span className="block text-[10px] uppercase text-neutral-600">source</span>}
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.matrix.rows.map(r => (
+                                    <tr key={r.id} className="border-b border-neutral-800/60 last:border-0">
+                                        <td className="px-4 py-2 text-neutral-300 whitespace-nowrap">
+                                            {r.pattern}
+                                            <span className="ml-2 text-[10px] uppercase text-neutral-600">{r.custom ? 'custom' : r.category}</span>
+                                        </td>
+                                        {r.cells.map((c, n) => {
+                                            const measurable = c.sampleSize.with >= 3 && c.sampleSize.without >= 3;
+                                            const isSelected = selected?.id === r.id && selected.niche === n;
+                                            const hasTransfer = n > 0 && result.transferOpportunities.some(t => t.pattern === r.pattern && t.targetNiche === c.niche);
+                                            return (
+                                                <td key={c.niche} className="px-1.5 py-1.5">
+                                                    <button
+                                                        onClick={() => setSelected({ id: r.id, niche: n })}
+                                                        style={cellStyle(c)}
+                                                        className={`w-full rounded-md px-2 py-1.5 text-center transition-colors ${isSelected ? 'ring-1 ring-white' : 'hover:ring-1 hover:ring-neutral-600'}`}
+                                                    >
+                                                        <span className={`${measurable ? 'text-white' : 'text-neutral-600'} ${c.significant ? 'font-semibold' : ''}`}>
+                                                            {measurable ? `${c.lift}x` : '—'}
+                                                            {c.significant && '*'}
+                                                        </span>
+                                                        <span className="block text-[10px] text-neutral-500">
+                                                            {c.prevalence}%{hasTransfer && ' · titles'}
+                                                        </span>
+                                                    </button>
+                                                </td>
+                                            );
+                                        })}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <p className="px-4 py-3 text-xs text-neutral-500 border-t border-neutral-800">
+                            Lift vs. titles without the pattern · * adjusted p &lt; 0.1 · % = share of titles using it · — = fewer than 3 videos on one side
+                        </p>
+                    </div>
+
+                    {/* Selected cell */}
+                    {row && cell && sourceCell && selected && (
+                        <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-6">
+                            <div className="flex items-start justify-between gap-4 mb-4">
+                                <div>
+                                    <p className="text-xs text-neutral-500 mb-1">{selected.niche === 0 ? 'Source niche' : `${result.sourceNiche} → ${cell.niche}`}</p>
+                                    <h3 className="text-lg text-white">{row.pattern} in {cell.niche}</h3>
+                                    <p className="text-sm text-neutral-400 mt-1">
+                                        {cell.lift}x lift{cell.liftCI && ` (95% CI ${cell.liftCI.lower}-${cell.liftCI.upper}x)`}{cell.shrunkLift && `, ${cell.shrunkLift.estimate}x after shrinkage`}, p = {cell.pValue}, adjusted p = {cell.adjustedPValue} ({cell.significant ? 'significant' : 'not significant'}),
+                                        {' '}{cell.sampleSize.with} of {cell.sampleSize.with + cell.sampleSize.without} titles
+                                    </p>
+                                </div>
+                                <button onClick={() => setSelected(null)} className="text-neutral-500 hover:text-white">
+                                    <X className="w-4 h-4" />
+                                </button>
+                            </div>
+
+                            {selected.niche > 0 && transfer && (
+                                <div className="space-y-3">
+                                    <div className="flex items-center gap-2">
+                                        <span className={`text-xs px-2 py-0.5 rounded-full ${applicabilityStyles[transfer.applicability] || applicabilityStyles.low}`}>
+                                            {transfer.applicability} applicability
+                                        </span>
+                                        <span className="text-xs text-neutral-500">{transfer.liftInSource}x in {result.sourceNiche}{transfer.significant ? ' (significant)' : ''}</span>
+                                    </div>
+                                    <ul className="space-y-2">
+                                        {transfer.adaptedExamples.map(title => (
+                                            <li key={title} className="flex items-center justify-between gap-3 p-3 bg-neutral-950 rounded-lg border border-neutral-800">
+                                                <span className="text-white">{title}</span>
+                                                <button onClick={() => copyTitle(title)} className="text-neutral-500 hover:text-white shrink-0">
+                                                    {copied === title ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                    <p className="text-sm text-neutral-400">{transfer.reasoning}</p>
+                                </div>
+                            )}
+                            {selected.niche > 0 && !transfer && (
+                                <p className="text-sm text-neutral-500">No adapted titles. {noTransferReason()}</p>
+                            )}
+                            {selected.niche === 0 && (
+                                <p className="text-sm text-neutral-500">Select a target cell to see titles adapted from this niche.</p>
+                            )}
+                        </div>
+                    )}
+
+                    <div className="flex items-start gap-3 p-4 bg-neutral-900/50 rounded-xl text-sm text-neutral-500">
+                        <Info className="w-4 h-4 shrink-0 mt-0.5" strokeWidth={1.5} />
+                        <div>
+                            <p>{result.methodology.matrix}.</p>
+                            <ul className="mt-1 list-disc list-inside">
+                                {result.methodology.limitations.map(l => <li key={l}>{l}</li>)}
+                            </ul>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
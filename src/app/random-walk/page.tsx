@@ -1,6 +1,7 @@
 'use client';
 
-import { useState } from 'react';
+import { Suspense, useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
 import axios from 'axios';
 import {
     Search,
@@ -31,10 +32,13 @@ interface TitleCandidate {
 
 interface TitlePattern {
     pattern: string;
+    name?: string;
     prevalence: number;
     avgZScore: number;
     sampleSize: number;
     weight: number;
+    adjustedPValue: number;
+    significant: boolean;
 }
 
 interface WalkResult {
@@ -47,6 +51,7 @@ interface WalkResult {
         fitnessFunction: string;
         iterations: number;
         acceptanceCriteria: string;
+        significance: string;
         limitations: string[];
     };
     patterns: {
@@ -69,23 +74,24 @@ function formatPattern(pattern: string): string {
         .trim();
 }
 
-export default function RandomWalkPage() {
-    const [title, setTitle] = useState('');
-    const [niche, setNiche] = useState('');
+function RandomWalk() {
+    const searchParams = useSearchParams();
+    const [title, setTitle] = useState(searchParams.get('title') || '');
+    const [niche, setNiche] = useState(searchParams.get('niche') || '');
     const [loading, setLoading] = useState(false);
     const [result, setResult] = useState<WalkResult | null>(null);
     const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
     const [showMethodology, setShowMethodology] = useState(false);
 
-    const handleOptimize = async () => {
-        if (!title.trim() || !niche.trim()) return;
+    const runWalk = useCallback(async (startTitle: string, startNiche: string) => {
+        if (!startTitle.trim() || !startNiche.trim()) return;
 
         setLoading(true);
         setResult(null);
 
         try {
             const response = await axios.get('/api/random-walk', {
-                params: { title, niche, iterations: 30 }
+                params: { title: startTitle, niche: startNiche, iterations: 30 }
             });
             setResult(response.data);
         } catch (error) {
@@ -93,7 +99,16 @@ export default function RandomWalkPage() {
         } finally {
             setLoading(false);
         }
-    };
+    }, []);
+
+    const handleOptimize = () => runWalk(title, niche);
+
+    // Hand-offs (/random-walk?title=...&niche=...) start the walk straight away
+    useEffect(() => {
+        const initialTitle = searchParams.get('title');
+        const initialNiche = searchParams.get('niche');
+        if (initialTitle && initialNiche) runWalk(initialTitle, initialNiche);
+    }, [searchParams, runWalk]);
 
     const copyTitle = (t: string, index: number) => {
         navigator.clipboard.writeText(t);
@@ -158,7 +173,7 @@ export default function RandomWalkPage() {
                         />
                     </div>
                     <button
-                        onClick={handleOptimize}
+                        onClick={() => handleOptimize()}
                         disabled={loading || !title.trim() || !niche.trim()}
                         className="w-full py-3 bg-white text-neutral-900 font-medium rounded-xl hover:bg-neutral-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
                     >
@@ -330,8 +345,10 @@ export default function RandomWalkPage() {
                             <div className="space-y-2">
                                 {result.patterns.positive.map((p, i) => (
                                     <div key={i} className="flex items-center justify-between">
-                                        <span className="text-sm text-neutral-300">{formatPattern(p.pattern)}</span>
-                                        <span className="text-xs text-emerald-400">{p.prevalence}% of outliers</span>
+                                        <span className="text-sm text-neutral-300">{p.name || formatPattern(p.pattern)}</span>
+                                        <span className="text-xs text-emerald-400" title={`Adjusted p = ${p.adjustedPValue}`}>
+                                            {p.prevalence}% of outliers{p.significant ? ' *' : ''}
+                                        </span>
                                     </div>
                                 ))}
                                 {result.patterns.positive.length === 0 && (
@@ -347,8 +364,10 @@ export default function RandomWalkPage() {
                             <div className="space-y-2">
                                 {result.patterns.negative.map((p, i) => (
                                     <div key={i} className="flex items-center justify-between">
-                                        <span className="text-sm text-neutral-300">{formatPattern(p.pattern)}</span>
-                                        <span className="text-xs text-rose-400">{p.prevalence}% of underperformers</span>
+                                        <span className="text-sm text-neutral-300">{p.name || formatPattern(p.pattern)}</span>
+                                        <span className="text-xs text-rose-400" title={`Adjusted p = ${p.adjustedPValue}`}>
+                                            {p.prevalence}% of underperformers{p.significant ? ' *' : ''}
+                                        </span>
                                     </div>
                                 ))}
                                 {result.patterns.negative.length === 0 && (
@@ -381,6 +400,10 @@ export default function RandomWalkPage() {
                                 <p className="text-sm font-medium text-neutral-500 mb-1">Fitness function</p>
                                 <p className="text-sm text-neutral-300">{result.methodology.fitnessFunction}</p>
                             </div>
+                            <div>
+                                <p className="text-sm font-medium text-neutral-500 mb-1">Significance (* on a pattern)</p>
+                                <p className="text-sm text-neutral-300">{result.methodology.significance}</p>
+                            </div>
                             <div>
                                 <p className="text-sm font-medium text-neutral-500 mb-1">Acceptance criteria</p>
                                 <p className="text-sm text-neutral-300">{result.methodology.acceptanceCriteria}</p>
@@ -426,3 +449,11 @@ export default function RandomWalkPage() {
         </div>
     );
 }
+
+export default function RandomWalkPage() {
+    return (
+        <Suspense>
+            <RandomWalk />
+        </Suspense>
+    );
+}
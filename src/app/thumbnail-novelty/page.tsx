@@ -0,0 +1,438 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import Link from 'next/link';
+import axios from 'axios';
+import {
+    ArrowLeft,
+    ImagePlus,
+    AlertCircle,
+    Upload,
+    X,
+    Info
+} from 'lucide-react';
+
+const MAX_VARIANTS = 4;
+
+interface PixelFeatures {
+    palette: { hex: string; name: string; share: number }[];
+    brightness: number;
+    contrast: number;
+    saturation: number;
+    edgeDensity: number;
+    clutter: string;
+}
+
+interface ThumbnailFeatures {
+    hasFace: boolean;
+    hasText: boolean;
+    dominantColors: string[];
+    contrast: string;
+    style: string;
+    emotionalTone: string;
+    visualDescription: string;
+    pixels: PixelFeatures | null;
+}
+
+type PixelMetric = 'brightness' | 'contrast' | 'saturation' | 'edgeDensity';
+
+const matchStyles: Record<VisualNeighbor['distance']['match'], string> = {
+    'near-copy': 'text-rose-300 bg-rose-500/10',
+    similar: 'text-amber-300 bg-amber-500/10',
+    different: 'text-neutral-400 bg-white/5'
+};
+
+interface VisualNeighbor {
+    videoId: string;
+    title: string;
+    views: number;
+    thumbnailUrl: string;
+    url: string;
+    distance: { pHash: number; dHash: number; color: number; combined: number; match: 'near-copy' | 'similar' | 'different' };
+}
+
+interface Variant {
+    name: string;
+    analysis: ThumbnailFeatures;
+    visualSimilarity: {
+        assessment: string;
+        nearCopies: number;
+        similar: number;
+        compared: number;
+        neighbors: VisualNeighbor[];
+    } | null;
+    novelty: {
+        score: number;
+        assessment: string;
+        recommendation: string;
+        factors: { faceNovelty: number; textNovelty: number; styleNovelty: number; toneNovelty: number };
+    };
+    suggestions: string[];
+}
+
+interface Share {
+    value: string;
+    share: number;
+}
+
+interface NoveltyResult {
+    niche: string;
+    variants: Variant[];
+    nichePatterns: {
+        faceRate: number;
+        textRate: number;
+        dominantStyle: string;
+        dominantTone: string;
+        styleDistribution: Share[];
+        toneDistribution: Share[];
+        pixelMedians: Record<PixelMetric, number> | null;
+        competitorsAnalyzed: number;
+    };
+    topCompetitors: { title: string; views: number; thumbnailUrl: string; style: string; description: string }[];
+    methodology: { approach: string; features: string; visualSimilarity: string; limitations: string[] };
+}
+
+interface Draft {
+    file: File;
+    preview: string;
+}
+
+const pixelRows: { metric: PixelMetric; label: string }[] = [
+    { metric: 'contrast', label: 'Contrast' },
+    { metric: 'saturation', label: 'Saturation' },
+    { metric: 'brightness', label: 'Brightness' },
+    { metric: 'edgeDensity', label: 'Edge density' }
+];
+
+// Optimal novelty is 50-74; further out in either direction is a warning
+function scoreColor(score: number): string {
+    if (score >= 50 && score < 75) return 'text-emerald-400';
+    if (score >= 25) return 'text-amber-400';
+    return 'text-rose-400';
+}
+
+function DistributionBars({ label, shares, highlight }: { label: string; shares: Share[]; highlight: string[] }) {
+    return (
+        <div>
+            <p className="text-xs text-neutral-500 uppercase tracking-wide mb-2">{label}</p>
+            <div className="space-y-1.5">
+                {shares.map(s => (
+                    <div key={s.value} className="flex items-center gap-3 text-sm">
+                        <span className={`w-24 shrink-0 truncate ${highlight.includes(s.value) ? 'text-white' : 'text-neutral-400'}`}>{s.value}</span>
+                        <div className="flex-1 h-1.5 bg-neutral-800 rounded-full overflow-hidden">
+                            <div className="h-full bg-neutral-500 rounded-full" style={{ width: `${s.share * 100}%` }} />
+                        </div>
+                        <span className="w-10 text-right text-xs text-neutral-500">{Math.round(s.share * 100)}%</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+export default function ThumbnailNoveltyPage() {
+    const [niche, setNiche] = useState('');
+    const [drafts, setDrafts] = useState<Draft[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [result, setResult] = useState<NoveltyResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    // Previews in the order the variants were sent, so results line up with the drafts that produced them
+    const [checked, setChecked] = useState<string[]>([]);
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    const addFiles = (files: FileList | null) => {
+        if (!files) return;
+        const added = Array.from(files)
+            .filter(file => file.type.startsWith('image/'))
+            .slice(0, MAX_VARIANTS - drafts.length)
+            .map(file => ({ file, preview: URL.createObjectURL(file) }));
+        setDrafts([...drafts, ...added]);
+        if (fileInput.current) fileInput.current.value = '';
+    };
+
+    const removeDraft = (index: number) => {
+        URL.revokeObjectURL(drafts[index].preview);
+        setDrafts(drafts.filter((_, i) => i !== index));
+    };
+
+    const handleCheck = async () => {
+        if (!niche.trim() || drafts.length === 0) return;
+
+        setLoading(true);
+        setResult(null);
+        setError(null);
+
+        try {
+            const form = new FormData();
+            form.append('niche', niche.trim());
+            drafts.forEach(d => form.append('thumbnail', d.file));
+            const response = await axios.post('/api/thumbnail-novelty', form);
+            setChecked(drafts.map(d => d.preview));
+            setResult(response.data);
+        } catch (err) {
+            if (axios.isAxiosError(err) && err.response?.data?.error) {
+                setError(err.response.data.error);
+            } else {
+                setError('Something went wrong');
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const patterns = result?.nichePatterns;
+
+    return (
+        <div className="min-h-screen bg-neutral-950 text-white">
+            {/* Navigation */}
+            <nav className="border-b border-neutral-800">
+                <div className="max-w-5xl mx-auto px-6 py-4 flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                        <div className="w-8 h-8 rounded-lg bg-neutral-800 flex items-center justify-center">
+                            <ImagePlus className="w-4 h-4 text-neutral-400" strokeWidth={1.5} />
+                        </div>
+                        <span className="font-medium">Thumbnail Novelty</span>
+                    </div>
+                    <Link href="/" className="flex items-center gap-2 text-sm text-neutral-500 hover:text-white transition-colors">
+                        <ArrowLeft className="w-4 h-4" strokeWidth={1.5} />
+                        Back
+                    </Link>
+                </div>
+            </nav>
+
+            {/* Hero */}
+            <div className="max-w-3xl mx-auto px-6 pt-16 pb-12 text-center">
+                <h1 className="text-3xl font-light text-white tracking-tight mb-4">
+                    How different are your draft thumbnails?
+                </h1>
+                <p className="text-neutral-500 mb-10">
+                    Upload up to {MAX_VARIANTS} variants and compare them with the top performers in a niche.
+                </p>
+
+                <div className="max-w-xl mx-auto space-y-3 text-left">
+                    <div className="flex items-center gap-3 p-3 bg-neutral-900 rounded-xl border border-neutral-800 focus-within:border-neutral-700 transition-colors">
+                        <span className="text-xs text-neutral-500 w-14 shrink-0">Niche</span>
+                        <input
+                            type="text"
+                            value={niche}
+                            onChange={(e) => setNiche(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleCheck()}
+                            placeholder="e.g., home espresso"
+                            className="flex-1 bg-transparent text-white placeholder-neutral-600 focus:outline-none"
+                        />
+                    </div>
+
+                    <div
+                        onDragOver={(e) => e.preventDefault()}
+                        onDrop={(e) => { e.preventDefault(); addFiles(e.dataTransfer.files); }}
+                        className="p-4 bg-neutral-900 rounded-xl border border-dashed border-neutral-700"
+                    >
+                        {drafts.length > 0 && (
+                            <div className="grid grid-cols-4 gap-3 mb-4">
+                                {drafts.map((d, i) => (
+                                    <div key={d.preview} className="relative">
+                                        <img src={d.preview} alt={d.file.name} className="w-full aspect-video object-cover rounded-lg" />
+                                        <button
+                                            onClick={() => removeDraft(i)}
+                                            className="absolute top-1 right-1 w-5 h-5 rounded-full bg-neutral-950/80 flex items-center justify-center text-neutral-400 hover:text-white"
+                                        >
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                        <p className="text-[10px] text-neutral-500 truncate mt-1">{d.file.name}</p>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {drafts.length < MAX_VARIANTS && (
+                            <button
+                                onClick={() => fileInput.current?.click()}
+                                className="w-full flex items-center justify-center gap-2 py-3 text-sm text-neutral-500 hover:text-white transition-colors"
+                            >
+                                <Upload className="w-4 h-4" strokeWidth={1.5} />
+                                Drop images here or choose files (JPEG, PNG, WebP)
+                            </button>
+                        )}
+                        <input
+                            ref={fileInput}
+                            type="file"
+                            accept="image/jpeg,image/png,image/webp"
+                            multiple
+                            onChange={(e) => addFiles(e.target.files)}
+                            className="hidden"
+                        />
+                    </div>
+
+                    <div className="flex justify-end pt-2">
+                        <button
+                            onClick={handleCheck}
+                            disabled={loading || !niche.trim() || drafts.length === 0}
+                            className="px-5 py-2 bg-white text-neutral-900 text-sm font-medium rounded-lg hover:bg-neutral-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                        >
+                            {loading ? 'Checking...' : 'Check novelty'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {loading && (
+                <div className="max-w-3xl mx-auto px-6 py-12 flex flex-col items-center">
+                    <div className="w-8 h-8 border-2 border-neutral-800 border-t-white rounded-full animate-spin mb-4" />
+                    <p className="text-neutral-500 text-sm">Analyzing competitor thumbnails and {drafts.length} draft{drafts.length === 1 ? '' : 's'}...</p>
+                </div>
+            )}
+
+            {error && (
+                <div className="max-w-3xl mx-auto px-6 py-4">
+                    <div className="flex items-start gap-3 p-4 bg-rose-500/10 rounded-xl border border-rose-500/20">
+                        <AlertCircle className="w-5 h-5 text-rose-400 shrink-0 mt-0.5" strokeWidth={1.5} />
+                        <p className="text-rose-200">{error}</p>
+                    </div>
+                </div>
+            )}
+
+            {result && patterns && !loading && (
+                <div className="max-w-5xl mx-auto px-6 pb-16 space-y-6">
+                    {/* Competitor distribution */}
+                    <div className="bg-neutral-900 rounded-xl border border-neutral-800 p-6">
+                        <p className="text-sm text-neutral-500 mb-4">
+                            Top {patterns.competitorsAnalyzed} thumbnails in <span className="text-white">{result.niche}</span>
+                        </p>
+                        <div className="grid md:grid-cols-3 gap-6">
+                            <div className="space-y-3">
+                                <div>
+                                    <p className="text-xs text-neutral-500 uppercase tracking-wide mb-1">Faces</p>
+                                    <p className="text-2xl font-light">{Math.round(patterns.faceRate * 100)}%</p>
+                                </div>
+                                <div>
+                                    <p className="text-xs text-neutral-500 uppercase tracking-wide mb-1">Text overlay</p>
+                                    <p className="text-2xl font-light">{Math.round(patterns.textRate * 100)}%</p>
+                                </div>
+                            </div>
+                            <DistributionBars label="Style" shares={patterns.styleDistribution} highlight={result.variants.map(v => v.analysis.style)} />
+                            <DistributionBars label="Tone" shares={patterns.toneDistribution} highlight={result.variants.map(v => v.analysis.emotionalTone)} />
+                        </div>
+                    </div>
+
+                    {/* Variants side by side */}
+                    <div className={`grid gap-4 ${result.variants.length > 1 ? 'md:grid-cols-2' : ''} ${result.variants.length > 2 ? 'lg:grid-cols-4' : ''}`}>
+                        {result.variants.map((v, i) => {
+                            const preview = drafts.some(d => d.preview === checked[i]) ? checked[i] : undefined;
+                            const rows = [
+                                { label: 'Face', value: v.analysis.hasFace ? 'Yes' : 'No', norm: `${Math.round(patterns.faceRate * 100)}% use one`, novel: v.novelty.factors.faceNovelty },
+                                { label: 'Text', value: v.analysis.hasText ? 'Yes' : 'No', norm: `${Math.round(patterns.textRate * 100)}% use it`, novel: v.novelty.factors.textNovelty },
+                                { label: 'Style', value: v.analysis.style, norm: `mostly ${patterns.dominantStyle}`, novel: v.novelty.factors.styleNovelty },
+                                { label: 'Tone', value: v.analysis.emotionalTone, norm: `mostly ${patterns.dominantTone}`, novel: v.novelty.factors.toneNovelty }
+                            ];
+                            return (
+                                <div key={i} className="bg-neutral-900 rounded-xl border border-neutral-800 p-4 flex flex-col">
+                                    {preview && (
+                                        <img src={preview} alt={v.name} className="w-full aspect-video object-cover rounded-lg mb-3" />
+                                    )}
+                                    <p className="text-xs text-neutral-500 truncate mb-2">{v.name}</p>
+                                    <div className="flex items-baseline gap-2 mb-1">
+                                        <span className={`text-3xl font-light ${scoreColor(v.novelty.score)}`}>{v.novelty.score}</span>
+                                        <span className="text-sm text-neutral-400">{v.novelty.assessment}</span>
+                                    </div>
+                                    <p className="text-xs text-neutral-500 mb-4">{v.novelty.recommendation}</p>
+
+                                    <div className="space-y-2 mb-4">
+                                        {rows.map(r => (
+                                            <div key={r.label} className="flex items-center justify-between text-sm">
+                                                <span className="text-neutral-500">{r.label}</span>
+                                                <span className="text-right">
+                                                    <span className={r.novel ? 'text-amber-300' : 'text-neutral-300'}>{r.value}</span>
+                                                    <span className="block text-[10px] text-neutral-600">{r.norm}</span>
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+
+                                    {v.analysis.pixels && (
+                                        <div className="mb-4">
+                                            <div className="flex h-3 rounded overflow-hidden mb-3">
+                                                {v.analysis.pixels.palette.map(c => (
+                                                    <div key={c.hex} title={`${c.name} ${Math.round(c.share * 100)}%`} style={{ backgroundColor: c.hex, width: `${c.share * 100}%` }} />
+                                                ))}
+                                            </div>
+                                            <div className="space-y-1.5">
+                                                {pixelRows.map(r => (
+                                                    <div key={r.metric} className="flex items-center justify-between text-xs">
+                                                        <span className="text-neutral-500">{r.label}</span>
+                                                        <span className="text-neutral-300">
+                                                            {v.analysis.pixels![r.metric].toFixed(2)}
+                                                            {patterns.pixelMedians && (
+                                                                <span className="text-neutral-600"> / {patterns.pixelMedians[r.metric].toFixed(2)}</span>
+                                                            )}
+                                                        </span>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    )}
+
+                                    {v.visualSimilarity && (
+                                        <div className="mb-4">
+                                            <p className="text-xs text-neutral-500 mb-2">
+                                                <span className="text-neutral-300">{v.visualSimilarity.assessment}</span>
+                                                {' '}· closest of {v.visualSimilarity.compared}
+                                            </p>
+                                            <div className="space-y-2">
+                                                {v.visualSimilarity.neighbors.slice(0, 3).map(n => (
+                                                    <a key={n.videoId} href={n.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 group">
+                                                        <img src={n.thumbnailUrl} alt={n.title} className="w-14 aspect-video object-cover rounded shrink-0" />
+                                                        <span className="flex-1 min-w-0">
+                                                            <span className="block text-[11px] text-neutral-400 group-hover:text-white truncate">{n.title}</span>
+                                                            <span className="block text-[10px] text-neutral-600">
+                                                                pHash {n.distance.pHash} · dHash {n.distance.dHash} · color {n.distance.color.toFixed(2)}
+                                                            </span>
+                                                        </span>
+                                                        <span className={`text-[10px] px-1.5 py-0.5 rounded-full shrink-0 ${matchStyles[n.distance.match]}`}>{n.distance.match}</span>
+                                                    </a>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    )}
+
+                                    <p className="text-xs text-neutral-500 italic mb-3">{v.analysis.visualDescription}</p>
+                                    {v.suggestions.length > 0 && (
+                                        <ul className="mt-auto space-y-1 text-xs text-neutral-400 list-disc list-inside">
+                                            {v.suggestions.map(s => <li key={s}>{s}</li>)}
+                                        </ul>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {/* Reference thumbnails */}
+                    {result.topCompetitors.length > 0 && (
+                        <div>
+                            <p className="text-sm text-neutral-500 mb-3">Top performers</p>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                                {result.topCompetitors.map(c => (
+                                    <div key={c.thumbnailUrl}>
+                                        <img src={c.thumbnailUrl} alt={c.title} className="w-full aspect-video object-cover rounded-lg mb-2" />
+                                        <p className="text-xs text-neutral-300 line-clamp-2">{c.title}</p>
+                                        <p className="text-[10px] text-neutral-500">{c.views.toLocaleString()} views · {c.style}</p>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="flex items-start gap-3 p-4 bg-neutral-900/50 rounded-xl text-sm text-neutral-500">
+                        <Info className="w-4 h-4 shrink-0 mt-0.5" strokeWidth={1.5} />
+                        <div>
+                            <p>{result.methodology.approach}. Highlighted values differ from what most top performers do.</p>
+                            <p className="mt-1">{result.methodology.features}. Pixel metrics show this draft / the niche median.</p>
+                            <p className="mt-1">{result.methodology.visualSimilarity}.</p>
+                            <ul className="mt-1 list-disc list-inside">
+                                {result.methodology.limitations.map(l => <li key={l}>{l}</li>)}
+                            </ul>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
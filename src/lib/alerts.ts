@@ -0,0 +1,321 @@
+/**
+ * Alerts
+ * Threshold rules evaluated against each stored watchlist result; matches go to an in-app inbox and an optional webhook
+ */
+
+import axios from 'axios';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { TOOLS_BY_KIND, WatchEntry, WatchTool } from './watchlist';
+
+const DATA_DIR = process.env.DATA_DIR || '.data';
+const RULES_FILE = path.join(DATA_DIR, 'alert-rules.json');
+const INBOX_FILE = path.join(DATA_DIR, 'alerts.json');
+
+const ALERT_WEBHOOK_URL = process.env.ALERT_WEBHOOK_URL;
+
+// Oldest alerts are dropped beyond this
+const INBOX_LIMIT = 500;
+
+export type AlertOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+export const ALERT_OPERATORS: AlertOperator[] = ['<', '<=', '>', '>=', '==', '!='];
+
+export interface AlertCondition {
+    path: string;                      // dot path into the result, or into each item when `each` is set
+    op: AlertOperator;
+    value: number | string;
+}
+
+export interface AlertRule {
+    id: string;
+    name: string;
+    tool: WatchTool;
+    entryId: string | null;            // null applies the rule to every watch entry running the tool
+    each: string | null;               // array in the result to check item by item, e.g. "highPotential"
+    key: string | null;                // field identifying an item across runs, e.g. "channelId"
+    condition: AlertCondition | null;  // optional with `each`: any item that appears matches
+    enabled: boolean;
+    createdAt: string;
+    // What matched on the last run, per watch entry, so a rule only fires when something newly matches
+    matched: Record<string, string[]>;
+}
+
+export interface Alert {
+    id: string;
+    ruleId: string;
+    ruleName: string;
+    entryId: string;
+    target: string;
+    tool: WatchTool;
+    item: string | null;               // key of the matching item for `each` rules
+    value: unknown;
+    message: string;
+    createdAt: string;
+    read: boolean;
+    webhook: 'sent' | 'failed' | 'disabled';
+}
+
+export class AlertRuleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AlertRuleError';
+    }
+}
+
+function readJson<T>(file: string, field: string): T[] {
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf8'))[field] || [];
+    } catch {
+        return [];
+    }
+}
+
+function writeJson(file: string, field: string, items: unknown[]): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ [field]: items }, null, 2));
+}
+
+function readRules(): AlertRule[] {
+    return readJson<AlertRule>(RULES_FILE, 'rules');
+}
+
+function writeRules(rules: AlertRule[]): void {
+    writeJson(RULES_FILE, 'rules', rules);
+}
+
+function readInbox(): Alert[] {
+    return readJson<Alert>(INBOX_FILE, 'alerts');
+}
+
+function writeInbox(alerts: Alert[]): void {
+    writeJson(INBOX_FILE, 'alerts', alerts.slice(0, INBOX_LIMIT));
+}
+
+// "saturation.score" -> result.saturation.score
+function getPath(value: unknown, dotPath: string): unknown {
+    return dotPath.split('.').reduce<unknown>(
+        (current, part) => current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[part] : undefined,
+        value
+    );
+}
+
+// Numbers compare numerically; anything else only by (case-insensitive) equality
+function compare(actual: unknown, op: AlertOperator, expected: number | string): boolean {
+    if (actual === undefined || actual === null) return false;
+
+    if (typeof expected === 'number') {
+        const n = Number(actual);
+        if (!Number.isFinite(n)) return false;
+        switch (op) {
+            case '<': return n < expected;
+            case '<=': return n <= expected;
+            case '>': return n > expected;
+            case '>=': return n >= expected;
+            case '==': return n === expected;
+            case '!=': return n !== expected;
+        }
+    }
+
+    const equal = String(actual).toLowerCase() === String(expected).toLowerCase();
+    if (op === '==') return equal;
+    if (op === '!=') return !equal;
+    return false;
+}
+
+function describeCondition(condition: AlertCondition): string {
+    return `${condition.path} ${condition.op} ${condition.value}`;
+}
+
+export function listAlertRules(): AlertRule[] {
+    return readRules();
+}
+
+// Input comes straight from a request body, so its shape is checked before anything is read
+export function addAlertRule(body: unknown): AlertRule {
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new AlertRuleError('Body must be an object with a "tool"');
+    }
+    const input = body as Record<string, unknown>;
+
+    for (const field of ['name', 'tool', 'entryId', 'each', 'key']) {
+        if (input[field] !== undefined && input[field] !== null && typeof input[field] !== 'string') {
+            throw new AlertRuleError(`"${field}" must be a string`);
+        }
+    }
+
+    const tool = input.tool as WatchTool;
+    const tools = Object.values(TOOLS_BY_KIND).flat();
+    if (!tools.includes(tool)) {
+        throw new AlertRuleError(`Invalid "tool". Use one of: ${tools.join(', ')}`);
+    }
+
+    if (input.condition !== undefined && input.condition !== null &&
+        (typeof input.condition !== 'object' || Array.isArray(input.condition))) {
+        throw new AlertRuleError('"condition" must be an object with "path", "op" and "value"');
+    }
+    const condition = (input.condition || null) as AlertCondition | null;
+    if (condition) {
+        if (typeof condition.path !== 'string' || !condition.path.trim()) throw new AlertRuleError('Missing "condition.path"');
+        if (!ALERT_OPERATORS.includes(condition.op)) {
+            throw new AlertRuleError(`Invalid "condition.op". Use one of: ${ALERT_OPERATORS.join(' ')}`);
+        }
+        if (typeof condition.value !== 'number' && typeof condition.value !== 'string') {
+            throw new AlertRuleError('"condition.value" must be a number or string');
+        }
+    }
+
+    const name = (input.name as string | null | undefined)?.trim();
+    const key = (input.key as string | null | undefined)?.trim();
+    const each = (input.each as string | null | undefined)?.trim() || null;
+    if (!each && !condition) throw new AlertRuleError('A rule needs a "condition", an "each" collection, or both');
+    if (each && !key) throw new AlertRuleError('"each" rules need a "key" to tell items apart across runs');
+
+    const rule: AlertRule = {
+        id: crypto.randomBytes(4).toString('hex'),
+        name: name || [tool, each, condition && describeCondition(condition)].filter(Boolean).join(': '),
+        tool,
+        entryId: (input.entryId as string | null | undefined) || null,
+        each,
+        key: each ? key! : null,
+        condition,
+        enabled: true,
+        createdAt: new Date().toISOString(),
+        matched: {}
+    };
+
+    writeRules([...readRules(), rule]);
+    return rule;
+}
+
+export function removeAlertRule(id: string): boolean {
+    const rules = readRules();
+    const remaining = rules.filter(r => r.id !== id);
+    if (remaining.length === rules.length) return false;
+    writeRules(remaining);
+    return true;
+}
+
+interface RuleMatch {
+    value: unknown;
+    label: string;                     // what the message calls the item
+}
+
+// Human-readable name for a collection item, falling back to its key
+function itemLabel(item: unknown, key: string): string {
+    for (const field of ['channel', 'topic', 'title']) {
+        const label = getPath(item, field);
+        if (typeof label === 'string' && label) return label;
+    }
+    return key;
+}
+
+// Everything in the result that currently satisfies the rule, by key; "value" stands for the whole result
+function matchRule(rule: AlertRule, result: unknown): Map<string, RuleMatch> {
+    const matches = new Map<string, RuleMatch>();
+
+    if (!rule.each) {
+        const value = getPath(result, rule.condition!.path);
+        if (compare(value, rule.condition!.op, rule.condition!.value)) {
+            matches.set('value', { value, label: rule.condition!.path });
+        }
+        return matches;
+    }
+
+    const items = getPath(result, rule.each);
+    if (!Array.isArray(items)) return matches;
+
+    for (const item of items) {
+        const key = getPath(item, rule.key!);
+        if (key === undefined || key === null) continue;
+        const value = rule.condition ? getPath(item, rule.condition.path) : item;
+        if (!rule.condition || compare(value, rule.condition.op, rule.condition.value)) {
+            matches.set(String(key), { value, label: `${itemLabel(item, String(key))} in ${rule.each}` });
+        }
+    }
+    return matches;
+}
+
+function alertMessage(rule: AlertRule, entry: WatchEntry, match: RuleMatch): string {
+    if (!rule.condition) return `[${entry.target}] ${match.label} is newly listed`;
+    const shown = typeof match.value === 'object' ? '' : ` (${match.value})`;
+    const subject = rule.each ? `${match.label}: ` : '';
+    return `[${entry.target}] ${subject}${describeCondition(rule.condition)}${shown}`;
+}
+
+async function sendWebhook(alert: Alert): Promise<Alert['webhook']> {
+    if (!ALERT_WEBHOOK_URL) return 'disabled';
+    try {
+        // "text" lets chat webhooks (e.g. Slack) show the alert without a custom template
+        await axios.post(ALERT_WEBHOOK_URL, { text: alert.message, alert }, { timeout: 10000 });
+        return 'sent';
+    } catch (error) {
+        console.error('Alert webhook failed:', error instanceof Error ? error.message : error);
+        return 'failed';
+    }
+}
+
+// Checks every enabled rule for this entry/tool against a fresh result. Fires only on what newly matches.
+export async function evaluateAlerts(entry: WatchEntry, tool: WatchTool, result: unknown): Promise<Alert[]> {
+    const rules = readRules();
+    const applicable = rules.filter(r => r.enabled && r.tool === tool && (!r.entryId || r.entryId === entry.id));
+    if (applicable.length === 0) return [];
+
+    const fired: Alert[] = [];
+    for (const rule of applicable) {
+        const matches = matchRule(rule, result);
+        const before = new Set(rule.matched[entry.id] || []);
+
+        for (const [key, match] of matches) {
+            if (before.has(key)) continue;
+            fired.push({
+                id: crypto.randomBytes(6).toString('hex'),
+                ruleId: rule.id,
+                ruleName: rule.name,
+                entryId: entry.id,
+                target: entry.target,
+                tool,
+                item: rule.each ? key : null,
+                value: match.value,
+                message: alertMessage(rule, entry, match),
+                createdAt: new Date().toISOString(),
+                read: false,
+                webhook: 'disabled'
+            });
+        }
+
+        // Anything that stops matching can fire again if it comes back
+        rule.matched[entry.id] = [...matches.keys()];
+    }
+    writeRules(rules);
+
+    for (const alert of fired) {
+        alert.webhook = await sendWebhook(alert);
+    }
+    if (fired.length > 0) writeInbox([...fired, ...readInbox()]);
+
+    return fired;
+}
+
+// Newest first
+export function listAlerts(options: { unreadOnly?: boolean; limit?: number } = {}): { alerts: Alert[]; unread: number } {
+    const alerts = readInbox();
+    const unread = alerts.filter(a => !a.read).length;
+    const visible = options.unreadOnly ? alerts.filter(a => !a.read) : alerts;
+    return { alerts: visible.slice(0, options.limit ?? 100), unread };
+}
+
+// No ids marks the whole inbox as read
+export function markAlertsRead(ids?: string[]): number {
+    const alerts = readInbox();
+    let changed = 0;
+    for (const alert of alerts) {
+        if (!alert.read && (!ids || ids.includes(alert.id))) {
+            alert.read = true;
+            changed++;
+        }
+    }
+    if (changed > 0) writeInbox(alerts);
+    return changed;
+}
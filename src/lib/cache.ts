@@ -0,0 +1,198 @@
+/**
+ * Response Cache
+ * Persists upstream responses (YouTube, Trends, autocomplete, Gemini) keyed by normalized request parameters
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { FIXTURE_MODE, readFixture, writeFixture } from './fixtures';
+
+const CACHE_DIR = path.join(process.env.DATA_DIR || '.data', 'cache');
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+// Most specific prefix wins: view counts go stale in hours, channel metadata in days
+const TTL_SECONDS: Record<string, number> = {
+    'youtube.search': 6 * HOUR,
+    'youtube.videos': 6 * HOUR,
+    'youtube.playlistItems': 6 * HOUR,
+    'youtube.channels': 3 * DAY,
+    'trends': 12 * HOUR,
+    'autocomplete': DAY,
+    'gemini': 7 * DAY,
+    // Thumbnail URLs stay the same when a creator swaps the image
+    'images': DAY
+};
+
+export type CacheParams = Record<string, unknown>;
+
+export interface CacheEntry {
+    key: string;
+    storedAt: number;
+    value: unknown;
+}
+
+// Storage is pluggable; anything that can get/set entries by key works (file, SQLite, Redis...)
+export interface CacheBackend {
+    get(key: string): Promise<CacheEntry | null>;
+    set(entry: CacheEntry): Promise<void>;
+}
+
+export class FileCacheBackend implements CacheBackend {
+    constructor(private dir: string = CACHE_DIR) { }
+
+    private fileFor(key: string): string {
+        const hash = crypto.createHash('sha1').update(key).digest('hex');
+        return path.join(this.dir, hash.slice(0, 2), `${hash}.json`);
+    }
+
+    async get(key: string): Promise<CacheEntry | null> {
+        try {
+            const entry: CacheEntry = JSON.parse(await fs.readFile(this.fileFor(key), 'utf8'));
+            // Guard against hash collisions
+            return entry.key === key ? entry : null;
+        } catch {
+            return null;
+        }
+    }
+
+    async set(entry: CacheEntry): Promise<void> {
+        const file = this.fileFor(entry.key);
+        try {
+            await fs.mkdir(path.dirname(file), { recursive: true });
+            await fs.writeFile(file, JSON.stringify(entry));
+        } catch (error) {
+            console.error('Failed to write cache entry:', error);
+        }
+    }
+}
+
+export class MemoryCacheBackend implements CacheBackend {
+    private entries = new Map<string, CacheEntry>();
+
+    async get(key: string): Promise<CacheEntry | null> {
+        return this.entries.get(key) || null;
+    }
+
+    async set(entry: CacheEntry): Promise<void> {
+        this.entries.set(entry.key, entry);
+    }
+}
+
+function createBackend(): CacheBackend | null {
+    switch (process.env.CACHE_BACKEND || 'file') {
+        case 'none':
+            return null;
+        case 'memory':
+            return new MemoryCacheBackend();
+        default:
+            return new FileCacheBackend();
+    }
+}
+
+// Shared across requests so the memory backend survives between calls
+const backend = createBackend();
+
+export function ttlFor(section: string): number {
+    const prefix = Object.keys(TTL_SECONDS)
+        .filter(p => section === p || section.startsWith(`${p}.`))
+        .sort((a, b) => b.length - a.length)[0];
+    return prefix ? TTL_SECONDS[prefix] : HOUR;
+}
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T/;
+
+// Same logical request -> same key: sorted keys, trimmed strings, case-insensitive queries, dates by day.
+// `dropDates` removes relative windows ("last 90 days") entirely so recorded fixtures replay on any day.
+export function normalizeParams(params: CacheParams, { dropDates = false } = {}): string {
+    const normalized: CacheParams = {};
+    for (const key of Object.keys(params).sort()) {
+        let value = params[key];
+        if (value === undefined || value === null || key === 'key') continue;
+        if (value instanceof Date || (typeof value === 'string' && ISO_TIMESTAMP.test(value))) {
+            if (dropDates) continue;
+            value = new Date(value).toISOString().slice(0, 10);
+        } else if (typeof value === 'string') {
+            value = value.trim().replace(/\s+/g, ' ');
+            if (key === 'q' || key === 'keyword' || key === 'query') {
+                value = (value as string).toLowerCase();
+            }
+        }
+        normalized[key] = value;
+    }
+    return JSON.stringify(normalized);
+}
+
+export interface CacheSectionReport {
+    calls: number;
+    fromCache: number;
+    fromFixture: number;
+    maxAgeSeconds: number | null;
+}
+
+export type CacheReport = Record<string, CacheSectionReport>;
+
+export interface RequestCache {
+    fetch<T>(section: string, params: CacheParams, load: () => Promise<T>): Promise<T>;
+    report(): CacheReport;
+}
+
+// One per incoming request; tracks which sections were served from cache and how old they were
+export function createRequestCache(): RequestCache {
+    const sections: CacheReport = {};
+
+    const track = (section: string, ageSeconds: number | null, fromFixture = false) => {
+        const entry = sections[section] || (sections[section] = { calls: 0, fromCache: 0, fromFixture: 0, maxAgeSeconds: null });
+        entry.calls++;
+        if (fromFixture) {
+            entry.fromFixture++;
+        } else if (ageSeconds !== null) {
+            entry.fromCache++;
+            entry.maxAgeSeconds = Math.max(entry.maxAgeSeconds ?? 0, ageSeconds);
+        }
+    };
+
+    return {
+        async fetch<T>(section: string, params: CacheParams, load: () => Promise<T>): Promise<T> {
+            // Replay never touches the network or the cache
+            if (FIXTURE_MODE === 'replay') {
+                const value = await readFixture<T>(section, normalizeParams(params, { dropDates: true }));
+                track(section, null, true);
+                return value;
+            }
+
+            const key = `${section}:${normalizeParams(params)}`;
+
+            if (backend) {
+                const cached = await backend.get(key);
+                if (cached) {
+                    const ageSeconds = Math.round((Date.now() - cached.storedAt) / 1000);
+                    if (ageSeconds < ttlFor(section)) {
+                        track(section, ageSeconds);
+                        if (FIXTURE_MODE === 'record') {
+                            await writeFixture(section, normalizeParams(params, { dropDates: true }), cached.value);
+                        }
+                        return cached.value as T;
+                    }
+                }
+            }
+
+            // Failures propagate and are never cached
+            const value = await load();
+            track(section, null);
+            if (backend) {
+                await backend.set({ key, storedAt: Date.now(), value });
+            }
+            if (FIXTURE_MODE === 'record') {
+                await writeFixture(section, normalizeParams(params, { dropDates: true }), value);
+            }
+            return value;
+        },
+
+        report() {
+            return JSON.parse(JSON.stringify(sections));
+        }
+    };
+}
@@ -0,0 +1,105 @@
+/**
+ * View Decay Model
+ * Views accumulate sub-linearly with age, so views/day penalizes old videos and flatters new ones.
+ * Fits a per-niche power law (log views against log days since upload) and scores each video
+ * against what a typical video of the same age gets.
+ */
+
+import { calculateMean, calculateStdDev, expTransform, logTransform } from './stats';
+import { VideoData } from './video';
+
+// Fewer videos than this (or all the same age) can't pin down the curve
+const MIN_FIT_SAMPLES = 5;
+
+// Fallback exponent: views proportional to age, i.e. plain views/day
+const DEFAULT_EXPONENT = 1;
+
+// Views never shrink with age; above 1.5 the sample is survivorship, not accumulation
+const MIN_EXPONENT = 0;
+const MAX_EXPONENT = 1.5;
+
+export interface ViewDecayModel {
+    intercept: number;          // log expected views at 1 day
+    exponent: number;           // expected views grow as days^exponent (1 = constant views/day)
+    residualStdDev: number;     // spread of log views around the curve
+    sampleSize: number;
+    fitted: boolean;            // false when the default exponent was used
+}
+
+export interface AgeAdjustment {
+    expectedViews: number;      // typical views for a video this age in the niche
+    performanceRatio: number;   // views / expectedViews
+    ageAdjustedZScore: number;  // log residual in residual standard deviations
+}
+
+type AgedVideo = Pick<VideoData, 'views' | 'daysSinceUpload'>;
+
+// Least-squares fit of log(views + 1) = intercept + exponent * log(days)
+export function fitViewDecay(videos: AgedVideo[]): ViewDecayModel {
+    const x = videos.map(v => Math.log(Math.max(1, v.daysSinceUpload)));
+    const y = videos.map(v => logTransform(v.views));
+    const meanX = calculateMean(x);
+    const meanY = calculateMean(y);
+
+    const varianceX = x.reduce((sum, xi) => sum + Math.pow(xi - meanX, 2), 0);
+    const covariance = x.reduce((sum, xi, i) => sum + (xi - meanX) * (y[i] - meanY), 0);
+    const fitted = videos.length >= MIN_FIT_SAMPLES && varianceX > 0.01;
+
+    const exponent = fitted
+        ? Math.min(MAX_EXPONENT, Math.max(MIN_EXPONENT, covariance / varianceX))
+        : DEFAULT_EXPONENT;
+    const intercept = meanY - exponent * meanX;
+    const residuals = y.map((yi, i) => yi - (intercept + exponent * x[i]));
+
+    return {
+        intercept,
+        exponent: Math.round(exponent * 1000) / 1000,
+        residualStdDev: calculateStdDev(residuals),
+        sampleSize: videos.length,
+        fitted
+    };
+}
+
+export function expectedViewsAt(model: ViewDecayModel, days: number): number {
+    return expTransform(model.intercept + model.exponent * Math.log(Math.max(1, days)));
+}
+
+// Log views above (+) or below (-) the curve at the video's age
+export function logResidual(model: ViewDecayModel, video: AgedVideo): number {
+    return logTransform(video.views) - (model.intercept + model.exponent * Math.log(Math.max(1, video.daysSinceUpload)));
+}
+
+export function ageAdjust(model: ViewDecayModel, video: AgedVideo): AgeAdjustment {
+    const expectedViews = expectedViewsAt(model, video.daysSinceUpload);
+    const residual = logResidual(model, video);
+
+    return {
+        expectedViews: Math.round(expectedViews),
+        performanceRatio: Math.round((expectedViews > 0 ? video.views / expectedViews : 0) * 100) / 100,
+        ageAdjustedZScore: model.residualStdDev > 0 ? Math.round((residual / model.residualStdDev) * 100) / 100 : 0
+    };
+}
+
+// Fit on the sample (unless a model is given) and attach the age adjustment to every video
+export function scoreAgeAdjusted<T extends AgedVideo>(videos: T[], model: ViewDecayModel = fitViewDecay(videos)): (T & AgeAdjustment)[] {
+    return videos.map(v => ({ ...v, ...ageAdjust(model, v) }));
+}
+
+// Compact summary for API responses
+export function describeViewDecay(model: ViewDecayModel): {
+    exponent: number;
+    fitted: boolean;
+    sampleSize: number;
+    expectedViews: { day7: number; day30: number; day365: number };
+} {
+    return {
+        exponent: model.exponent,
+        fitted: model.fitted,
+        sampleSize: model.sampleSize,
+        expectedViews: {
+            day7: Math.round(expectedViewsAt(model, 7)),
+            day30: Math.round(expectedViewsAt(model, 30)),
+            day365: Math.round(expectedViewsAt(model, 365))
+        }
+    };
+}
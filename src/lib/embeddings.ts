@@ -0,0 +1,140 @@
+/**
+ * Text Embeddings
+ * In-process sparse vectors for titles and topics (TF-IDF over words and character trigrams, with a
+ * bundled synonym table folding common YouTube phrasing together); no network, deterministic
+ */
+
+// Sparse vector, L2-normalized: feature -> weight
+export type Vector = Map<string, number>;
+
+export interface Embedder {
+    embed(text: string): Vector;
+    documents: number;
+}
+
+const STOP_WORDS = new Set([
+    'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'is', 'it',
+    'i', 'you', 'my', 'your', 'this', 'that', 'be', 'are', 'was', 'were', 'have', 'has', 'had', 'do',
+    'does', 'did', 'will', 'would', 'could', 'should', 'can', 'vs', 'from', 'into', 'just', 'so', 'we',
+    'our', 'me', 'its', 'all', 'more', 'most', 'very', 'than', 'then', 'them', 'they', 'their'
+]);
+
+// Bundled vocabulary model: words that mean the same thing in video titles share one feature
+const SYNONYMS: Record<string, string> = {
+    newbie: 'beginner', newbies: 'beginner', novice: 'beginner', starter: 'beginner', basics: 'beginner', intro: 'beginner', introduction: 'beginner',
+    tutorial: 'guide', walkthrough: 'guide', howto: 'guide', explained: 'guide', lesson: 'guide', course: 'guide',
+    tips: 'tip', tricks: 'tip', hacks: 'tip', hack: 'tip', trick: 'tip', advice: 'tip',
+    reviewed: 'review', reviews: 'review', tested: 'review', testing: 'review', honest: 'review',
+    best: 'top', greatest: 'top', ultimate: 'top',
+    cheap: 'budget', affordable: 'budget', inexpensive: 'budget', frugal: 'budget',
+    fast: 'quick', faster: 'quick', quickly: 'quick', rapid: 'quick', speed: 'quick',
+    mistakes: 'mistake', errors: 'mistake', error: 'mistake', fails: 'mistake', fail: 'mistake',
+    pro: 'advanced', expert: 'advanced', masterclass: 'advanced', master: 'advanced',
+    vlog: 'diary', vlogs: 'diary', diaries: 'diary',
+    compared: 'comparison', compare: 'comparison', versus: 'comparison',
+    recipes: 'recipe', cook: 'cooking', cooks: 'cooking', cooked: 'cooking',
+    workout: 'exercise', workouts: 'exercise', exercises: 'exercise', training: 'exercise',
+    money: 'income', earn: 'income', earning: 'income', earnings: 'income', profit: 'income',
+    house: 'home', apartment: 'home',
+    kids: 'children', child: 'children', toddler: 'children', toddlers: 'children'
+};
+
+// Character trigrams catch spelling variants the word features miss ("espresso" ~ "espressos")
+const TRIGRAM_WEIGHT = 0.5;
+
+function normalizeWord(word: string): string {
+    if (Object.hasOwn(SYNONYMS, word)) return SYNONYMS[word];
+    // Light plural folding; leaves short words and -ss endings alone
+    if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+    if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+    return word;
+}
+
+export function tokenize(text: string): string[] {
+    return text.toLowerCase()
+        .replace(/how to/g, 'howto')
+        .replace(/[^a-z0-9\s]/g, ' ')
+        .split(/\s+/)
+        .filter(w => w.length > 1 && !STOP_WORDS.has(w))
+        .map(normalizeWord);
+}
+
+// Titles scoring at least this against a topic are treated as being about it
+export const RELATED_SIMILARITY = 0.2;
+
+// Feature -> occurrence count; word features are prefixed "w:", trigrams "c:"
+function features(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    const add = (feature: string) => counts.set(feature, (counts.get(feature) || 0) + 1);
+
+    tokenize(text).forEach(word => {
+        add(`w:${word}`);
+        const padded = `_${word}_`;
+        for (let i = 0; i + 3 <= padded.length; i++) {
+            add(`c:${padded.slice(i, i + 3)}`);
+        }
+    });
+    return counts;
+}
+
+function normalize(vector: Vector): Vector {
+    let norm = 0;
+    vector.forEach(v => { norm += v * v; });
+    norm = Math.sqrt(norm);
+    if (norm === 0) return vector;
+    vector.forEach((v, k) => vector.set(k, v / norm));
+    return vector;
+}
+
+// Fit IDF weights on a corpus (the titles being compared); features never seen get the rarest weight
+export function createEmbedder(corpus: string[]): Embedder {
+    const documentFrequency = new Map<string, number>();
+    corpus.forEach(text => {
+        features(text).forEach((_, feature) => {
+            documentFrequency.set(feature, (documentFrequency.get(feature) || 0) + 1);
+        });
+    });
+
+    const n = corpus.length;
+    const idf = (feature: string) => Math.log((n + 1) / ((documentFrequency.get(feature) || 0) + 1)) + 1;
+
+    return {
+        documents: n,
+        embed(text: string): Vector {
+            const vector: Vector = new Map();
+            features(text).forEach((count, feature) => {
+                const weight = feature.startsWith('c:') ? TRIGRAM_WEIGHT : 1;
+                vector.set(feature, (1 + Math.log(count)) * idf(feature) * weight);
+            });
+            return normalize(vector);
+        }
+    };
+}
+
+// Cosine similarity of two normalized vectors, 0..1
+export function cosineSimilarity(a: Vector, b: Vector): number {
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    let dot = 0;
+    small.forEach((v, k) => {
+        const w = large.get(k);
+        if (w !== undefined) dot += v * w;
+    });
+    return dot;
+}
+
+// Normalized mean of several vectors (a topic described by its member titles)
+export function centroid(vectors: Vector[]): Vector {
+    const sum: Vector = new Map();
+    vectors.forEach(vector => vector.forEach((v, k) => sum.set(k, (sum.get(k) || 0) + v)));
+    return normalize(sum);
+}
+
+// Index and score of the closest candidate; earlier candidates win ties
+export function mostSimilar(query: Vector, candidates: Vector[]): { index: number; score: number } {
+    let best = { index: -1, score: -1 };
+    candidates.forEach((candidate, index) => {
+        const score = cosineSimilarity(query, candidate);
+        if (score > best.score) best = { index, score };
+    });
+    return best;
+}
@@ -0,0 +1,278 @@
+/**
+ * Idea Evaluation
+ * Market signals (competition, interest, pattern clarity) for a video idea, shared by single and batch evaluation
+ */
+
+import { RequestCache } from './cache';
+import { ChannelBaseline, ExpectedViewsModel, fitExpectedViews, scoreAgainstChannels } from './expected-views';
+import { fetchInterestOverTime } from './trends';
+import { NicheMetrics } from './snapshots';
+import { VideoData } from './video';
+
+export interface ScoredVideo extends VideoData {
+    zScore?: number;            // vs. the channel's expected views (see lib/expected-views)
+    isOutlier?: boolean;
+    expectedViews?: number;
+    performanceRatio?: number;
+}
+
+export interface Confidence {
+    level: 'low' | 'medium' | 'high';
+    score: number;
+    factors: string[];
+}
+
+export interface Signal {
+    score: number;
+    label: string;
+    interpretation: string;
+}
+
+export interface MarketAssessment {
+    competition: Signal;
+    interest: Signal & { dataAvailable: boolean };
+    learnable: Signal & { outliersFound: number };
+}
+
+export interface Verdict {
+    assessment: 'Favorable' | 'Mixed' | 'Challenging';
+    message: string;
+    positiveSignals: number;
+}
+
+export interface LengthRecommendation {
+    bucket: string;
+    avgViews: number;
+    multiplier: number;
+    sampleSize: number;
+}
+
+export interface Demand {
+    score: number;
+    dataAvailable: boolean;
+}
+
+export interface Evaluation {
+    videos: ScoredVideo[];
+    outliers: ScoredVideo[];
+    topOutliers: ScoredVideo[];
+    saturation: {
+        score: number;
+        label: string;
+        factors: { competition: number; channelConcentration: number; contentAge: number };
+    };
+    market: MarketAssessment;
+    verdict: Verdict;
+    confidence: Confidence;
+    lengthStats: Record<string, { count: number; totalViews: number }>;
+    recommendedLength: LengthRecommendation;
+    performanceModel: ExpectedViewsModel;
+}
+
+// Calculate confidence based on sample size and data quality
+export function calculateConfidence(sampleSize: number, outlierCount: number, trendsAvailable: boolean): Confidence {
+    const factors: string[] = [];
+    let score = 50; // Base
+
+    // Sample size factor
+    if (sampleSize >= 40) {
+        score += 20;
+        factors.push('Good sample size');
+    } else if (sampleSize >= 20) {
+        score += 10;
+        factors.push('Moderate sample size');
+    } else {
+        factors.push('Limited sample size');
+    }
+
+    // Outlier clarity factor
+    if (outlierCount >= 3) {
+        score += 15;
+        factors.push('Clear performance patterns');
+    } else if (outlierCount >= 1) {
+        score += 5;
+        factors.push('Some performance patterns');
+    } else {
+        factors.push('No clear winners to learn from');
+    }
+
+    // Trends data factor
+    if (trendsAvailable) {
+        score += 15;
+        factors.push('Trends data available');
+    } else {
+        factors.push('Trends data unavailable');
+    }
+
+    score = Math.min(100, score);
+    const level = score >= 70 ? 'high' : score >= 45 ? 'medium' : 'low';
+
+    return { level, score, factors };
+}
+
+// Recent vs. early search interest over the Trends window; 50 when Trends has nothing
+export async function fetchDemand(cache: RequestCache, idea: string, regionCode: string): Promise<Demand> {
+    try {
+        const interestData = await fetchInterestOverTime(cache, { keyword: idea, geo: regionCode });
+        const parsed = JSON.parse(interestData);
+        const timelineData = parsed?.default?.timelineData || [];
+        if (timelineData.length >= 2) {
+            const recent = timelineData.slice(-4).reduce((s: number, d: { value: number[] }) => s + d.value[0], 0) / 4;
+            const older = timelineData.slice(0, 4).reduce((s: number, d: { value: number[] }) => s + d.value[0], 0) / 4;
+            // More conservative scoring - normalize to 0-100 range
+            const score = older > 0 ? Math.round(Math.min(100, (recent / Math.max(older, 1)) * 50)) : 50;
+            return { score, dataAvailable: true };
+        }
+    } catch {
+        // Trends API may fail, continue with defaults
+    }
+    return { score: 50, dataAvailable: false };
+}
+
+export function evaluateMarket(rawVideos: VideoData[], demand: Demand, channels: Map<string, ChannelBaseline>): Evaluation {
+    // Z-scores against what each video's own channel gets at that age, so neither channel size
+    // nor video age decides outliers
+    const performanceModel = fitExpectedViews(rawVideos, channels);
+
+    const videos: ScoredVideo[] = scoreAgainstChannels(rawVideos, channels, performanceModel).map(({ performanceZScore, ...v }) => ({
+        ...v,
+        zScore: performanceZScore,
+        isOutlier: performanceZScore > 1.5 // More conservative threshold (z > 1.5)
+    }));
+
+    const outliers = videos.filter(v => v.isOutlier);
+    const topOutliers = [...videos].sort((a, b) => (b.zScore || 0) - (a.zScore || 0)).slice(0, 5);
+    const overallAvg = videos.reduce((sum, v) => sum + v.views, 0) / videos.length;
+
+    // Saturation (Signal 1)
+    const uniqueChannels = new Set(videos.map(v => v.channelId)).size;
+    const channelConcentration = 1 - (uniqueChannels / videos.length);
+    const avgDaysOld = videos.reduce((sum, v) => sum + v.daysSinceUpload, 0) / videos.length;
+    const ageFactor = Math.min(avgDaysOld / 365, 1);
+    const competitionFactor = Math.min(videos.length / 50, 1);
+    const saturationRaw = (competitionFactor * 0.4) + (channelConcentration * 0.3) + (ageFactor * 0.3);
+    const saturationScore = Math.round(saturationRaw * 100);
+    const saturationLabel = saturationScore <= 30 ? 'Low' : saturationScore <= 60 ? 'Medium' : 'High';
+
+    // Demand (Signal 2) comes from Trends
+    const demandScore = demand.score;
+
+    // Performance clarity (Signal 3): how clearly can we identify what works?
+    const outlierRate = outliers.length / videos.length;
+    const performanceClarity = Math.round(Math.min(100, outlierRate * 500 + (outliers.length >= 3 ? 30 : 0)));
+
+    const confidence = calculateConfidence(videos.length, outliers.length, demand.dataAvailable);
+
+    // Show 3 separate signals instead of combining into one arbitrary score
+    const market: MarketAssessment = {
+        competition: {
+            score: saturationScore,
+            label: saturationLabel,
+            interpretation: saturationScore <= 30
+                ? 'Room to compete'
+                : saturationScore <= 60
+                    ? 'Differentiation needed'
+                    : 'Crowded - find unique angle'
+        },
+        interest: {
+            score: demandScore,
+            label: demandScore >= 60 ? 'Growing' : demandScore >= 40 ? 'Stable' : 'Declining',
+            interpretation: demandScore >= 60
+                ? 'Rising search interest'
+                : demandScore >= 40
+                    ? 'Steady interest'
+                    : 'Low or declining interest',
+            dataAvailable: demand.dataAvailable
+        },
+        learnable: {
+            score: performanceClarity,
+            label: performanceClarity >= 60 ? 'Clear' : performanceClarity >= 30 ? 'Some' : 'Unclear',
+            interpretation: performanceClarity >= 60
+                ? 'Clear patterns to learn from'
+                : performanceClarity >= 30
+                    ? 'Some patterns visible'
+                    : 'Hard to identify what works',
+            outliersFound: outliers.length
+        }
+    };
+
+    // Summary verdict based on the signals
+    const signals = [
+        saturationScore <= 50, // Low-medium competition
+        demandScore >= 40, // Stable or growing interest
+        performanceClarity >= 30 // Some patterns to learn from
+    ];
+    const positiveSignals = signals.filter(Boolean).length;
+
+    const verdict: Verdict = positiveSignals >= 3
+        ? { assessment: 'Favorable', message: 'Multiple positive signals', positiveSignals }
+        : positiveSignals >= 2
+            ? { assessment: 'Mixed', message: 'Some positive signals, proceed with strategy', positiveSignals }
+            : { assessment: 'Challenging', message: 'Consider a different angle or niche', positiveSignals };
+
+    // Best length
+    const lengthStats: Record<string, { count: number; totalViews: number }> = {};
+    videos.forEach(v => {
+        if (!lengthStats[v.lengthCategory]) {
+            lengthStats[v.lengthCategory] = { count: 0, totalViews: 0 };
+        }
+        lengthStats[v.lengthCategory].count++;
+        lengthStats[v.lengthCategory].totalViews += v.views;
+    });
+
+    let recommendedLength: LengthRecommendation = { bucket: 'Medium (5-10 min)', avgViews: overallAvg, multiplier: 1, sampleSize: 0 };
+    Object.entries(lengthStats).forEach(([bucket, stats]) => {
+        // Require minimum 5 samples instead of 3 for reliability
+        if (stats.count >= 5) {
+            const avgViews = stats.totalViews / stats.count;
+            const multiplier = avgViews / overallAvg;
+            if (multiplier > recommendedLength.multiplier) {
+                recommendedLength = {
+                    bucket,
+                    avgViews: Math.round(avgViews),
+                    multiplier: Math.round(multiplier * 10) / 10,
+                    sampleSize: stats.count
+                };
+            }
+        }
+    });
+
+    return {
+        videos,
+        outliers,
+        topOutliers,
+        saturation: {
+            score: saturationScore,
+            label: saturationLabel,
+            factors: {
+                competition: Math.round(competitionFactor * 100),
+                channelConcentration: Math.round(channelConcentration * 100),
+                contentAge: Math.round(ageFactor * 100)
+            }
+        },
+        market,
+        verdict,
+        confidence,
+        lengthStats,
+        recommendedLength,
+        performanceModel
+    };
+}
+
+// Headline metrics stored as an evaluate snapshot
+export function snapshotMetrics(evaluation: Evaluation, demand: Demand): NicheMetrics {
+    const { videos, outliers, saturation, lengthStats } = evaluation;
+    return {
+        sampleSize: videos.length,
+        saturationScore: saturation.score,
+        outlierRate: Math.round((outliers.length / videos.length) * 100),
+        lengthBuckets: Object.entries(lengthStats).map(([range, stats]) => ({
+            range,
+            count: stats.count,
+            avgViews: Math.round(stats.totalViews / stats.count)
+        })),
+        momentum: null,
+        loyaltyRatio: null,
+        demandScore: demand.dataAvailable ? demand.score : null
+    };
+}
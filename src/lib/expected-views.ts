@@ -0,0 +1,256 @@
+/**
+ * Expected Views Model
+ * What a video should have got given who posted it: a per-niche regression of log views on channel size
+ * (subscribers), the channel's typical upload (median views of its recent uploads) and video age.
+ * Outliers are then measured against their own channel, not the niche average, so a big channel's
+ * ordinary upload isn't an outlier and a small channel's 10x hit isn't missed.
+ */
+
+import { fitViewDecay } from './decay';
+import { calculateMean, calculateStdDev, expTransform, logTransform, median } from './stats';
+import { UNIT_COSTS, YouTubeClient } from './youtube';
+import { ChannelData, normalizeChannels, normalizeVideos, VideoData } from './video';
+
+// Channels whose recent uploads are sampled for a median; the rest use lifetime views per video
+export const DEFAULT_UPLOAD_SAMPLES = 15;
+
+// Recent uploads read per sampled channel
+const UPLOADS_PER_CHANNEL = 10;
+
+// Fewer videos with channel data than this can't support three slopes; fall back to the age-only curve
+const MIN_FIT_SAMPLES = 12;
+
+// Ridge penalty on the centered slopes: subscribers and channel median move together,
+// and without it a small sample can split their effect into two large opposite-signed slopes
+const RIDGE_PENALTY = 1;
+
+export interface ChannelBaseline {
+    subscribers: number;
+    medianViews: number;        // typical views per upload
+    source: 'recent-uploads' | 'lifetime-average';
+}
+
+export interface ExpectedViewsModel {
+    intercept: number;
+    subscriberElasticity: number;       // % change in expected views per % more subscribers
+    channelMedianElasticity: number;    // % change per % higher channel median
+    ageExponent: number;                // expected views grow as days^ageExponent
+    residualStdDev: number;             // spread of log views around the prediction
+    centers: { subscribers: number; channelMedian: number }; // log means, stand-ins for channels without data
+    sampleSize: number;
+    fitted: boolean;                    // false when the age-only decay curve was used
+}
+
+export interface PerformanceScore {
+    expectedViews: number;      // what this channel typically gets at this age
+    performanceRatio: number;   // views / expectedViews
+    performanceZScore: number;  // log residual in residual standard deviations
+}
+
+type ChannelVideo = Pick<VideoData, 'views' | 'daysSinceUpload' | 'channelId'>;
+
+// Worst-case units for fetchChannelBaselines: channel lookups plus uploads + stats per sampled channel
+export function channelBaselineCost(channelCount: number, uploadSamples = DEFAULT_UPLOAD_SAMPLES): number {
+    return Math.ceil(channelCount / 50) * UNIT_COSTS.channels +
+        Math.min(channelCount, uploadSamples) * (UNIT_COSTS.playlistItems + UNIT_COSTS.videos);
+}
+
+// Channel stats for every channel in the sample, plus a median of recent uploads for the channels
+// that appear most often. Channels not sampled (or whose uploads fail) use lifetime views per video.
+export async function fetchChannelBaselines(
+    youtube: YouTubeClient,
+    videos: Pick<VideoData, 'channelId'>[],
+    uploadSamples = DEFAULT_UPLOAD_SAMPLES
+): Promise<{ channels: ChannelData[]; baselines: Map<string, ChannelBaseline> }> {
+    const counts = new Map<string, number>();
+    videos.forEach(v => {
+        if (v.channelId) counts.set(v.channelId, (counts.get(v.channelId) || 0) + 1);
+    });
+    const channelIds = [...counts.keys()];
+    if (channelIds.length === 0) return { channels: [], baselines: new Map() };
+
+    const channels: ChannelData[] = [];
+    for (let i = 0; i < channelIds.length; i += 50) {
+        const response = await youtube.get('channels', {
+            part: 'statistics,contentDetails',
+            id: channelIds.slice(i, i + 50).join(',')
+        });
+        channels.push(...normalizeChannels(response.data.items));
+    }
+
+    // Most-represented channels first; Map keeps search order for ties
+    const sampled = new Set(
+        [...channelIds].sort((a, b) => (counts.get(b) || 0) - (counts.get(a) || 0)).slice(0, uploadSamples)
+    );
+
+    const baselines = new Map<string, ChannelBaseline>();
+    await Promise.all(channels.map(async channel => {
+        const lifetimeAverage: ChannelBaseline = {
+            subscribers: channel.subscribers,
+            medianViews: channel.videoCount > 0 ? Math.round(channel.viewCount / channel.videoCount) : 0,
+            source: 'lifetime-average'
+        };
+
+        if (!sampled.has(channel.id) || !channel.uploadsPlaylistId) {
+            baselines.set(channel.id, lifetimeAverage);
+            return;
+        }
+
+        try {
+            const uploadsResponse = await youtube.get('playlistItems', {
+                part: 'contentDetails',
+                playlistId: channel.uploadsPlaylistId,
+                maxResults: UPLOADS_PER_CHANNEL
+            });
+            const uploadIds = (uploadsResponse.data.items || [])
+                .map((item: { contentDetails: { videoId: string } }) => item.contentDetails.videoId)
+                .join(',');
+
+            const statsResponse = uploadIds
+                ? await youtube.get('videos', { part: 'statistics,snippet', id: uploadIds })
+                : { data: { items: [] } };
+            const uploadViews = normalizeVideos(statsResponse.data.items).map(v => v.views);
+
+            baselines.set(channel.id, uploadViews.length > 0
+                ? { subscribers: channel.subscribers, medianViews: Math.round(median(uploadViews)), source: 'recent-uploads' }
+                : lifetimeAverage);
+        } catch (error) {
+            console.error(`Failed to sample uploads for channel ${channel.id}:`, error);
+            baselines.set(channel.id, lifetimeAverage);
+        }
+    }));
+
+    return { channels, baselines };
+}
+
+// Solve a small dense system with Gaussian elimination (partial pivoting); null when singular
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
+    const n = rhs.length;
+    const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+        }
+        if (Math.abs(a[pivot][col]) < 1e-10) return null;
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+
+        for (let row = col + 1; row < n; row++) {
+            const factor = a[row][col] / a[col][col];
+            for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+        }
+    }
+
+    const solution = new Array(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = a[row][n];
+        for (let k = row + 1; k < n; k++) sum -= a[row][k] * solution[k];
+        solution[row] = sum / a[row][row];
+    }
+    return solution;
+}
+
+function features(video: ChannelVideo, baseline: ChannelBaseline): number[] {
+    return [
+        logTransform(baseline.subscribers),
+        logTransform(baseline.medianViews),
+        Math.log(Math.max(1, video.daysSinceUpload))
+    ];
+}
+
+// Ridge-regularized least squares of log(views + 1) on log subscribers, log channel median and log age
+export function fitExpectedViews(videos: ChannelVideo[], baselines: Map<string, ChannelBaseline>): ExpectedViewsModel {
+    const rows = videos.filter(v => baselines.has(v.channelId));
+    const x = rows.map(v => features(v, baselines.get(v.channelId)!));
+    const y = rows.map(v => logTransform(v.views));
+
+    const means = [0, 1, 2].map(j => calculateMean(x.map(xi => xi[j])));
+    const meanY = calculateMean(y);
+    const centered = x.map(xi => xi.map((value, j) => value - means[j]));
+
+    const gram = [0, 1, 2].map(j => [0, 1, 2].map(k =>
+        centered.reduce((sum, xi) => sum + xi[j] * xi[k], 0) + (j === k ? RIDGE_PENALTY : 0)
+    ));
+    const moments = [0, 1, 2].map(j => centered.reduce((sum, xi, i) => sum + xi[j] * (y[i] - meanY), 0));
+    const slopes = rows.length >= MIN_FIT_SAMPLES ? solveLinearSystem(gram, moments) : null;
+
+    // Too little channel data: the niche's age curve, with channel size ignored
+    if (!slopes) {
+        const decay = fitViewDecay(videos);
+        return {
+            intercept: decay.intercept,
+            subscriberElasticity: 0,
+            channelMedianElasticity: 0,
+            ageExponent: decay.exponent,
+            residualStdDev: decay.residualStdDev,
+            centers: { subscribers: 0, channelMedian: 0 },
+            sampleSize: videos.length,
+            fitted: false
+        };
+    }
+
+    const intercept = meanY - slopes.reduce((sum, b, j) => sum + b * means[j], 0);
+    const residuals = x.map((xi, i) => y[i] - (intercept + slopes.reduce((sum, b, j) => sum + b * xi[j], 0)));
+
+    return {
+        intercept,
+        subscriberElasticity: Math.round(slopes[0] * 1000) / 1000,
+        channelMedianElasticity: Math.round(slopes[1] * 1000) / 1000,
+        ageExponent: Math.round(slopes[2] * 1000) / 1000,
+        residualStdDev: calculateStdDev(residuals),
+        centers: { subscribers: means[0], channelMedian: means[1] },
+        sampleSize: rows.length,
+        fitted: true
+    };
+}
+
+// Channels without data are treated as the sample's typical channel
+function predictLogViews(model: ExpectedViewsModel, video: ChannelVideo, baseline?: ChannelBaseline): number {
+    const [subscribers, channelMedian, age] = baseline
+        ? features(video, baseline)
+        : [model.centers.subscribers, model.centers.channelMedian, Math.log(Math.max(1, video.daysSinceUpload))];
+
+    return model.intercept +
+        model.subscriberElasticity * subscribers +
+        model.channelMedianElasticity * channelMedian +
+        model.ageExponent * age;
+}
+
+export function scorePerformance(model: ExpectedViewsModel, video: ChannelVideo, baseline?: ChannelBaseline): PerformanceScore {
+    const predicted = predictLogViews(model, video, baseline);
+    const expectedViews = expTransform(predicted);
+    const residual = logTransform(video.views) - predicted;
+
+    return {
+        expectedViews: Math.round(expectedViews),
+        performanceRatio: Math.round((expectedViews > 0 ? video.views / expectedViews : 0) * 100) / 100,
+        performanceZScore: model.residualStdDev > 0 ? Math.round((residual / model.residualStdDev) * 100) / 100 : 0
+    };
+}
+
+// Fit on the sample (unless a model is given) and attach the channel-relative score to every video
+export function scoreAgainstChannels<T extends ChannelVideo>(
+    videos: T[],
+    baselines: Map<string, ChannelBaseline>,
+    model: ExpectedViewsModel = fitExpectedViews(videos, baselines)
+): (T & PerformanceScore)[] {
+    return videos.map(v => ({ ...v, ...scorePerformance(model, v, baselines.get(v.channelId)) }));
+}
+
+// Compact summary for API responses
+export function describeExpectedViews(model: ExpectedViewsModel): {
+    fitted: boolean;
+    sampleSize: number;
+    subscriberElasticity: number;
+    channelMedianElasticity: number;
+    ageExponent: number;
+} {
+    return {
+        fitted: model.fitted,
+        sampleSize: model.sampleSize,
+        subscriberElasticity: model.subscriberElasticity,
+        channelMedianElasticity: model.channelMedianElasticity,
+        ageExponent: model.ageExponent
+    };
+}
@@ -0,0 +1,78 @@
+/**
+ * Record/Replay Fixtures
+ * FIXTURE_MODE=record saves every upstream response; FIXTURE_MODE=replay serves only from those files, no network
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { readFileSync } from 'fs';
+import path from 'path';
+
+export type FixtureMode = 'record' | 'replay' | 'off';
+
+const FIXTURE_DIR = process.env.FIXTURE_DIR || 'fixtures';
+
+export const FIXTURE_MODE: FixtureMode =
+    process.env.FIXTURE_MODE === 'record' || process.env.FIXTURE_MODE === 'replay' ? process.env.FIXTURE_MODE : 'off';
+
+const SESSION_FILE = path.join(FIXTURE_DIR, 'session.json');
+
+// Replay pins the clock to the recording time so video ages (and everything derived from them) match
+function replayClock(): number | null {
+    if (FIXTURE_MODE !== 'replay') return null;
+    if (process.env.FIXTURE_NOW) return new Date(process.env.FIXTURE_NOW).getTime();
+    try {
+        return new Date(JSON.parse(readFileSync(SESSION_FILE, 'utf8')).recordedAt).getTime();
+    } catch {
+        return null;
+    }
+}
+
+const pinnedTime = replayClock();
+
+// Use instead of Date.now() anywhere a result depends on the current time
+export function currentTime(): number {
+    return pinnedTime ?? Date.now();
+}
+
+interface Fixture {
+    section: string;
+    params: string;
+    recordedAt: string;
+    value: unknown;
+}
+
+export class FixtureMissingError extends Error {
+    constructor(public section: string, public params: string) {
+        super(`No recorded fixture for ${section} ${params}`);
+        this.name = 'FixtureMissingError';
+    }
+}
+
+// One readable folder per upstream section, one file per normalized request
+function fileFor(section: string, params: string): string {
+    const hash = crypto.createHash('sha1').update(params).digest('hex').slice(0, 16);
+    return path.join(FIXTURE_DIR, section, `${hash}.json`);
+}
+
+export async function readFixture<T>(section: string, params: string): Promise<T> {
+    try {
+        const fixture: Fixture = JSON.parse(await fs.readFile(fileFor(section, params), 'utf8'));
+        return fixture.value as T;
+    } catch {
+        console.warn(`Replay miss: ${section} ${params}`);
+        throw new FixtureMissingError(section, params);
+    }
+}
+
+export async function writeFixture(section: string, params: string, value: unknown): Promise<void> {
+    const file = fileFor(section, params);
+    const fixture: Fixture = { section, params, recordedAt: new Date().toISOString(), value };
+    try {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, JSON.stringify(fixture, null, 2));
+        await fs.writeFile(SESSION_FILE, JSON.stringify({ recordedAt: fixture.recordedAt }, null, 2));
+    } catch (error) {
+        console.error('Failed to write fixture:', error);
+    }
+}
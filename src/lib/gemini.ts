@@ -0,0 +1,14 @@
+/**
+ * Gemini Configuration
+ * Shared key lookup so every Gemini-backed route agrees on when the model can be used
+ */
+
+import { FIXTURE_MODE } from './fixtures';
+
+// Falls back to the YouTube key, which works when both APIs are enabled on one project
+export const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.YOUTUBE_API_KEY || '';
+
+// Replay needs no key: every Gemini response comes from recorded fixtures
+export function isGeminiConfigured(): boolean {
+    return Boolean(GEMINI_API_KEY) || FIXTURE_MODE === 'replay';
+}
@@ -0,0 +1,451 @@
+/**
+ * Image Features
+ * Deterministic pixel-level thumbnail measurements (palette, contrast, saturation, clutter, a
+ * rule-of-thirds saliency estimate, perceptual hashes) computed from the decoded image, so they are
+ * reproducible run to run, plus visual distance between two thumbnails
+ */
+
+import axios from 'axios';
+import sharp from 'sharp';
+import { RequestCache } from './cache';
+import { median, seededRandom } from './stats';
+
+// Longest side after downscaling; enough for palette and layout, and keeps analysis in milliseconds
+const ANALYSIS_SIZE = 160;
+
+const PALETTE_SIZE = 5;
+const KMEANS_ITERATIONS = 12;
+
+// Sobel gradient (on 0-1 luminance, normalized to 0-1) above this counts as an edge
+const EDGE_THRESHOLD = 0.25;
+
+// Rule-of-thirds intersections and the frame center, with the radius (share of width/height) around each
+const THIRDS_POINTS = [[1 / 3, 1 / 3], [2 / 3, 1 / 3], [1 / 3, 2 / 3], [2 / 3, 2 / 3]];
+const THIRDS_RADIUS = 0.12;
+const CENTER_RADIUS = 0.1;
+
+// Bumped whenever ImageFeatures changes shape, so cached results from older code are recomputed
+const FEATURES_VERSION = 2;
+
+// Histogram bins per RGB channel (4 x 4 x 4 = 64 bins)
+const HISTOGRAM_BINS = 4;
+
+// Hamming distance (of 64 bits) at or under which both hashes mark a near-copy
+const NEAR_COPY_BITS = 10;
+// Combined distance (0-1) at or under which two thumbnails read as the same design family
+const SIMILAR_DISTANCE = 0.35;
+
+export interface PaletteColor {
+    hex: string;
+    name: string;
+    share: number;                     // share of pixels closest to this color, 0-1
+}
+
+export interface ImageFeatures {
+    width: number;
+    height: number;
+    letterboxed: boolean;              // black bars (4:3 "high" thumbnails of 16:9 videos) were cropped
+    palette: PaletteColor[];
+    dominantColors: string[];          // names of palette colors covering 10%+ of the image
+    brightness: number;                // mean luminance, 0-1
+    contrast: number;                  // RMS contrast: standard deviation of luminance, 0-0.5
+    contrastLevel: 'low' | 'medium' | 'high';
+    saturation: number;                // mean HSV saturation, 0-1
+    edgeDensity: number;               // share of pixels on an edge, 0-1
+    clutter: 'minimal' | 'moderate' | 'busy';
+    composition: {
+        focus: { x: number; y: number };   // saliency centroid, 0-1 from top-left
+        thirdsShare: number;               // share of saliency near a rule-of-thirds intersection
+        centerShare: number;               // share of saliency near the center
+        layout: 'thirds' | 'centered' | 'spread';
+    };
+    hashes: {
+        pHash: string;                 // 64-bit DCT hash, hex
+        dHash: string;                 // 64-bit gradient hash, hex
+    };
+    histogram: number[];               // normalized RGB histogram, HISTOGRAM_BINS^3 bins
+}
+
+export interface VisualDistance {
+    pHash: number;                     // differing bits, 0-64
+    dHash: number;                     // differing bits, 0-64
+    color: number;                     // 1 - histogram intersection, 0-1
+    combined: number;                  // weighted blend, 0 (identical) to 1
+    match: 'near-copy' | 'similar' | 'different';
+}
+
+interface Pixels {
+    data: Buffer;                      // RGB, 3 bytes per pixel
+    width: number;
+    height: number;
+}
+
+const round = (value: number, digits = 3) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function luminance(r: number, g: number, b: number): number {
+    return (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+}
+
+function toHex(rgb: number[]): string {
+    return '#' + rgb.map(c => Math.round(c).toString(16).padStart(2, '0')).join('');
+}
+
+// Coarse color name from HSV, matching the vocabulary a person would use for a thumbnail
+function colorName([r, g, b]: number[]): string {
+    const max = Math.max(r, g, b) / 255;
+    const min = Math.min(r, g, b) / 255;
+    const saturation = max === 0 ? 0 : (max - min) / max;
+
+    if (max < 0.18) return 'black';
+    if (saturation < 0.15) return max > 0.85 ? 'white' : 'gray';
+
+    let hue = 0;
+    const delta = max - min;
+    const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+    if (max === rn) hue = 60 * (((gn - bn) / delta) % 6);
+    else if (max === gn) hue = 60 * ((bn - rn) / delta + 2);
+    else hue = 60 * ((rn - gn) / delta + 4);
+    if (hue < 0) hue += 360;
+
+    if (hue < 45 && max < 0.6 && saturation > 0.3) return 'brown';
+    if (hue < 15 || hue >= 345) return 'red';
+    if (hue < 45) return 'orange';
+    if (hue < 70) return 'yellow';
+    if (hue < 165) return 'green';
+    if (hue < 200) return 'cyan';
+    if (hue < 255) return 'blue';
+    if (hue < 290) return 'purple';
+    return 'pink';
+}
+
+// Rows of near-uniform black at the top and bottom (letterboxing), capped at a fifth of the height each
+function letterboxRows({ data, width, height }: Pixels): { top: number; bottom: number } {
+    const isBar = (y: number) => {
+        let sum = 0;
+        let sumSq = 0;
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 3;
+            const l = luminance(data[i], data[i + 1], data[i + 2]);
+            sum += l;
+            sumSq += l * l;
+        }
+        const mean = sum / width;
+        return mean < 0.08 && sumSq / width - mean * mean < 0.001;
+    };
+
+    const limit = Math.floor(height / 5);
+    let top = 0;
+    while (top < limit && isBar(top)) top++;
+    let bottom = 0;
+    while (bottom < limit && isBar(height - 1 - bottom)) bottom++;
+
+    // Only symmetric bars are letterboxing; a dark band on one side is part of the design
+    return Math.abs(top - bottom) <= 2 && top >= 4 ? { top, bottom } : { top: 0, bottom: 0 };
+}
+
+interface Decoded {
+    pixels: Pixels;
+    original: { width: number; height: number };
+    letterboxed: boolean;
+    hashGrid: Buffer;                  // 32x32 grayscale for the DCT hash
+    gradientGrid: Buffer;              // 9x8 grayscale for the gradient hash
+}
+
+async function decode(image: Buffer): Promise<Decoded> {
+    const full = await sharp(image).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+    const original = { width: full.info.width, height: full.info.height };
+    const { top, bottom } = letterboxRows({ data: full.data, width: original.width, height: original.height });
+
+    // Everything is measured on the cropped frame, so a letterboxed copy hashes like the original
+    const cropped = () => sharp(full.data, { raw: { width: original.width, height: original.height, channels: 3 } })
+        .extract({ left: 0, top, width: original.width, height: original.height - top - bottom });
+
+    const { data, info } = await cropped()
+        .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: 'inside' })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    const hashGrid = await cropped().resize(32, 32, { fit: 'fill' }).greyscale().raw().toBuffer();
+    const gradientGrid = await cropped().resize(9, 8, { fit: 'fill' }).greyscale().raw().toBuffer();
+
+    return { pixels: { data, width: info.width, height: info.height }, original, letterboxed: top > 0, hashGrid, gradientGrid };
+}
+
+function bitsToHex(bits: boolean[]): string {
+    let hex = '';
+    for (let i = 0; i < bits.length; i += 4) {
+        hex += ((bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0)).toString(16);
+    }
+    return hex;
+}
+
+// pHash: low-frequency 8x8 block of the 32x32 DCT, each coefficient above/below the block's median
+function perceptualHash(grid: Buffer): string {
+    const coefficients: number[] = [];
+    for (let v = 0; v < 8; v++) {
+        for (let u = 0; u < 8; u++) {
+            let sum = 0;
+            for (let y = 0; y < 32; y++) {
+                const cy = Math.cos(((2 * y + 1) * v * Math.PI) / 64);
+                for (let x = 0; x < 32; x++) {
+                    sum += grid[y * 32 + x] * Math.cos(((2 * x + 1) * u * Math.PI) / 64) * cy;
+                }
+            }
+            coefficients.push(sum);
+        }
+    }
+    const threshold = median(coefficients);
+    return bitsToHex(coefficients.map(c => c > threshold));
+}
+
+// dHash: whether each pixel is brighter than its right neighbor on a 9x8 grid
+function gradientHash(grid: Buffer): string {
+    const bits: boolean[] = [];
+    for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+            bits.push(grid[y * 9 + x] > grid[y * 9 + x + 1]);
+        }
+    }
+    return bitsToHex(bits);
+}
+
+function colorHistogram({ data, width, height }: Pixels): number[] {
+    const histogram = new Array<number>(HISTOGRAM_BINS ** 3).fill(0);
+    const n = width * height;
+    const bin = (c: number) => Math.min(HISTOGRAM_BINS - 1, Math.floor((c / 256) * HISTOGRAM_BINS));
+    for (let i = 0; i < n; i++) {
+        histogram[(bin(data[i * 3]) * HISTOGRAM_BINS + bin(data[i * 3 + 1])) * HISTOGRAM_BINS + bin(data[i * 3 + 2])]++;
+    }
+    return histogram.map(count => round(count / n, 4));
+}
+
+// k-means in RGB with seeded k-means++ initialization, so the same image always gives the same palette
+function palette({ data, width, height }: Pixels): PaletteColor[] {
+    const points: number[][] = [];
+    for (let i = 0; i < width * height; i += 2) {
+        points.push([data[i * 3], data[i * 3 + 1], data[i * 3 + 2]]);
+    }
+
+    const distance = (a: number[], b: number[]) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+    const random = seededRandom(points.length);
+    const centers: number[][] = [points[Math.floor(random() * points.length)]];
+
+    while (centers.length < PALETTE_SIZE) {
+        const weights = points.map(p => Math.min(...centers.map(c => distance(p, c))));
+        const total = weights.reduce((s, w) => s + w, 0);
+        if (total === 0) break; // Fewer distinct colors than clusters
+        let target = random() * total;
+        let index = 0;
+        while (index < points.length - 1 && target > weights[index]) {
+            target -= weights[index];
+            index++;
+        }
+        centers.push(points[index]);
+    }
+
+    const assignment = new Array<number>(points.length).fill(0);
+    for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+        const sums = centers.map(() => [0, 0, 0, 0]);
+        points.forEach((p, i) => {
+            let best = 0;
+            centers.forEach((c, k) => {
+                if (distance(p, c) < distance(p, centers[best])) best = k;
+            });
+            assignment[i] = best;
+            sums[best][0] += p[0];
+            sums[best][1] += p[1];
+            sums[best][2] += p[2];
+            sums[best][3]++;
+        });
+        centers.forEach((c, k) => {
+            if (sums[k][3] > 0) centers[k] = [sums[k][0] / sums[k][3], sums[k][1] / sums[k][3], sums[k][2] / sums[k][3]];
+        });
+    }
+
+    const counts = centers.map((_, k) => assignment.filter(a => a === k).length);
+    return centers
+        .map((c, k) => ({ hex: toHex(c), name: colorName(c), share: round(counts[k] / points.length) }))
+        .filter(c => c.share > 0)
+        .sort((a, b) => b.share - a.share);
+}
+
+// Sobel gradient magnitude over the luminance grid; share of interior pixels above the edge threshold
+function edgeDensity(lum: Float64Array, width: number, height: number): number {
+    if (width < 3 || height < 3) return 0;
+    let edges = 0;
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const at = (dx: number, dy: number) => lum[(y + dy) * width + (x + dx)];
+            const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+            const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+            if (Math.sqrt(gx * gx + gy * gy) / 4 > EDGE_THRESHOLD) edges++;
+        }
+    }
+    return edges / ((width - 2) * (height - 2));
+}
+
+// Frequency-tuned saliency: how far each (lightly blurred) pixel's color is from the image's mean color
+function composition({ data, width, height }: Pixels): ImageFeatures['composition'] {
+    const n = width * height;
+    const mean = [0, 0, 0];
+    for (let i = 0; i < n; i++) {
+        mean[0] += data[i * 3] / n;
+        mean[1] += data[i * 3 + 1] / n;
+        mean[2] += data[i * 3 + 2] / n;
+    }
+
+    let total = 0;
+    let thirds = 0;
+    let center = 0;
+    let sumX = 0;
+    let sumY = 0;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const blurred = [0, 0, 0];
+            let count = 0;
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    const yy = y + dy;
+                    const xx = x + dx;
+                    if (yy < 0 || yy >= height || xx < 0 || xx >= width) continue;
+                    const i = (yy * width + xx) * 3;
+                    blurred[0] += data[i];
+                    blurred[1] += data[i + 1];
+                    blurred[2] += data[i + 2];
+                    count++;
+                }
+            }
+            const saliency = Math.sqrt(
+                (blurred[0] / count - mean[0]) ** 2 + (blurred[1] / count - mean[1]) ** 2 + (blurred[2] / count - mean[2]) ** 2
+            );
+
+            const u = (x + 0.5) / width;
+            const v = (y + 0.5) / height;
+            total += saliency;
+            sumX += saliency * u;
+            sumY += saliency * v;
+            if (THIRDS_POINTS.some(([px, py]) => Math.hypot(u - px, v - py) <= THIRDS_RADIUS)) thirds += saliency;
+            if (Math.hypot(u - 0.5, v - 0.5) <= CENTER_RADIUS) center += saliency;
+        }
+    }
+
+    if (total === 0) {
+        return { focus: { x: 0.5, y: 0.5 }, thirdsShare: 0, centerShare: 0, layout: 'spread' };
+    }
+
+    const thirdsShare = thirds / total;
+    const centerShare = center / total;
+    // Compare each region's share of saliency with its share of the frame
+    const thirdsLift = thirdsShare / (THIRDS_POINTS.length * Math.PI * THIRDS_RADIUS ** 2);
+    const centerLift = centerShare / (Math.PI * CENTER_RADIUS ** 2);
+    const layout = Math.max(thirdsLift, centerLift) < 1.3 ? 'spread' : thirdsLift >= centerLift ? 'thirds' : 'centered';
+
+    return {
+        focus: { x: round(sumX / total, 2), y: round(sumY / total, 2) },
+        thirdsShare: round(thirdsShare),
+        centerShare: round(centerShare),
+        layout
+    };
+}
+
+// Every pixel-level feature of one image (JPEG, PNG or WebP bytes)
+export async function analyzeImage(image: Buffer): Promise<ImageFeatures> {
+    const { pixels, original, letterboxed, hashGrid, gradientGrid } = await decode(image);
+    const { data, width, height } = pixels;
+    const n = width * height;
+
+    const lum = new Float64Array(n);
+    let lumSum = 0;
+    let saturationSum = 0;
+    for (let i = 0; i < n; i++) {
+        const r = data[i * 3];
+        const g = data[i * 3 + 1];
+        const b = data[i * 3 + 2];
+        lum[i] = luminance(r, g, b);
+        lumSum += lum[i];
+        const max = Math.max(r, g, b);
+        saturationSum += max === 0 ? 0 : (max - Math.min(r, g, b)) / max;
+    }
+    const brightness = lumSum / n;
+    let variance = 0;
+    for (let i = 0; i < n; i++) variance += (lum[i] - brightness) ** 2;
+    const contrast = Math.sqrt(variance / n);
+
+    const colors = palette(pixels);
+    const edges = edgeDensity(lum, width, height);
+
+    return {
+        width: original.width,
+        height: original.height,
+        letterboxed,
+        palette: colors,
+        dominantColors: [...new Set(colors.filter(c => c.share >= 0.1).map(c => c.name))],
+        brightness: round(brightness),
+        contrast: round(contrast),
+        contrastLevel: contrast < 0.16 ? 'low' : contrast < 0.26 ? 'medium' : 'high',
+        saturation: round(saturationSum / n),
+        edgeDensity: round(edges),
+        clutter: edges < 0.06 ? 'minimal' : edges < 0.14 ? 'moderate' : 'busy',
+        composition: composition(pixels),
+        hashes: {
+            pHash: perceptualHash(hashGrid),
+            dHash: gradientHash(gradientGrid)
+        },
+        histogram: colorHistogram(pixels)
+    };
+}
+
+function hammingDistance(a: string, b: string): number {
+    let bits = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        let x = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+        while (x) {
+            bits += x & 1;
+            x >>= 1;
+        }
+    }
+    return bits;
+}
+
+// How alike two thumbnails look: structure (pHash, dHash) and color (histogram intersection)
+export function visualDistance(a: ImageFeatures, b: ImageFeatures): VisualDistance {
+    const pHash = hammingDistance(a.hashes.pHash, b.hashes.pHash);
+    const dHash = hammingDistance(a.hashes.dHash, b.hashes.dHash);
+    let intersection = 0;
+    a.histogram.forEach((value, i) => { intersection += Math.min(value, b.histogram[i] ?? 0); });
+    const color = round(Math.max(0, 1 - intersection));
+    const combined = round(0.4 * (pHash / 64) + 0.3 * (dHash / 64) + 0.3 * color);
+
+    return {
+        pHash,
+        dHash,
+        color,
+        combined,
+        match: pHash <= NEAR_COPY_BITS && dHash <= NEAR_COPY_BITS ? 'near-copy' : combined <= SIMILAR_DISTANCE ? 'similar' : 'different'
+    };
+}
+
+// Candidates ordered from most to least alike, closest first
+export function nearestVisualNeighbors<T extends { features: ImageFeatures }>(
+    target: ImageFeatures,
+    candidates: T[],
+    limit = 5
+): (T & { distance: VisualDistance })[] {
+    return candidates
+        .map(candidate => ({ ...candidate, distance: visualDistance(target, candidate.features) }))
+        .sort((a, b) => a.distance.combined - b.distance.combined)
+        .slice(0, limit);
+}
+
+// Download and analyze a hosted thumbnail; results are cached by URL. Null when it can't be fetched or decoded.
+export async function analyzeImageUrl(cache: RequestCache, url: string): Promise<ImageFeatures | null> {
+    try {
+        return await cache.fetch('images.features', { url, version: FEATURES_VERSION }, async () => {
+            const response = await axios.get(url, { responseType: 'arraybuffer' });
+            return analyzeImage(Buffer.from(response.data));
+        });
+    } catch (error) {
+        console.error('Image analysis failed:', error);
+        return null;
+    }
+}
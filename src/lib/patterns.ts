@@ -0,0 +1,205 @@
+/**
+ * Title Patterns
+ * One registry of title pattern detectors shared by every route that measures patterns, plus user-defined
+ * regex patterns stored in DATA_DIR/title-patterns.json (edit the file or use /api/patterns)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+const PATTERNS_FILE = path.join(process.env.DATA_DIR || '.data', 'title-patterns.json');
+
+export type PatternCategory = 'hook' | 'format' | 'length' | 'case';
+
+export const PATTERN_CATEGORIES: PatternCategory[] = ['hook', 'format', 'length', 'case'];
+
+export interface TitlePattern {
+    id: string;
+    name: string;
+    category: PatternCategory;
+    custom: boolean;
+    test: (title: string) => boolean;
+}
+
+// A user-defined pattern as stored on disk and returned by the API
+export interface CustomPatternDefinition {
+    id: string;
+    name: string;
+    category: PatternCategory;
+    regex: string;
+    flags: string;                     // RegExp flags, "i" unless given
+    createdAt: string;
+}
+
+export class TitlePatternError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TitlePatternError';
+    }
+}
+
+function wordCount(title: string): number {
+    return title.trim().split(/\s+/).filter(Boolean).length;
+}
+
+function regexPattern(id: string, name: string, category: PatternCategory, regex: RegExp): TitlePattern {
+    return { id, name, category, custom: false, test: (title: string) => regex.test(title) };
+}
+
+// Ids are part of the failures and pattern-transfer responses, so detectors stay even where they
+// overlap (e.g. hasNumber covers numberedList and yearReference, negativeHook covers mistake and never)
+export const BUILTIN_PATTERNS: TitlePattern[] = [
+    // Format: how the title is structured
+    regexPattern('hasNumber', 'Number', 'format', /\d/),
+    regexPattern('startsWithNumber', 'Starts With Number', 'format', /^\d/),
+    {
+        id: 'numberedList',
+        name: 'Numbered List',
+        category: 'format',
+        custom: false,
+        test: (t: string) => /^\d+\s/.test(t) || /\d+\s+(ways|tips|things|reasons|steps|mistakes)/i.test(t)
+    },
+    regexPattern('topList', 'Top X', 'format', /\btop\s+\d+/i),
+    regexPattern('howTo', 'How To', 'format', /^how\s+to/i),
+    regexPattern('whyQuestion', 'Why Question', 'format', /^why\s/i),
+    regexPattern('whatQuestion', 'What Question', 'format', /^what\s|\bwhat\s+is\b/i),
+    regexPattern('question', 'Question Mark', 'format', /\?/),
+    regexPattern('exclamation', 'Exclamation', 'format', /!/),
+    regexPattern('pipe', 'Pipe Separator', 'format', /\|/),
+    regexPattern('dash', 'Dash Separator', 'format', /-/),
+    regexPattern('colon', 'Colon', 'format', /:/),
+    regexPattern('parentheses', 'Parentheses', 'format', /\(|\)/),
+    regexPattern('quotes', 'Quotes', 'format', /"/),
+    regexPattern('comparison', 'Comparison', 'format', /\bvs\.?\b|\bversus\b|compared|better than/i),
+    regexPattern('guide', 'Guide', 'format', /\bguide\b/i),
+    regexPattern('ultimateGuide', 'Ultimate Guide', 'format', /ultimate|complete|definitive/i),
+    regexPattern('yearReference', 'Year Reference', 'format', /202\d/),
+    regexPattern('emoji', 'Emoji', 'format', /[\u{1F300}-\u{1F9FF}]/u),
+
+    // Hook: the promise or emotion used to earn the click
+    regexPattern('beginner', 'Beginner Focus', 'hook', /beginner|newbie|starter|first time/i),
+    regexPattern('easy', 'Easy', 'hook', /\beasy\b/i),
+    regexPattern('simple', 'Simple', 'hook', /\bsimple\b/i),
+    regexPattern('fast', 'Fast', 'hook', /\b(fast|quick)\b/i),
+    regexPattern('best', 'Best', 'hook', /\bbest\b/i),
+    regexPattern('negativeHook', 'Negative Hook', 'hook', /don't|stop|never|avoid|worst|mistake/i),
+    regexPattern('mistake', 'Mistake', 'hook', /mistake/i),
+    regexPattern('never', 'Never', 'hook', /\bnever\b/i),
+    regexPattern('always', 'Always', 'hook', /\balways\b/i),
+    regexPattern('wrong', 'Wrong', 'hook', /\bwrong\b/i),
+    regexPattern('secret', 'Secret/Hidden', 'hook', /secret|hidden|unknown|no one knows/i),
+    regexPattern('truth', 'Truth/Revealed', 'hook', /\btruth\b|revealed/i),
+    regexPattern('hack', 'Hack', 'hook', /\bhacks?\b/i),
+    regexPattern('challenge', 'Challenge Hook', 'hook', /challenge|impossible|can't|couldn't/i),
+    regexPattern('emotional', 'Emotional Trigger', 'hook', /amazing|shocking|insane|crazy|mind-blowing/i),
+
+    // Length
+    { id: 'shortTitle', name: 'Short Title (3 words or less)', category: 'length', custom: false, test: (t: string) => wordCount(t) <= 3 },
+    { id: 'longTitle', name: 'Long Title (10+ words)', category: 'length', custom: false, test: (t: string) => wordCount(t) >= 10 },
+
+    // Case: 4+ capitals, so acronyms (DIY, USA) don't count as shouting
+    regexPattern('allCapsWord', 'ALL CAPS Word', 'case', /[A-Z]{4,}/),
+    { id: 'allCapsTitle', name: 'ALL CAPS Title', category: 'case', custom: false, test: (t: string) => /[A-Z]/.test(t) && t === t.toUpperCase() }
+];
+
+function readCustom(): CustomPatternDefinition[] {
+    try {
+        return JSON.parse(fs.readFileSync(PATTERNS_FILE, 'utf8')).patterns || [];
+    } catch {
+        return [];
+    }
+}
+
+function writeCustom(patterns: CustomPatternDefinition[]): void {
+    fs.mkdirSync(path.dirname(PATTERNS_FILE), { recursive: true });
+    fs.writeFileSync(PATTERNS_FILE, JSON.stringify({ patterns }, null, 2));
+}
+
+function compile(definition: CustomPatternDefinition): TitlePattern | null {
+    try {
+        // "g"/"y" would make test() stateful across titles
+        const regex = new RegExp(definition.regex, (definition.flags ?? 'i').replace(/[gy]/g, ''));
+        return { id: definition.id, name: definition.name, category: definition.category, custom: true, test: (title: string) => regex.test(title) };
+    } catch {
+        // Hand-edited entries with a broken regex are skipped rather than failing every route
+        console.warn(`Skipping title pattern "${definition.id}": invalid regex`);
+        return null;
+    }
+}
+
+export function listCustomPatterns(): CustomPatternDefinition[] {
+    return readCustom();
+}
+
+// Built-in detectors followed by the user's own
+export function listTitlePatterns(): TitlePattern[] {
+    const custom = readCustom()
+        .filter(d => d.id && d.name && d.regex && PATTERN_CATEGORIES.includes(d.category))
+        .map(compile)
+        .filter((p): p is TitlePattern => p !== null);
+    return [...BUILTIN_PATTERNS, ...custom];
+}
+
+// Ids of the patterns a title matches
+export function matchTitlePatterns(title: string, patterns: TitlePattern[] = listTitlePatterns()): string[] {
+    return patterns.filter(p => p.test(title)).map(p => p.id);
+}
+
+// Input comes straight from a request body, so its shape is checked before anything is read
+export function addTitlePattern(body: unknown): CustomPatternDefinition {
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new TitlePatternError('Body must be an object with "name", "category" and "regex"');
+    }
+    const input = body as Record<string, unknown>;
+
+    for (const field of ['id', 'name', 'regex', 'flags', 'category']) {
+        if (input[field] !== undefined && typeof input[field] !== 'string') {
+            throw new TitlePatternError(`"${field}" must be a string`);
+        }
+    }
+
+    const name = (input.name as string | undefined)?.trim();
+    if (!name) throw new TitlePatternError('Missing "name"');
+    const category = input.category as PatternCategory;
+    if (!PATTERN_CATEGORIES.includes(category)) {
+        throw new TitlePatternError(`Invalid "category". Use one of: ${PATTERN_CATEGORIES.join(', ')}`);
+    }
+    const regex = input.regex as string | undefined;
+    if (!regex?.trim()) throw new TitlePatternError('Missing "regex"');
+
+    const flags = ((input.flags as string | undefined) ?? 'i').replace(/[gy]/g, '');
+    try {
+        new RegExp(regex, flags);
+    } catch (error) {
+        throw new TitlePatternError(`Invalid "regex": ${(error as Error).message}`);
+    }
+
+    const id = (input.id as string | undefined)?.trim() || `custom-${crypto.randomBytes(3).toString('hex')}`;
+    if (!/^[\w-]+$/.test(id)) throw new TitlePatternError('"id" may only contain letters, digits, "_" and "-"');
+
+    const custom = readCustom();
+    if (BUILTIN_PATTERNS.some(p => p.id === id) || custom.some(p => p.id === id)) {
+        throw new TitlePatternError(`A pattern with id "${id}" already exists`);
+    }
+
+    const definition: CustomPatternDefinition = {
+        id,
+        name,
+        category,
+        regex,
+        flags,
+        createdAt: new Date().toISOString()
+    };
+
+    writeCustom([...custom, definition]);
+    return definition;
+}
+
+export function removeTitlePattern(id: string): boolean {
+    const custom = readCustom();
+    const remaining = custom.filter(p => p.id !== id);
+    if (remaining.length === custom.length) return false;
+    writeCustom(remaining);
+    return true;
+}
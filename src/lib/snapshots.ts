@@ -0,0 +1,217 @@
+/**
+ * Niche Snapshot History
+ * Every analyze/evaluate run is appended as a dated snapshot so niches can be tracked and diffed over time
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { FIXTURE_MODE } from './fixtures';
+
+const SNAPSHOT_DIR = path.join(process.env.DATA_DIR || '.data', 'snapshots');
+
+export type SnapshotTool = 'analyze' | 'evaluate';
+
+export const SNAPSHOT_TOOLS: SnapshotTool[] = ['analyze', 'evaluate'];
+
+export interface LengthBucketSnapshot {
+    range: string;
+    count: number;
+    avgViews: number;
+    opportunityScore?: number;
+}
+
+export interface NicheMetrics {
+    sampleSize: number;
+    saturationScore: number;
+    outlierRate: number;               // % of results that are outliers
+    lengthBuckets: LengthBucketSnapshot[];
+    momentum: {
+        status: string;
+        trendChange: number | null;    // % search interest change, null when Trends was unavailable
+        recentPct: number | null;      // % of results uploaded in the last 30 days
+    } | null;
+    loyaltyRatio: number | null;
+    demandScore: number | null;
+}
+
+export interface NicheSnapshot {
+    id: string;                        // ISO timestamp of the run
+    tool: SnapshotTool;
+    query: string;
+    region: string;
+    takenAt: string;
+    metrics: NicheMetrics;
+}
+
+export interface TrackedNiche {
+    tool: SnapshotTool;
+    query: string;
+    region: string;
+    snapshots: number;
+    firstTakenAt: string;
+    lastTakenAt: string;
+    latest: NicheMetrics;
+}
+
+// "Budget  Travel" and "budget travel" are the same niche
+function normalizeQuery(query: string): string {
+    return query.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Readable slug plus a short hash so distinct queries never share a file
+function fileFor(tool: SnapshotTool, query: string, region: string): string {
+    const key = `${normalizeQuery(query)}|${region.toUpperCase()}`;
+    const slug = normalizeQuery(query).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+    const hash = crypto.createHash('sha1').update(key).digest('hex').slice(0, 8);
+    return path.join(SNAPSHOT_DIR, tool, `${slug || 'query'}-${hash}.jsonl`);
+}
+
+function readFile(file: string): NicheSnapshot[] {
+    try {
+        return fs.readFileSync(file, 'utf8')
+            .split('\n')
+            .filter(line => line.trim())
+            .map(line => JSON.parse(line) as NicheSnapshot);
+    } catch {
+        return [];
+    }
+}
+
+// Append-only JSONL: one line per run, oldest first
+export function saveSnapshot(tool: SnapshotTool, query: string, region: string, metrics: NicheMetrics): NicheSnapshot | null {
+    // Replayed runs are not new observations
+    if (FIXTURE_MODE === 'replay') return null;
+
+    const takenAt = new Date().toISOString();
+    const snapshot: NicheSnapshot = {
+        id: takenAt,
+        tool,
+        query: normalizeQuery(query),
+        region: region.toUpperCase(),
+        takenAt,
+        metrics
+    };
+
+    const file = fileFor(tool, query, region);
+    try {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.appendFileSync(file, JSON.stringify(snapshot) + '\n');
+        return snapshot;
+    } catch (error) {
+        console.error('Failed to save niche snapshot:', error);
+        return null;
+    }
+}
+
+export function listSnapshots(tool: SnapshotTool, query: string, region: string = 'US'): NicheSnapshot[] {
+    return readFile(fileFor(tool, query, region));
+}
+
+// Every niche with at least one snapshot, most recently run first
+export function listTrackedNiches(tool?: SnapshotTool): TrackedNiche[] {
+    const tools = tool ? [tool] : SNAPSHOT_TOOLS;
+    const tracked: TrackedNiche[] = [];
+
+    for (const t of tools) {
+        let files: string[] = [];
+        try {
+            files = fs.readdirSync(path.join(SNAPSHOT_DIR, t)).filter(f => f.endsWith('.jsonl'));
+        } catch {
+            continue;
+        }
+
+        for (const file of files) {
+            const snapshots = readFile(path.join(SNAPSHOT_DIR, t, file));
+            if (snapshots.length === 0) continue;
+            const first = snapshots[0];
+            const last = snapshots[snapshots.length - 1];
+            tracked.push({
+                tool: t,
+                query: last.query,
+                region: last.region,
+                snapshots: snapshots.length,
+                firstTakenAt: first.takenAt,
+                lastTakenAt: last.takenAt,
+                latest: last.metrics
+            });
+        }
+    }
+
+    return tracked.sort((a, b) => b.lastTakenAt.localeCompare(a.lastTakenAt));
+}
+
+export interface MetricChange {
+    from: number | null;
+    to: number | null;
+    change: number | null;
+}
+
+export interface SnapshotDiff {
+    from: { id: string; takenAt: string };
+    to: { id: string; takenAt: string };
+    days: number;
+    sampleSize: MetricChange;
+    saturationScore: MetricChange;
+    outlierRate: MetricChange;
+    loyaltyRatio: MetricChange;
+    demandScore: MetricChange;
+    momentum: {
+        statusFrom: string | null;
+        statusTo: string | null;
+        trendChange: MetricChange;
+        recentPct: MetricChange;
+    };
+    lengthBuckets: {
+        range: string;
+        count: MetricChange;
+        avgViews: MetricChange;
+        opportunityScore: MetricChange;
+    }[];
+}
+
+function change(from: number | null | undefined, to: number | null | undefined): MetricChange {
+    const a = from ?? null;
+    const b = to ?? null;
+    return { from: a, to: b, change: a !== null && b !== null ? Math.round((b - a) * 100) / 100 : null };
+}
+
+export function diffSnapshots(from: NicheSnapshot, to: NicheSnapshot): SnapshotDiff {
+    const a = from.metrics;
+    const b = to.metrics;
+
+    // Union of buckets so a bucket that appears or empties out still shows up
+    const ranges = [...new Set([...a.lengthBuckets, ...b.lengthBuckets].map(bucket => bucket.range))];
+    const lengthBuckets = ranges.map(range => {
+        const before = a.lengthBuckets.find(bucket => bucket.range === range);
+        const after = b.lengthBuckets.find(bucket => bucket.range === range);
+        return {
+            range,
+            count: change(before?.count ?? 0, after?.count ?? 0),
+            avgViews: change(before?.avgViews, after?.avgViews),
+            opportunityScore: change(before?.opportunityScore, after?.opportunityScore)
+        };
+    });
+
+    return {
+        from: { id: from.id, takenAt: from.takenAt },
+        to: { id: to.id, takenAt: to.takenAt },
+        days: Math.round((new Date(to.takenAt).getTime() - new Date(from.takenAt).getTime()) / (1000 * 60 * 60 * 24)),
+        sampleSize: change(a.sampleSize, b.sampleSize),
+        saturationScore: change(a.saturationScore, b.saturationScore),
+        outlierRate: change(a.outlierRate, b.outlierRate),
+        loyaltyRatio: change(a.loyaltyRatio, b.loyaltyRatio),
+        demandScore: change(a.demandScore, b.demandScore),
+        momentum: {
+            statusFrom: a.momentum?.status ?? null,
+            statusTo: b.momentum?.status ?? null,
+            trendChange: change(a.momentum?.trendChange, b.momentum?.trendChange),
+            recentPct: change(a.momentum?.recentPct, b.momentum?.recentPct)
+        },
+        lengthBuckets
+    };
+}
+
+export function isSnapshotTool(value: string | null): value is SnapshotTool {
+    return SNAPSHOT_TOOLS.includes(value as SnapshotTool);
+}
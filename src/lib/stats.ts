@@ -13,6 +13,24 @@ export function expTransform(logValue: number): number {
     return Math.exp(logValue) - 1;
 }
 
+// Arithmetic mean (0 for an empty sample)
+export function calculateMean(values: number[]): number {
+    if (values.length === 0) return 0;
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// Population standard deviation around a precomputed mean
+export function calculateStdDev(values: number[], mean: number = calculateMean(values)): number {
+    if (values.length < 2) return 0;
+    const squaredDiffs = values.map(v => Math.pow(v - mean, 2));
+    return Math.sqrt(squaredDiffs.reduce((sum, v) => sum + v, 0) / values.length);
+}
+
+export function calculateZScore(value: number, mean: number, stdDev: number): number {
+    if (stdDev === 0) return 0;
+    return (value - mean) / stdDev;
+}
+
 // Calculate mean of log-transformed values
 export function logMean(values: number[]): number {
     if (values.length === 0) return 0;
@@ -62,11 +80,13 @@ export function logModifiedZScore(value: number, values: number[]): number {
     return modifiedZScore(logValue, logValues);
 }
 
-// Confidence interval for mean difference (using t-distribution approximation)
+// Confidence interval for mean difference (Welch t-interval)
 export function meanDifferenceCI(group1: number[], group2: number[], confidence: number = 0.95): {
     difference: number;
     lowerBound: number;
     upperBound: number;
+    pValue: number;
+    degreesOfFreedom: number;
     significant: boolean;
     sampleSufficient: boolean;
 } {
@@ -77,7 +97,7 @@ export function meanDifferenceCI(group1: number[], group2: number[], confidence:
     const sampleSufficient = n1 >= 5 && n2 >= 5;
 
     if (n1 === 0 || n2 === 0) {
-        return { difference: 0, lowerBound: 0, upperBound: 0, significant: false, sampleSufficient: false };
+        return { difference: 0, lowerBound: 0, upperBound: 0, pValue: 1, degreesOfFreedom: 0, significant: false, sampleSufficient: false };
     }
 
     const mean1 = group1.reduce((sum, v) => sum + v, 0) / n1;
@@ -87,13 +107,13 @@ export function meanDifferenceCI(group1: number[], group2: number[], confidence:
     const var1 = group1.reduce((sum, v) => sum + Math.pow(v - mean1, 2), 0) / (n1 - 1 || 1);
     const var2 = group2.reduce((sum, v) => sum + Math.pow(v - mean2, 2), 0) / (n2 - 1 || 1);
 
-    const standardError = Math.sqrt(var1 / n1 + var2 / n2);
+    const welch = welchTTest(mean1, var1, n1, mean2, var2, n2);
 
-    // t-value for 95% CI (approximation for large samples)
-    const tValue = confidence === 0.95 ? 1.96 : 1.645;
+    // Critical t for a two-sided interval at the Welch-Satterthwaite degrees of freedom
+    const tValue = studentTQuantile(1 - (1 - confidence) / 2, welch.degreesOfFreedom);
 
-    const lowerBound = difference - tValue * standardError;
-    const upperBound = difference + tValue * standardError;
+    const lowerBound = difference - tValue * welch.standardError;
+    const upperBound = difference + tValue * welch.standardError;
 
     // Significant if CI doesn't cross zero
     const significant = (lowerBound > 0) || (upperBound < 0);
@@ -102,11 +122,47 @@ export function meanDifferenceCI(group1: number[], group2: number[], confidence:
         difference: Math.round(difference * 100) / 100,
         lowerBound: Math.round(lowerBound * 100) / 100,
         upperBound: Math.round(upperBound * 100) / 100,
+        pValue: Math.round(welch.pValue * 1000) / 1000,
+        degreesOfFreedom: Math.round(welch.degreesOfFreedom * 10) / 10,
         significant,
         sampleSufficient
     };
 }
 
+// Two-proportion z-test (pooled), e.g. share of videos with a pattern in two niches
+export function twoProportionTest(successes1: number, n1: number, successes2: number, n2: number): {
+    difference: number;
+    zScore: number;
+    significant: boolean;
+    sampleSufficient: boolean;
+} {
+    if (n1 === 0 || n2 === 0) {
+        return { difference: 0, zScore: 0, significant: false, sampleSufficient: false };
+    }
+
+    const p1 = successes1 / n1;
+    const p2 = successes2 / n2;
+    const pooled = (successes1 + successes2) / (n1 + n2);
+    const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+    const zScore = standardError > 0 ? (p1 - p2) / standardError : 0;
+
+    // Normal approximation needs at least 5 expected successes and failures in each group
+    const sampleSufficient = Math.min(n1, n2) * Math.min(pooled, 1 - pooled) >= 5;
+
+    return {
+        difference: Math.round((p1 - p2) * 1000) / 10,   // percentage points
+        zScore: Math.round(zScore * 100) / 100,
+        significant: Math.abs(zScore) > 1.96,
+        sampleSufficient
+    };
+}
+
+// Fewest videos on each side of a pattern split before its lift is tested
+const MIN_LIFT_SAMPLES = 3;
+
+// Significance threshold for lift tests (applied to adjusted p-values across a batch)
+export const SIGNIFICANCE_LEVEL = 0.1;
+
 // Calculate pattern lift with significance test
 export function calculatePatternLift(
     viewsWithPattern: number[],
@@ -116,18 +172,20 @@ export function calculatePatternLift(
     avgWith: number;
     avgWithout: number;
     pValue: number;
+    degreesOfFreedom: number;
     significant: boolean;
     sampleSize: { with: number; without: number };
 } {
     const n1 = viewsWithPattern.length;
     const n2 = viewsWithoutPattern.length;
 
-    if (n1 < 3 || n2 < 3) {
+    if (n1 < MIN_LIFT_SAMPLES || n2 < MIN_LIFT_SAMPLES) {
         return {
             lift: 1,
             avgWith: 0,
             avgWithout: 0,
             pValue: 1,
+            degreesOfFreedom: 0,
             significant: false,
             sampleSize: { with: n1, without: n2 }
         };
@@ -143,12 +201,8 @@ export function calculatePatternLift(
     const var1 = logWith.reduce((sum, v) => sum + Math.pow(v - mean1, 2), 0) / (n1 - 1);
     const var2 = logWithout.reduce((sum, v) => sum + Math.pow(v - mean2, 2), 0) / (n2 - 1);
 
-    // Welch's t-test
-    const pooledSE = Math.sqrt(var1 / n1 + var2 / n2);
-    const tStat = pooledSE > 0 ? (mean1 - mean2) / pooledSE : 0;
-
-    // Approximate p-value using normal approximation for large samples
-    const pValue = 2 * (1 - normalCDF(Math.abs(tStat)));
+    // Welch's t-test, exact t-distribution (small groups are common)
+    const { pValue, degreesOfFreedom } = welchTTest(mean1, var1, n1, mean2, var2, n2);
 
     // Calculate lift in original scale
     const avgWith = Math.round(viewsWithPattern.reduce((sum, v) => sum + v, 0) / n1);
@@ -160,27 +214,193 @@ export function calculatePatternLift(
         avgWith,
         avgWithout,
         pValue: Math.round(pValue * 1000) / 1000,
-        significant: pValue < 0.1,
+        degreesOfFreedom: Math.round(degreesOfFreedom * 10) / 10,
+        significant: pValue < SIGNIFICANCE_LEVEL,
+        sampleSize: { with: n1, without: n2 }
+    };
+}
+
+// Pattern lift on values already in log space (e.g. log residuals from a fitted model), so nothing
+// is rounded or shifted by +1 before the test; lift is the ratio of geometric means
+export function calculateLogLift(
+    logWithPattern: number[],
+    logWithoutPattern: number[]
+): {
+    lift: number;
+    pValue: number;
+    degreesOfFreedom: number;
+    significant: boolean;
+    sampleSize: { with: number; without: number };
+} {
+    const n1 = logWithPattern.length;
+    const n2 = logWithoutPattern.length;
+
+    if (n1 < MIN_LIFT_SAMPLES || n2 < MIN_LIFT_SAMPLES) {
+        return { lift: 1, pValue: 1, degreesOfFreedom: 0, significant: false, sampleSize: { with: n1, without: n2 } };
+    }
+
+    const mean1 = logWithPattern.reduce((sum, v) => sum + v, 0) / n1;
+    const mean2 = logWithoutPattern.reduce((sum, v) => sum + v, 0) / n2;
+
+    const var1 = logWithPattern.reduce((sum, v) => sum + Math.pow(v - mean1, 2), 0) / (n1 - 1);
+    const var2 = logWithoutPattern.reduce((sum, v) => sum + Math.pow(v - mean2, 2), 0) / (n2 - 1);
+
+    const { pValue, degreesOfFreedom } = welchTTest(mean1, var1, n1, mean2, var2, n2);
+
+    return {
+        lift: Math.round(Math.exp(mean1 - mean2) * 100) / 100,
+        pValue: Math.round(pValue * 1000) / 1000,
+        degreesOfFreedom: Math.round(degreesOfFreedom * 10) / 10,
+        significant: pValue < SIGNIFICANCE_LEVEL,
         sampleSize: { with: n1, without: n2 }
     };
 }
 
-// Normal CDF approximation for p-value calculation
-function normalCDF(x: number): number {
-    const a1 = 0.254829592;
-    const a2 = -0.284496736;
-    const a3 = 1.421413741;
-    const a4 = -1.453152027;
-    const a5 = 1.061405429;
-    const p = 0.3275911;
+// Adjust a batch of p-values for multiple comparisons, returned in input order
+// bh: Benjamini-Hochberg (controls the false discovery rate)
+// holm: Holm step-down (controls the family-wise error rate, stricter)
+export function adjustPValues(pValues: number[], method: 'bh' | 'holm' = 'bh'): number[] {
+    const m = pValues.length;
+    const order = pValues.map((p, i) => i).sort((a, b) => pValues[a] - pValues[b]);
+    const adjusted = new Array<number>(m);
+
+    if (method === 'holm') {
+        let running = 0;
+        order.forEach((index, rank) => {
+            running = Math.max(running, Math.min(1, (m - rank) * pValues[index]));
+            adjusted[index] = running;
+        });
+    } else {
+        let running = 1;
+        for (let rank = m - 1; rank >= 0; rank--) {
+            const index = order[rank];
+            running = Math.min(running, (m / (rank + 1)) * pValues[index]);
+            adjusted[index] = running;
+        }
+    }
+
+    return adjusted.map(p => Math.round(p * 1000) / 1000);
+}
+
+// Adjust the lift tests run on one sample together; splits too small to test stay at p = 1
+// and don't count toward the batch. `significant` is recomputed from the adjusted p-value.
+export function adjustPatternLifts<T extends { pValue: number; sampleSize: { with: number; without: number } }>(
+    lifts: T[],
+    method: 'bh' | 'holm' = 'bh'
+): (T & { adjustedPValue: number; significant: boolean })[] {
+    const isTested = (l: T) => l.sampleSize.with >= MIN_LIFT_SAMPLES && l.sampleSize.without >= MIN_LIFT_SAMPLES;
+    const tested = lifts.filter(isTested);
+    const adjusted = adjustPValues(tested.map(l => l.pValue), method);
+
+    let next = 0;
+    return lifts.map(l => {
+        const adjustedPValue = isTested(l) ? adjusted[next++] : 1;
+        return { ...l, adjustedPValue, significant: adjustedPValue < SIGNIFICANCE_LEVEL };
+    });
+}
+
+// Welch's unequal-variance t-test from summary statistics (sample variances)
+function welchTTest(mean1: number, var1: number, n1: number, mean2: number, var2: number, n2: number): {
+    standardError: number;
+    tStat: number;
+    degreesOfFreedom: number;
+    pValue: number;
+} {
+    const se1 = var1 / n1;
+    const se2 = var2 / n2;
+    const standardError = Math.sqrt(se1 + se2);
+    const tStat = standardError > 0 ? (mean1 - mean2) / standardError : 0;
+
+    // Welch-Satterthwaite; a group of one contributes no variance estimate
+    const denominator = (n1 > 1 ? se1 * se1 / (n1 - 1) : 0) + (n2 > 1 ? se2 * se2 / (n2 - 1) : 0);
+    const degreesOfFreedom = denominator > 0
+        ? Math.pow(se1 + se2, 2) / denominator
+        : Math.max(1, n1 + n2 - 2);
+
+    const pValue = 2 * (1 - studentTCDF(Math.abs(tStat), degreesOfFreedom));
+
+    return { standardError, tStat, degreesOfFreedom, pValue };
+}
+
+// Student-t CDF via the regularized incomplete beta function
+export function studentTCDF(t: number, degreesOfFreedom: number): number {
+    const x = degreesOfFreedom / (degreesOfFreedom + t * t);
+    const tail = 0.5 * regularizedBeta(x, degreesOfFreedom / 2, 0.5);
+    return t >= 0 ? 1 - tail : tail;
+}
+
+// Inverse Student-t CDF (bisection; used for critical values)
+export function studentTQuantile(p: number, degreesOfFreedom: number): number {
+    if (p === 0.5) return 0;
+    if (p < 0.5) return -studentTQuantile(1 - p, degreesOfFreedom);
+
+    let lo = 0;
+    let hi = 1;
+    while (studentTCDF(hi, degreesOfFreedom) < p && hi < 1e6) hi *= 2;
+
+    for (let i = 0; i < 100 && hi - lo > 1e-10; i++) {
+        const mid = (lo + hi) / 2;
+        if (studentTCDF(mid, degreesOfFreedom) < p) lo = mid;
+        else hi = mid;
+    }
+    return (lo + hi) / 2;
+}
+
+// Regularized incomplete beta I_x(a, b)
+function regularizedBeta(x: number, a: number, b: number): number {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+
+    const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+
+    // The continued fraction converges fastest below the mean; use the symmetry relation above it
+    return x < (a + 1) / (a + b + 2)
+        ? front * betaContinuedFraction(x, a, b) / a
+        : 1 - front * betaContinuedFraction(1 - x, b, a) / b;
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz's method)
+function betaContinuedFraction(x: number, a: number, b: number): number {
+    const tiny = 1e-300;
+    const clamp = (v: number) => Math.abs(v) < tiny ? tiny : v;
 
-    const sign = x < 0 ? -1 : 1;
-    x = Math.abs(x) / Math.sqrt(2);
+    let c = 1;
+    let d = 1 / clamp(1 - (a + b) * x / (a + 1));
+    let h = d;
 
-    const t = 1.0 / (1.0 + p * x);
-    const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
+    for (let m = 1; m <= 200; m++) {
+        const m2 = 2 * m;
+
+        // Even step
+        let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+        d = 1 / clamp(1 + aa * d);
+        c = clamp(1 + aa / c);
+        h *= d * c;
+
+        // Odd step
+        aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+        d = 1 / clamp(1 + aa * d);
+        c = clamp(1 + aa / c);
+        const delta = d * c;
+        h *= delta;
+
+        if (Math.abs(delta - 1) < 3e-14) break;
+    }
 
-    return 0.5 * (1.0 + sign * y);
+    return h;
+}
+
+// Log-gamma (Lanczos approximation)
+function logGamma(x: number): number {
+    const coefficients = [
+        76.18009172947146, -86.50532032941677, 24.01409824083091,
+        -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
+    ];
+    let y = x;
+    const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+    let series = 1.000000000190015;
+    coefficients.forEach(coefficient => { series += coefficient / ++y; });
+    return -tmp + Math.log(2.5066282746310005 * series / x);
 }
 
 // Character-level readability for short text (better than Flesch-Kincaid for titles)
@@ -269,3 +489,340 @@ export function nicheNormalizedVelocity(
         interpretation
     };
 }
+
+// Seeded PRNG (mulberry32) for reproducible runs
+export function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Stable 32-bit seed from a string (FNV-1a)
+export function hashSeed(text: string): number {
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+// ===== Resampling (bootstrap and permutation) =====
+// View counts are heavy-tailed and samples are small, so these avoid normality assumptions.
+// Every function is seeded: by default the seed comes from the data, so the same sample
+// always gets the same interval.
+
+const DEFAULT_RESAMPLES = 1000;
+
+export interface ResampleOptions {
+    resamples?: number;
+    confidence?: number;
+    seed?: number;
+}
+
+export interface BootstrapInterval {
+    estimate: number;
+    lower: number;
+    upper: number;
+    confidence: number;
+    resamples: number;
+}
+
+function sampleSeed(...groups: number[][]): number {
+    return hashSeed(groups.map(g => g.join(',')).join('|'));
+}
+
+function resample(values: number[], random: () => number): number[] {
+    return values.map(() => values[Math.floor(random() * values.length)]);
+}
+
+// Percentile interval from bootstrap replicates; replicates that aren't finite (e.g. a ratio over zero) are dropped
+function percentileInterval(estimate: number, replicates: number[], confidence: number): BootstrapInterval {
+    const sorted = replicates.filter(Number.isFinite).sort((a, b) => a - b);
+    const at = (q: number) => sorted.length > 0
+        ? sorted[Math.min(sorted.length - 1, Math.max(0, Math.floor(q * sorted.length)))]
+        : estimate;
+    const alpha = 1 - confidence;
+
+    return {
+        estimate: Math.round(estimate * 100) / 100,
+        lower: Math.round(at(alpha / 2) * 100) / 100,
+        upper: Math.round(at(1 - alpha / 2) * 100) / 100,
+        confidence,
+        resamples: sorted.length
+    };
+}
+
+// Percentile bootstrap CI for a statistic of one sample (mean by default; pass `median` for medians)
+export function bootstrapCI(
+    values: number[],
+    statistic: (sample: number[]) => number = calculateMean,
+    options: ResampleOptions = {}
+): BootstrapInterval | null {
+    if (values.length === 0) return null;
+
+    const { resamples = DEFAULT_RESAMPLES, confidence = 0.95, seed = sampleSeed(values) } = options;
+    const random = seededRandom(seed);
+    const replicates: number[] = [];
+    for (let i = 0; i < resamples; i++) replicates.push(statistic(resample(values, random)));
+
+    return percentileInterval(statistic(values), replicates, confidence);
+}
+
+// Bootstrap CI for a proportion, e.g. an outlier rate (0-1)
+export function bootstrapRateCI(hits: number, total: number, options: ResampleOptions = {}): BootstrapInterval | null {
+    const indicators = Array.from({ length: total }, (_, i) => (i < hits ? 1 : 0));
+    return bootstrapCI(indicators, calculateMean, options);
+}
+
+// Bootstrap CI for a statistic comparing two samples, each resampled independently (e.g. a lift ratio)
+export function bootstrapTwoSampleCI(
+    group1: number[],
+    group2: number[],
+    statistic: (sample1: number[], sample2: number[]) => number,
+    options: ResampleOptions = {}
+): BootstrapInterval | null {
+    if (group1.length === 0 || group2.length === 0) return null;
+
+    const { resamples = DEFAULT_RESAMPLES, confidence = 0.95, seed = sampleSeed(group1, group2) } = options;
+    const random = seededRandom(seed);
+    const replicates: number[] = [];
+    for (let i = 0; i < resamples; i++) {
+        replicates.push(statistic(resample(group1, random), resample(group2, random)));
+    }
+
+    return percentileInterval(statistic(group1, group2), replicates, confidence);
+}
+
+// Two-sided permutation test: shuffle group labels and count how often the statistic is at least
+// as extreme as observed. Difference in means by default.
+export function permutationTest(
+    group1: number[],
+    group2: number[],
+    statistic: (sample1: number[], sample2: number[]) => number = (a, b) => calculateMean(a) - calculateMean(b),
+    options: { permutations?: number; seed?: number } = {}
+): { observed: number; pValue: number; permutations: number } {
+    const { permutations = DEFAULT_RESAMPLES, seed = sampleSeed(group1, group2) } = options;
+    const observed = statistic(group1, group2);
+
+    if (group1.length === 0 || group2.length === 0) {
+        return { observed, pValue: 1, permutations: 0 };
+    }
+
+    const random = seededRandom(seed);
+    const pooled = [...group1, ...group2];
+    let extreme = 0;
+
+    for (let i = 0; i < permutations; i++) {
+        // Fisher-Yates shuffle of the first n1 slots is enough to draw a random split
+        for (let j = 0; j < group1.length; j++) {
+            const k = j + Math.floor(random() * (pooled.length - j));
+            [pooled[j], pooled[k]] = [pooled[k], pooled[j]];
+        }
+        const permuted = statistic(pooled.slice(0, group1.length), pooled.slice(group1.length));
+        if (Math.abs(permuted) >= Math.abs(observed) - 1e-12) extreme++;
+    }
+
+    // +1 so a p-value is never exactly zero
+    const pValue = (extreme + 1) / (permutations + 1);
+
+    return {
+        observed: Math.round(observed * 1000) / 1000,
+        pValue: Math.round(pValue * 1000) / 1000,
+        permutations
+    };
+}
+
+// Resampled counterpart to calculatePatternLift: bootstrap CI for the lift (ratio of mean views)
+// and a permutation p-value on log views
+export function resamplePatternLift(
+    viewsWithPattern: number[],
+    viewsWithoutPattern: number[],
+    options: ResampleOptions = {}
+): { liftCI: BootstrapInterval | null; permutationPValue: number } {
+    if (viewsWithPattern.length < MIN_LIFT_SAMPLES || viewsWithoutPattern.length < MIN_LIFT_SAMPLES) {
+        return { liftCI: null, permutationPValue: 1 };
+    }
+
+    const liftCI = bootstrapTwoSampleCI(viewsWithPattern, viewsWithoutPattern, (a, b) => {
+        const without = calculateMean(b);
+        return without > 0 ? calculateMean(a) / without : NaN;
+    }, options);
+
+    const { pValue } = permutationTest(
+        viewsWithPattern.map(logTransform),
+        viewsWithoutPattern.map(logTransform),
+        undefined,
+        { permutations: options.resamples, seed: options.seed }
+    );
+
+    return { liftCI, permutationPValue: pValue };
+}
+
+// ===== Empirical-Bayes shrinkage =====
+// Small groups (a 2-video bucket, a pattern seen 5 times) produce extreme means by chance.
+// A normal-normal hierarchical model pulls each group's estimate toward the prior mean in
+// proportion to its sampling variance; the between-group variance is estimated from the data
+// (DerSimonian-Laird method of moments). Intervals add Morris's correction for the uncertainty in
+// the estimated shrinkage and prior mean, so they don't collapse when groups look alike.
+
+export interface GroupEstimate {
+    mean: number;
+    variance: number;           // sampling variance of the mean
+    degreesOfFreedom: number;   // for the interval's t critical value
+}
+
+export interface ShrunkEstimate {
+    raw: number;
+    estimate: number;
+    lower: number;
+    upper: number;
+    shrinkage: number;          // 0 = kept as measured, 1 = fully pulled to the prior mean
+}
+
+export function shrinkEstimates(
+    groups: GroupEstimate[],
+    options: { priorMean?: number; priorMeanVariance?: number; confidence?: number } = {}
+): ShrunkEstimate[] {
+    const { confidence = 0.95 } = options;
+    if (groups.length === 0) return [];
+
+    // DerSimonian-Laird: inverse-variance weights keep one noisy group from dominating the spread
+    const weights = groups.map(g => 1 / Math.max(g.variance, 1e-12));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    let priorMean: number;
+    let priorMeanVariance: number;
+    let betweenVariance: number;
+
+    if (options.priorMean !== undefined) {
+        priorMean = options.priorMean;
+        priorMeanVariance = options.priorMeanVariance ?? 0;
+        const q = groups.reduce((sum, g, i) => sum + weights[i] * Math.pow(g.mean - priorMean, 2), 0);
+        betweenVariance = Math.max(0, (q - groups.length) / totalWeight);
+    } else if (groups.length >= 2) {
+        priorMean = groups.reduce((sum, g, i) => sum + weights[i] * g.mean, 0) / totalWeight;
+        priorMeanVariance = 1 / totalWeight;
+        const q = groups.reduce((sum, g, i) => sum + weights[i] * Math.pow(g.mean - priorMean, 2), 0);
+        const scale = totalWeight - weights.reduce((sum, w) => sum + w * w, 0) / totalWeight;
+        betweenVariance = Math.max(0, (q - (groups.length - 1)) / scale);
+    } else {
+        // One group and no prior: nothing to shrink toward
+        priorMean = groups[0].mean;
+        priorMeanVariance = 0;
+        betweenVariance = Infinity;
+    }
+
+    // Groups left to estimate the shrinkage after fitting the prior (Morris: k - 2 known mean, k - 3 estimated)
+    const spareGroups = Math.max(1, groups.length - (options.priorMean !== undefined ? 2 : 3));
+
+    return groups.map(g => {
+        const shrinkage = Number.isFinite(betweenVariance) && g.variance + betweenVariance > 0
+            ? g.variance / (g.variance + betweenVariance)
+            : 0;
+        const estimate = priorMean + (1 - shrinkage) * (g.mean - priorMean);
+        const posteriorSD = Math.sqrt(
+            (1 - shrinkage) * g.variance +
+            shrinkage * shrinkage * (priorMeanVariance + 2 * Math.pow(g.mean - priorMean, 2) / spareGroups)
+        );
+        const critical = studentTQuantile(1 - (1 - confidence) / 2, Math.max(1, g.degreesOfFreedom));
+
+        return {
+            raw: g.mean,
+            estimate,
+            lower: estimate - critical * posteriorSD,
+            upper: estimate + critical * posteriorSD,
+            shrinkage: Math.round(shrinkage * 100) / 100
+        };
+    });
+}
+
+// Shrink the log-view mean of each group (e.g. duration buckets) toward the baseline's log mean.
+// Values come back on the view scale: typical (geometric-mean) views. Empty groups are null.
+export function shrinkGroupMeans(
+    groups: number[][],
+    baseline: number[] = groups.flat(),
+    options: { confidence?: number } = {}
+): { baseline: number; groups: (ShrunkEstimate & { n: number } | null)[] } {
+    const logGroups = groups.map(g => g.map(logTransform));
+    const logBaseline = baseline.map(logTransform);
+    const priorMean = calculateMean(logBaseline);
+
+    // Pooled within-group variance (sample variance, groups of 2+)
+    let sumSquares = 0;
+    let pooledDf = 0;
+    logGroups.filter(g => g.length >= 2).forEach(g => {
+        const mean = calculateMean(g);
+        sumSquares += g.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0);
+        pooledDf += g.length - 1;
+    });
+    const withinVariance = pooledDf > 0
+        ? sumSquares / pooledDf
+        : Math.pow(calculateStdDev(logBaseline), 2);
+    const degreesOfFreedom = pooledDf > 0 ? pooledDf : Math.max(1, logBaseline.length - 1);
+
+    const nonEmpty = logGroups.filter(g => g.length > 0);
+    const shrunk = shrinkEstimates(
+        nonEmpty.map(g => ({ mean: calculateMean(g), variance: withinVariance / g.length, degreesOfFreedom })),
+        { priorMean, priorMeanVariance: withinVariance / Math.max(1, logBaseline.length), confidence: options.confidence }
+    );
+
+    let next = 0;
+    return {
+        baseline: Math.round(expTransform(priorMean)),
+        groups: logGroups.map(g => {
+            if (g.length === 0) return null;
+            const s = shrunk[next++];
+            return {
+                n: g.length,
+                raw: Math.round(expTransform(s.raw)),
+                estimate: Math.round(expTransform(s.estimate)),
+                lower: Math.round(expTransform(s.lower)),
+                upper: Math.round(expTransform(s.upper)),
+                shrinkage: s.shrinkage
+            };
+        })
+    };
+}
+
+// Shrink each pattern's log lift (log-mean views with vs. without the pattern) toward "no lift".
+// Values come back as lift ratios; splits too small to test are null.
+export function shrinkPatternLifts(
+    splits: { withPattern: number[]; withoutPattern: number[] }[],
+    options: { confidence?: number } = {}
+): (ShrunkEstimate | null)[] {
+    const isTested = (s: { withPattern: number[]; withoutPattern: number[] }) =>
+        s.withPattern.length >= MIN_LIFT_SAMPLES && s.withoutPattern.length >= MIN_LIFT_SAMPLES;
+
+    const estimates: GroupEstimate[] = splits.filter(isTested).map(({ withPattern, withoutPattern }) => {
+        const logWith = withPattern.map(logTransform);
+        const logWithout = withoutPattern.map(logTransform);
+        const mean1 = calculateMean(logWith);
+        const mean2 = calculateMean(logWithout);
+        const var1 = logWith.reduce((sum, v) => sum + Math.pow(v - mean1, 2), 0) / (logWith.length - 1);
+        const var2 = logWithout.reduce((sum, v) => sum + Math.pow(v - mean2, 2), 0) / (logWithout.length - 1);
+        const { standardError, degreesOfFreedom } = welchTTest(mean1, var1, logWith.length, mean2, var2, logWithout.length);
+
+        return { mean: mean1 - mean2, variance: standardError * standardError, degreesOfFreedom };
+    });
+
+    const shrunk = shrinkEstimates(estimates, { priorMean: 0, confidence: options.confidence });
+    const toRatio = (logLift: number) => Math.round(Math.exp(logLift) * 100) / 100;
+
+    let next = 0;
+    return splits.map(split => {
+        if (!isTested(split)) return null;
+        const s = shrunk[next++];
+        return {
+            raw: toRatio(s.raw),
+            estimate: toRatio(s.estimate),
+            lower: toRatio(s.lower),
+            upper: toRatio(s.upper),
+            shrinkage: s.shrinkage
+        };
+    });
+}
@@ -0,0 +1,103 @@
+/**
+ * Search Demand Sources
+ * Cached wrappers around Google Trends (with shared rate-limit backoff) and YouTube autocomplete
+ */
+
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import googleTrends from 'google-trends-api';
+import { RequestCache } from './cache';
+
+type TrendsOptions = Parameters<typeof googleTrends.interestOverTime>[0];
+
+const BACKOFF_FILE = path.join(process.env.DATA_DIR || '.data', 'trends-backoff.json');
+
+// First rate limit pauses Trends for 15 minutes, doubling per consecutive hit up to a day
+const BACKOFF_BASE_MS = 15 * 60 * 1000;
+const BACKOFF_MAX_MS = 24 * 60 * 60 * 1000;
+
+interface BackoffState {
+    failures: number;
+    until: number;
+}
+
+export class TrendsRateLimitError extends Error {
+    constructor(public retryAt: number) {
+        super(`Google Trends is rate limiting; backing off until ${new Date(retryAt).toISOString()}`);
+        this.name = 'TrendsRateLimitError';
+    }
+}
+
+function readBackoff(): BackoffState {
+    try {
+        return JSON.parse(fs.readFileSync(BACKOFF_FILE, 'utf8'));
+    } catch {
+        return { failures: 0, until: 0 };
+    }
+}
+
+function writeBackoff(state: BackoffState): void {
+    try {
+        fs.mkdirSync(path.dirname(BACKOFF_FILE), { recursive: true });
+        fs.writeFileSync(BACKOFF_FILE, JSON.stringify(state, null, 2));
+    } catch (error) {
+        console.error('Failed to persist Trends backoff:', error);
+    }
+}
+
+// Shared across processes so the scheduler and interactive requests back off together
+export function trendsBackoffUntil(): number | null {
+    const { until } = readBackoff();
+    return until > Date.now() ? until : null;
+}
+
+function noteRateLimit(): number {
+    const failures = readBackoff().failures + 1;
+    const until = Date.now() + Math.min(BACKOFF_BASE_MS * 2 ** (failures - 1), BACKOFF_MAX_MS);
+    writeBackoff({ failures, until });
+    return until;
+}
+
+// Trends answers a rate limit with an HTML page instead of JSON, either as the
+// resolved value or as a parse error carrying the page in `requestBody`
+async function callTrends(load: () => Promise<string>): Promise<string> {
+    const blockedUntil = trendsBackoffUntil();
+    if (blockedUntil) throw new TrendsRateLimitError(blockedUntil);
+
+    let text: string;
+    try {
+        text = await load();
+    } catch (error) {
+        if (error instanceof SyntaxError && 'requestBody' in error) {
+            throw new TrendsRateLimitError(noteRateLimit());
+        }
+        throw error;
+    }
+
+    if (!text.trim().startsWith('{')) {
+        throw new TrendsRateLimitError(noteRateLimit());
+    }
+    if (readBackoff().failures > 0) writeBackoff({ failures: 0, until: 0 });
+    return text;
+}
+
+// Raw JSON string, same shape as google-trends-api returns
+export function fetchInterestOverTime(cache: RequestCache, options: TrendsOptions): Promise<string> {
+    return cache.fetch('trends.interestOverTime', { ...options }, () => callTrends(() => googleTrends.interestOverTime(options)));
+}
+
+export function fetchRelatedQueries(cache: RequestCache, options: TrendsOptions): Promise<string> {
+    return cache.fetch('trends.relatedQueries', { ...options }, () => callTrends(() => googleTrends.relatedQueries(options)));
+}
+
+// Raw JSONP text from the YouTube suggest endpoint
+export function fetchAutocomplete(cache: RequestCache, query: string): Promise<string> {
+    return cache.fetch('autocomplete', { q: query }, async () => {
+        const response = await axios.get('https://suggestqueries.google.com/complete/search', {
+            params: { client: 'youtube', ds: 'yt', q: query },
+            responseType: 'text'
+        });
+        return response.data.toString();
+    });
+}
@@ -0,0 +1,160 @@
+/**
+ * Video & Channel Model
+ * Canonical shapes for YouTube videos and channels; derived metrics (duration bucket, age, velocity) are computed here only
+ */
+
+import { currentTime } from './fixtures';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Anything this short is treated as a Short, both for isShort and the length buckets
+export const SHORTS_MAX_SECONDS = 60;
+
+// Raw videos.list item; every part is optional so partial `part=` requests normalize too
+export interface YouTubeVideoItem {
+    id: string;
+    snippet?: {
+        title?: string;
+        description?: string;
+        channelId?: string;
+        channelTitle?: string;
+        publishedAt?: string;
+        tags?: string[];
+        thumbnails?: Record<string, { url: string } | undefined>;
+    };
+    statistics?: { viewCount?: string; likeCount?: string; commentCount?: string };
+    contentDetails?: { duration?: string };
+}
+
+export interface VideoData {
+    id: string;
+    title: string;
+    description: string;
+    channelId: string;
+    channelTitle: string;
+    publishedAt: string;
+    tags: string[];
+    thumbnail: string;
+    views: number;
+    likes: number;
+    comments: number;
+    duration: string;           // ISO 8601, as returned by the API
+    durationSec: number;
+    lengthCategory: string;
+    isShort: boolean;
+    daysSinceUpload: number;
+    velocity: number;           // views per day since upload
+}
+
+// Raw channels.list item
+export interface YouTubeChannelItem {
+    id: string;
+    snippet?: {
+        title?: string;
+        description?: string;
+        thumbnails?: Record<string, { url: string } | undefined>;
+    };
+    statistics?: { subscriberCount?: string; viewCount?: string; videoCount?: string };
+    contentDetails?: { relatedPlaylists?: { uploads?: string } };
+}
+
+export interface ChannelData {
+    id: string;
+    title: string;
+    description: string;
+    thumbnail: string;
+    subscribers: number;
+    viewCount: number;
+    videoCount: number;
+    uploadsPlaylistId: string | null;
+}
+
+// ISO 8601 duration (PT1H2M3S, P1DT2H) -> seconds
+export function parseDuration(isoDuration: string): number {
+    const match = isoDuration.match(/P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?/);
+    if (!match) return 0;
+    return parseInt(match[1] || '0', 10) * 86400 +
+        parseInt(match[2] || '0', 10) * 3600 +
+        parseInt(match[3] || '0', 10) * 60 +
+        parseInt(match[4] || '0', 10);
+}
+
+export function isShortDuration(seconds: number): boolean {
+    return seconds <= SHORTS_MAX_SECONDS;
+}
+
+export function categorizeDuration(seconds: number): string {
+    if (isShortDuration(seconds)) return 'Shorts (<1 min)';
+    if (seconds < 300) return 'Short (1-5 min)';
+    if (seconds < 600) return 'Medium (5-10 min)';
+    if (seconds < 1200) return 'Long (10-20 min)';
+    return 'Very Long (>20 min)';
+}
+
+// Whole days since upload, never below 1 so velocity stays finite for same-day videos.
+// A missing or unparseable date also counts as 1 day rather than NaN, which would poison
+// velocity and every fit downstream.
+export function daysSinceUpload(publishedAt: string): number {
+    const publishedMs = new Date(publishedAt).getTime();
+    if (Number.isNaN(publishedMs)) return 1;
+    return Math.max(1, Math.floor((currentTime() - publishedMs) / DAY_MS));
+}
+
+function bestThumbnail(thumbnails: Record<string, { url: string } | undefined> = {}): string {
+    return thumbnails.high?.url || thumbnails.medium?.url || thumbnails.default?.url || '';
+}
+
+function toCount(value: string | undefined): number {
+    return parseInt(value || '0', 10);
+}
+
+export function normalizeVideo(item: YouTubeVideoItem): VideoData {
+    const snippet = item.snippet || {};
+    const duration = item.contentDetails?.duration || 'PT0S';
+    const durationSec = parseDuration(duration);
+    const publishedAt = snippet.publishedAt || '';
+    const views = toCount(item.statistics?.viewCount);
+    const days = daysSinceUpload(publishedAt);
+
+    return {
+        id: item.id,
+        title: snippet.title || '',
+        description: snippet.description || '',
+        channelId: snippet.channelId || '',
+        channelTitle: snippet.channelTitle || '',
+        publishedAt,
+        tags: snippet.tags || [],
+        thumbnail: bestThumbnail(snippet.thumbnails),
+        views,
+        likes: toCount(item.statistics?.likeCount),
+        comments: toCount(item.statistics?.commentCount),
+        duration,
+        durationSec,
+        lengthCategory: categorizeDuration(durationSec),
+        isShort: isShortDuration(durationSec),
+        daysSinceUpload: days,
+        velocity: views / days
+    };
+}
+
+export function normalizeVideos(items: YouTubeVideoItem[] = []): VideoData[] {
+    return items.map(normalizeVideo);
+}
+
+export function normalizeChannel(item: YouTubeChannelItem): ChannelData {
+    const snippet = item.snippet || {};
+    return {
+        id: item.id,
+        title: snippet.title || '',
+        description: snippet.description || '',
+        thumbnail: snippet.thumbnails?.medium?.url || snippet.thumbnails?.default?.url || '',
+        subscribers: toCount(item.statistics?.subscriberCount),
+        viewCount: toCount(item.statistics?.viewCount),
+        videoCount: toCount(item.statistics?.videoCount),
+        uploadsPlaylistId: item.contentDetails?.relatedPlaylists?.uploads || null
+    };
+}
+
+export function normalizeChannels(items: YouTubeChannelItem[] = []): ChannelData[] {
+    return items.map(normalizeChannel);
+}
@@ -0,0 +1,248 @@
+/**
+ * Watchlist
+ * Niches and channels that the scheduler re-analyzes on a cadence, with every run's result kept on disk
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { channelBaselineCost } from './expected-views';
+import { UNIT_COSTS } from './youtube';
+
+const DATA_DIR = process.env.DATA_DIR || '.data';
+const WATCHLIST_FILE = path.join(DATA_DIR, 'watchlist.json');
+const RUNS_DIR = path.join(DATA_DIR, 'watchlist-runs');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Failed runs come back sooner than the cadence, in case the cause was transient
+const ERROR_RETRY_HOURS = 6;
+
+export type WatchTool = 'analyze' | 'momentum' | 'gaps' | 'breakout' | 'channel';
+export type WatchKind = 'niche' | 'channel';
+
+// Breakout scans a niche for rising channels, so it is registered on niche entries
+export const TOOLS_BY_KIND: Record<WatchKind, WatchTool[]> = {
+    niche: ['analyze', 'momentum', 'gaps', 'breakout'],
+    channel: ['channel']
+};
+
+// Query parameter each route reads its target from
+export const TOOL_PARAMS: Record<WatchTool, string> = {
+    analyze: 'q',
+    momentum: 'topic',
+    gaps: 'seed',
+    breakout: 'niche',
+    channel: 'channel'
+};
+
+// Mirrors each route's up-front reserve() so jobs that cannot fit are skipped before they start
+export const TOOL_COST_ESTIMATES: Record<WatchTool, number> = {
+    analyze: 2 * (UNIT_COSTS.search + UNIT_COSTS.videos) + channelBaselineCost(2 * 50),
+    momentum: 12 * (UNIT_COSTS.search + UNIT_COSTS.videos),
+    gaps: 8 * (UNIT_COSTS.search + UNIT_COSTS.videos + UNIT_COSTS.channels),
+    breakout: UNIT_COSTS.search + UNIT_COSTS.videos + 15 * (UNIT_COSTS.channels + UNIT_COSTS.playlistItems + UNIT_COSTS.videos),
+    channel: UNIT_COSTS.search + UNIT_COSTS.channels + UNIT_COSTS.playlistItems + UNIT_COSTS.videos
+};
+
+// Tools whose output depends on Google Trends; postponed while Trends is backing off
+export const TRENDS_TOOLS: WatchTool[] = ['analyze', 'momentum', 'gaps'];
+
+export const CADENCE_HOURS = {
+    daily: 24,
+    weekly: 24 * 7
+} as const;
+
+export type JobStatus = 'ok' | 'error' | 'deferred';
+
+export interface WatchJob {
+    tool: WatchTool;
+    nextRunAt: string;
+    lastRunAt: string | null;
+    lastStatus: JobStatus | null;
+    lastMessage: string | null;
+    retryPending: boolean;            // a Trends-limited run gets one retry once the backoff ends
+}
+
+export interface WatchEntry {
+    id: string;
+    kind: WatchKind;
+    target: string;
+    region: string;
+    cadenceHours: number;
+    createdAt: string;
+    jobs: WatchJob[];
+}
+
+export interface WatchRun {
+    ranAt: string;
+    status: JobStatus;
+    httpStatus: number;
+    quotaUnits: number;
+    trendsLimited: boolean;
+    error: string | null;
+    result: unknown;
+}
+
+export class WatchlistError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WatchlistError';
+    }
+}
+
+function readWatchlist(): WatchEntry[] {
+    try {
+        return JSON.parse(fs.readFileSync(WATCHLIST_FILE, 'utf8')).entries || [];
+    } catch {
+        return [];
+    }
+}
+
+function writeWatchlist(entries: WatchEntry[]): void {
+    fs.mkdirSync(path.dirname(WATCHLIST_FILE), { recursive: true });
+    fs.writeFileSync(WATCHLIST_FILE, JSON.stringify({ entries }, null, 2));
+}
+
+function updateJob(entryId: string, tool: WatchTool, update: (job: WatchJob, entry: WatchEntry) => void): void {
+    const entries = readWatchlist();
+    const entry = entries.find(e => e.id === entryId);
+    const job = entry?.jobs.find(j => j.tool === tool);
+    if (!entry || !job) return;
+    update(job, entry);
+    writeWatchlist(entries);
+}
+
+// "daily", "weekly" or a number of hours
+export function parseCadence(cadence: string | number | undefined): number {
+    if (cadence === undefined) return CADENCE_HOURS.weekly;
+    if (typeof cadence === 'string' && cadence in CADENCE_HOURS) {
+        return CADENCE_HOURS[cadence as keyof typeof CADENCE_HOURS];
+    }
+    const hours = Number(cadence);
+    if (!Number.isFinite(hours) || hours < 1) {
+        throw new WatchlistError('Invalid cadence. Use "daily", "weekly" or a number of hours (>= 1).');
+    }
+    return hours;
+}
+
+export function listWatchlist(): WatchEntry[] {
+    return readWatchlist();
+}
+
+export function addWatchEntry(input: {
+    kind: WatchKind;
+    target: string;
+    region?: string;
+    cadence?: string | number;
+    tools?: WatchTool[];
+}): WatchEntry {
+    const target = input.target?.trim();
+    if (!target) throw new WatchlistError('Missing "target"');
+
+    const allowed = TOOLS_BY_KIND[input.kind];
+    if (!allowed) throw new WatchlistError('Invalid "kind". Use "niche" or "channel".');
+
+    const tools = input.tools?.length ? input.tools : allowed;
+    const invalid = tools.filter(t => !allowed.includes(t));
+    if (invalid.length > 0) {
+        throw new WatchlistError(`${invalid.join(', ')} cannot run on a ${input.kind}. Allowed: ${allowed.join(', ')}`);
+    }
+
+    const entries = readWatchlist();
+    const region = (input.region || 'US').toUpperCase();
+    if (entries.some(e => e.kind === input.kind && e.target.toLowerCase() === target.toLowerCase() && e.region === region)) {
+        throw new WatchlistError(`"${target}" is already on the watchlist`);
+    }
+
+    // New entries are due immediately
+    const now = new Date().toISOString();
+    const entry: WatchEntry = {
+        id: crypto.randomBytes(4).toString('hex'),
+        kind: input.kind,
+        target,
+        region,
+        cadenceHours: parseCadence(input.cadence),
+        createdAt: now,
+        jobs: [...new Set(tools)].map(tool => ({
+            tool,
+            nextRunAt: now,
+            lastRunAt: null,
+            lastStatus: null,
+            lastMessage: null,
+            retryPending: false
+        }))
+    };
+
+    writeWatchlist([...entries, entry]);
+    return entry;
+}
+
+export function removeWatchEntry(id: string): boolean {
+    const entries = readWatchlist();
+    const remaining = entries.filter(e => e.id !== id);
+    if (remaining.length === entries.length) return false;
+    writeWatchlist(remaining);
+    return true;
+}
+
+// Jobs whose nextRunAt has passed, most overdue first
+export function dueJobs(now: number = Date.now()): { entry: WatchEntry; job: WatchJob }[] {
+    return readWatchlist()
+        .flatMap(entry => entry.jobs.map(job => ({ entry, job })))
+        .filter(({ job }) => new Date(job.nextRunAt).getTime() <= now)
+        .sort((a, b) => a.job.nextRunAt.localeCompare(b.job.nextRunAt));
+}
+
+// Postponed jobs keep their place; `until` moves them only when the wait is known (Trends backoff)
+export function deferJob(entryId: string, tool: WatchTool, reason: string, until?: number): void {
+    updateJob(entryId, tool, job => {
+        job.lastStatus = 'deferred';
+        job.lastMessage = reason;
+        if (until) job.nextRunAt = new Date(until).toISOString();
+    });
+}
+
+function runsFile(entryId: string, tool: WatchTool): string {
+    return path.join(RUNS_DIR, entryId, `${tool}.jsonl`);
+}
+
+export function recordRun(entryId: string, tool: WatchTool, run: WatchRun, retryAt?: number): void {
+    const file = runsFile(entryId, tool);
+    try {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.appendFileSync(file, JSON.stringify(run) + '\n');
+    } catch (error) {
+        console.error('Failed to store watchlist run:', error);
+    }
+
+    updateJob(entryId, tool, (job, entry) => {
+        job.lastRunAt = run.ranAt;
+        job.lastStatus = run.status;
+        job.lastMessage = run.error || (run.trendsLimited ? 'Google Trends was rate limited during this run' : null);
+
+        // One retry after the Trends backoff; YouTube responses are cached by then so it costs little quota
+        if (retryAt && !job.retryPending) {
+            job.retryPending = true;
+            job.nextRunAt = new Date(retryAt).toISOString();
+        } else {
+            const waitHours = run.status === 'error' ? Math.min(ERROR_RETRY_HOURS, entry.cadenceHours) : entry.cadenceHours;
+            job.retryPending = false;
+            job.nextRunAt = new Date(new Date(run.ranAt).getTime() + waitHours * HOUR_MS).toISOString();
+        }
+    });
+}
+
+// Most recent first
+export function listRuns(entryId: string, tool: WatchTool, limit: number = 10): WatchRun[] {
+    try {
+        return fs.readFileSync(runsFile(entryId, tool), 'utf8')
+            .split('\n')
+            .filter(line => line.trim())
+            .map(line => JSON.parse(line) as WatchRun)
+            .reverse()
+            .slice(0, limit);
+    } catch {
+        return [];
+    }
+}
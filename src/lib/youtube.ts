@@ -0,0 +1,151 @@
+/**
+ * YouTube Data API Client
+ * Single entry point for Data API calls so quota spend is accounted per route and per request
+ */
+
+import fs from 'fs';
+import path from 'path';
+import axios, { AxiosResponse } from 'axios';
+import { RequestCache } from './cache';
+import { FIXTURE_MODE } from './fixtures';
+
+const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
+const BASE_URL = 'https://www.googleapis.com/youtube/v3';
+
+// Default matches the standard Data API project allocation
+const DAILY_QUOTA_BUDGET = parseInt(process.env.YOUTUBE_DAILY_QUOTA || '10000', 10);
+const LEDGER_FILE = path.join(process.env.DATA_DIR || '.data', 'youtube-quota.json');
+
+// Unit cost per list call, from the Data API quota calculator
+export const UNIT_COSTS = {
+    search: 100,
+    videos: 1,
+    channels: 1,
+    playlistItems: 1
+} as const;
+
+export type YouTubeEndpoint = keyof typeof UNIT_COSTS;
+
+interface QuotaLedger {
+    date: string;
+    total: number;
+    routes: Record<string, number>;
+}
+
+export interface QuotaReport {
+    route: string;
+    requestUnits: number;
+    calls: Partial<Record<YouTubeEndpoint, number>>;
+    routeUnitsToday: number;
+    dailyUnitsUsed: number;
+    dailyBudget: number;
+    remaining: number;
+}
+
+export class QuotaExceededError extends Error {
+    constructor(public requested: number, public remaining: number) {
+        super(`Daily YouTube quota budget exceeded: request needs ${requested} units, ${remaining} remaining`);
+        this.name = 'QuotaExceededError';
+    }
+}
+
+// Quota resets at midnight Pacific, so the ledger is keyed by the Pacific date
+function quotaDay(): string {
+    return new Date().toLocaleDateString('en-CA', { timeZone: 'America/Los_Angeles' });
+}
+
+function readLedger(): QuotaLedger {
+    const today = quotaDay();
+    try {
+        const ledger: QuotaLedger = JSON.parse(fs.readFileSync(LEDGER_FILE, 'utf8'));
+        if (ledger.date === today) return ledger;
+    } catch {
+        // Missing or corrupt ledger starts a fresh day
+    }
+    return { date: today, total: 0, routes: {} };
+}
+
+function writeLedger(ledger: QuotaLedger): void {
+    try {
+        fs.mkdirSync(path.dirname(LEDGER_FILE), { recursive: true });
+        fs.writeFileSync(LEDGER_FILE, JSON.stringify(ledger, null, 2));
+    } catch (error) {
+        console.error('Failed to persist quota ledger:', error);
+    }
+}
+
+// Replay needs no key: every response comes from recorded fixtures
+export function isYouTubeConfigured(): boolean {
+    return Boolean(YOUTUBE_API_KEY) || FIXTURE_MODE === 'replay';
+}
+
+// Today's spend across all routes
+export function getQuotaUsage(): QuotaLedger & { dailyBudget: number; remaining: number } {
+    const ledger = readLedger();
+    return { ...ledger, dailyBudget: DAILY_QUOTA_BUDGET, remaining: Math.max(0, DAILY_QUOTA_BUDGET - ledger.total) };
+}
+
+export interface YouTubeClient {
+    reserve(units: number): void;
+    get(endpoint: YouTubeEndpoint, params: Record<string, string | number | undefined>): Promise<Pick<AxiosResponse, 'data'>>;
+    quota(): QuotaReport;
+}
+
+// One client per incoming request; `route` labels the spend in the ledger.
+// Responses served from `cache` cost no quota.
+export function createYouTubeClient(route: string, cache?: RequestCache): YouTubeClient {
+    let requestUnits = 0;
+    const calls: Partial<Record<YouTubeEndpoint, number>> = {};
+
+    const assertBudget = (units: number) => {
+        const remaining = DAILY_QUOTA_BUDGET - readLedger().total;
+        if (units > remaining) {
+            throw new QuotaExceededError(units, Math.max(0, remaining));
+        }
+    };
+
+    return {
+        // Refuse up front when the planned calls would not fit in today's budget
+        reserve(units: number) {
+            if (FIXTURE_MODE === 'replay') return;
+            assertBudget(units);
+        },
+
+        async get(endpoint, params) {
+            const load = async () => {
+                const cost = UNIT_COSTS[endpoint];
+                assertBudget(cost);
+
+                // Charged before the call: the API bills failed requests too
+                const ledger = readLedger();
+                ledger.total += cost;
+                ledger.routes[route] = (ledger.routes[route] || 0) + cost;
+                writeLedger(ledger);
+
+                requestUnits += cost;
+                calls[endpoint] = (calls[endpoint] || 0) + 1;
+
+                const response = await axios.get(`${BASE_URL}/${endpoint}`, {
+                    params: { ...params, key: YOUTUBE_API_KEY }
+                });
+                return response.data;
+            };
+
+            const data = cache ? await cache.fetch(`youtube.${endpoint}`, params, load) : await load();
+            return { data };
+        },
+
+        quota() {
+            const ledger = readLedger();
+            return {
+                route,
+                requestUnits,
+                calls: { ...calls },
+                routeUnitsToday: ledger.routes[route] || 0,
+                dailyUnitsUsed: ledger.total,
+                dailyBudget: DAILY_QUOTA_BUDGET,
+                remaining: Math.max(0, DAILY_QUOTA_BUDGET - ledger.total)
+            };
+        }
+    };
+}